@@ -52,9 +52,28 @@ export default [
         RTCSessionDescriptionInit: 'readonly',
         RTCIceCandidateInit: 'readonly',
         RTCRtpSender: 'readonly',
+        RTCDataChannel: 'readonly',
+        RTCDataChannelInit: 'readonly',
+        RTCDataChannelState: 'readonly',
         HTMLVideoElement: 'readonly',
+        HTMLCanvasElement: 'readonly',
+        CanvasRenderingContext2D: 'readonly',
         HTMLDivElement: 'readonly',
-        PopStateEvent: 'readonly'
+        PopStateEvent: 'readonly',
+        RTCConfiguration: 'readonly',
+        RTCIceServer: 'readonly',
+        RTCPeerConnectionState: 'readonly',
+        RTCIceConnectionState: 'readonly',
+        RTCIceGatheringState: 'readonly',
+        RTCSignalingState: 'readonly',
+        RTCSdpType: 'readonly',
+        RTCRtpSendParameters: 'readonly',
+        RTCRtpTransceiverDirection: 'readonly',
+        MediaStreamTrackState: 'readonly',
+        MediaTrackSettings: 'readonly',
+        MediaTrackConstraints: 'readonly',
+        MediaDeviceInfo: 'readonly',
+        MediaDeviceKind: 'readonly'
       }
     },
     rules: {
@@ -0,0 +1,97 @@
+// scripts/purgeRooms.ts - delete abandoned rooms and old signaling messages from Firebase
+//
+// Rooms are normally cleaned up by the clients in them, which leaves rooms that nobody ever
+// comes back to. Run this periodically (e.g. from cron) with a database secret, which the
+// REST API accepts as admin credentials that bypass the security rules:
+//
+//   FIREBASE_DATABASE_URL=https://<project>.firebaseio.com FIREBASE_DATABASE_SECRET=... \
+//     npm run purge-rooms
+import {
+  ABANDONED_AFTER_MS,
+  EXPIRING_MESSAGE_PATHS,
+  isMessageExpired,
+  lastActivity,
+} from '../src/signaling/presence';
+import type { RoomUsers } from '../src/signaling/types';
+
+const DATABASE_URL = (
+  process.env.FIREBASE_DATABASE_URL ||
+  process.env.VITE_FIREBASE_DATABASE_URL ||
+  ''
+).replace(/\/$/, '');
+const DATABASE_SECRET = process.env.FIREBASE_DATABASE_SECRET;
+// Rooms whose users have all been gone this long are deleted
+const MAX_AGE_MS = Number(process.env.PURGE_AFTER_MS) || ABANDONED_AFTER_MS;
+const DRY_RUN = process.argv.includes('--dry-run');
+
+const request = async <T>(path: string, init?: RequestInit, query = ''): Promise<T> => {
+  const auth = `auth=${encodeURIComponent(DATABASE_SECRET as string)}`;
+  const response = await fetch(`${DATABASE_URL}/${path}.json?${auth}${query}`, init);
+  if (!response.ok) {
+    throw new Error(`${init?.method ?? 'GET'} ${path} failed: ${response.status}`);
+  }
+  return (await response.json()) as T;
+};
+
+const purgeRoom = async (roomId: string, before: number): Promise<'deleted' | number> => {
+  const users = (await request<RoomUsers | null>(`rooms/${roomId}/users`)) ?? {};
+  const active = Object.values(users).some(user => lastActivity(user) >= before);
+
+  if (!active) {
+    if (!DRY_RUN) await request(`rooms/${roomId}`, { method: 'DELETE' });
+    return 'deleted';
+  }
+
+  // Someone is still around: only drop messages nobody is going to read any more
+  const updates: Record<string, null> = {};
+  for (const path of EXPIRING_MESSAGE_PATHS) {
+    const messages =
+      (await request<Record<string, { timestamp: string }> | null>(`rooms/${roomId}/${path}`)) ??
+      {};
+    Object.entries(messages).forEach(([key, message]) => {
+      if (isMessageExpired(message, before)) updates[`${path}/${key}`] = null;
+    });
+  }
+
+  const count = Object.keys(updates).length;
+  if (count > 0 && !DRY_RUN) {
+    await request(`rooms/${roomId}`, { method: 'PATCH', body: JSON.stringify(updates) });
+  }
+  return count;
+};
+
+const main = async () => {
+  if (!DATABASE_URL || !DATABASE_SECRET) {
+    console.error('FIREBASE_DATABASE_URL and FIREBASE_DATABASE_SECRET must be set');
+    process.exit(1);
+  }
+
+  const before = Date.now() - MAX_AGE_MS;
+  // Shallow: just the room IDs, not everything in them
+  const rooms =
+    (await request<Record<string, true> | null>('rooms', undefined, '&shallow=true')) ?? {};
+  let deleted = 0;
+
+  for (const roomId of Object.keys(rooms)) {
+    try {
+      const result = await purgeRoom(roomId, before);
+      if (result === 'deleted') {
+        deleted += 1;
+        console.log(`${DRY_RUN ? 'Would delete' : 'Deleted'} abandoned room ${roomId}`);
+      } else if (result > 0) {
+        console.log(
+          `${DRY_RUN ? 'Would remove' : 'Removed'} ${result} old messages from ${roomId}`
+        );
+      }
+    } catch (err) {
+      console.error(`Error purging room ${roomId}:`, err);
+    }
+  }
+
+  console.log(`Checked ${Object.keys(rooms).length} rooms, ${deleted} abandoned`);
+};
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
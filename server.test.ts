@@ -0,0 +1,378 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+
+import { TURN_CREDENTIALS_PATH } from './src/ice/turnRest';
+import type { RoomUser } from './src/signaling/types';
+import type { ClientMessage, ServerMessage } from './src/signaling/wsProtocol';
+import { startSignalingServer, TestSignalingServer } from './src/test/signalingServer';
+
+type Kind = ServerMessage['kind'];
+type Message<K extends Kind> = Extract<ServerMessage, { kind: K }>;
+
+interface TestSocket {
+  // Everything the server sent, in order
+  received: ServerMessage[];
+  send: (message: ClientMessage) => void;
+  // The next message of this kind matching `match`, waiting if needed. Earlier messages of the
+  // kind are skipped for good.
+  next: <K extends Kind>(kind: K, match?: (message: Message<K>) => boolean) => Promise<Message<K>>;
+  close: () => void;
+}
+
+const MESSAGE_TIMEOUT_MS = 5000;
+const PASSCODE_HASH = 'a'.repeat(64);
+
+let server: TestSignalingServer;
+let roomCounter = 0;
+const sockets: WebSocket[] = [];
+
+const user = (extra: Partial<RoomUser> = {}): RoomUser => ({
+  joined: new Date().toISOString(),
+  active: false,
+  status: 'pending',
+  ...extra,
+});
+
+const connect = async (query: string): Promise<TestSocket> => {
+  const ws = new WebSocket(`${server.signalingUrl}?${query}`);
+  sockets.push(ws);
+
+  const received: ServerMessage[] = [];
+  const unread: ServerMessage[] = [];
+  const waiters = new Set<() => void>();
+  ws.on('message', data => {
+    const message = JSON.parse(data.toString()) as ServerMessage;
+    received.push(message);
+    unread.push(message);
+    waiters.forEach(waiter => waiter());
+  });
+  await new Promise((resolve, reject) => {
+    ws.once('open', resolve);
+    ws.once('error', reject);
+  });
+
+  const next = <K extends Kind>(kind: K, match: (message: Message<K>) => boolean = () => true) =>
+    new Promise<Message<K>>((resolve, reject) => {
+      const check = () => {
+        const index = unread.findIndex(
+          message => message.kind === kind && match(message as Message<K>)
+        );
+        if (index === -1) return;
+        waiters.delete(check);
+        clearTimeout(timer);
+        const message = unread[index] as Message<K>;
+        unread.splice(
+          0,
+          index + 1,
+          ...unread.slice(0, index).filter(earlier => earlier.kind !== kind)
+        );
+        resolve(message);
+      };
+      const timer = setTimeout(() => {
+        waiters.delete(check);
+        reject(new Error(`No ${kind} message, got ${JSON.stringify(received)}`));
+      }, MESSAGE_TIMEOUT_MS);
+      waiters.add(check);
+      check();
+    });
+
+  return {
+    received,
+    send: message => ws.send(JSON.stringify(message)),
+    next,
+    close: () => ws.close(),
+  };
+};
+
+const joinAs = async (
+  socket: TestSocket,
+  userId: string,
+  extra: Partial<Extract<ClientMessage, { kind: 'join' }>> = {}
+) => {
+  socket.send({ kind: 'join', userId, user: user(), ...extra });
+  return socket.next('join-result', result => result.userId === userId);
+};
+
+// A room with alice as its host
+const createRoom = async () => {
+  const roomId = `room-${++roomCounter}`;
+  const alice = await connect(`room=${roomId}`);
+  const { sessionToken = '' } = await joinAs(alice, 'alice');
+  alice.send({ kind: 'claim-host', userId: 'alice' });
+  await alice.next('host-result');
+  return { roomId, alice, sessionToken };
+};
+
+const admit = async (host: TestSocket, userId: string) => {
+  host.send({ kind: 'set-admission', userId, status: 'admitted' });
+  await host.next('presence', ({ users }) => users[userId]?.active === true);
+};
+
+beforeAll(async () => {
+  server = await startSignalingServer({
+    TURN_SECRET: 'turn-secret',
+    TURN_URIS: 'turn:turn.example.com:3478',
+  });
+});
+
+afterAll(async () => {
+  await server?.stop();
+});
+
+beforeEach(() => {
+  // Real sockets need real time
+  vi.useRealTimers();
+});
+
+afterEach(() => {
+  sockets.splice(0).forEach(ws => ws.terminate());
+});
+
+describe('signaling server', () => {
+  describe('passcodes', () => {
+    it('only lets users with the passcode in and hides the room from everyone else', async () => {
+      const roomId = `room-${++roomCounter}`;
+      const alice = await connect(`room=${roomId}`);
+      alice.send({ kind: 'set-passcode', passcodeHash: PASSCODE_HASH });
+      expect((await alice.next('passcode-result')).accepted).toBe(true);
+      await joinAs(alice, 'alice', { passcodeHash: PASSCODE_HASH });
+
+      const bob = await connect(`room=${roomId}`);
+      expect((await bob.next('access')).isProtected).toBe(true);
+      expect(await joinAs(bob, 'bob', { passcodeHash: 'b'.repeat(64) })).toMatchObject({
+        accepted: false,
+        reason: 'passcode',
+      });
+      expect(await joinAs(bob, 'bob', { passcodeHash: PASSCODE_HASH })).toMatchObject({
+        accepted: true,
+      });
+      // Nothing about the room reached bob before his passcode checked out
+      const beforeJoin = bob.received.slice(
+        0,
+        bob.received.findIndex(m => m.kind === 'join-result')
+      );
+      expect(beforeJoin.map(message => message.kind)).toEqual(['access']);
+    });
+
+    it('does not protect a room someone is already in', async () => {
+      const { roomId } = await createRoom();
+      const bob = await connect(`room=${roomId}`);
+
+      bob.send({ kind: 'set-passcode', passcodeHash: PASSCODE_HASH });
+
+      expect((await bob.next('passcode-result')).accepted).toBe(false);
+    });
+  });
+
+  describe('session tokens', () => {
+    it('only gives a user ID back to the session that holds it', async () => {
+      const { roomId, sessionToken } = await createRoom();
+      const mallory = await connect(`room=${roomId}`);
+
+      expect(await joinAs(mallory, 'alice')).toMatchObject({ accepted: false, reason: 'session' });
+      expect(await joinAs(mallory, 'alice', { sessionToken: 'guess' })).toMatchObject({
+        accepted: false,
+        reason: 'session',
+      });
+
+      // A reload comes back with the token and keeps its place
+      const reloaded = await connect(`room=${roomId}`);
+      expect(await joinAs(reloaded, 'alice', { sessionToken })).toMatchObject({
+        accepted: true,
+        sessionToken,
+      });
+      expect(
+        (await reloaded.next('presence', ({ users }) => !!users.alice)).users.alice
+      ).toMatchObject({ active: true, status: 'admitted' });
+    });
+  });
+
+  describe('host and admission', () => {
+    it('holds newcomers back until the host lets them in', async () => {
+      const { roomId, alice } = await createRoom();
+      const bob = await connect(`room=${roomId}`);
+      await joinAs(bob, 'bob');
+
+      expect((await alice.next('presence', ({ users }) => !!users.bob)).users.bob).toMatchObject({
+        active: false,
+        status: 'pending',
+      });
+
+      // Waiting users can't take the host role, signal anyone or let themselves in
+      bob.send({ kind: 'claim-host', userId: 'bob' });
+      expect((await bob.next('host-result')).accepted).toBe(false);
+      bob.send({
+        kind: 'signal',
+        channel: 'offer',
+        message: { from: 'bob', target: 'alice', timestamp: new Date().toISOString() },
+      });
+      bob.send({ kind: 'set-admission', userId: 'bob', status: 'admitted' });
+      bob.send({ kind: 'create-viewer-link' });
+      expect((await bob.next('viewer-link')).viewerRoomId).toBeNull();
+
+      await admit(alice, 'bob');
+      bob.send({
+        kind: 'signal',
+        channel: 'offer',
+        message: { from: 'bob', target: 'alice', timestamp: 'admitted' },
+      });
+      const offer = await alice.next('signal');
+      expect(offer.message.timestamp).toBe('admitted');
+    });
+
+    it('only gives a vacant host role to a user the host let in', async () => {
+      const { roomId, alice } = await createRoom();
+      const bob = await connect(`room=${roomId}`);
+      await joinAs(bob, 'bob');
+      await admit(alice, 'bob');
+      const carol = await connect(`room=${roomId}`);
+      await joinAs(carol, 'carol');
+
+      alice.send({ kind: 'leave', userId: 'alice' });
+      await carol.next('host', ({ hostId }) => hostId === null);
+
+      carol.send({ kind: 'claim-host', userId: 'carol' });
+      expect((await carol.next('host-result')).accepted).toBe(false);
+      bob.send({ kind: 'claim-host', userId: 'bob' });
+      expect((await bob.next('host-result')).accepted).toBe(true);
+    });
+
+    it('turns away newcomers to a locked room but takes back those it let in', async () => {
+      const { roomId, alice } = await createRoom();
+      const bob = await connect(`room=${roomId}`);
+      const { sessionToken } = await joinAs(bob, 'bob');
+      await admit(alice, 'bob');
+
+      // Only the host locks the room
+      bob.send({ kind: 'set-locked', locked: true });
+      bob.send({ kind: 'create-viewer-link' });
+      await bob.next('viewer-link');
+      expect(bob.received.some(message => message.kind === 'locked' && message.locked)).toBe(false);
+      alice.send({ kind: 'set-locked', locked: true });
+      await bob.next('locked', ({ locked }) => locked);
+
+      const carol = await connect(`room=${roomId}`);
+      expect(await joinAs(carol, 'carol')).toMatchObject({ accepted: false, reason: 'locked' });
+
+      bob.send({ kind: 'leave', userId: 'bob' });
+      await alice.next('presence', ({ users }) => !users.bob);
+      const returning = await connect(`room=${roomId}`);
+      expect(await joinAs(returning, 'bob', { sessionToken })).toMatchObject({ accepted: true });
+    });
+  });
+
+  describe('viewer links', () => {
+    it('lets viewers in without waiting, as viewers only', async () => {
+      const { roomId, alice } = await createRoom();
+      const pending = await connect(`room=${roomId}`);
+      await joinAs(pending, 'bob');
+
+      pending.send({ kind: 'create-viewer-link' });
+      expect((await pending.next('viewer-link')).viewerRoomId).toBeNull();
+      alice.send({ kind: 'create-viewer-link' });
+      const { viewerRoomId } = await alice.next('viewer-link');
+      expect(viewerRoomId).toEqual(expect.any(String));
+      expect(viewerRoomId).not.toContain(roomId);
+
+      const viewer = await connect(`viewer=${encodeURIComponent(viewerRoomId as string)}`);
+      expect(await joinAs(viewer, 'carol')).toMatchObject({ accepted: true });
+      expect(
+        (await alice.next('presence', ({ users }) => !!users.carol)).users.carol
+      ).toMatchObject({ active: true, role: 'viewer' });
+
+      // Viewers can't share, take the host role or hand out links of their own
+      viewer.send({ kind: 'claim-host', userId: 'carol' });
+      expect((await viewer.next('host-result')).accepted).toBe(false);
+      viewer.send({ kind: 'create-viewer-link' });
+      expect((await viewer.next('viewer-link')).viewerRoomId).toBeNull();
+    });
+
+    it('turns away forged viewer links and viewers claiming another role', async () => {
+      const { roomId, alice } = await createRoom();
+
+      const forged = await connect(`viewer=${roomId}`);
+      expect(await joinAs(forged, 'mallory')).toMatchObject({
+        accepted: false,
+        reason: 'viewer-link',
+      });
+
+      const participant = await connect(`room=${roomId}`);
+      await joinAs(participant, 'eve', { user: user({ role: 'viewer', active: true }) });
+      expect((await alice.next('presence', ({ users }) => !!users.eve)).users.eve).toMatchObject({
+        active: false,
+        status: 'pending',
+      });
+      expect(
+        alice.received.some(
+          message => message.kind === 'presence' && message.users.eve?.role === 'viewer'
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('streams', () => {
+    it('only lets admitted users announce their own share', async () => {
+      const { roomId, alice } = await createRoom();
+      const bob = await connect(`room=${roomId}`);
+      await joinAs(bob, 'bob');
+
+      bob.send({ kind: 'set-streaming', userId: 'bob', isStreaming: true });
+      bob.send({ kind: 'set-streaming', userId: 'alice', isStreaming: true });
+      bob.send({ kind: 'create-viewer-link' });
+      await bob.next('viewer-link');
+      const announced = bob.received.filter(message => message.kind === 'streaming');
+      expect(announced).toEqual([{ kind: 'streaming', status: {} }]);
+
+      await admit(alice, 'bob');
+      alice.send({ kind: 'set-streaming', userId: 'alice', isStreaming: true });
+      await bob.next('streaming', ({ status }) => !!status.alice);
+      bob.send({ kind: 'set-streaming', userId: 'alice', isStreaming: false });
+      bob.send({ kind: 'set-streaming', userId: 'bob', isStreaming: true });
+      expect((await alice.next('streaming', ({ status }) => !!status.bob)).status).toEqual({
+        alice: true,
+        bob: true,
+      });
+
+      // Leaving ends the share
+      bob.send({ kind: 'leave', userId: 'bob' });
+      expect((await alice.next('streaming', ({ status }) => !status.bob)).status).toEqual({
+        alice: true,
+      });
+    });
+  });
+
+  describe('TURN credentials', () => {
+    const requestCredentials = (query: Record<string, string>) =>
+      fetch(`${server.httpUrl}${TURN_CREDENTIALS_PATH}?${new URLSearchParams(query)}`);
+
+    it('only hands credentials to users in the room with their session token', async () => {
+      const { roomId, alice, sessionToken } = await createRoom();
+
+      const response = await requestCredentials({
+        room: roomId,
+        username: 'alice',
+        token: sessionToken,
+      });
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({
+        username: expect.stringMatching(/^\d+:alice$/),
+        ttl: 3600,
+        uris: ['turn:turn.example.com:3478'],
+      });
+
+      expect(
+        (await requestCredentials({ room: roomId, username: 'alice', token: 'guess' })).status
+      ).toBe(403);
+      expect((await requestCredentials({ room: roomId, username: 'alice' })).status).toBe(403);
+      expect(
+        (await requestCredentials({ room: 'other', username: 'alice', token: sessionToken })).status
+      ).toBe(403);
+
+      alice.send({ kind: 'leave', userId: 'alice' });
+      await alice.next('presence', ({ users }) => !users.alice);
+      expect(
+        (await requestCredentials({ room: roomId, username: 'alice', token: sessionToken })).status
+      ).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,678 @@
+// server.ts - self-hosted WebSocket signaling server
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+  timingSafeEqual,
+} from 'crypto';
+import express from 'express';
+import { createServer, IncomingMessage } from 'http';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { WebSocket, WebSocketServer } from 'ws';
+
+import { TURN_CREDENTIALS_PATH, TurnCredentialsResponse } from './src/ice/turnRest';
+import {
+  SFU_AUTH_PATH,
+  SFU_CREDENTIALS_PATH,
+  SfuAction,
+  SfuCredentialsResponse,
+} from './src/sfu/credentials';
+import type { ChatMessage, RoomUser, RoomUsers, StreamingStatus } from './src/signaling/types';
+import {
+  ClientMessage,
+  isClientMessage,
+  SIGNALING_PATH,
+  ServerMessage,
+} from './src/signaling/wsProtocol';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+interface Room {
+  // SHA-256 of the room passcode, see src/signaling/passcode.ts
+  passcodeHash: string | null;
+  hostId: string | null;
+  locked: boolean;
+  sockets: Set<WebSocket>;
+  users: Map<string, { user: RoomUser; socket: WebSocket }>;
+  // Secret each user got on their first join; joining as them again takes the same secret
+  sessions: Map<string, string>;
+  // Users the host let in, remembered so they can rejoin after a reload
+  admitted: Set<string>;
+  // Users whose socket dropped, kept in the room until the grace period runs out
+  departures: Map<string, ReturnType<typeof setTimeout>>;
+  streaming: Map<string, boolean>;
+  // Latest chat messages, sent to users when they are admitted
+  chat: ChatMessage[];
+}
+
+// What a viewer link stands for: the room, and the passcode it was protected by when the link
+// was made
+interface ViewerLink {
+  roomId: string;
+  passcodeHash: string | null;
+}
+
+interface ClientState {
+  roomId: string;
+  userIds: Set<string>;
+  isAlive: boolean;
+  // Set for sockets that came in through a viewer link; they only ever join as viewers
+  viewerLink: ViewerLink | null;
+}
+
+// Chat messages kept per room for users who join later
+const CHAT_HISTORY_LIMIT = 200;
+
+// How long a user whose connection dropped keeps their slot (and share) before peers are told
+// they left; reconnecting within it is invisible to the rest of the room
+const RECONNECT_GRACE_MS = Number(process.env.RECONNECT_GRACE_MS) || 15000;
+
+const app = express();
+const server = createServer(app);
+const wss = new WebSocketServer({ server, path: SIGNALING_PATH });
+
+// Add CORS headers for development
+app.use((_req, res, next) => {
+  res.header('Access-Control-Allow-Origin', '*');
+  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept');
+  next();
+});
+
+// TURN REST credentials: short-lived usernames/passwords for a TURN server (e.g. coturn with
+// use-auth-secret) configured with the same TURN_SECRET
+const TURN_SECRET = process.env.TURN_SECRET;
+const TURN_URIS = (process.env.TURN_URIS || '')
+  .split(',')
+  .map(uri => uri.trim())
+  .filter(Boolean);
+const TURN_CREDENTIAL_TTL = Number(process.env.TURN_CREDENTIAL_TTL) || 3600;
+
+const createTurnCredentials = (userId: string): TurnCredentialsResponse => {
+  const expiry = Math.floor(Date.now() / 1000) + TURN_CREDENTIAL_TTL;
+  const username = `${expiry}:${userId}`;
+  const password = createHmac('sha1', TURN_SECRET as string)
+    .update(username)
+    .digest('base64');
+
+  return { username, password, ttl: TURN_CREDENTIAL_TTL, uris: TURN_URIS };
+};
+
+const isSessionToken = (session: string | undefined, token: string): boolean => {
+  if (!session) return false;
+  const expected = Buffer.from(session);
+  const given = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+app.get(TURN_CREDENTIALS_PATH, (req, res) => {
+  if (!TURN_SECRET || TURN_URIS.length === 0) {
+    res.status(404).json({ error: 'TURN is not configured' });
+    return;
+  }
+
+  const { room, username: userId, token } = req.query;
+  // The username becomes part of the TURN username, keep it to something sane
+  if (typeof userId !== 'string' || !/^[\w-]{1,64}$/.test(userId)) {
+    res.status(400).json({ error: 'Invalid username' });
+    return;
+  }
+
+  // Only users in a room get to relay through our TURN server. They prove it with the session
+  // token from their join; viewers pass their viewer link as the room.
+  const roomId = typeof room === 'string' ? (openViewerLink(room)?.roomId ?? room) : '';
+  const joined = rooms.get(roomId);
+  if (
+    typeof token !== 'string' ||
+    !joined?.users.has(userId) ||
+    !isSessionToken(joined.sessions.get(userId), token)
+  ) {
+    res.status(403).json({ error: 'Not in this room' });
+    return;
+  }
+
+  res.header('Cache-Control', 'no-store');
+  res.json(createTurnCredentials(userId));
+});
+
+// SFU credentials: a fresh stream name nobody can guess for each screen share, and short-lived
+// tokens to publish to it or view it. Only those the sharer tells the name can view the share.
+// The SFU checks tokens with SFU_AUTH_PATH (MediaMTX: authMethod http, authHTTPAddress).
+const SFU_SECRET = process.env.SFU_SECRET;
+const SFU_TOKEN_TTL = Number(process.env.SFU_TOKEN_TTL) || 300;
+const SFU_STREAM_PATTERN = /^[\w-]{16,64}$/;
+
+const signSfuToken = (action: SfuAction, stream: string, expiry: number): string =>
+  createHmac('sha256', SFU_SECRET as string)
+    .update(`${action}:${stream}:${expiry}`)
+    .digest('base64url');
+
+const createSfuCredentials = (action: SfuAction, stream: string): SfuCredentialsResponse => {
+  const expiry = Math.floor(Date.now() / 1000) + SFU_TOKEN_TTL;
+  const token = `${expiry}.${signSfuToken(action, stream, expiry)}`;
+  return { stream, token, ttl: SFU_TOKEN_TTL };
+};
+
+const isValidSfuToken = (token: string, action: SfuAction, stream: string): boolean => {
+  const [expiry, signature = ''] = token.split('.');
+  if (!(Number(expiry) >= Date.now() / 1000)) return false;
+
+  const expected = Buffer.from(signSfuToken(action, stream, Number(expiry)));
+  const given = Buffer.from(signature);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+app.get(SFU_CREDENTIALS_PATH, (req, res) => {
+  if (!SFU_SECRET) {
+    res.status(404).json({ error: 'SFU credentials are not configured' });
+    return;
+  }
+
+  const { action, stream } = req.query;
+  let credentials: SfuCredentialsResponse;
+  if (action === 'publish') {
+    credentials = createSfuCredentials('publish', randomBytes(16).toString('base64url'));
+  } else if (action === 'read' && typeof stream === 'string' && SFU_STREAM_PATTERN.test(stream)) {
+    credentials = createSfuCredentials('read', stream);
+  } else {
+    res.status(400).json({ error: 'Invalid SFU credentials request' });
+    return;
+  }
+
+  res.header('Cache-Control', 'no-store');
+  res.json(credentials);
+});
+
+// Called by the SFU for each request it gets, with the bearer token the client sent
+app.post(SFU_AUTH_PATH, express.json(), (req, res) => {
+  const { action, path: stream, token } = req.body ?? {};
+  const allowed =
+    !!SFU_SECRET &&
+    (action === 'publish' || action === 'read') &&
+    typeof stream === 'string' &&
+    typeof token === 'string' &&
+    isValidSfuToken(token, action, stream);
+  res.status(allowed ? 200 : 401).end();
+});
+
+// Viewer links carry the room sealed with this key instead of its ID, so a viewer can't turn
+// theirs into a participant link. Without VIEWER_LINK_SECRET, links stop working on restart.
+const VIEWER_LINK_KEY = createHash('sha256')
+  .update(process.env.VIEWER_LINK_SECRET || randomBytes(32))
+  .digest();
+
+const sealViewerLink = (link: ViewerLink): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', VIEWER_LINK_KEY, iv);
+  const sealed = Buffer.concat([cipher.update(JSON.stringify(link)), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), sealed]).toString('base64url');
+};
+
+const openViewerLink = (viewerRoomId: string): ViewerLink | null => {
+  try {
+    const data = Buffer.from(viewerRoomId, 'base64url');
+    const decipher = createDecipheriv('aes-256-gcm', VIEWER_LINK_KEY, data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+    const opened = Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]);
+    const link = JSON.parse(opened.toString()) as ViewerLink;
+    return typeof link.roomId === 'string' && link.roomId ? link : null;
+  } catch {
+    return null;
+  }
+};
+
+// Serve the built client (npm run build)
+const staticDir = path.join(__dirname, 'dist');
+app.use(express.static(staticDir));
+
+// Store active rooms and connection state
+const rooms = new Map<string, Room>();
+const clients = new Map<WebSocket, ClientState>();
+let messageCounter = 0;
+
+const getRoom = (roomId: string): Room => {
+  let room = rooms.get(roomId);
+  if (!room) {
+    room = {
+      passcodeHash: null,
+      hostId: null,
+      locked: false,
+      sockets: new Set(),
+      users: new Map(),
+      sessions: new Map(),
+      admitted: new Set(),
+      departures: new Map(),
+      streaming: new Map(),
+      chat: [],
+    };
+    rooms.set(roomId, room);
+    console.log(`Created new room: ${roomId}`);
+  }
+  return room;
+};
+
+const send = (socket: WebSocket, message: ServerMessage): void => {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+// In protected rooms, only sockets that joined with the passcode see what's going on
+const canObserve = (room: Room, socket: WebSocket): boolean =>
+  !room.passcodeHash || (clients.get(socket)?.userIds.size ?? 0) > 0;
+
+const broadcast = (room: Room, message: ServerMessage): void => {
+  room.sockets.forEach(socket => {
+    if (canObserve(room, socket)) send(socket, message);
+  });
+};
+
+const presenceOf = (room: Room): RoomUsers => {
+  const users: RoomUsers = {};
+  room.users.forEach(({ user }, userId) => {
+    users[userId] = user;
+  });
+  return users;
+};
+
+const streamingOf = (room: Room): StreamingStatus => Object.fromEntries(room.streaming);
+
+const broadcastPresence = (room: Room): void => {
+  broadcast(room, { kind: 'presence', users: presenceOf(room) });
+};
+
+const broadcastHost = (room: Room): void => {
+  broadcast(room, { kind: 'host', hostId: room.hostId });
+};
+
+const broadcastStreaming = (room: Room): void => {
+  broadcast(room, { kind: 'streaming', status: streamingOf(room) });
+};
+
+const sendChatHistory = (room: Room, socket: WebSocket): void => {
+  room.chat.forEach(message => send(socket, { kind: 'chat', message }));
+};
+
+// Remove a user and everything they own from the room
+const removeUser = (room: Room, userId: string): void => {
+  clearTimeout(room.departures.get(userId));
+  room.departures.delete(userId);
+  const hadUser = room.users.delete(userId);
+  const hadStreaming = room.streaming.delete(userId);
+
+  if (hadUser) {
+    console.log(`User ${userId} left room, ${room.users.size} participants remaining`);
+    broadcastPresence(room);
+  }
+  if (hadStreaming) broadcastStreaming(room);
+  if (room.hostId === userId) {
+    room.hostId = null;
+    broadcastHost(room);
+  }
+};
+
+// Only admitted users may signal peers or share
+const isAdmitted = (room: Room, userId: string): boolean =>
+  room.users.get(userId)?.user.active === true;
+
+// Only sockets that joined as a user may act on that user's behalf
+const ownsUser = (state: ClientState, userId: string): boolean => state.userIds.has(userId);
+
+const handleMessage = (socket: WebSocket, state: ClientState, message: ClientMessage): void => {
+  const room = getRoom(state.roomId);
+
+  switch (message.kind) {
+    case 'set-passcode': {
+      const accepted = !state.viewerLink && !room.passcodeHash && room.users.size === 0;
+      if (accepted) {
+        room.passcodeHash = message.passcodeHash;
+        console.log(`Room ${state.roomId} is now protected by a passcode`);
+        room.sockets.forEach(roomSocket => {
+          if (!clients.get(roomSocket)?.viewerLink) {
+            send(roomSocket, { kind: 'access', isProtected: true });
+          }
+        });
+      }
+      send(socket, { kind: 'passcode-result', accepted });
+      break;
+    }
+
+    case 'join': {
+      // Viewer links vouch for the passcode they were made with
+      const passcodeHash = state.viewerLink ? state.viewerLink.passcodeHash : message.passcodeHash;
+      if (room.passcodeHash && passcodeHash !== room.passcodeHash) {
+        console.log(`Rejected user ${message.userId} in room ${state.roomId}: wrong passcode`);
+        send(socket, {
+          kind: 'join-result',
+          userId: message.userId,
+          accepted: false,
+          reason: state.viewerLink ? 'viewer-link' : 'passcode',
+        });
+        return;
+      }
+
+      // Anyone can send a user ID, so a known one is only taken back with its session token
+      const session = room.sessions.get(message.userId);
+      if (session && message.sessionToken !== session) {
+        console.log(`Rejected user ${message.userId} in room ${state.roomId}: wrong session`);
+        send(socket, {
+          kind: 'join-result',
+          userId: message.userId,
+          accepted: false,
+          reason: 'session',
+        });
+        return;
+      }
+
+      // A user that reconnects on a new socket takes over its old slot
+      const existing = room.users.get(message.userId);
+      const returning = room.admitted.has(message.userId);
+
+      // A locked room only takes back users it already knows
+      if (room.locked && !existing && !returning) {
+        console.log(`Rejected user ${message.userId} in room ${state.roomId}: room is locked`);
+        send(socket, {
+          kind: 'join-result',
+          userId: message.userId,
+          accepted: false,
+          reason: 'locked',
+        });
+        return;
+      }
+      if (existing && existing.socket !== socket) {
+        clients.get(existing.socket)?.userIds.delete(message.userId);
+      }
+      clearTimeout(room.departures.get(message.userId));
+      room.departures.delete(message.userId);
+
+      // Everyone but viewers waits for the host unless they were admitted before reconnecting or
+      // reloading. The host is among them, having been admitted when claiming the role.
+      const admitted = !!state.viewerLink || existing?.user.status === 'admitted' || returning;
+      const sessionToken = session ?? randomBytes(32).toString('base64url');
+      room.sessions.set(message.userId, sessionToken);
+      const user: RoomUser = {
+        ...message.user,
+        active: admitted,
+        status: admitted ? 'admitted' : 'pending',
+      };
+      // Only the viewer link decides who is a viewer
+      if (state.viewerLink) {
+        user.role = 'viewer';
+      } else {
+        delete user.role;
+      }
+
+      room.users.set(message.userId, { user, socket });
+      state.userIds.add(message.userId);
+      console.log(`User ${message.userId} joined room ${state.roomId} (${room.users.size} users)`);
+      send(socket, { kind: 'join-result', userId: message.userId, accepted: true, sessionToken });
+      broadcastPresence(room);
+      if (admitted) sendChatHistory(room, socket);
+      // Protected rooms hold back state until the passcode checks out
+      if (room.passcodeHash) {
+        send(socket, { kind: 'streaming', status: streamingOf(room) });
+        send(socket, { kind: 'host', hostId: room.hostId });
+        send(socket, { kind: 'locked', locked: room.locked });
+      }
+      break;
+    }
+
+    case 'claim-host': {
+      // A vacant role goes to someone the host let in, or to the first user of a new room;
+      // never to someone still waiting, or a host reloading would hand it to them
+      const accepted =
+        !state.viewerLink &&
+        ownsUser(state, message.userId) &&
+        (room.hostId === message.userId ||
+          (!room.hostId && (isAdmitted(room, message.userId) || room.admitted.size === 0)));
+      if (accepted && room.hostId !== message.userId) {
+        room.hostId = message.userId;
+        console.log(`User ${message.userId} is now host of room ${state.roomId}`);
+
+        // Users claim the role after joining, which left them waiting
+        const entry = room.users.get(message.userId);
+        room.admitted.add(message.userId);
+        if (entry) {
+          entry.user = { ...entry.user, active: true, status: 'admitted' };
+          broadcastPresence(room);
+          sendChatHistory(room, entry.socket);
+        }
+        broadcastHost(room);
+      }
+      send(socket, { kind: 'host-result', userId: message.userId, accepted });
+      break;
+    }
+
+    case 'set-locked':
+      // Only the host can lock the room
+      if (!room.hostId || !ownsUser(state, room.hostId)) return;
+
+      room.locked = message.locked;
+      console.log(`Room ${state.roomId} is now ${room.locked ? 'locked' : 'unlocked'}`);
+      broadcast(room, { kind: 'locked', locked: room.locked });
+      break;
+
+    case 'set-admission': {
+      // Only the host decides who gets in
+      if (!room.hostId || !ownsUser(state, room.hostId)) return;
+
+      const entry = room.users.get(message.userId);
+      if (!entry) return;
+
+      entry.user = {
+        ...entry.user,
+        active: message.status === 'admitted',
+        status: message.status,
+      };
+      if (message.status === 'admitted') {
+        room.admitted.add(message.userId);
+      } else {
+        room.admitted.delete(message.userId);
+      }
+      console.log(`Host ${message.status} user ${message.userId} in room ${state.roomId}`);
+      broadcastPresence(room);
+      if (message.status === 'admitted') sendChatHistory(room, entry.socket);
+      break;
+    }
+
+    case 'leave':
+      if (!ownsUser(state, message.userId)) return;
+      state.userIds.delete(message.userId);
+      removeUser(room, message.userId);
+      break;
+
+    case 'signal': {
+      const { channel, message: signal } = message;
+      if (!ownsUser(state, signal.from)) return;
+      if (!isAdmitted(room, signal.from)) return;
+
+      const target = room.users.get(signal.target);
+      if (!target) return;
+
+      messageCounter += 1;
+      send(target.socket, {
+        kind: 'signal',
+        channel,
+        message: signal,
+        messageId: `${Date.now()}-${messageCounter}`,
+      });
+      break;
+    }
+
+    case 'chat': {
+      const chat = message.message;
+      if (!ownsUser(state, chat.from) || !isAdmitted(room, chat.from)) return;
+      if (room.chat.some(existing => existing.id === chat.id)) return;
+
+      room.chat.push(chat);
+      room.chat.splice(0, room.chat.length - CHAT_HISTORY_LIMIT);
+
+      // Only admitted users see the conversation
+      room.users.forEach(({ user, socket: userSocket }) => {
+        if (user.active) send(userSocket, { kind: 'chat', message: chat });
+      });
+      break;
+    }
+
+    case 'set-streaming':
+      // Users only set their own flag; removeUser clears it for those who leave, so the
+      // cleanup peers do on other backends is ignored here
+      if (!ownsUser(state, message.userId)) return;
+      if (message.isStreaming && (state.viewerLink || !isAdmitted(room, message.userId))) return;
+
+      if (message.isStreaming) {
+        room.streaming.set(message.userId, true);
+      } else if (!room.streaming.delete(message.userId)) {
+        return;
+      }
+      broadcastStreaming(room);
+      break;
+
+    case 'create-viewer-link': {
+      // Anyone let into the room may invite viewers; viewers pass on the link they came with
+      const allowed =
+        !state.viewerLink && [...state.userIds].some(userId => isAdmitted(room, userId));
+      send(socket, {
+        kind: 'viewer-link',
+        viewerRoomId: allowed
+          ? sealViewerLink({ roomId: state.roomId, passcodeHash: room.passcodeHash })
+          : null,
+      });
+      break;
+    }
+
+    default:
+      send(socket, { kind: 'error', message: 'Unknown message kind' });
+  }
+};
+
+// WebSocket connection handler
+wss.on('connection', (socket: WebSocket, request: IncomingMessage) => {
+  const url = new URL(request.url || '', 'http://localhost');
+  const viewerRoomId = url.searchParams.get('viewer');
+  const viewerLink = viewerRoomId ? openViewerLink(viewerRoomId) : null;
+
+  if (viewerRoomId && !viewerLink) {
+    // Turn the viewer away when they join, rather than leaving their client waiting
+    send(socket, { kind: 'access', isProtected: false });
+    socket.on('message', data => {
+      try {
+        const message: unknown = JSON.parse(data.toString());
+        if (!isClientMessage(message) || message.kind !== 'join') return;
+        send(socket, {
+          kind: 'join-result',
+          userId: message.userId,
+          accepted: false,
+          reason: 'viewer-link',
+        });
+      } catch {
+        // Nothing to answer
+      }
+    });
+    return;
+  }
+
+  const roomId = viewerLink ? viewerLink.roomId : url.searchParams.get('room');
+  if (!roomId) {
+    send(socket, { kind: 'error', message: 'Missing room parameter' });
+    socket.close();
+    return;
+  }
+
+  const state: ClientState = { roomId, userIds: new Set(), isAlive: true, viewerLink };
+  clients.set(socket, state);
+
+  const room = getRoom(roomId);
+  room.sockets.add(socket);
+  console.log(`New connection for room ${roomId} (${room.sockets.size} sockets)`);
+
+  // Send the current room state so listeners fire immediately, like Firebase onValue. Viewer
+  // links stand in for the passcode.
+  send(socket, { kind: 'access', isProtected: !!room.passcodeHash && !viewerLink });
+  if (canObserve(room, socket)) {
+    send(socket, { kind: 'host', hostId: room.hostId });
+    send(socket, { kind: 'locked', locked: room.locked });
+    send(socket, { kind: 'presence', users: presenceOf(room) });
+    send(socket, { kind: 'streaming', status: streamingOf(room) });
+  }
+
+  socket.on('pong', () => {
+    state.isAlive = true;
+  });
+
+  socket.on('message', data => {
+    let message: unknown;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      send(socket, { kind: 'error', message: 'Invalid JSON' });
+      return;
+    }
+    if (!isClientMessage(message)) {
+      send(socket, { kind: 'error', message: 'Invalid message' });
+      return;
+    }
+
+    // A bug in one handler must not take down every room on the server
+    try {
+      handleMessage(socket, state, message);
+    } catch (err) {
+      console.error(`Error handling ${message.kind} message in room ${roomId}:`, err);
+      send(socket, { kind: 'error', message: 'Internal error' });
+    }
+  });
+
+  // Delete the room once nobody is connected or about to come back
+  const deleteRoomIfEmpty = () => {
+    if (room.sockets.size === 0 && room.departures.size === 0 && rooms.get(roomId) === room) {
+      rooms.delete(roomId);
+      console.log(`Room ${roomId} is now empty and deleted`);
+    }
+  };
+
+  socket.on('close', () => {
+    clients.delete(socket);
+    room.sockets.delete(socket);
+
+    // Hold on to the users of this socket for a while in case they reconnect
+    state.userIds.forEach(userId => {
+      if (room.users.get(userId)?.socket !== socket) return;
+      console.log(`User ${userId} disconnected from room ${roomId}, waiting for a reconnect`);
+      room.departures.set(
+        userId,
+        setTimeout(() => {
+          room.departures.delete(userId);
+          removeUser(room, userId);
+          deleteRoomIfEmpty();
+        }, RECONNECT_GRACE_MS)
+      );
+    });
+
+    deleteRoomIfEmpty();
+  });
+});
+
+// Drop sockets that stop answering pings (crashed tabs, sleeping laptops)
+const heartbeat = setInterval(() => {
+  clients.forEach((state, socket) => {
+    if (!state.isAlive) {
+      socket.terminate();
+      return;
+    }
+    state.isAlive = false;
+    socket.ping();
+  });
+}, 25000);
+
+wss.on('close', () => clearInterval(heartbeat));
+
+// Handle all routes for SPA
+app.get('*', (_req, res) => {
+  res.sendFile(path.join(staticDir, 'index.html'));
+});
+
+const PORT = process.env.PORT || 3001;
+server.listen(PORT, () => console.log(`Signaling server running at http://localhost:${PORT}`));
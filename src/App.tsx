@@ -1,25 +1,34 @@
 import React, { useEffect, useState } from 'react';
+import { NamePrompt } from './components/NamePrompt';
+import { parseRoomPath, roomPath } from './links';
 import { Home } from './pages/Home';
 import { Room } from './pages/Room';
+import { loadProfile, saveProfile, UserProfile } from './profile';
 
 export default function App(): React.ReactElement {
   const [currentPage, setCurrentPage] = useState<'home' | 'room'>('home');
   const [roomId, setRoomId] = useState<string | null>(null);
+  // Joined through a viewer link
+  const [viewOnly, setViewOnly] = useState<boolean>(false);
+  // Passcode chosen on the home page for a room we are creating
+  const [roomPasscode, setRoomPasscode] = useState<string | undefined>(undefined);
+  // Name and avatar to join rooms with; asked for before joining when not remembered
+  const [profile, setProfile] = useState<UserProfile | null>(() => loadProfile());
 
   // Simple routing based on URL pathname
   useEffect(() => {
     const handleNavigation = (): void => {
       const path = window.location.pathname;
+      const room = parseRoomPath(path);
 
       if (path === '/') {
         setCurrentPage('home');
         setRoomId(null);
-      } else if (path.startsWith('/room/')) {
-        const parts = path.split('/');
-        if (parts.length >= 3) {
-          setRoomId(parts[2]);
-          setCurrentPage('room');
-        }
+        setRoomPasscode(undefined);
+      } else if (room) {
+        setRoomId(room.roomId);
+        setViewOnly(room.viewOnly);
+        setCurrentPage('room');
       }
     };
 
@@ -67,14 +76,35 @@ export default function App(): React.ReactElement {
     <div className="min-h-screen bg-gradient-to-br from-primary-50 to-secondary-100">
       {currentPage === 'home' && (
         <Home
-          onJoinRoom={(id: string) => {
-            navigate(`/room/${id}`);
+          profile={profile}
+          onChangeName={() => setProfile(null)}
+          onJoinRoom={(id: string, passcode?: string) => {
+            setRoomPasscode(passcode);
+            navigate(roomPath(id));
+          }}
+        />
+      )}
+
+      {currentPage === 'room' && roomId && !profile && (
+        <NamePrompt
+          roomId={roomId}
+          initialProfile={loadProfile()}
+          onSubmit={chosen => {
+            saveProfile(chosen);
+            setProfile(chosen);
           }}
+          onCancel={() => navigate('/')}
         />
       )}
 
-      {currentPage === 'room' && roomId && (
-        <Room roomId={roomId} onLeaveRoom={() => navigate('/')} />
+      {currentPage === 'room' && roomId && profile && (
+        <Room
+          roomId={roomId}
+          passcode={roomPasscode}
+          profile={profile}
+          viewOnly={viewOnly}
+          onLeaveRoom={() => navigate('/')}
+        />
       )}
     </div>
   );
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+
+import { decodePeerData, encodePeerData } from '../datachannel';
+import {
+  createAnnotation,
+  extendAnnotation,
+  findUndoableAnnotation,
+  HIGHLIGHTER_FADE_MS,
+  highlighterOpacity,
+  isAnnotation,
+  MAX_ANNOTATION_POINTS,
+} from './annotations';
+
+describe('extendAnnotation', () => {
+  it('grows paths and moves the end of arrows and rectangles', () => {
+    let pen = createAnnotation('alice', 'alice', 'pen', '#f00', { x: 0, y: 0 });
+    pen = extendAnnotation(pen, { x: 0.1, y: 0.1 });
+    pen = extendAnnotation(pen, { x: 0.2, y: 0.1 });
+    expect(pen.points).toHaveLength(3);
+
+    let rect = createAnnotation('alice', 'alice', 'rect', '#f00', { x: 0, y: 0 });
+    rect = extendAnnotation(rect, { x: 0.1, y: 0.1 });
+    rect = extendAnnotation(rect, { x: 0.5, y: 0.4 });
+    expect(rect.points).toEqual([
+      { x: 0, y: 0 },
+      { x: 0.5, y: 0.4 },
+    ]);
+  });
+
+  it('stops growing long strokes', () => {
+    const full = {
+      ...createAnnotation('alice', 'alice', 'pen', '#f00', { x: 0, y: 0 }),
+      points: Array.from({ length: MAX_ANNOTATION_POINTS }, () => ({ x: 0, y: 0 })),
+    };
+    expect(extendAnnotation(full, { x: 1, y: 1 })).toBe(full);
+  });
+});
+
+describe('findUndoableAnnotation', () => {
+  it("finds the user's latest finished annotation on a screen", () => {
+    const make = (author: string, streamId: string, complete = true) => ({
+      ...createAnnotation(author, streamId, 'pen', '#f00', { x: 0, y: 0 }),
+      complete,
+    });
+    const older = make('bob', 'alice');
+    const latest = make('bob', 'alice');
+    const annotations = [older, latest, make('carol', 'alice'), make('bob', 'dave')];
+
+    expect(findUndoableAnnotation(annotations, 'bob', 'alice')).toBe(latest);
+    expect(findUndoableAnnotation([make('bob', 'alice', false)], 'bob', 'alice')).toBeUndefined();
+  });
+});
+
+describe('highlighterOpacity', () => {
+  it('fades out after the stroke is finished', () => {
+    const stroke = createAnnotation('alice', 'alice', 'highlighter', '#ff0', { x: 0, y: 0 });
+
+    expect(highlighterOpacity(stroke, 1000)).toBe(1);
+    expect(
+      highlighterOpacity({ ...stroke, completedAt: 1000 }, 1000 + HIGHLIGHTER_FADE_MS / 2)
+    ).toBe(0.5);
+    expect(highlighterOpacity({ ...stroke, completedAt: 1000 }, 1000 + HIGHLIGHTER_FADE_MS)).toBe(
+      0
+    );
+  });
+});
+
+describe('peer data', () => {
+  it('round-trips annotations and rejects malformed ones', () => {
+    const annotation = createAnnotation('alice', 'alice', 'arrow', '#f00', { x: 0.2, y: 0.3 });
+
+    expect(decodePeerData(encodePeerData({ type: 'annotation', annotation }))).toEqual({
+      type: 'annotation',
+      annotation,
+    });
+    expect(isAnnotation({ ...annotation, tool: 'spray' })).toBe(false);
+    expect(isAnnotation({ ...annotation, points: [] })).toBe(false);
+    expect(isAnnotation({ ...annotation, points: [{ x: NaN, y: 0 }] })).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import type { Point } from '../pointer';
+
+export type AnnotationTool = 'pen' | 'arrow' | 'rect' | 'highlighter';
+
+export const ANNOTATION_TOOLS: AnnotationTool[] = ['pen', 'arrow', 'rect', 'highlighter'];
+
+// A shape drawn over the shared screen of `streamId` (the sharer's user ID). Points are in
+// normalized frame coordinates like pointers, so shapes stay put when players resize.
+// Pen and highlighter strokes are paths; arrows and rectangles are [start, end].
+export interface Annotation {
+  id: string;
+  author: string;
+  streamId: string;
+  tool: AnnotationTool;
+  color: string;
+  points: Point[];
+  // Still being drawn; peers get updates until it is complete
+  complete: boolean;
+  // When we saw it completed, on our own clock; highlighter strokes fade out from then
+  completedAt?: number;
+}
+
+// Longest stroke we send; drawing further extends nothing
+export const MAX_ANNOTATION_POINTS = 1000;
+// In-progress strokes are sent to peers at most this often
+export const ANNOTATION_SEND_INTERVAL_MS = 50;
+// Highlighter strokes disappear this long after they are finished
+export const HIGHLIGHTER_FADE_MS = 3000;
+
+const isPoint = (value: unknown): value is Point => {
+  if (!value || typeof value !== 'object') return false;
+  const { x, y } = value as Record<string, unknown>;
+  return typeof x === 'number' && typeof y === 'number' && Number.isFinite(x + y);
+};
+
+// Start a new annotation at a point
+export function createAnnotation(
+  author: string,
+  streamId: string,
+  tool: AnnotationTool,
+  color: string,
+  start: Point
+): Annotation {
+  return { id: uuidv4(), author, streamId, tool, color, points: [start], complete: false };
+}
+
+// Continue an annotation to a point: paths grow, arrows and rectangles move their end
+export function extendAnnotation(annotation: Annotation, point: Point): Annotation {
+  if (annotation.tool === 'arrow' || annotation.tool === 'rect') {
+    return { ...annotation, points: [annotation.points[0], point] };
+  }
+  if (annotation.points.length >= MAX_ANNOTATION_POINTS) return annotation;
+  return { ...annotation, points: [...annotation.points, point] };
+}
+
+// Annotations arrive from peers, so check their shape before use
+export function isAnnotation(value: unknown): value is Annotation {
+  if (!value || typeof value !== 'object') return false;
+
+  const annotation = value as Record<string, unknown>;
+  return (
+    typeof annotation.id === 'string' &&
+    typeof annotation.author === 'string' &&
+    typeof annotation.streamId === 'string' &&
+    ANNOTATION_TOOLS.includes(annotation.tool as AnnotationTool) &&
+    typeof annotation.color === 'string' &&
+    typeof annotation.complete === 'boolean' &&
+    Array.isArray(annotation.points) &&
+    annotation.points.length > 0 &&
+    annotation.points.length <= MAX_ANNOTATION_POINTS &&
+    annotation.points.every(isPoint)
+  );
+}
+
+// Replace an annotation with a newer version of itself, or add it on top
+export function upsertAnnotation(annotations: Annotation[], annotation: Annotation): Annotation[] {
+  const index = annotations.findIndex(existing => existing.id === annotation.id);
+  if (index === -1) return [...annotations, annotation];
+
+  const updated = [...annotations];
+  updated[index] = annotation;
+  return updated;
+}
+
+// The annotation undo takes back for a user on one screen: their latest finished one
+export function findUndoableAnnotation(
+  annotations: Annotation[],
+  author: string,
+  streamId: string
+): Annotation | undefined {
+  return [...annotations]
+    .reverse()
+    .find(
+      annotation =>
+        annotation.author === author && annotation.streamId === streamId && annotation.complete
+    );
+}
+
+// How visible a highlighter stroke still is, from 1 down to 0
+export function highlighterOpacity(annotation: Annotation, now: number): number {
+  if (annotation.completedAt === undefined) return 1;
+  return Math.max(0, 1 - (now - annotation.completedAt) / HIGHLIGHTER_FADE_MS);
+}
@@ -0,0 +1,14 @@
+export {
+  ANNOTATION_SEND_INTERVAL_MS,
+  ANNOTATION_TOOLS,
+  createAnnotation,
+  extendAnnotation,
+  findUndoableAnnotation,
+  HIGHLIGHTER_FADE_MS,
+  highlighterOpacity,
+  isAnnotation,
+  MAX_ANNOTATION_POINTS,
+  upsertAnnotation,
+} from './annotations';
+export type { Annotation, AnnotationTool } from './annotations';
+export { renderAnnotations } from './render';
@@ -0,0 +1,69 @@
+import { ContentRect, fromNormalizedPoint, Point } from '../pointer';
+import { Annotation, highlighterOpacity } from './annotations';
+
+const LINE_WIDTH = 3;
+const HIGHLIGHTER_WIDTH = 18;
+const HIGHLIGHTER_ALPHA = 0.35;
+const ARROW_HEAD_LENGTH = 14;
+const ARROW_HEAD_ANGLE = Math.PI / 6;
+
+const drawPath = (ctx: CanvasRenderingContext2D, points: Point[]): void => {
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  // A single point still shows up as a dot thanks to the round caps
+  if (points.length === 1) ctx.lineTo(points[0].x, points[0].y);
+  points.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+  ctx.stroke();
+};
+
+const drawArrow = (ctx: CanvasRenderingContext2D, from: Point, to: Point, scale: number): void => {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const headLength = ARROW_HEAD_LENGTH * scale;
+
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  [angle - ARROW_HEAD_ANGLE, angle + ARROW_HEAD_ANGLE].forEach(side => {
+    ctx.moveTo(to.x, to.y);
+    ctx.lineTo(to.x - headLength * Math.cos(side), to.y - headLength * Math.sin(side));
+  });
+  ctx.stroke();
+};
+
+// Draw annotations onto a canvas laid over the video, whose frame occupies `rect`. Line widths
+// are multiplied by `scale`, e.g. to keep their look on a full-resolution copy of the frame.
+export function renderAnnotations(
+  ctx: CanvasRenderingContext2D,
+  annotations: Annotation[],
+  rect: ContentRect,
+  now: number,
+  scale = 1
+): void {
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  annotations.forEach(annotation => {
+    const points = annotation.points.map(point => fromNormalizedPoint(point, rect));
+    const isHighlighter = annotation.tool === 'highlighter';
+
+    ctx.save();
+    ctx.strokeStyle = annotation.color;
+    ctx.lineWidth = (isHighlighter ? HIGHLIGHTER_WIDTH : LINE_WIDTH) * scale;
+    ctx.globalAlpha = isHighlighter ? HIGHLIGHTER_ALPHA * highlighterOpacity(annotation, now) : 1;
+
+    const start = points[0];
+    const end = points[points.length - 1];
+    switch (annotation.tool) {
+      case 'arrow':
+        drawArrow(ctx, start, end, scale);
+        break;
+      case 'rect':
+        ctx.strokeRect(start.x, start.y, end.x - start.x, end.y - start.y);
+        break;
+      default:
+        drawPath(ctx, points);
+    }
+    ctx.restore();
+  });
+}
@@ -0,0 +1,2 @@
+export { audioLevel, createAudioLevelMeter, SPEAKING_LEVEL } from './level';
+export type { AudioLevelMeter } from './level';
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+
+import { audioLevel, SPEAKING_LEVEL } from './level';
+
+describe('audioLevel', () => {
+  it('is zero for silence and one for a full-scale square wave', () => {
+    expect(audioLevel(new Uint8Array(64).fill(128))).toBe(0);
+    expect(audioLevel(new Uint8Array([0, 255, 0, 255]))).toBeCloseTo(1, 1);
+    expect(audioLevel(new Uint8Array())).toBe(0);
+  });
+
+  it('tells quiet noise from speech', () => {
+    const noise = new Uint8Array(64).map((_, index) => (index % 2 ? 129 : 127));
+    const speech = new Uint8Array(64).map((_, index) => 128 + Math.round(40 * Math.sin(index)));
+
+    expect(audioLevel(noise)).toBeLessThan(SPEAKING_LEVEL);
+    expect(audioLevel(speech)).toBeGreaterThan(SPEAKING_LEVEL);
+  });
+});
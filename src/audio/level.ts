@@ -0,0 +1,49 @@
+// Levels are 0 for silence to 1 for a full-scale signal. Speech from a microphone at a normal
+// distance sits well above this; room noise and a quiet fan stay below it.
+export const SPEAKING_LEVEL = 0.04;
+
+// Root mean square of time-domain samples as AnalyserNode.getByteTimeDomainData() fills them in,
+// where 128 is silence
+export function audioLevel(samples: Uint8Array): number {
+  if (samples.length === 0) return 0;
+
+  let sum = 0;
+  samples.forEach(sample => {
+    const amplitude = (sample - 128) / 128;
+    sum += amplitude * amplitude;
+  });
+  return Math.min(1, Math.sqrt(sum / samples.length));
+}
+
+export interface AudioLevelMeter {
+  // The current level of all tracks together
+  read: () => number;
+  stop: () => void;
+}
+
+// Measure the level of some audio tracks, without playing them
+export function createAudioLevelMeter(
+  context: AudioContext,
+  tracks: MediaStreamTrack[]
+): AudioLevelMeter {
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 512;
+  const samples = new Uint8Array(analyser.fftSize);
+
+  const sources = tracks.map(track => {
+    const source = context.createMediaStreamSource(new MediaStream([track]));
+    source.connect(analyser);
+    return source;
+  });
+
+  return {
+    read: () => {
+      analyser.getByteTimeDomainData(samples);
+      return audioLevel(samples);
+    },
+    stop: () => {
+      sources.forEach(source => source.disconnect());
+      analyser.disconnect();
+    },
+  };
+}
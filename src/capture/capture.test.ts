@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { captureFileName, copyImageToClipboard } from './capture';
+
+describe('captureFileName', () => {
+  it('names captures after the room and the time they were taken', () => {
+    expect(captureFileName('abc123', new Date(2024, 0, 2, 3, 4, 5))).toBe(
+      'screenshare-abc123-2024-01-02-03-04-05.png'
+    );
+  });
+});
+
+describe('copyImageToClipboard', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('copies PNGs where the browser allows it', async () => {
+    const write = vi.fn().mockResolvedValue(undefined);
+    vi.stubGlobal(
+      'ClipboardItem',
+      vi.fn(function (this: { items: unknown }, items: unknown) {
+        this.items = items;
+      })
+    );
+    vi.stubGlobal('navigator', { clipboard: { write } });
+    const blob = new Blob(['png'], { type: 'image/png' });
+
+    await expect(copyImageToClipboard(blob)).resolves.toBe(true);
+    expect(write).toHaveBeenCalledWith([{ items: { 'image/png': blob } }]);
+
+    write.mockRejectedValue(new Error('Document is not focused'));
+    await expect(copyImageToClipboard(blob)).resolves.toBe(false);
+  });
+
+  it('reports failure where images cannot be copied', async () => {
+    vi.stubGlobal('ClipboardItem', undefined);
+    await expect(copyImageToClipboard(new Blob(['png'], { type: 'image/png' }))).resolves.toBe(
+      false
+    );
+  });
+});
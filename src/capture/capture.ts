@@ -0,0 +1,63 @@
+import { Annotation, renderAnnotations } from '../annotation';
+import { getVideoContentRect } from '../pointer';
+import { fileTimestamp } from '../recording';
+
+// A frame captured during this session, kept until the room is left
+export interface FrameCapture {
+  id: string;
+  // Whose screen it was taken from
+  streamId: string;
+  takenAt: Date;
+  blob: Blob;
+  // Object URL of the blob, for thumbnails
+  url: string;
+}
+
+// Copy the frame a <video> is showing, at the stream's own resolution, with annotations drawn
+// over it the way they look in the player
+export async function captureVideoFrame(
+  video: HTMLVideoElement,
+  annotations: Annotation[] = []
+): Promise<Blob> {
+  const width = video.videoWidth;
+  const height = video.videoHeight;
+  if (!width || !height) throw new Error('No video frame to capture yet');
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Capturing frames is not supported in this browser');
+
+  ctx.drawImage(video, 0, 0, width, height);
+
+  // Lines are as thick relative to the frame as they are in the player
+  const displayed = getVideoContentRect(video);
+  const scale = displayed.width > 0 ? width / displayed.width : 1;
+  renderAnnotations(ctx, annotations, { left: 0, top: 0, width, height }, Date.now(), scale);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) resolve(blob);
+      else reject(new Error('Could not encode the captured frame'));
+    }, 'image/png');
+  });
+}
+
+// Put a PNG on the clipboard. Resolves false where the browser doesn't allow it.
+export async function copyImageToClipboard(blob: Blob): Promise<boolean> {
+  if (typeof ClipboardItem === 'undefined' || !navigator.clipboard?.write) return false;
+
+  try {
+    await navigator.clipboard.write([new ClipboardItem({ [blob.type]: blob })]);
+    return true;
+  } catch (err) {
+    console.warn('[Capture] Could not copy frame to clipboard:', err);
+    return false;
+  }
+}
+
+// e.g. screenshare-abc123-2024-01-01-10-30-00.png
+export function captureFileName(roomId: string, takenAt: Date): string {
+  return `screenshare-${roomId}-${fileTimestamp(takenAt)}.png`;
+}
@@ -0,0 +1,2 @@
+export { captureFileName, captureVideoFrame, copyImageToClipboard } from './capture';
+export type { FrameCapture } from './capture';
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+
+import { decodePeerData, encodePeerData } from '../datachannel';
+import type { ChatMessage } from '../signaling';
+import {
+  createChatMessage,
+  insertChatMessage,
+  isChatMessage,
+  MAX_CHAT_MESSAGE_LENGTH,
+} from './chat';
+
+const message = (id: string, timestamp: string): ChatMessage => ({
+  id,
+  from: 'alice',
+  text: `message ${id}`,
+  timestamp,
+});
+
+describe('createChatMessage', () => {
+  it('trims the text and skips empty messages', () => {
+    expect(createChatMessage('alice', '  hi  ', 'Alice')).toMatchObject({
+      from: 'alice',
+      name: 'Alice',
+      text: 'hi',
+    });
+    expect(createChatMessage('alice', '  \n ')).toBeNull();
+    expect(createChatMessage('alice', 'x'.repeat(5000))?.text).toHaveLength(
+      MAX_CHAT_MESSAGE_LENGTH
+    );
+  });
+});
+
+describe('insertChatMessage', () => {
+  it('keeps messages in timestamp order and drops duplicates', () => {
+    const first = message('1', '2024-01-01T10:00:00.000Z');
+    const second = message('2', '2024-01-01T10:01:00.000Z');
+    const third = message('3', '2024-01-01T10:02:00.000Z');
+
+    let messages = insertChatMessage([], first);
+    messages = insertChatMessage(messages, third);
+    messages = insertChatMessage(messages, second);
+
+    expect(messages.map(({ id }) => id)).toEqual(['1', '2', '3']);
+    expect(insertChatMessage(messages, { ...second })).toBe(messages);
+  });
+});
+
+describe('peer data', () => {
+  it('round-trips chat messages and rejects anything else', () => {
+    const chat = message('1', '2024-01-01T10:00:00.000Z');
+
+    expect(decodePeerData(encodePeerData({ type: 'chat', message: chat }))).toEqual({
+      type: 'chat',
+      message: chat,
+    });
+    expect(decodePeerData('not json')).toBeNull();
+    expect(decodePeerData(JSON.stringify({ type: 'chat', message: { id: '1' } }))).toBeNull();
+    expect(decodePeerData(JSON.stringify({ type: 'cursor' }))).toBeNull();
+    expect(isChatMessage({ ...chat, text: '' })).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import type { ChatMessage } from '../signaling/types';
+
+// Longest message that can be sent; the signaling backends reject anything longer
+export const MAX_CHAT_MESSAGE_LENGTH = 2000;
+
+// A new message from us, or null if there's nothing to send
+export function createChatMessage(from: string, text: string, name?: string): ChatMessage | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  return {
+    id: uuidv4(),
+    from,
+    ...(name ? { name } : {}),
+    text: trimmed.slice(0, MAX_CHAT_MESSAGE_LENGTH),
+    timestamp: new Date().toISOString(),
+  };
+}
+
+// Messages arrive from peers and the signaling backend, so check their shape before use
+export function isChatMessage(value: unknown): value is ChatMessage {
+  if (!value || typeof value !== 'object') return false;
+
+  const message = value as Record<string, unknown>;
+  return (
+    typeof message.id === 'string' &&
+    message.id.length > 0 &&
+    message.id.length <= 64 &&
+    typeof message.from === 'string' &&
+    typeof message.text === 'string' &&
+    message.text.length > 0 &&
+    message.text.length <= MAX_CHAT_MESSAGE_LENGTH &&
+    typeof message.timestamp === 'string' &&
+    (message.name === undefined || typeof message.name === 'string')
+  );
+}
+
+// Add a message in timestamp order. Returns the same array if it is already there, since
+// messages sent through both the data channel and the backend arrive twice.
+export function insertChatMessage(messages: ChatMessage[], message: ChatMessage): ChatMessage[] {
+  if (messages.some(existing => existing.id === message.id)) return messages;
+
+  const time = Date.parse(message.timestamp) || 0;
+  let index = messages.length;
+  while (index > 0 && (Date.parse(messages[index - 1].timestamp) || 0) > time) {
+    index -= 1;
+  }
+
+  return [...messages.slice(0, index), message, ...messages.slice(index)];
+}
@@ -0,0 +1,6 @@
+export {
+  createChatMessage,
+  insertChatMessage,
+  isChatMessage,
+  MAX_CHAT_MESSAGE_LENGTH,
+} from './chat';
@@ -0,0 +1,118 @@
+import React, { useEffect, useRef } from 'react';
+
+import {
+  Annotation,
+  AnnotationTool,
+  createAnnotation,
+  extendAnnotation,
+  renderAnnotations,
+} from '../annotation';
+import { useVideoLayout } from '../hooks/useVideoLayout';
+import { getNormalizedVideoPoint, getVideoContentRect } from '../pointer';
+
+interface AnnotationCanvasProps {
+  // The <video> the canvas is laid over; the canvas must share its positioned parent
+  video: HTMLVideoElement | null;
+  // Whose screen the video shows; new annotations are anchored to it
+  streamId: string;
+  userId: string;
+  annotations: Annotation[];
+  // Tool we draw with, or null to leave the video interactive
+  tool: AnnotationTool | null;
+  color: string;
+  // eslint-disable-next-line no-unused-vars
+  onDraw: (annotation: Annotation) => void;
+}
+
+// Everyone's annotations on the screen being viewed, drawn over the video frame. With a tool
+// selected, dragging over the frame draws a new one.
+export function AnnotationCanvas({
+  video,
+  streamId,
+  userId,
+  annotations,
+  tool,
+  color,
+  onDraw,
+}: AnnotationCanvasProps): React.ReactElement {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // The annotation being drawn by this pointer gesture
+  const drawing = useRef<Annotation | null>(null);
+  const layoutVersion = useVideoLayout(video);
+
+  // Redraw on every change; keep animating while highlighter strokes fade out
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !video) return;
+
+    let frame = 0;
+    const draw = () => {
+      const ratio = window.devicePixelRatio || 1;
+      const width = Math.round(video.clientWidth * ratio);
+      const height = Math.round(video.clientHeight * ratio);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+
+      ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+      renderAnnotations(ctx, annotations, getVideoContentRect(video), Date.now());
+
+      const fading = annotations.some(
+        annotation => annotation.tool === 'highlighter' && annotation.completedAt !== undefined
+      );
+      if (fading) frame = requestAnimationFrame(draw);
+    };
+
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [video, annotations, layoutVersion]);
+
+  // Points outside the frame are skipped, so strokes never leave the shared screen
+  const pointAt = (e: React.PointerEvent<HTMLCanvasElement>) =>
+    video ? getNormalizedVideoPoint(video, e.clientX, e.clientY) : null;
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>): void => {
+    const point = pointAt(e);
+    if (!tool || !point || e.button !== 0) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = createAnnotation(userId, streamId, tool, color, point);
+    onDraw(drawing.current);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>): void => {
+    const point = pointAt(e);
+    if (!drawing.current || !point) return;
+
+    drawing.current = extendAnnotation(drawing.current, point);
+    onDraw(drawing.current);
+  };
+
+  const finishDrawing = (): void => {
+    if (!drawing.current) return;
+
+    onDraw({ ...drawing.current, complete: true });
+    drawing.current = null;
+  };
+
+  if (!video) return <></>;
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`absolute z-10 ${tool ? 'cursor-crosshair touch-none' : 'pointer-events-none'}`}
+      style={{
+        left: video.offsetLeft,
+        top: video.offsetTop,
+        width: video.clientWidth,
+        height: video.clientHeight,
+      }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={finishDrawing}
+      onPointerCancel={finishDrawing}
+    />
+  );
+}
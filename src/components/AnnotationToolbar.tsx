@@ -0,0 +1,79 @@
+import React from 'react';
+import { ArrowUpRight, Highlighter, MousePointer2, Pen, Square, Trash2, Undo2 } from 'lucide-react';
+
+import { AnnotationTool } from '../annotation';
+
+interface AnnotationToolbarProps {
+  // Selected tool, or null when the mouse just points
+  tool: AnnotationTool | null;
+  // eslint-disable-next-line no-unused-vars
+  onSelectTool: (tool: AnnotationTool | null) => void;
+  canUndo: boolean;
+  onUndo: () => void;
+  // Only the sharer of the screen may clear it, so others get no clear button
+  onClear?: () => void;
+}
+
+const tools: { tool: AnnotationTool | null; label: string; icon: React.ReactElement }[] = [
+  { tool: null, label: 'Point', icon: <MousePointer2 size={16} /> },
+  { tool: 'pen', label: 'Pen', icon: <Pen size={16} /> },
+  { tool: 'arrow', label: 'Arrow', icon: <ArrowUpRight size={16} /> },
+  { tool: 'rect', label: 'Rectangle', icon: <Square size={16} /> },
+  { tool: 'highlighter', label: 'Highlighter', icon: <Highlighter size={16} /> },
+];
+
+// Drawing tools over the shared screen
+export function AnnotationToolbar({
+  tool,
+  onSelectTool,
+  canUndo,
+  onUndo,
+  onClear,
+}: AnnotationToolbarProps): React.ReactElement {
+  const buttonClass = (active: boolean) =>
+    `p-1.5 rounded-md transition-colors disabled:opacity-40 ${
+      active ? 'bg-primary-600 text-white' : 'text-secondary-100 hover:bg-secondary-700'
+    }`;
+
+  return (
+    <div className="absolute top-2 left-2 z-20 flex items-center gap-1 bg-secondary-800/90 rounded-lg p-1 shadow">
+      {tools.map(({ tool: option, label, icon }) => (
+        <button
+          key={label}
+          type="button"
+          onClick={() => onSelectTool(option)}
+          className={buttonClass(tool === option)}
+          aria-label={label}
+          aria-pressed={tool === option}
+          title={label}
+        >
+          {icon}
+        </button>
+      ))}
+
+      <div className="w-px h-5 bg-secondary-600 mx-1" />
+
+      <button
+        type="button"
+        onClick={onUndo}
+        disabled={!canUndo}
+        className={buttonClass(false)}
+        aria-label="Undo my last drawing"
+        title="Undo my last drawing"
+      >
+        <Undo2 size={16} />
+      </button>
+      {onClear && (
+        <button
+          type="button"
+          onClick={onClear}
+          className={buttonClass(false)}
+          aria-label="Clear all drawings"
+          title="Clear all drawings"
+        >
+          <Trash2 size={16} />
+        </button>
+      )}
+    </div>
+  );
+}
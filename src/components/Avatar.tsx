@@ -0,0 +1,33 @@
+import React from 'react';
+
+import { Participant } from '../profile';
+
+interface AvatarProps {
+  participant: Participant;
+  // Ring the bubble, e.g. for the selected stream
+  highlighted?: boolean;
+  // Ring it in green while they are talking
+  speaking?: boolean;
+}
+
+export function Avatar({
+  participant,
+  highlighted = false,
+  speaking = false,
+}: AvatarProps): React.ReactElement {
+  return (
+    <div
+      className={`w-8 h-8 rounded-full flex items-center justify-center shrink-0 text-white text-xs font-semibold ${
+        speaking
+          ? 'ring-2 ring-green-500 ring-offset-1'
+          : highlighted
+            ? 'ring-2 ring-primary-400 ring-offset-1'
+            : ''
+      }`}
+      style={{ backgroundColor: participant.avatar.color }}
+      title={participant.name}
+    >
+      <span>{participant.avatar.initials}</span>
+    </div>
+  );
+}
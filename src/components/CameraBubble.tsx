@@ -0,0 +1,66 @@
+import React, { useEffect, useRef } from 'react';
+import { MicOff } from 'lucide-react';
+
+import { PeerMedia } from '../media';
+import { Participant } from '../profile';
+import { Avatar } from './Avatar';
+
+interface CameraBubbleProps {
+  media: PeerMedia;
+  participant: Participant;
+  // Our own camera, which must not play our microphone back to us
+  isSelf: boolean;
+  // How loud their microphone plays (0-1)
+  volume?: number;
+  className?: string;
+}
+
+// A participant's camera, or their avatar while only the microphone is on. The bubble also plays
+// their microphone, so each participant must be shown in one bubble at most.
+export function CameraBubble({
+  media,
+  participant,
+  isSelf,
+  volume = 1,
+  className = '',
+}: CameraBubbleProps): React.ReactElement {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const { cameraStream, camera, microphone } = media;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || video.srcObject === cameraStream) return;
+
+    video.srcObject = cameraStream;
+    if (cameraStream) {
+      video.play().catch(err => console.warn('Error auto-playing camera video:', err));
+    }
+  }, [cameraStream]);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.volume = volume;
+  }, [volume]);
+
+  return (
+    <div
+      className={`relative bg-secondary-800 rounded-md overflow-hidden flex items-center justify-center ${className}`}
+    >
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted={isSelf}
+        className={`w-full h-full object-cover ${camera ? '' : 'hidden'} ${isSelf ? '-scale-x-100' : ''}`}
+      />
+      {!camera && <Avatar participant={participant} />}
+
+      <span
+        className="absolute bottom-1 left-1 px-1.5 py-0.5 rounded text-xs text-white truncate max-w-[80%] flex items-center gap-1"
+        style={{ backgroundColor: participant.avatar.color }}
+      >
+        {!microphone && <MicOff size={10} aria-label="Microphone off" />}
+        {isSelf ? 'You' : participant.name}
+      </span>
+    </div>
+  );
+}
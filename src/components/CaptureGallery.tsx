@@ -0,0 +1,106 @@
+import React from 'react';
+import { Copy, Download, Images, Trash2, X } from 'lucide-react';
+
+import { FrameCapture } from '../capture';
+
+interface CaptureGalleryProps {
+  captures: FrameCapture[];
+  // Name of the user whose screen a capture was taken from
+  // eslint-disable-next-line no-unused-vars
+  sourceName: (streamId: string) => string;
+  // eslint-disable-next-line no-unused-vars
+  onCopy: (capture: FrameCapture) => void;
+  // eslint-disable-next-line no-unused-vars
+  onDownload: (capture: FrameCapture) => void;
+  // eslint-disable-next-line no-unused-vars
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatTime = (date: Date): string =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Frames captured this session, in a strip under the main video
+export function CaptureGallery({
+  captures,
+  sourceName,
+  onCopy,
+  onDownload,
+  onRemove,
+  onClose,
+}: CaptureGalleryProps): React.ReactElement {
+  const actionClass = 'p-1 rounded bg-white/90 text-secondary-700 hover:bg-white';
+
+  return (
+    <div className="border-t border-secondary-200 bg-secondary-50">
+      <div className="px-4 py-2 flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm text-secondary-700">
+          <Images size={16} />
+          <span className="font-medium">Captures ({captures.length})</span>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-secondary-400 hover:text-secondary-700 p-1 rounded-full hover:bg-secondary-100"
+          aria-label="Close captures"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="px-4 pb-3 flex gap-3 overflow-x-auto">
+        {captures.length === 0 && (
+          <p className="text-sm text-secondary-500">
+            Nothing captured yet. Use &quot;Capture&quot; to grab the current frame.
+          </p>
+        )}
+
+        {captures.map(capture => (
+          <figure key={capture.id} className="flex-shrink-0 w-48 group">
+            <div className="relative rounded-md overflow-hidden border border-secondary-200 bg-secondary-900">
+              <a href={capture.url} target="_blank" rel="noreferrer" title="Open full size">
+                <img
+                  src={capture.url}
+                  alt={`Frame shared by ${sourceName(capture.streamId)}`}
+                  className="w-full aspect-video object-contain"
+                />
+              </a>
+              <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  type="button"
+                  onClick={() => onCopy(capture)}
+                  className={actionClass}
+                  aria-label="Copy to clipboard"
+                  title="Copy to clipboard"
+                >
+                  <Copy size={12} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDownload(capture)}
+                  className={actionClass}
+                  aria-label="Download"
+                  title="Download"
+                >
+                  <Download size={12} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onRemove(capture.id)}
+                  className={`${actionClass} hover:text-red-700`}
+                  aria-label="Remove"
+                  title="Remove"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            </div>
+            <figcaption className="mt-1 text-xs text-secondary-500 truncate">
+              {sourceName(capture.streamId)} · {formatTime(capture.takenAt)}
+            </figcaption>
+          </figure>
+        ))}
+      </div>
+    </div>
+  );
+}
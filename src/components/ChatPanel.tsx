@@ -0,0 +1,128 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, Send, X } from 'lucide-react';
+
+import { MAX_CHAT_MESSAGE_LENGTH } from '../chat';
+import { getInitials, getParticipant, Participant } from '../profile';
+import { ChatMessage } from '../signaling';
+import { Avatar } from './Avatar';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  userId: string;
+  participants: Record<string, Participant>;
+  // eslint-disable-next-line no-unused-vars
+  onSend: (text: string) => void;
+  onClose: () => void;
+}
+
+// Who sent a message; users who left are shown with the name the message was sent under
+const senderOf = (message: ChatMessage, participants: Record<string, Participant>) => {
+  const participant = participants[message.from];
+  if (participant) return participant;
+
+  const fallback = getParticipant(message.from, undefined);
+  if (!message.name) return fallback;
+  return {
+    name: message.name,
+    avatar: { ...fallback.avatar, initials: getInitials(message.name) },
+  };
+};
+
+const formatTime = (timestamp: string): string =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export function ChatPanel({
+  messages,
+  userId,
+  participants,
+  onSend,
+  onClose,
+}: ChatPanelProps): React.ReactElement {
+  const [draft, setDraft] = useState<string>('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [messages.length]);
+
+  const handleSubmit = (e: React.FormEvent): void => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    onSend(draft);
+    setDraft('');
+  };
+
+  return (
+    <>
+      <div className="p-4 border-b border-secondary-100 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <MessageSquare size={18} className="text-secondary-600" />
+          <h2 className="font-medium">Chat</h2>
+        </div>
+
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-secondary-400 hover:text-secondary-700 p-1 rounded-full hover:bg-secondary-100"
+          aria-label="Close chat"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-auto p-3 space-y-3">
+        {messages.length === 0 && (
+          <p className="text-sm text-secondary-500 text-center mt-4">No messages yet. Say hello!</p>
+        )}
+
+        {messages.map(message => {
+          const sender = senderOf(message, participants);
+          const isOwn = message.from === userId;
+
+          return (
+            <div key={message.id} className="flex items-start gap-2">
+              <Avatar participant={sender} />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-baseline gap-2">
+                  <span className="text-sm font-medium text-secondary-800 truncate">
+                    {isOwn ? `${sender.name} (You)` : sender.name}
+                  </span>
+                  <time dateTime={message.timestamp} className="text-xs text-secondary-400">
+                    {formatTime(message.timestamp)}
+                  </time>
+                </div>
+                <p className="text-sm text-secondary-700 whitespace-pre-wrap break-words">
+                  {message.text}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        className="p-3 border-t border-secondary-100 bg-secondary-50 flex items-center gap-2"
+      >
+        <input
+          type="text"
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          placeholder="Message everyone"
+          maxLength={MAX_CHAT_MESSAGE_LENGTH}
+          className="flex-1 min-w-0 p-2 text-sm border border-secondary-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim()}
+          className="bg-primary-600 hover:bg-primary-700 text-white p-2 rounded-lg transition-colors disabled:opacity-50"
+          aria-label="Send message"
+        >
+          <Send size={16} />
+        </button>
+      </form>
+    </>
+  );
+}
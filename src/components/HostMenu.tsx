@@ -0,0 +1,110 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Lock, MonitorOff, Shield, Unlock, UserX } from 'lucide-react';
+
+import { getParticipant, Participant } from '../profile';
+
+interface HostMenuProps {
+  peers: string[];
+  participants: Record<string, Participant>;
+  // Peers currently sharing their screen
+  sharingPeers: string[];
+  isRoomLocked: boolean;
+  // eslint-disable-next-line no-unused-vars
+  onSetLocked: (locked: boolean) => void;
+  // eslint-disable-next-line no-unused-vars
+  onKick: (peerId: string) => void;
+  // eslint-disable-next-line no-unused-vars
+  onStopShare: (peerId: string) => void;
+}
+
+// Host-only moderation actions in the room header
+export function HostMenu({
+  peers,
+  participants,
+  sharingPeers,
+  isRoomLocked,
+  onSetLocked,
+  onKick,
+  onStopShare,
+}: HostMenuProps): React.ReactElement {
+  const [open, setOpen] = useState<boolean>(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  // Run an action and close the menu
+  const select = (action: () => void) => () => {
+    action();
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => setOpen(prev => !prev)}
+        className="bg-secondary-100 text-secondary-700 hover:bg-secondary-200 px-3 py-1 rounded-md flex items-center gap-1 transition-colors"
+      >
+        <Shield size={16} />
+        <span>Host</span>
+        {isRoomLocked && <Lock size={12} className="text-red-600" />}
+        <ChevronDown size={14} />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-1 w-64 bg-white rounded-lg shadow-lg border border-secondary-200 py-1 z-20">
+          <button
+            type="button"
+            onClick={select(() => onSetLocked(!isRoomLocked))}
+            className="w-full text-left px-3 py-2 text-sm hover:bg-secondary-50 flex items-center gap-2"
+          >
+            {isRoomLocked ? <Unlock size={14} /> : <Lock size={14} />}
+            <span>{isRoomLocked ? 'Unlock room' : 'Lock room'}</span>
+          </button>
+
+          {peers.length > 0 && <div className="border-t border-secondary-100 my-1" />}
+
+          {peers.map(peerId => (
+            <div key={peerId} className="px-3 py-1.5 text-sm flex items-center gap-2">
+              <span className="flex-1 truncate text-secondary-700">
+                {(participants[peerId] ?? getParticipant(peerId, undefined)).name}
+              </span>
+              {sharingPeers.includes(peerId) && (
+                <button
+                  type="button"
+                  onClick={select(() => onStopShare(peerId))}
+                  className="text-secondary-600 hover:text-red-700 p-1 rounded hover:bg-red-50"
+                  aria-label="Stop their screen share"
+                  title="Stop their screen share"
+                >
+                  <MonitorOff size={14} />
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={select(() => onKick(peerId))}
+                className="text-secondary-600 hover:text-red-700 p-1 rounded hover:bg-red-50"
+                aria-label="Remove from room"
+                title="Remove from room"
+              >
+                <UserX size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
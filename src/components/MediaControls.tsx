@@ -0,0 +1,100 @@
+import React, { useEffect } from 'react';
+import { Mic, MicOff, Video, VideoOff } from 'lucide-react';
+
+import { useMediaDevices } from '../hooks/useMediaDevices';
+import { MediaDeviceOption } from '../media';
+
+interface MediaControlsProps {
+  cameraOn: boolean;
+  microphoneOn: boolean;
+  cameraDeviceId: string | null;
+  microphoneDeviceId: string | null;
+  onToggleCamera: () => void;
+  onToggleMicrophone: () => void;
+  // eslint-disable-next-line no-unused-vars
+  onSelectCamera: (deviceId: string) => void;
+  // eslint-disable-next-line no-unused-vars
+  onSelectMicrophone: (deviceId: string) => void;
+}
+
+// Camera and microphone toggles, each with a choice of device once there is more than one
+export function MediaControls({
+  cameraOn,
+  microphoneOn,
+  cameraDeviceId,
+  microphoneDeviceId,
+  onToggleCamera,
+  onToggleMicrophone,
+  onSelectCamera,
+  onSelectMicrophone,
+}: MediaControlsProps): React.ReactElement {
+  const { cameras, microphones, refresh } = useMediaDevices();
+
+  // Device names are only listed once the browser was allowed to use them
+  useEffect(() => {
+    if (cameraOn || microphoneOn) refresh();
+  }, [cameraOn, microphoneOn, refresh]);
+
+  const control = (
+    on: boolean,
+    name: string,
+    icon: React.ReactElement,
+    onToggle: () => void,
+    devices: MediaDeviceOption[],
+    deviceId: string | null,
+    // eslint-disable-next-line no-unused-vars
+    onSelect: (deviceId: string) => void
+  ) => (
+    <div className="flex rounded-md overflow-hidden border border-secondary-200">
+      <button
+        onClick={onToggle}
+        className={`px-2 py-1 ${
+          on ? 'bg-primary-600 text-white' : 'bg-white text-secondary-600 hover:bg-secondary-100'
+        }`}
+        aria-label={on ? `Turn off ${name}` : `Turn on ${name}`}
+        aria-pressed={on}
+        title={on ? `Turn off your ${name}` : `Turn on your ${name}`}
+      >
+        {icon}
+      </button>
+      {devices.length > 1 && (
+        <select
+          value={deviceId ?? ''}
+          onChange={e => onSelect(e.target.value)}
+          className="text-xs bg-white text-secondary-700 border-l border-secondary-200 max-w-[8rem]"
+          aria-label={`Choose ${name}`}
+        >
+          <option value="">Default {name}</option>
+          {devices.map(device => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+
+  return (
+    <>
+      {control(
+        cameraOn,
+        'camera',
+        cameraOn ? <Video size={14} /> : <VideoOff size={14} />,
+        onToggleCamera,
+        cameras,
+        cameraDeviceId,
+        onSelectCamera
+      )}
+      {control(
+        microphoneOn,
+        'microphone',
+        microphoneOn ? <Mic size={14} /> : <MicOff size={14} />,
+        onToggleMicrophone,
+        microphones,
+        microphoneDeviceId,
+        onSelectMicrophone
+      )}
+    </>
+  );
+}
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { ArrowLeft, UserRound } from 'lucide-react';
+
+import {
+  AVATAR_COLORS,
+  defaultAvatarColor,
+  getInitials,
+  MAX_NAME_LENGTH,
+  normalizeName,
+  UserProfile,
+} from '../profile';
+
+interface NamePromptProps {
+  roomId: string;
+  // Previously saved profile to start from
+  initialProfile?: UserProfile | null;
+  // eslint-disable-next-line no-unused-vars
+  onSubmit: (profile: UserProfile) => void;
+  onCancel: () => void;
+}
+
+export function NamePrompt({
+  roomId,
+  initialProfile,
+  onSubmit,
+  onCancel,
+}: NamePromptProps): React.ReactElement {
+  const [name, setName] = useState<string>(initialProfile?.name ?? '');
+  const [color, setColor] = useState<string | null>(initialProfile?.color ?? null);
+
+  const normalized = normalizeName(name);
+  // Until a color is picked, preview the one derived from the name
+  const avatarColor = color ?? defaultAvatarColor(normalized);
+
+  // Handle submitting the name
+  const handleSubmit = (e: React.FormEvent): void => {
+    e.preventDefault();
+    if (!normalized) return;
+    onSubmit({ name: normalized, color: avatarColor });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-xl shadow-lg p-6 border border-secondary-200 w-full max-w-sm"
+      >
+        <div className="flex items-center gap-2 mb-2">
+          <UserRound size={20} className="text-primary-700" />
+          <h2 className="text-xl font-semibold text-primary-800">What&apos;s your name?</h2>
+        </div>
+        <p className="text-secondary-600 mb-4 text-sm">
+          Others in room <span className="font-mono">{roomId}</span> will see you by this name.
+        </p>
+
+        <div className="flex items-center gap-3">
+          <div
+            className="w-10 h-10 rounded-full flex items-center justify-center shrink-0 text-white font-semibold"
+            style={{ backgroundColor: avatarColor }}
+          >
+            {normalized ? getInitials(normalized) : '?'}
+          </div>
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="Your name"
+            maxLength={MAX_NAME_LENGTH}
+            autoFocus
+            className="w-full p-3 border border-secondary-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+        </div>
+
+        <div className="flex gap-2 mt-4" role="radiogroup" aria-label="Avatar color">
+          {AVATAR_COLORS.map(option => (
+            <button
+              key={option}
+              type="button"
+              role="radio"
+              aria-checked={option === avatarColor}
+              aria-label={`Color ${option}`}
+              onClick={() => setColor(option)}
+              className={`w-6 h-6 rounded-full ${
+                option === avatarColor ? 'ring-2 ring-offset-2 ring-secondary-400' : ''
+              }`}
+              style={{ backgroundColor: option }}
+            />
+          ))}
+        </div>
+
+        <div className="flex gap-2 mt-6">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex items-center justify-center gap-1 bg-secondary-100 text-secondary-700 px-4 py-2 rounded-lg hover:bg-secondary-200 transition-colors"
+          >
+            <ArrowLeft size={16} />
+            <span>Back</span>
+          </button>
+          <button
+            type="submit"
+            disabled={!normalized}
+            className="flex-1 bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+          >
+            Join Room
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
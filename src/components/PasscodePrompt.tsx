@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Lock } from 'lucide-react';
+
+interface PasscodePromptProps {
+  roomId: string;
+  error: string | null;
+  // eslint-disable-next-line no-unused-vars
+  onSubmit: (passcode: string) => void;
+  onCancel: () => void;
+}
+
+export function PasscodePrompt({
+  roomId,
+  error,
+  onSubmit,
+  onCancel,
+}: PasscodePromptProps): React.ReactElement {
+  const [passcode, setPasscode] = useState<string>('');
+
+  // Handle submitting the passcode
+  const handleSubmit = (e: React.FormEvent): void => {
+    e.preventDefault();
+    if (!passcode) return;
+    onSubmit(passcode);
+  };
+
+  return (
+    <div className="flex-1 flex items-center justify-center">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-xl shadow-lg p-6 border border-secondary-200 w-full max-w-sm"
+      >
+        <div className="flex items-center gap-2 mb-2">
+          <Lock size={20} className="text-primary-700" />
+          <h2 className="text-xl font-semibold text-primary-800">Passcode required</h2>
+        </div>
+        <p className="text-secondary-600 mb-4 text-sm">
+          Room <span className="font-mono">{roomId}</span> is protected. Enter its passcode to join.
+        </p>
+
+        <input
+          type="password"
+          value={passcode}
+          onChange={e => setPasscode(e.target.value)}
+          placeholder="Passcode"
+          autoFocus
+          className="w-full p-3 border border-secondary-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        {error && <p className="mt-2 text-red-600 text-sm">{error}</p>}
+
+        <div className="flex gap-2 mt-4">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex items-center justify-center gap-1 bg-secondary-100 text-secondary-700 px-4 py-2 rounded-lg hover:bg-secondary-200 transition-colors"
+          >
+            <ArrowLeft size={16} />
+            <span>Back</span>
+          </button>
+          <button
+            type="submit"
+            disabled={!passcode}
+            className="flex-1 bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+          >
+            Join Room
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import React from 'react';
+
+import { useVideoLayout } from '../hooks/useVideoLayout';
+import { fromNormalizedPoint, getVideoContentRect, PointerPosition } from '../pointer';
+import { Participant } from '../profile';
+
+export interface RemotePointer {
+  userId: string;
+  participant: Participant;
+  position: PointerPosition;
+}
+
+interface PointerOverlayProps {
+  // The <video> the pointers are placed over; the overlay must share its positioned parent
+  video: HTMLVideoElement | null;
+  pointers: RemotePointer[];
+}
+
+// Other participants' pointers, drawn where they point on the video frame
+export function PointerOverlay({ video, pointers }: PointerOverlayProps): React.ReactElement {
+  // Re-layout when the player or the frame size changes
+  useVideoLayout(video);
+
+  if (!video || pointers.length === 0) return <></>;
+
+  const rect = getVideoContentRect(video);
+
+  return (
+    <div className="absolute inset-0 pointer-events-none overflow-hidden z-10">
+      {pointers.map(({ userId, participant, position }) => {
+        const point = fromNormalizedPoint(position, rect);
+
+        return (
+          <div
+            key={userId}
+            className="absolute flex items-start gap-1 transition-transform duration-75"
+            style={{
+              left: 0,
+              top: 0,
+              transform: `translate(${video.offsetLeft + point.x - 6}px, ${video.offsetTop + point.y - 6}px)`,
+            }}
+          >
+            <span
+              className="w-3 h-3 rounded-full ring-2 ring-white shadow"
+              style={{ backgroundColor: participant.avatar.color }}
+            />
+            <span
+              className="mt-2 px-1.5 py-0.5 rounded text-xs text-white whitespace-nowrap shadow"
+              style={{ backgroundColor: participant.avatar.color }}
+            >
+              {participant.name}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
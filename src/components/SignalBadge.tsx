@@ -0,0 +1,32 @@
+import React from 'react';
+import { Signal, SignalHigh, SignalLow, SignalMedium } from 'lucide-react';
+
+import { ConnectionStats, signalQuality } from '../stats';
+
+interface SignalBadgeProps {
+  // Undefined until the connection was polled
+  stats: ConnectionStats | undefined;
+}
+
+const LOOKS = {
+  good: { icon: SignalHigh, className: 'text-green-600', label: 'Good connection' },
+  fair: { icon: SignalMedium, className: 'text-yellow-600', label: 'Fair connection' },
+  poor: { icon: SignalLow, className: 'text-red-600', label: 'Poor connection' },
+  unknown: { icon: Signal, className: 'text-secondary-300', label: 'Connection quality unknown' },
+} as const;
+
+// How well our connection to a participant is doing, as bars colored by quality
+export function SignalBadge({ stats }: SignalBadgeProps): React.ReactElement {
+  const { icon: Icon, className, label } = LOOKS[signalQuality(stats)];
+  const details = [
+    stats?.rtt != null && `${Math.round(stats.rtt)} ms`,
+    stats?.inbound?.packetLoss != null && `${(stats.inbound.packetLoss * 100).toFixed(1)}% loss`,
+  ].filter(Boolean);
+  const title = details.length ? `${label} (${details.join(', ')})` : label;
+
+  return (
+    <span className={`shrink-0 ${className}`} role="img" aria-label={title} title={title}>
+      <Icon size={14} />
+    </span>
+  );
+}
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Download, X } from 'lucide-react';
+
+import { Participant } from '../profile';
+import { ConnectionStats, VideoStats } from '../stats';
+
+interface StatsOverlayProps {
+  peers: string[];
+  stats: Record<string, ConnectionStats>;
+  // eslint-disable-next-line no-unused-vars
+  participantFor: (id: string) => Participant;
+  // Save the session's diagnostics bundle, with or without SDP and addresses masked
+  // eslint-disable-next-line no-unused-vars
+  onDownloadDiagnostics: (redactSdp: boolean) => void;
+  onClose: () => void;
+}
+
+const CONNECTION_TYPES = {
+  host: 'host (direct)',
+  srflx: 'srflx (through NAT)',
+  prflx: 'prflx (through NAT)',
+  relay: 'relay (TURN)',
+} as const;
+
+const formatBitrate = (bitrate: number | null): string =>
+  bitrate === null
+    ? '–'
+    : bitrate >= 1_000_000
+      ? `${(bitrate / 1_000_000).toFixed(1)} Mbps`
+      : `${Math.round(bitrate / 1000)} kbps`;
+
+// A number with its unit, or a dash while it is not known
+const orDash = (value: number | null, unit: string): string =>
+  value === null ? '–' : `${Math.round(value)} ${unit}`;
+
+// One line of what a video stream looks like right now
+function VideoLine({ label, video }: { label: string; video: VideoStats }): React.ReactElement {
+  return (
+    <div className="flex flex-wrap gap-x-3">
+      <span className="text-secondary-400 w-12">{label}</span>
+      <span>
+        {video.width !== null && video.height !== null ? `${video.width}×${video.height}` : '–'}
+      </span>
+      <span>{orDash(video.framesPerSecond, 'fps')}</span>
+      <span>{formatBitrate(video.bitrate)}</span>
+      {video.codec && <span>{video.codec}</span>}
+      {video.jitter !== null && <span>jitter {Math.round(video.jitter)} ms</span>}
+      {video.packetLoss !== null && <span>loss {(video.packetLoss * 100).toFixed(1)}%</span>}
+    </div>
+  );
+}
+
+// Live numbers of our connection to each peer, over the video area
+export function StatsOverlay({
+  peers,
+  stats,
+  participantFor,
+  onDownloadDiagnostics,
+  onClose,
+}: StatsOverlayProps): React.ReactElement {
+  const [redactSdp, setRedactSdp] = useState<boolean>(true);
+
+  return (
+    <div className="absolute top-3 left-3 z-20 max-w-md max-h-[80%] overflow-auto bg-black/75 text-white text-xs font-mono rounded-lg p-3 space-y-3">
+      <div className="flex items-center justify-between gap-4 font-sans">
+        <span className="font-medium">Connection stats</span>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-0.5 rounded hover:bg-white/20"
+          aria-label="Close connection stats"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      {peers.length === 0 && <p className="text-secondary-300 font-sans">No one else is here.</p>}
+
+      {peers.map(peerId => {
+        const peer = stats[peerId];
+        return (
+          <div key={peerId} className="space-y-0.5">
+            <div className="flex gap-3 font-sans">
+              <span className="font-medium truncate">{participantFor(peerId).name}</span>
+              {peer ? (
+                <>
+                  <span>{orDash(peer.rtt, 'ms RTT')}</span>
+                  <span>
+                    {peer.connectionType ? CONNECTION_TYPES[peer.connectionType] : 'Not connected'}
+                  </span>
+                </>
+              ) : (
+                <span className="text-secondary-300">Waiting for stats…</span>
+              )}
+            </div>
+            {peer?.inbound && <VideoLine label="In" video={peer.inbound} />}
+            {peer?.outbound && <VideoLine label="Out" video={peer.outbound} />}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between gap-3 pt-2 border-t border-white/20 font-sans">
+        <label
+          className="flex items-center gap-1.5"
+          title="Mask ICE credentials, fingerprints and IP addresses"
+        >
+          <input
+            type="checkbox"
+            checked={redactSdp}
+            onChange={e => setRedactSdp(e.target.checked)}
+          />
+          <span>Redact SDP</span>
+        </label>
+        <button
+          type="button"
+          onClick={() => onDownloadDiagnostics(redactSdp)}
+          className="px-2 py-1 rounded bg-white/15 hover:bg-white/25 flex items-center gap-1"
+          title="Download a log of this session to attach to a bug report"
+        >
+          <Download size={12} />
+          <span>Download diagnostics</span>
+        </button>
+      </div>
+    </div>
+  );
+}
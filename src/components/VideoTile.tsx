@@ -0,0 +1,79 @@
+import React, { useEffect, useRef } from 'react';
+import { Pin, PinOff } from 'lucide-react';
+
+import { Participant } from '../profile';
+
+interface VideoTileProps {
+  stream: MediaStream | null;
+  participant: Participant;
+  // Shown instead of the participant's name, e.g. for our own screen
+  label?: string;
+  isPinned: boolean;
+  // Shown with a ring, e.g. the screen in the spotlight
+  isActive?: boolean;
+  className?: string;
+  onSelect: () => void;
+  onTogglePin: () => void;
+}
+
+// One shared screen in the grid or the filmstrip. Tiles are muted; the screen in the spotlight
+// plays its audio.
+export function VideoTile({
+  stream,
+  participant,
+  label,
+  isPinned,
+  isActive = false,
+  className = '',
+  onSelect,
+  onTogglePin,
+}: VideoTileProps): React.ReactElement {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || video.srcObject === stream) return;
+
+    video.srcObject = stream;
+    if (stream) {
+      video.play().catch(err => console.warn('Error auto-playing tile video:', err));
+    }
+  }, [stream]);
+
+  return (
+    <div
+      className={`relative group bg-secondary-900 rounded-md overflow-hidden ${
+        isActive ? 'ring-2 ring-primary-500' : ''
+      } ${className}`}
+    >
+      <button
+        type="button"
+        onClick={onSelect}
+        className="w-full h-full block"
+        aria-label={`View ${label ?? participant.name} in the spotlight`}
+      >
+        <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-contain" />
+      </button>
+
+      <span
+        className="absolute bottom-1 left-1 px-1.5 py-0.5 rounded text-xs text-white truncate max-w-[80%]"
+        style={{ backgroundColor: participant.avatar.color }}
+      >
+        {label ?? participant.name}
+      </span>
+
+      <button
+        type="button"
+        onClick={onTogglePin}
+        className={`absolute top-1 right-1 p-1 rounded bg-secondary-800/80 text-white transition-opacity ${
+          isPinned ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+        }`}
+        aria-label={isPinned ? 'Unpin' : 'Pin'}
+        aria-pressed={isPinned}
+        title={isPinned ? 'Unpin' : 'Pin to the spotlight'}
+      >
+        {isPinned ? <PinOff size={14} /> : <Pin size={14} />}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Volume2, VolumeX } from 'lucide-react';
+
+interface VolumeControlProps {
+  name: string;
+  // 0-1, as set with the slider; muting keeps it for when the peer is unmuted
+  volume: number;
+  muted: boolean;
+  // Current audio level (0-1) of what they send
+  level: number;
+  // eslint-disable-next-line no-unused-vars
+  onVolumeChange: (volume: number) => void;
+  onToggleMuted: () => void;
+}
+
+// How loud a participant plays for us, with a meter of how loud they are right now
+export function VolumeControl({
+  name,
+  volume,
+  muted,
+  level,
+  onVolumeChange,
+  onToggleMuted,
+}: VolumeControlProps): React.ReactElement {
+  return (
+    <div className="flex items-center gap-2 pl-11 pr-2 pb-1">
+      <button
+        type="button"
+        onClick={onToggleMuted}
+        className={`p-1 rounded ${
+          muted ? 'text-red-600 bg-red-50' : 'text-secondary-500 hover:bg-secondary-100'
+        }`}
+        aria-label={muted ? `Unmute ${name}` : `Mute ${name}`}
+        aria-pressed={muted}
+        title={muted ? `Unmute ${name}` : `Mute ${name} for you`}
+      >
+        {muted ? <VolumeX size={14} /> : <Volume2 size={14} />}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.05}
+        value={volume}
+        disabled={muted}
+        onChange={e => onVolumeChange(Number(e.target.value))}
+        className="flex-1 accent-primary-600 disabled:opacity-50"
+        aria-label={`Volume of ${name}`}
+      />
+      <div className="w-10 h-1.5 rounded-full bg-secondary-200 overflow-hidden" aria-hidden="true">
+        <div
+          className="h-full bg-green-500 transition-[width] duration-150"
+          style={{ width: `${Math.min(100, level * 400)}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import React from 'react';
+import { ArrowLeft, Clock, Lock, X } from 'lucide-react';
+
+// Why we are outside the room
+export type LobbyStatus = 'pending' | 'denied' | 'removed' | 'locked';
+
+interface WaitingRoomProps {
+  roomId: string;
+  status: LobbyStatus;
+  onLeave: () => void;
+}
+
+const messages: Record<Exclude<LobbyStatus, 'pending'>, { title: string; body: string }> = {
+  denied: { title: 'Entry denied', body: 'The host did not let you into this room.' },
+  removed: { title: 'Removed from room', body: 'The host removed you from this room.' },
+  locked: { title: 'Room locked', body: 'The host locked this room against new participants.' },
+};
+
+export function WaitingRoom({ roomId, status, onLeave }: WaitingRoomProps): React.ReactElement {
+  return (
+    <div className="flex-1 flex items-center justify-center">
+      <div className="bg-white rounded-xl shadow-lg p-6 border border-secondary-200 w-full max-w-sm text-center">
+        {status === 'pending' ? (
+          <>
+            <div className="bg-primary-100 text-primary-600 rounded-full w-12 h-12 flex items-center justify-center mx-auto mb-4">
+              <Clock size={24} className="animate-pulse" />
+            </div>
+            <h2 className="text-xl font-semibold text-primary-800 mb-2">Waiting for the host</h2>
+            <p className="text-secondary-600 text-sm mb-4">
+              You&apos;ll join room <span className="font-mono">{roomId}</span> as soon as the host
+              lets you in.
+            </p>
+          </>
+        ) : (
+          <>
+            <div className="bg-red-100 text-red-600 rounded-full w-12 h-12 flex items-center justify-center mx-auto mb-4">
+              {status === 'locked' ? <Lock size={24} /> : <X size={24} />}
+            </div>
+            <h2 className="text-xl font-semibold text-primary-800 mb-2">
+              {messages[status].title}
+            </h2>
+            <p className="text-secondary-600 text-sm mb-4">{messages[status].body}</p>
+          </>
+        )}
+
+        <button
+          type="button"
+          onClick={onLeave}
+          className="inline-flex items-center justify-center gap-1 bg-secondary-100 text-secondary-700 px-4 py-2 rounded-lg hover:bg-secondary-200 transition-colors"
+        >
+          <ArrowLeft size={16} />
+          <span>Back to home</span>
+        </button>
+      </div>
+    </div>
+  );
+}
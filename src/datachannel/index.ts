@@ -0,0 +1,2 @@
+export { DATA_CHANNEL_ID, DATA_CHANNEL_LABEL, decodePeerData, encodePeerData } from './protocol';
+export type { PeerDataMessage } from './protocol';
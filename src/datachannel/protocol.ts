@@ -0,0 +1,65 @@
+// Messages peers exchange directly over the data channel of their RTCPeerConnection
+import { Annotation, isAnnotation } from '../annotation';
+import { isChatMessage } from '../chat';
+import { isPointerPosition, PointerPosition } from '../pointer';
+import type { ChatMessage } from '../signaling/types';
+
+// Both sides create the channel with the same ID (negotiated), so neither has to wait for
+// the other to announce it
+export const DATA_CHANNEL_LABEL = 'screenshare';
+export const DATA_CHANNEL_ID = 0;
+
+export type PeerDataMessage =
+  | { type: 'chat'; message: ChatMessage }
+  // null when the pointer left the shared screen
+  | { type: 'pointer'; pointer: PointerPosition | null }
+  // A new annotation, or a newer version of one still being drawn
+  | { type: 'annotation'; annotation: Annotation }
+  // The author took back one of their annotations
+  | { type: 'annotation-undo'; id: string }
+  // The sharer wiped all annotations off their screen
+  | { type: 'annotation-clear'; streamId: string }
+  // The sender started or stopped recording what they are viewing
+  | { type: 'recording'; recording: boolean };
+
+export function encodePeerData(message: PeerDataMessage): string {
+  return JSON.stringify(message);
+}
+
+// Null for anything we don't understand, e.g. messages from a newer client
+export function decodePeerData(data: unknown): PeerDataMessage | null {
+  if (typeof data !== 'string') return null;
+
+  let message: Record<string, unknown>;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (!message || typeof message !== 'object') return null;
+
+  switch (message.type) {
+    case 'chat':
+      return isChatMessage(message.message) ? { type: 'chat', message: message.message } : null;
+    case 'pointer':
+      return message.pointer === null || isPointerPosition(message.pointer)
+        ? { type: 'pointer', pointer: message.pointer }
+        : null;
+    case 'annotation':
+      return isAnnotation(message.annotation)
+        ? { type: 'annotation', annotation: message.annotation }
+        : null;
+    case 'annotation-undo':
+      return typeof message.id === 'string' ? { type: 'annotation-undo', id: message.id } : null;
+    case 'annotation-clear':
+      return typeof message.streamId === 'string'
+        ? { type: 'annotation-clear', streamId: message.streamId }
+        : null;
+    case 'recording':
+      return typeof message.recording === 'boolean'
+        ? { type: 'recording', recording: message.recording }
+        : null;
+    default:
+      return null;
+  }
+}
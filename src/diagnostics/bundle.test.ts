@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildDiagnosticsBundle, diagnosticsFileName, redactAddresses, redactSdp } from './bundle';
+import { createEventLog } from './log';
+
+const SDP = [
+  'v=0',
+  'o=- 4611731400430051336 2 IN IP4 127.0.0.1',
+  'c=IN IP4 203.0.113.7',
+  'a=ice-ufrag:F7gI',
+  'a=ice-pwd:x9cml/YzichV2+XlhiMu8g',
+  'a=fingerprint:sha-256 49:66:12:17:0D:1C:91:AE:57:4C:C6:36:DD:D5:97:D2',
+  'a=rtpmap:96 VP8/90000',
+  'a=extmap:1 urn:ietf:params:rtp-hdrext:sdes:mid',
+  'a=candidate:842163049 1 udp 1677729535 2001:db8::1 50000 typ srflx',
+].join('\r\n');
+
+describe('redactSdp', () => {
+  it('masks credentials, fingerprint and addresses but keeps the media description', () => {
+    const redacted = redactSdp(SDP);
+
+    expect(redacted).not.toMatch(/203\.0\.113\.7|127\.0\.0\.1|2001:db8|F7gI|x9cml|49:66/);
+    expect(redacted).toContain('a=ice-pwd:[redacted]');
+    expect(redacted).toContain('a=fingerprint:[redacted]');
+    expect(redacted).toContain('a=rtpmap:96 VP8/90000');
+    expect(redacted).toContain('a=extmap:1 urn:ietf:params:rtp-hdrext:sdes:mid');
+    expect(redacted).toContain('udp 1677729535 [redacted] 50000 typ srflx');
+  });
+
+  it('masks mDNS host names', () => {
+    expect(
+      redactAddresses('candidate:1 1 udp 2122260223 4f1c2b3a-1d2e-4f5a-9b8c-7d6e5f4a3b2c.local 5')
+    ).toBe('candidate:1 1 udp 2122260223 [redacted] 5');
+  });
+});
+
+describe('buildDiagnosticsBundle', () => {
+  const options = (redactSdp: boolean) => {
+    const log = createEventLog();
+    log.record('info', 'signaling', 'Sent offer', {
+      peerId: 'bob',
+      data: { sdp: { type: 'offer', sdp: SDP } },
+    });
+    log.record('debug', 'signaling', 'Received ICE candidate', {
+      peerId: 'bob',
+      data: { candidate: { candidate: 'candidate:1 1 udp 1 198.51.100.4 9 typ host' } },
+    });
+    return {
+      roomId: 'room',
+      userId: 'alice',
+      userAgent: 'test',
+      peers: {
+        bob: {
+          connectionState: 'connected' as const,
+          iceConnectionState: 'connected' as const,
+          signalingState: 'stable' as const,
+          localDescription: SDP,
+          remoteDescription: null,
+        },
+      },
+      log,
+      redactSdp,
+      createdAt: new Date('2024-01-01T10:00:00Z'),
+    };
+  };
+
+  it('bundles the events and the state of each connection', () => {
+    const bundle = buildDiagnosticsBundle(options(false));
+
+    expect(bundle).toMatchObject({
+      version: 1,
+      createdAt: '2024-01-01T10:00:00.000Z',
+      roomId: 'room',
+      redacted: false,
+      droppedEvents: 0,
+    });
+    expect(bundle.peers.bob.localDescription).toBe(SDP);
+    expect(bundle.events).toHaveLength(2);
+    expect(JSON.stringify(bundle)).toContain('198.51.100.4');
+  });
+
+  it('redacts SDP and candidates everywhere on request', () => {
+    const bundle = buildDiagnosticsBundle(options(true));
+    const json = JSON.stringify(bundle);
+
+    expect(bundle.redacted).toBe(true);
+    expect(bundle.peers.bob.remoteDescription).toBeNull();
+    expect(json).not.toMatch(/203\.0\.113\.7|198\.51\.100\.4|x9cml/);
+    expect(json).toContain('VP8/90000');
+  });
+
+  it('names the file after the room and time', () => {
+    expect(diagnosticsFileName('abc', new Date(2024, 0, 1, 10, 30, 0))).toBe(
+      'screenshare-abc-diagnostics-2024-01-01-10-30-00.json'
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { fileTimestamp } from '../recording';
+import { DiagnosticEvent, EventLog } from './log';
+
+// Where a peer connection stands when the bundle is made
+export interface PeerDiagnostics {
+  connectionState: RTCPeerConnectionState;
+  iceConnectionState: RTCIceConnectionState;
+  signalingState: RTCSignalingState;
+  localDescription: string | null;
+  remoteDescription: string | null;
+}
+
+export interface DiagnosticsBundle {
+  version: 1;
+  createdAt: string;
+  roomId: string;
+  userId: string;
+  userAgent: string;
+  // Whether SDP and candidate addresses were masked
+  redacted: boolean;
+  peers: Record<string, PeerDiagnostics>;
+  droppedEvents: number;
+  events: DiagnosticEvent[];
+}
+
+export interface DiagnosticsOptions {
+  roomId: string;
+  userId: string;
+  userAgent: string;
+  peers: Record<string, PeerDiagnostics>;
+  log: EventLog;
+  redactSdp: boolean;
+  createdAt?: Date;
+}
+
+const REDACTED = '[redacted]';
+
+// IPv4, IPv6 and the mDNS names browsers hide local addresses behind
+const ADDRESS_PATTERNS = [
+  /\b\d{1,3}(\.\d{1,3}){3}\b/g,
+  /[0-9a-f]{0,4}(:[0-9a-f]{0,4}){2,7}/gi,
+  /\b[0-9a-f-]{36}\.local\b/gi,
+];
+
+// Mask the IP addresses in a candidate or SDP line
+export function redactAddresses(text: string): string {
+  return ADDRESS_PATTERNS.reduce((redacted, pattern) => redacted.replace(pattern, REDACTED), text);
+}
+
+// Keep what an SDP negotiates (media, codecs, directions) but mask the credentials, the
+// certificate fingerprint and the addresses that identify the user
+export function redactSdp(sdp: string): string {
+  return sdp
+    .split(/\r?\n/)
+    .map(line => {
+      const credential = /^a=(ice-ufrag|ice-pwd|fingerprint):/.exec(line);
+      return credential ? `a=${credential[1]}:${REDACTED}` : redactAddresses(line);
+    })
+    .join('\r\n');
+}
+
+// Redact SDP and candidates wherever they are in event data
+const redactValue = (key: string, value: unknown): unknown => {
+  if (typeof value === 'string') {
+    if (key === 'sdp') return redactSdp(value);
+    if (key === 'candidate') return redactAddresses(value);
+    return value;
+  }
+  if (Array.isArray(value)) return value.map(item => redactValue(key, item));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([entryKey, entry]) => [entryKey, redactValue(entryKey, entry)])
+    );
+  }
+  return value;
+};
+
+export function buildDiagnosticsBundle({
+  roomId,
+  userId,
+  userAgent,
+  peers,
+  log,
+  redactSdp: redact,
+  createdAt = new Date(),
+}: DiagnosticsOptions): DiagnosticsBundle {
+  const events = log.events();
+  const mask = (description: string | null) =>
+    redact && description !== null ? redactSdp(description) : description;
+
+  return {
+    version: 1,
+    createdAt: createdAt.toISOString(),
+    roomId,
+    userId,
+    userAgent,
+    redacted: redact,
+    peers: Object.fromEntries(
+      Object.entries(peers).map(([peerId, peer]) => [
+        peerId,
+        {
+          ...peer,
+          localDescription: mask(peer.localDescription),
+          remoteDescription: mask(peer.remoteDescription),
+        },
+      ])
+    ),
+    droppedEvents: log.dropped(),
+    events: redact
+      ? events.map(event =>
+          event.data
+            ? { ...event, data: redactValue('data', event.data) as typeof event.data }
+            : event
+        )
+      : events,
+  };
+}
+
+// e.g. screenshare-abc123-diagnostics-2024-01-01-10-30-00.json
+export function diagnosticsFileName(roomId: string, createdAt: Date): string {
+  return `screenshare-${roomId}-diagnostics-${fileTimestamp(createdAt)}.json`;
+}
@@ -0,0 +1,4 @@
+export { createEventLog, MAX_EVENTS } from './log';
+export type { DiagnosticEvent, EventCategory, EventLevel, EventLog } from './log';
+export { buildDiagnosticsBundle, diagnosticsFileName, redactAddresses, redactSdp } from './bundle';
+export type { DiagnosticsBundle, DiagnosticsOptions, PeerDiagnostics } from './bundle';
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+
+import { createEventLog } from './log';
+
+describe('createEventLog', () => {
+  it('records events with their time, level and details', () => {
+    const log = createEventLog(10, () => new Date('2024-01-01T10:00:00Z'));
+    log.record('info', 'signaling', 'Sent offer', { peerId: 'bob', data: { type: 'offer' } });
+    log.record('warn', 'negotiation', 'Ignored colliding offer');
+
+    expect(log.events()).toEqual([
+      {
+        time: '2024-01-01T10:00:00.000Z',
+        level: 'info',
+        category: 'signaling',
+        message: 'Sent offer',
+        peerId: 'bob',
+        data: { type: 'offer' },
+      },
+      {
+        time: '2024-01-01T10:00:00.000Z',
+        level: 'warn',
+        category: 'negotiation',
+        message: 'Ignored colliding offer',
+      },
+    ]);
+  });
+
+  it('drops the oldest events beyond its limit', () => {
+    const log = createEventLog(3);
+    ['a', 'b', 'c', 'd', 'e'].forEach(message => log.record('debug', 'room', message));
+
+    expect(log.events().map(event => event.message)).toEqual(['c', 'd', 'e']);
+    expect(log.dropped()).toBe(2);
+  });
+});
@@ -0,0 +1,61 @@
+export type EventLevel = 'debug' | 'info' | 'warn' | 'error';
+
+// What an event is about: signaling messages, peer connection and ICE states, offer collisions
+// and rollbacks, stats snapshots, and everything else in the room
+export type EventCategory = 'signaling' | 'connection' | 'negotiation' | 'stats' | 'room';
+
+export interface DiagnosticEvent {
+  // ISO time the event was recorded
+  time: string;
+  level: EventLevel;
+  category: EventCategory;
+  message: string;
+  // The peer it concerns, if any
+  peerId?: string;
+  data?: Record<string, unknown>;
+}
+
+export interface EventLog {
+  record: (
+    // eslint-disable-next-line no-unused-vars
+    level: EventLevel,
+    // eslint-disable-next-line no-unused-vars
+    category: EventCategory,
+    // eslint-disable-next-line no-unused-vars
+    message: string,
+    // eslint-disable-next-line no-unused-vars
+    details?: { peerId?: string; data?: Record<string, unknown> }
+  ) => void;
+  // Oldest first
+  events: () => DiagnosticEvent[];
+  // How many of the oldest events were dropped to stay within the limit
+  dropped: () => number;
+}
+
+// Enough for a long session's signaling and a snapshot of every connection every few seconds
+export const MAX_EVENTS = 5000;
+
+// A log of what happened in a session, kept in memory for a diagnostics bundle
+export function createEventLog(limit = MAX_EVENTS, now: () => Date = () => new Date()): EventLog {
+  const events: DiagnosticEvent[] = [];
+  let dropped = 0;
+
+  return {
+    record: (level, category, message, details = {}) => {
+      events.push({
+        time: now().toISOString(),
+        level,
+        category,
+        message,
+        ...(details.peerId && { peerId: details.peerId }),
+        ...(details.data && { data: details.data }),
+      });
+      if (events.length > limit) {
+        dropped += events.length - limit;
+        events.splice(0, events.length - limit);
+      }
+    },
+    events: () => [...events],
+    dropped: () => dropped,
+  };
+}
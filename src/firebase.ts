@@ -1,5 +1,6 @@
-import { initializeApp } from 'firebase/app';
-import { getDatabase } from 'firebase/database';
+import { FirebaseApp, initializeApp } from 'firebase/app';
+import { getAuth, signInAnonymously } from 'firebase/auth';
+import { Database, getDatabase } from 'firebase/database';
 
 // Populate in your .env file
 const firebaseConfig = {
@@ -13,8 +14,32 @@ const firebaseConfig = {
   measurementId: import.meta.env.VITE_FIREBASE_MEASUREMENT_ID,
 };
 
-// Initialize Firebase
-const app = initializeApp(firebaseConfig);
+let app: FirebaseApp | null = null;
+let database: Database | null = null;
+let signIn: Promise<string> | null = null;
 
-// Get a reference to the database service
-export const database = getDatabase(app);
+// Initialize Firebase on first use so deployments using the WebSocket
+// signaling server don't need any Firebase configuration
+export function getFirebaseDatabase(): Database {
+  if (!database) {
+    app = initializeApp(firebaseConfig);
+    database = getDatabase(app);
+  }
+  return database;
+}
+
+// Sign in anonymously and resolve with the Firebase Auth UID. database.rules.json ties users,
+// signaling messages and the host role to it, and it survives reloads like the room identity.
+// Requires the Anonymous sign-in provider to be enabled in the Firebase console.
+export function signInToFirebase(): Promise<string> {
+  if (!signIn) {
+    signIn = signInAnonymously(getAuth(getFirebaseDatabase().app))
+      .then(credential => credential.user.uid)
+      .catch(err => {
+        // Let the next join try again
+        signIn = null;
+        throw err;
+      });
+  }
+  return signIn;
+}
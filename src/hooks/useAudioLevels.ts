@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from 'react';
+
+import { AudioLevelMeter, createAudioLevelMeter } from '../audio';
+
+// How often levels are read; fast enough for a speaking indicator to follow speech
+const READ_INTERVAL_MS = 150;
+
+// The audio level (0-1) of everyone's tracks, by user ID, for speaking indicators. Users without
+// audio are left out.
+export function useAudioLevels(tracks: Record<string, MediaStreamTrack[]>): Record<string, number> {
+  const [levels, setLevels] = useState<Record<string, number>>({});
+  const context = useRef<AudioContext | null>(null);
+  const meters = useRef<Record<string, { key: string; meter: AudioLevelMeter }>>({});
+
+  // The tracks change identity on every render; only rebuild meters when the track IDs change
+  const key = Object.entries(tracks)
+    .filter(([, audio]) => audio.length > 0)
+    .map(([id, audio]) => `${id}:${audio.map(track => track.id).join(',')}`)
+    .sort()
+    .join(';');
+  const tracksRef = useRef(tracks);
+  tracksRef.current = tracks;
+
+  useEffect(() => {
+    const current = meters.current;
+    const meterKey = (id: string) => (tracksRef.current[id] ?? []).map(track => track.id).join(',');
+
+    // Drop the meters of users whose tracks changed or went away
+    Object.keys(current).forEach(id => {
+      if (current[id].key === meterKey(id)) return;
+      current[id].meter.stop();
+      delete current[id];
+    });
+    if (!key || typeof AudioContext === 'undefined') return;
+
+    try {
+      context.current ??= new AudioContext();
+    } catch (err) {
+      console.warn('[Audio] Could not measure audio levels:', err);
+      return;
+    }
+    const audioContext = context.current;
+    // Browsers start it suspended until the page was interacted with
+    audioContext.resume().catch(() => {});
+
+    Object.entries(tracksRef.current).forEach(([id, audio]) => {
+      if (current[id] || audio.length === 0) return;
+      current[id] = { key: meterKey(id), meter: createAudioLevelMeter(audioContext, audio) };
+    });
+
+    const timer = setInterval(() => {
+      const next: Record<string, number> = {};
+      Object.entries(meters.current).forEach(([id, { meter }]) => {
+        next[id] = Math.round(meter.read() * 100) / 100;
+      });
+      setLevels(prev => {
+        const ids = Object.keys(next);
+        const unchanged =
+          ids.length === Object.keys(prev).length && ids.every(id => prev[id] === next[id]);
+        return unchanged ? prev : next;
+      });
+    }, READ_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [key]);
+
+  // Stop measuring when the room is left
+  useEffect(
+    () => () => {
+      Object.values(meters.current).forEach(({ meter }) => meter.stop());
+      meters.current = {};
+      context.current?.close().catch(() => {});
+      context.current = null;
+    },
+    []
+  );
+
+  return key ? levels : {};
+}
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+
+import { FrameCapture } from '../capture';
+
+interface UseCaptureGalleryResult {
+  // Newest first
+  captures: FrameCapture[];
+  // eslint-disable-next-line no-unused-vars
+  addCapture: (blob: Blob, streamId: string) => FrameCapture;
+  // eslint-disable-next-line no-unused-vars
+  removeCapture: (id: string) => void;
+}
+
+// Frames captured in this session. Their object URLs are released when they are removed or
+// the room is left.
+export function useCaptureGallery(): UseCaptureGalleryResult {
+  const [captures, setCaptures] = useState<FrameCapture[]>([]);
+  const capturesRef = useRef<FrameCapture[]>([]);
+  capturesRef.current = captures;
+
+  const addCapture = useCallback((blob: Blob, streamId: string) => {
+    const capture: FrameCapture = {
+      id: uuidv4(),
+      streamId,
+      takenAt: new Date(),
+      blob,
+      url: URL.createObjectURL(blob),
+    };
+    setCaptures(prev => [capture, ...prev]);
+    return capture;
+  }, []);
+
+  const removeCapture = useCallback((id: string) => {
+    const capture = capturesRef.current.find(existing => existing.id === id);
+    if (capture) URL.revokeObjectURL(capture.url);
+    setCaptures(prev => prev.filter(existing => existing.id !== id));
+  }, []);
+
+  useEffect(() => {
+    return () => capturesRef.current.forEach(({ url }) => URL.revokeObjectURL(url));
+  }, []);
+
+  return { captures, addCapture, removeCapture };
+}
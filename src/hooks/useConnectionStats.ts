@@ -0,0 +1,61 @@
+import { useEffect, useRef, useState } from 'react';
+
+import { ConnectionStats, StatsCounters, summarizeConnectionStats } from '../stats';
+
+// How often connections are polled; bitrates and loss are averaged over this long
+const POLL_INTERVAL_MS = 2000;
+
+// Stats of our connection to each peer, by user ID, polled while enabled. Peers we have no
+// connection to yet are left out.
+export function useConnectionStats(
+  peers: string[],
+  // eslint-disable-next-line no-unused-vars
+  getConnectionStats: (peerId: string) => Promise<RTCStatsReport | null>,
+  enabled: boolean
+): Record<string, ConnectionStats> {
+  const [stats, setStats] = useState<Record<string, ConnectionStats>>({});
+  const counters = useRef<Record<string, StatsCounters>>({});
+
+  const peersKey = [...peers].sort().join(',');
+  const getStatsRef = useRef(getConnectionStats);
+  getStatsRef.current = getConnectionStats;
+
+  useEffect(() => {
+    if (!enabled) {
+      // Bitrates would otherwise span the time the overlay was closed
+      counters.current = {};
+      return;
+    }
+    const ids = peersKey ? peersKey.split(',') : [];
+    let cancelled = false;
+
+    const poll = async () => {
+      const next: Record<string, ConnectionStats> = {};
+      await Promise.all(
+        ids.map(async peerId => {
+          const report = await getStatsRef.current(peerId);
+          if (!report) return;
+
+          const summary = summarizeConnectionStats(report, counters.current[peerId]);
+          counters.current[peerId] = summary.counters;
+          next[peerId] = summary.stats;
+        })
+      );
+      if (cancelled) return;
+
+      Object.keys(counters.current).forEach(peerId => {
+        if (!next[peerId]) delete counters.current[peerId];
+      });
+      setStats(next);
+    };
+
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [peersKey, enabled]);
+
+  return enabled ? stats : {};
+}
@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { listMediaDevices, MediaDeviceOptions } from '../media';
+
+interface UseMediaDevicesResult extends MediaDeviceOptions {
+  // List the devices again, e.g. once access was granted and their labels are known
+  refresh: () => void;
+}
+
+// Cameras and microphones to choose from, kept up to date as devices are plugged in or out
+export function useMediaDevices(): UseMediaDevicesResult {
+  const [devices, setDevices] = useState<MediaDeviceOptions>({ cameras: [], microphones: [] });
+
+  const refresh = useCallback(() => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+
+    navigator.mediaDevices
+      .enumerateDevices()
+      .then(found => setDevices(listMediaDevices(found)))
+      .catch(err => console.warn('[Media] Could not list devices:', err));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  return { ...devices, refresh };
+}
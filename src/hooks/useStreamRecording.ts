@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import {
+  createStreamRecorder,
+  downloadBlob,
+  recordingFileName,
+  StreamRecorder,
+} from '../recording';
+
+interface UseStreamRecordingOptions {
+  roomId: string;
+  // The stream to record. Changing it mid-recording switches the recording over to it.
+  stream: MediaStream | null;
+  // Told when recording starts and stops, e.g. to let peers know
+  // eslint-disable-next-line no-unused-vars
+  onRecordingChange?: (recording: boolean) => void;
+}
+
+interface UseStreamRecordingResult {
+  isRecording: boolean;
+  elapsedMs: number;
+  bytes: number;
+  error: string | null;
+  startRecording: () => void;
+  // Finish the recording and download it
+  stopRecording: () => Promise<void>;
+}
+
+// Record whatever stream is being viewed to a WebM file, downloaded when recording stops.
+// Leaving the room stops the recording and downloads what was recorded so far.
+export function useStreamRecording({
+  roomId,
+  stream,
+  onRecordingChange,
+}: UseStreamRecordingOptions): UseStreamRecordingResult {
+  const [isRecording, setIsRecording] = useState<boolean>(false);
+  const [elapsedMs, setElapsedMs] = useState<number>(0);
+  const [bytes, setBytes] = useState<number>(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const recorder = useRef<{
+    recorder: StreamRecorder;
+    startedAt: Date;
+    timer: ReturnType<typeof setInterval>;
+  } | null>(null);
+  // Latest values for callbacks that outlive a render
+  const streamRef = useRef<MediaStream | null>(stream);
+  streamRef.current = stream;
+  const onRecordingChangeRef = useRef(onRecordingChange);
+  onRecordingChangeRef.current = onRecordingChange;
+
+  const stopRecording = useCallback(async () => {
+    const current = recorder.current;
+    if (!current) return;
+    recorder.current = null;
+
+    clearInterval(current.timer);
+    onRecordingChangeRef.current?.(false);
+
+    const blob = await current.recorder.stop();
+    if (blob.size > 0) downloadBlob(blob, recordingFileName(roomId, current.startedAt));
+    console.log(`[Recording] Stopped after ${Date.now() - current.startedAt.getTime()}ms`);
+    setIsRecording(false);
+  }, [roomId]);
+
+  const startRecording = useCallback(() => {
+    if (recorder.current) return;
+
+    try {
+      const startedAt = new Date();
+      const streamRecorder = createStreamRecorder(streamRef.current, {
+        onData: setBytes,
+        onError: err => {
+          console.error('[Recording] Recorder error:', err);
+          setError('Recording failed');
+          stopRecording();
+        },
+      });
+      const timer = setInterval(() => setElapsedMs(Date.now() - startedAt.getTime()), 1000);
+      recorder.current = { recorder: streamRecorder, startedAt, timer };
+
+      setError(null);
+      setElapsedMs(0);
+      setBytes(0);
+      setIsRecording(true);
+      onRecordingChangeRef.current?.(true);
+    } catch (err) {
+      console.error('[Recording] Could not start recording:', err);
+      setError(err instanceof Error ? err.message : 'Could not start recording');
+    }
+  }, [stopRecording]);
+
+  // Follow the viewed stream, e.g. when someone else takes over the share
+  useEffect(() => {
+    recorder.current?.recorder.replaceStream(stream);
+  }, [stream]);
+
+  // Don't lose a recording when leaving the room
+  useEffect(() => {
+    return () => {
+      stopRecording();
+    };
+  }, [stopRecording]);
+
+  return { isRecording, elapsedMs, bytes, error, startRecording, stopRecording };
+}
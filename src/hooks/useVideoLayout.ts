@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+
+// Re-render whenever a <video> player or its frame changes size, so overlays placed over the
+// frame can follow it. Returns a counter that changes on every relayout.
+export function useVideoLayout(video: HTMLVideoElement | null): number {
+  const [layoutVersion, setLayoutVersion] = useState<number>(0);
+
+  useEffect(() => {
+    if (!video) return;
+
+    const relayout = () => setLayoutVersion(version => version + 1);
+    window.addEventListener('resize', relayout);
+    video.addEventListener('resize', relayout);
+    video.addEventListener('loadedmetadata', relayout);
+    return () => {
+      window.removeEventListener('resize', relayout);
+      video.removeEventListener('resize', relayout);
+      video.removeEventListener('loadedmetadata', relayout);
+    };
+  }, [video]);
+
+  return layoutVersion;
+}
@@ -0,0 +1,1218 @@
+import { act } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  ANNOTATION_SEND_INTERVAL_MS,
+  createAnnotation,
+  extendAnnotation,
+  HIGHLIGHTER_FADE_MS,
+} from '../annotation';
+import { encodePeerData } from '../datachannel';
+import { POINTER_IDLE_MS, POINTER_SEND_INTERVAL_MS } from '../pointer';
+import { createRoomIdentity } from '../profile';
+import { SHARE_PRESETS } from '../quality';
+import { ABANDONED_AFTER_MS, STALE_AFTER_MS } from '../signaling';
+import { FAKE_SFU_CONFIG, FAKE_SFU_CREDENTIALS_CONFIG, installFakeSfu } from '../test/fakeSfu';
+import { FakeRTCPeerConnection } from '../test/fakeWebRTC';
+import { createTestRoom } from '../test/harness';
+
+describe('useWebRTCFirebase', () => {
+  it('connects participants who join the same room', async () => {
+    const room = createTestRoom();
+    const alice = await room.join('alice');
+    const bob = await room.join('bob');
+
+    expect(alice.state.isConnected).toBe(true);
+    expect(alice.state.peers).toEqual([bob.userId]);
+    expect(bob.state.peers).toEqual([alice.userId]);
+    expect(
+      alice.connectionTo(bob)?.connectionState ?? bob.connectionTo(alice)?.connectionState
+    ).toBe('connected');
+  });
+
+  it('delivers a screen share to every viewer', async () => {
+    const room = createTestRoom();
+    const alice = await room.join('alice');
+    const bob = await room.join('bob');
+    const carol = await room.join('carol');
+
+    const stream = await alice.share();
+    await room.settle();
+
+    expect(stream).not.toBeNull();
+    expect(alice.state.selectedStream).toBe(alice.userId);
+    for (const viewer of [bob, carol]) {
+      const data = viewer.state.peerStreamsWithData[alice.userId];
+      expect(data?.isSharing).toBe(true);
+      expect(data?.streamReady).toBe(true);
+      expect(viewer.state.peerStreams[alice.userId]?.getVideoTracks()).toHaveLength(1);
+      expect(viewer.state.selectedStream).toBe(alice.userId);
+    }
+  });
+
+  it('clears the share for viewers when the sharer stops', async () => {
+    const room = createTestRoom();
+    const alice = await room.join('alice');
+    const bob = await room.join('bob');
+
+    await alice.share();
+    await room.settle();
+    await alice.stopSharing();
+    await room.settle();
+
+    expect(alice.state.localStream).toBeNull();
+    expect(bob.state.peerStreamsWithData[alice.userId]?.isSharing).toBe(false);
+    expect(bob.state.selectedStream).toBeNull();
+  });
+
+  it('stops sharing when the browser ends the captured tracks', async () => {
+    const room = createTestRoom();
+    const alice = await room.join('alice');
+    const bob = await room.join('bob');
+
+    await alice.share();
+    await room.settle();
+    await alice.endShareFromBrowser();
+    await room.settle();
+
+    expect(alice.state.localStream).toBeNull();
+    expect(bob.state.peerStreamsWithData[alice.userId]?.isSharing).toBe(false);
+  });
+
+  it('shows an existing share to a participant who joins later', async () => {
+    const room = createTestRoom();
+    const alice = await room.join('alice');
+    const bob = await room.join('bob');
+    await alice.share();
+    await room.settle();
+
+    const dave = await room.join('dave');
+    await room.settle();
+
+    const data = dave.state.peerStreamsWithData[alice.userId];
+    expect(data?.isSharing).toBe(true);
+    expect(data?.streamReady).toBe(true);
+    expect(dave.state.peerStreams[alice.userId]?.getVideoTracks()).toHaveLength(1);
+    expect(bob.state.peerStreamsWithData[alice.userId]?.isSharing).toBe(true);
+  });
+
+  it('lets a second participant take over while someone is already sharing', async () => {
+    const room = createTestRoom();
+    const alice = await room.join('alice');
+    const bob = await room.join('bob');
+    const carol = await room.join('carol');
+
+    await alice.share();
+    await room.settle();
+    await alice.stopSharing();
+    await bob.share();
+    await room.settle();
+
+    expect(bob.state.selectedStream).toBe(bob.userId);
+    for (const viewer of [alice, carol]) {
+      const data = viewer.state.peerStreamsWithData[bob.userId];
+      expect(data?.isSharing).toBe(true);
+      expect(data?.streamReady).toBe(true);
+      expect(viewer.state.peerStreams[bob.userId]?.getVideoTracks()).toHaveLength(1);
+    }
+    expect(carol.state.peerStreamsWithData[alice.userId]?.isSharing).toBe(false);
+  });
+
+  it('removes a departed sharer from every remaining participant', async () => {
+    const room = createTestRoom();
+    const alice = await room.join('alice');
+    const bob = await room.join('bob');
+    const carol = await room.join('carol');
+
+    await carol.share();
+    await room.settle();
+    await carol.leave();
+    await room.settle();
+
+    for (const remaining of [alice, bob]) {
+      expect(remaining.state.peers).not.toContain(carol.userId);
+      expect(remaining.state.peerStreams[carol.userId]).toBeUndefined();
+      expect(remaining.state.peerStreamsWithData[carol.userId]?.isSharing).toBe(false);
+      expect(remaining.state.selectedStream).toBeNull();
+    }
+    expect(alice.state.peers).toEqual([bob.userId]);
+  });
+
+  it('keeps both sides usable when they start sharing at the same time', async () => {
+    const room = createTestRoom();
+    const alice = await room.join('alice');
+    const bob = await room.join('bob');
+
+    await Promise.all([alice.share(), bob.share()]);
+    await room.settle();
+
+    expect(alice.state.localStream).not.toBeNull();
+    expect(bob.state.localStream).not.toBeNull();
+    expect(alice.state.peers).toEqual([bob.userId]);
+    expect(bob.state.peers).toEqual([alice.userId]);
+
+    // The offers collided; the polite side gave way and both shares made it across
+    expect(alice.state.peerStreamsWithData[bob.userId]?.streamReady).toBe(true);
+    expect(bob.state.peerStreamsWithData[alice.userId]?.streamReady).toBe(true);
+    expect(alice.state.peerStreams[bob.userId]?.getVideoTracks()).toHaveLength(1);
+    expect(bob.state.peerStreams[alice.userId]?.getVideoTracks()).toHaveLength(1);
+  });
+
+  it('stops and restarts a share on the connection it already has', async () => {
+    const room = createTestRoom();
+    const alice = await room.join('alice');
+    const bob = await room.join('bob');
+
+    await alice.share();
+    await room.settle();
+    const connection = alice.connectionTo(bob);
+    const connectionCount = FakeRTCPeerConnection.instances.length;
+
+    await alice.stopSharing();
+    await room.settle();
+    expect(bob.state.peerStreams[alice.userId]?.getVideoTracks()).toHaveLength(0);
+
+    await alice.share();
+    await room.settle();
+
+    expect(alice.connectionTo(bob)).toBe(connection);
+    expect(FakeRTCPeerConnection.instances).toHaveLength(connectionCount);
+    // The share reused its transceivers rather than adding new ones
+    expect(connection?.getTransceivers()).toHaveLength(alice.state.localStream!.getTracks().length);
+    expect(bob.state.peerStreamsWithData[alice.userId]?.isSharing).toBe(true);
+    expect(bob.state.peerStreams[alice.userId]?.getVideoTracks()).toHaveLength(1);
+  });
+
+  it('lets several participants share at once without resetting connections', async () => {
+    const room = createTestRoom();
+    const alice = await room.join('alice');
+    const bob = await room.join('bob');
+    const carol = await room.join('carol');
+
+    await alice.share();
+    await room.settle();
+    const toBob = alice.connectionTo(bob);
+    const toCarol = alice.connectionTo(carol);
+    await bob.share();
+    await room.settle();
+
+    expect(alice.connectionTo(bob)).toBe(toBob);
+    expect(alice.connectionTo(carol)).toBe(toCarol);
+    for (const [viewer, sharers] of [
+      [alice, [bob]],
+      [bob, [alice]],
+      [carol, [alice, bob]],
+    ] as const) {
+      for (const sharer of sharers) {
+        const data = viewer.state.peerStreamsWithData[sharer.userId];
+        expect(data?.isSharing).toBe(true);
+        expect(data?.streamReady).toBe(true);
+        expect(viewer.state.peerStreams[sharer.userId]?.getVideoTracks()).toHaveLength(1);
+      }
+    }
+    expect(alice.state.localStream).not.toBeNull();
+  });
+
+  describe('room passcodes', () => {
+    it('lets participants with the passcode in', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice', { passcode: 'hunter2' });
+      const bob = await room.join('bob', { passcode: 'hunter2' });
+
+      expect(alice.state.passcodeRequired).toBe(false);
+      expect(bob.state.isConnected).toBe(true);
+      expect(alice.state.peers).toEqual([bob.userId]);
+    });
+
+    it('asks for the passcode before registering or receiving offers', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice', { passcode: 'hunter2' });
+      await alice.share();
+      const mallory = await room.join('mallory');
+      await room.settle();
+
+      expect(mallory.state.passcodeRequired).toBe(true);
+      expect(mallory.state.isConnected).toBe(false);
+      expect(alice.state.peers).toEqual([]);
+      expect(room.bus.sent.some(({ message }) => message.target === mallory.userId)).toBe(false);
+    });
+
+    it('rejects a wrong passcode and accepts the right one on retry', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice', { passcode: 'hunter2' });
+      const bob = await room.join('bob');
+
+      await bob.submitPasscode('password');
+      expect(bob.state.passcodeRequired).toBe(true);
+      expect(bob.state.error).toBe('Incorrect passcode');
+      expect(alice.state.peers).toEqual([]);
+
+      await bob.submitPasscode('hunter2');
+      expect(bob.state.passcodeRequired).toBe(false);
+      expect(bob.state.isConnected).toBe(true);
+      expect(alice.state.pendingUsers).toEqual([bob.userId]);
+    });
+
+    it('does not protect a room that is already in use', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob', { passcode: 'hunter2' });
+      const carol = await room.join('carol');
+
+      expect(bob.state.isConnected).toBe(true);
+      expect(carol.state.passcodeRequired).toBe(false);
+      expect([...alice.state.peers].sort()).toEqual([bob.userId, carol.userId].sort());
+    });
+  });
+
+  describe('host and waiting room', () => {
+    it('makes the first participant host and holds newcomers back', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob', { admit: false });
+
+      expect(alice.state.isHost).toBe(true);
+      expect(alice.state.admissionStatus).toBe('admitted');
+      expect(bob.state.isHost).toBe(false);
+      expect(bob.state.hostId).toBe(alice.userId);
+      expect(bob.state.admissionStatus).toBe('pending');
+      expect(alice.state.pendingUsers).toEqual([bob.userId]);
+      expect(alice.state.peers).toEqual([]);
+      expect(bob.state.peers).toEqual([]);
+      expect(alice.connectionTo(bob) ?? bob.connectionTo(alice)).toBeUndefined();
+    });
+
+    it('connects a newcomer once the host admits them', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      await alice.share();
+      const bob = await room.join('bob', { admit: false });
+
+      await alice.admit(bob);
+      await room.settle();
+
+      expect(bob.state.admissionStatus).toBe('admitted');
+      expect(alice.state.pendingUsers).toEqual([]);
+      expect(alice.state.peers).toEqual([bob.userId]);
+      expect(bob.state.peerStreamsWithData[alice.userId]?.streamReady).toBe(true);
+    });
+
+    it('turns away a newcomer the host denies', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob', { admit: false });
+
+      await alice.deny(bob);
+
+      expect(bob.state.admissionStatus).toBe('denied');
+      expect(bob.state.error).toBe('The host did not let you into this room');
+      expect(alice.state.pendingUsers).toEqual([]);
+      expect(alice.state.peers).toEqual([]);
+    });
+
+    it('only lets the host admit users', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+      const carol = await room.join('carol', { admit: false });
+
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      await bob.admit(carol);
+
+      expect(carol.state.admissionStatus).toBe('pending');
+      expect(alice.state.pendingUsers).toEqual([carol.userId]);
+    });
+
+    it('hands the host role to an admitted participant when the host leaves', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+      const carol = await room.join('carol', { admit: false });
+
+      await alice.leave();
+      await room.settle();
+
+      expect(bob.state.isHost).toBe(true);
+      expect(carol.state.hostId).toBe(bob.userId);
+      expect(bob.state.pendingUsers).toEqual([carol.userId]);
+    });
+
+    it('keeps the host role away from users still waiting', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob', { admit: false });
+      await alice.crash();
+      await room.settle(STALE_AFTER_MS);
+
+      const mallory = room.bus.createTransport(room.roomId);
+      await mallory.join('mallory', {
+        joined: new Date().toISOString(),
+        active: false,
+        status: 'pending',
+      });
+
+      expect(await mallory.claimHost('mallory')).toBe(false);
+      expect(bob.state.isHost).toBe(false);
+      expect(bob.state.admissionStatus).toBe('pending');
+    });
+  });
+
+  describe('host moderation', () => {
+    it('removes a participant the host kicks', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+      const carol = await room.join('carol');
+      await bob.share();
+
+      await alice.act(state => state.kickUser(bob.userId));
+      await room.settle();
+
+      expect(bob.state.removedByHost).toBe(true);
+      expect(bob.state.isConnected).toBe(false);
+      expect(bob.state.localStream).toBeNull();
+      for (const remaining of [alice, carol]) {
+        expect(remaining.state.peers).not.toContain(bob.userId);
+        expect(remaining.state.peerStreamsWithData[bob.userId]?.isSharing).toBe(false);
+      }
+    });
+
+    it("stops a participant's share on the host's request", async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+      await bob.share();
+
+      await alice.act(state => state.forceStopSharing(bob.userId));
+      await room.settle();
+
+      expect(bob.state.localStream).toBeNull();
+      expect(bob.state.isConnected).toBe(true);
+      expect(alice.state.peerStreamsWithData[bob.userId]?.isSharing).toBe(false);
+    });
+
+    it('ignores moderation requests from anyone but the host', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+      await alice.share();
+
+      await room.bus.createTransport(room.roomId).sendControl({
+        type: 'kick',
+        from: bob.userId,
+        target: alice.userId,
+        timestamp: new Date().toISOString(),
+      });
+      await bob.act(state => state.forceStopSharing(alice.userId));
+      await room.settle();
+
+      expect(alice.state.removedByHost).toBe(false);
+      expect(alice.state.localStream).not.toBeNull();
+      expect(bob.state.peers).toEqual([alice.userId]);
+    });
+
+    it('keeps newcomers out of a locked room', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+
+      await alice.act(state => state.setRoomLocked(true));
+      const carol = await room.join('carol');
+
+      expect(bob.state.isRoomLocked).toBe(true);
+      expect(carol.state.isConnected).toBe(false);
+      expect(carol.state.isRoomLocked).toBe(true);
+      expect(carol.state.error).toBe('This room is locked');
+      expect(alice.state.pendingUsers).toEqual([]);
+
+      await alice.act(state => state.setRoomLocked(false));
+      const dave = await room.join('dave');
+      expect(dave.state.isConnected).toBe(true);
+      expect(alice.state.peers).toContain(dave.userId);
+    });
+  });
+
+  describe('participant names', () => {
+    it('shares names and avatars with everyone, including users still waiting', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice', {
+        profile: { name: 'Alice Liddell', color: '#db2777' },
+      });
+      const bob = await room.join('bob', { profile: { name: 'Bob', color: '#16a34a' } });
+      const carol = await room.join('carol', {
+        admit: false,
+        profile: { name: '  Carol  ', color: '#0891b2' },
+      });
+
+      expect(alice.state.participants[alice.userId]).toEqual({
+        name: 'Alice Liddell',
+        avatar: { color: '#db2777', initials: 'AL' },
+      });
+      expect(bob.state.participants[alice.userId]?.name).toBe('Alice Liddell');
+      expect(alice.state.participants[bob.userId]).toEqual({
+        name: 'Bob',
+        avatar: { color: '#16a34a', initials: 'B' },
+      });
+      expect(alice.state.participants[carol.userId]?.name).toBe('Carol');
+    });
+
+    it('labels users who joined without a name', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob', { profile: { name: 'Bob', color: '#16a34a' } });
+
+      const anonymous = bob.state.participants[alice.userId];
+      expect(anonymous?.name).toBe(`Guest ${alice.userId.substring(0, 4)}`);
+      expect(anonymous?.avatar.initials).toBe(`G${alice.userId[0].toUpperCase()}`);
+    });
+  });
+
+  describe('rejoining', () => {
+    it('lets a participant back in as the same user after a reload', async () => {
+      window.sessionStorage.clear();
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob', { identity: createRoomIdentity(room.roomId) });
+      await bob.share();
+      const bobId = bob.userId;
+
+      await bob.leave();
+      await room.settle();
+      const reloaded = await room.join('bob', {
+        admit: false,
+        identity: createRoomIdentity(room.roomId),
+      });
+
+      expect(reloaded.userId).toBe(bobId);
+      expect(reloaded.state.admissionStatus).toBe('admitted');
+      expect(reloaded.state.canResumeSharing).toBe(true);
+      expect(alice.state.peers).toEqual([bobId]);
+      expect(Object.keys(alice.state.peerStreamsWithData)).toEqual([bobId]);
+
+      await reloaded.share();
+      await room.settle();
+
+      expect(reloaded.state.canResumeSharing).toBe(false);
+      expect(alice.state.peerStreamsWithData[bobId]?.streamReady).toBe(true);
+    });
+
+    it('replaces the connection of a participant who comes back without having left', async () => {
+      window.sessionStorage.clear();
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob', { identity: createRoomIdentity(room.roomId) });
+      await bob.share();
+      const staleConnection = alice.connectionTo(bob);
+
+      await bob.crash();
+      await room.settle();
+      expect(alice.state.peers).toEqual([bob.userId]);
+
+      const reloaded = await room.join('bob', { identity: createRoomIdentity(room.roomId) });
+
+      expect(staleConnection?.connectionState).toBe('closed');
+      expect(alice.state.peers).toEqual([reloaded.userId]);
+      expect(alice.connectionTo(reloaded)?.connectionState).toBe('connected');
+      // The share didn't survive the reload
+      expect(alice.state.peerStreamsWithData[reloaded.userId]?.isSharing).toBeFalsy();
+
+      await reloaded.share();
+      await room.settle();
+      expect(alice.state.peerStreamsWithData[reloaded.userId]?.streamReady).toBe(true);
+    });
+  });
+
+  describe('presence', () => {
+    it('treats a participant whose heartbeat stopped as gone', async () => {
+      const room = createTestRoom();
+      const bob = await room.join('bob');
+      const alice = await room.join('alice');
+      await bob.share();
+      const bobId = bob.userId;
+
+      await bob.crash();
+      await room.settle();
+      expect(alice.state.peers).toEqual([bobId]);
+
+      await room.settle(STALE_AFTER_MS);
+
+      expect(alice.state.peers).toEqual([]);
+      expect(alice.state.participants[bobId]).toBeUndefined();
+      expect(alice.state.peerStreamsWithData[bobId]?.isSharing).toBe(false);
+      // The departed host's role was freed up
+      expect(alice.state.isHost).toBe(true);
+    });
+
+    it('keeps participants who are still heartbeating', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+
+      await room.settle(STALE_AFTER_MS * 3);
+
+      expect(alice.state.peers).toEqual([bob.userId]);
+      expect(bob.state.peers).toEqual([alice.userId]);
+    });
+
+    it('rejoins when the room drops a participant who is still there', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+      await bob.share();
+
+      // e.g. an onDisconnect firing after a network drop
+      await room.bus.createTransport(room.roomId).leave(bob.userId);
+      await room.settle();
+
+      expect(bob.state.admissionStatus).toBe('admitted');
+      expect(alice.state.peers).toEqual([bob.userId]);
+      expect(alice.connectionTo(bob)?.connectionState).toBe('connected');
+      expect(alice.state.peerStreamsWithData[bob.userId]?.streamReady).toBe(true);
+    });
+
+    it('purges users of an abandoned room when someone joins', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const aliceId = alice.userId;
+      await alice.crash();
+
+      await room.settle(ABANDONED_AFTER_MS);
+      const bob = await room.join('bob');
+
+      expect(bob.state.isHost).toBe(true);
+      expect(bob.state.participants[aliceId]).toBeUndefined();
+      expect(bob.state.peers).toEqual([]);
+    });
+  });
+
+  describe('chat', () => {
+    it('sends messages to peers over the data channel', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice', { profile: { name: 'Alice', color: '#2563eb' } });
+      const bob = await room.join('bob');
+
+      await alice.act(state => state.sendMessage('  Hello everyone  '));
+
+      expect(alice.connectionTo(bob)?.dataChannels[0].sent).toHaveLength(1);
+      for (const participant of [alice, bob]) {
+        expect(participant.state.messages).toEqual([
+          expect.objectContaining({ from: alice.userId, name: 'Alice', text: 'Hello everyone' }),
+        ]);
+      }
+
+      // Nothing went through the signaling backend, so newcomers don't see it
+      const carol = await room.join('carol');
+      expect(carol.state.messages).toEqual([]);
+    });
+
+    it('falls back to the signaling backend when the data channel is not open', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+      const carol = await room.join('carol');
+      alice.connectionTo(bob)?.dataChannels[0].close();
+
+      await alice.act(state => state.sendMessage('Can you hear me?'));
+      await bob.act(state => state.sendMessage('Yes'));
+
+      // Carol got Alice's message both ways but shows it once
+      for (const participant of [alice, bob, carol]) {
+        expect(participant.state.messages.map(message => message.text)).toEqual([
+          'Can you hear me?',
+          'Yes',
+        ]);
+      }
+    });
+
+    it('ignores empty messages', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+
+      await alice.act(state => state.sendMessage('   '));
+
+      expect(alice.state.messages).toEqual([]);
+      expect(bob.state.messages).toEqual([]);
+    });
+  });
+
+  describe('pointers', () => {
+    it("shows a viewer's pointer to the sharer and the other viewers", async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+      const carol = await room.join('carol');
+      await alice.share();
+      const pointer = { streamId: alice.userId, x: 0.25, y: 0.75 };
+
+      await act(async () => bob.state.sendPointer(pointer));
+      await room.settle(POINTER_SEND_INTERVAL_MS);
+
+      expect(alice.state.pointers).toEqual({ [bob.userId]: pointer });
+      expect(carol.state.pointers).toEqual({ [bob.userId]: pointer });
+      expect(bob.state.pointers).toEqual({});
+
+      await act(async () => bob.state.sendPointer(null));
+      await room.settle(POINTER_SEND_INTERVAL_MS);
+
+      expect(alice.state.pointers).toEqual({});
+      expect(carol.state.pointers).toEqual({});
+    });
+
+    it('throttles updates and hides pointers that stopped moving', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+      await alice.share();
+      const channel = bob.connectionTo(alice)?.dataChannels[0];
+      const sentBefore = channel?.sent.length ?? 0;
+
+      await act(async () => {
+        [0.1, 0.2, 0.3].forEach(x => bob.state.sendPointer({ streamId: alice.userId, x, y: 0.5 }));
+      });
+      await room.settle(POINTER_SEND_INTERVAL_MS);
+
+      // The first update and the latest one
+      expect(channel?.sent.length).toBe(sentBefore + 2);
+      expect(alice.state.pointers[bob.userId]?.x).toBe(0.3);
+
+      await room.settle(POINTER_IDLE_MS);
+      expect(alice.state.pointers).toEqual({});
+    });
+  });
+
+  describe('annotations', () => {
+    it("syncs strokes and undoes only the author's own", async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+      const carol = await room.join('carol');
+      await alice.share();
+
+      let stroke = createAnnotation(bob.userId, alice.userId, 'pen', '#f00', { x: 0.1, y: 0.1 });
+      await act(async () => bob.state.drawAnnotation(stroke));
+      stroke = { ...extendAnnotation(stroke, { x: 0.2, y: 0.3 }), complete: true };
+      await act(async () => bob.state.drawAnnotation(stroke));
+      await room.settle(ANNOTATION_SEND_INTERVAL_MS);
+
+      [alice, bob, carol].forEach(participant => {
+        expect(participant.state.annotations).toMatchObject([
+          { id: stroke.id, points: stroke.points, complete: true },
+        ]);
+      });
+
+      // Carol has nothing of her own to undo
+      await carol.act(() => carol.state.undoAnnotation(alice.userId));
+      expect(alice.state.annotations).toHaveLength(1);
+
+      await bob.act(() => bob.state.undoAnnotation(alice.userId));
+      [alice, bob, carol].forEach(participant => {
+        expect(participant.state.annotations).toEqual([]);
+      });
+    });
+
+    it('lets only the sharer clear their screen', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+      const carol = await room.join('carol');
+      await alice.share();
+
+      const stroke = {
+        ...createAnnotation(carol.userId, alice.userId, 'rect', '#0f0', { x: 0.1, y: 0.1 }),
+        complete: true,
+      };
+      await carol.act(() => carol.state.drawAnnotation(stroke));
+
+      // A clear for Alice's screen that doesn't come from Alice is ignored
+      const clear = encodePeerData({ type: 'annotation-clear', streamId: alice.userId });
+      await bob.act(() => bob.connectionTo(carol)?.dataChannels[0].send(clear));
+      expect(carol.state.annotations).toHaveLength(1);
+
+      await alice.act(() => alice.state.clearAnnotations());
+      [alice, bob, carol].forEach(participant => {
+        expect(participant.state.annotations).toEqual([]);
+      });
+    });
+
+    it('fades out finished highlighter strokes', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+      await alice.share();
+
+      const stroke = {
+        ...createAnnotation(bob.userId, alice.userId, 'highlighter', '#ff0', { x: 0.5, y: 0.5 }),
+        complete: true,
+      };
+      await act(async () => bob.state.drawAnnotation(stroke));
+      await room.settle(ANNOTATION_SEND_INTERVAL_MS);
+      expect(alice.state.annotations[0]?.completedAt).toBeDefined();
+
+      await room.settle(HIGHLIGHTER_FADE_MS);
+      expect(alice.state.annotations).toEqual([]);
+      expect(bob.state.annotations).toEqual([]);
+    });
+  });
+
+  describe('recording', () => {
+    it('shows who is recording, also to peers who join later', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+      await alice.share();
+
+      await bob.act(() => bob.state.setRecording(true));
+      expect(alice.state.recordingPeers).toEqual([bob.userId]);
+
+      const carol = await room.join('carol');
+      expect(carol.state.recordingPeers).toEqual([bob.userId]);
+
+      await bob.act(() => bob.state.setRecording(false));
+      expect(alice.state.recordingPeers).toEqual([]);
+      expect(carol.state.recordingPeers).toEqual([]);
+    });
+  });
+
+  describe('camera and microphone', () => {
+    it('sends them apart from the screen share and turns each off on its own', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+      await alice.share();
+
+      await alice.act(state => state.setCameraEnabled(true));
+      await alice.act(state => state.setMicrophoneEnabled(true));
+
+      const media = () => bob.state.peerMedia[alice.userId];
+      expect(media()?.screen).not.toBeNull();
+      expect(media()?.camera).toBeTruthy();
+      expect(media()?.microphone).toBeTruthy();
+      expect(media()?.cameraStream).not.toBe(bob.state.peerStreams[alice.userId]);
+      // Viewers still watch the screen share itself
+      expect(bob.state.peerStreams[alice.userId]?.getVideoTracks()).toHaveLength(1);
+      expect(alice.state.peerMedia[alice.userId]?.camera).not.toBeNull();
+
+      await alice.act(state => state.setCameraEnabled(false));
+      expect(media()?.camera).toBeNull();
+      expect(media()?.microphone).not.toBeNull();
+
+      await alice.stopSharing();
+      await room.settle();
+      expect(media()?.screen).toBeNull();
+      expect(media()?.microphone).not.toBeNull();
+    });
+
+    it('shows a camera to peers who join later, without it counting as a share', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      await alice.act(state => state.setCameraEnabled(true));
+
+      const bob = await room.join('bob');
+
+      expect(bob.state.peerMedia[alice.userId]?.camera).toBeTruthy();
+      expect(bob.state.peerMedia[alice.userId]?.microphone).toBeNull();
+      expect(bob.state.peerStreams[alice.userId]).toBeUndefined();
+      expect(bob.state.peerStreamsWithData[alice.userId]?.isSharing).toBeFalsy();
+    });
+  });
+
+  describe('share audio', () => {
+    it('mutes the audio of our share without renegotiating, also for the next share', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+      await alice.share();
+      const shareAudio = () => alice.state.localStream?.getAudioTracks()[0];
+      const offers = () => room.bus.sent.filter(({ message }) => message.sdp?.type === 'offer');
+      const offerCount = offers().length;
+
+      await alice.act(state => state.setShareAudioMuted(true));
+      expect(alice.state.isShareAudioMuted).toBe(true);
+      expect(shareAudio()?.enabled).toBe(false);
+      expect(offers()).toHaveLength(offerCount);
+      expect(bob.state.peerMedia[alice.userId]?.screenAudio).toBeTruthy();
+
+      await alice.stopSharing();
+      await room.settle();
+      await alice.share();
+      expect(shareAudio()?.enabled).toBe(false);
+
+      await alice.act(state => state.setShareAudioMuted(false));
+      expect(shareAudio()?.enabled).toBe(true);
+    });
+  });
+
+  describe('share quality', () => {
+    it('tunes the capture and the senders to the preset, also while sharing', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+      await alice.share();
+
+      const track = () => alice.state.localStream?.getVideoTracks()[0];
+      const encoding = () =>
+        alice
+          .connectionTo(bob)
+          ?.getSenders()
+          .find(sender => sender.track?.id === track()?.id)
+          ?.getParameters().encodings[0];
+      expect(alice.state.sharePreset).toBe('detail');
+      expect(track()?.contentHint).toBe('text');
+      expect(encoding()).toMatchObject({
+        maxBitrate: SHARE_PRESETS.detail.maxBitrate,
+        maxFramerate: SHARE_PRESETS.detail.maxFramerate,
+        scaleResolutionDownBy: 1,
+      });
+
+      await alice.act(state => state.setSharePreset('motion'));
+      expect(track()?.contentHint).toBe('motion');
+      expect(encoding()?.maxBitrate).toBe(SHARE_PRESETS.motion.maxBitrate);
+    });
+
+    it('backs off while a viewer reports packet loss and recovers after', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+      await alice.share();
+
+      const track = alice.state.localStream?.getVideoTracks()[0];
+      const sender = alice
+        .connectionTo(bob)
+        ?.getSenders()
+        .find(candidate => candidate.track?.id === track?.id);
+      const maxBitrate = () => sender?.getParameters().encodings[0].maxBitrate ?? 0;
+      const reportLoss = (fractionLost: number) =>
+        vi
+          .spyOn(sender!, 'getStats')
+          .mockResolvedValue(
+            new Map([
+              ['remote', { type: 'remote-inbound-rtp', kind: 'video', fractionLost }],
+            ]) as unknown as RTCStatsReport
+          );
+
+      reportLoss(0.2);
+      await room.settle();
+      const backedOff = maxBitrate();
+      expect(backedOff).toBeLessThan(SHARE_PRESETS.detail.maxBitrate);
+
+      reportLoss(0);
+      await room.settle();
+      expect(maxBitrate()).toBeGreaterThan(backedOff);
+    });
+  });
+
+  describe('connection stats', () => {
+    it('reports on connections to peers only', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+
+      const report = new Map() as unknown as RTCStatsReport;
+      const getStats = vi.spyOn(alice.connectionTo(bob)!, 'getStats').mockResolvedValue(report);
+
+      expect(await alice.state.getConnectionStats(bob.userId)).toBe(report);
+      expect(getStats).toHaveBeenCalled();
+      expect(await alice.state.getConnectionStats('nobody')).toBeNull();
+    });
+  });
+
+  describe('diagnostics', () => {
+    it('logs signaling and connection states, with candidates redacted on request', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+
+      const bundle = alice.state.getDiagnostics({ redactSdp: false });
+      const messages = bundle.events
+        .filter(event => event.peerId === bob.userId)
+        .map(event => event.message);
+      expect(messages).toEqual(
+        expect.arrayContaining([
+          'Creating peer connection',
+          'Sent ICE candidate',
+          'Received ICE candidate',
+          'Connection state: connected',
+        ])
+      );
+      expect(messages.some(message => /^(Sent|Received) (offer|answer)$/.test(message))).toBe(true);
+      expect(bundle.peers[bob.userId]).toMatchObject({
+        connectionState: 'connected',
+        signalingState: 'stable',
+      });
+      expect(JSON.stringify(bundle)).toContain('192.0.2.1');
+
+      const redacted = alice.state.getDiagnostics({ redactSdp: true });
+      expect(redacted.redacted).toBe(true);
+      expect(JSON.stringify(redacted)).not.toContain('192.0.2.1');
+    });
+
+    it('snapshots connection stats periodically', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+
+      await room.settle();
+      const snapshots = alice.state
+        .getDiagnostics({ redactSdp: false })
+        .events.filter(event => event.category === 'stats' && event.peerId === bob.userId);
+      expect(snapshots.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('reconnecting', () => {
+    it('restarts ICE on a failed connection and keeps the stream meanwhile', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+      await bob.share();
+
+      const pc = alice.connectionTo(bob)!;
+      await act(async () => pc.simulateConnectionState('failed'));
+      await room.settle(10);
+      expect(alice.state.reconnectingPeers).toEqual([bob.userId]);
+      expect(pc.restartIceCount).toBe(1);
+      expect(alice.state.peerStreams[bob.userId]).toBeDefined();
+
+      await act(async () => pc.simulateConnectionState('connected'));
+      await room.settle();
+      expect(alice.state.reconnectingPeers).toEqual([]);
+      expect(pc.restartIceCount).toBe(1);
+      expect(alice.state.peerStreams[bob.userId]).toBeDefined();
+    });
+
+    it('backs off between ICE restarts and rebuilds the connection when they do not help', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+
+      const pc = alice.connectionTo(bob)!;
+      await act(async () => pc.simulateConnectionState('failed'));
+      await room.settle(500);
+      expect(pc.restartIceCount).toBe(1);
+      await room.settle(1000);
+      expect(pc.restartIceCount).toBe(2);
+      await room.settle(5500);
+      expect(pc.restartIceCount).toBe(3);
+      expect(pc.connectionState).toBe('closed');
+
+      await room.settle(20000);
+      const rebuilt = alice.connectionTo(bob);
+      expect(rebuilt).not.toBe(pc);
+      expect(rebuilt?.connectionState).toBe('connected');
+      expect(alice.state.reconnectingPeers).toEqual([]);
+    });
+
+    it('waits for the network to come back before restarting ICE', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+      const pc = alice.connectionTo(bob)!;
+
+      const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      await act(async () => {
+        window.dispatchEvent(new Event('offline'));
+        pc.simulateConnectionState('disconnected');
+      });
+      await room.settle();
+      expect(alice.state.reconnectingPeers).toEqual([bob.userId]);
+      expect(pc.restartIceCount).toBe(0);
+
+      onLine.mockReturnValue(true);
+      await act(async () => {
+        window.dispatchEvent(new Event('online'));
+      });
+      await room.settle(10);
+      expect(pc.restartIceCount).toBe(1);
+
+      await act(async () => pc.simulateConnectionState('connected'));
+      expect(alice.state.reconnectingPeers).toEqual([]);
+      onLine.mockRestore();
+    });
+  });
+
+  describe('SFU', () => {
+    const joinAll = async (room: ReturnType<typeof createTestRoom>) => [
+      await room.join('alice', { sfu: FAKE_SFU_CONFIG }),
+      await room.join('bob', { sfu: FAKE_SFU_CONFIG }),
+      await room.join('carol', { sfu: FAKE_SFU_CONFIG }),
+    ];
+
+    it('shares through the SFU once the room is large enough', async () => {
+      const sfu = installFakeSfu();
+      const room = createTestRoom();
+      const [alice, bob, carol] = await joinAll(room);
+      expect(alice.state.topology).toBe('sfu');
+
+      const stream = await alice.share();
+      await room.settle();
+
+      // Under a name nobody could have guessed
+      const [[name, published]] = [...sfu.published];
+      expect(name).not.toContain(room.roomId);
+      expect(name).not.toContain(alice.userId);
+      expect(published.getTracks()).toHaveLength(2);
+      expect(sfu.subscribers.get(name)).toBe(2);
+      for (const viewer of [bob, carol]) {
+        const received = viewer.state.peerStreams[alice.userId];
+        expect(received.id).not.toBe(stream?.id);
+        expect(received.getVideoTracks()).toHaveLength(1);
+        expect(viewer.state.peerStreamsWithData[alice.userId]).toMatchObject({
+          isSharing: true,
+          streamReady: true,
+        });
+      }
+      // The mesh carries no screen share while the SFU does
+      const offered = JSON.parse(alice.connectionTo(bob)?.localDescription?.sdp ?? '{}');
+      expect(offered.tracks ?? []).toEqual([]);
+
+      await alice.stopSharing();
+      expect(sfu.deleted).toHaveLength(3);
+    });
+
+    it('publishes and views with tokens from the credentials endpoint', async () => {
+      const sfu = installFakeSfu();
+      const room = createTestRoom();
+      const alice = await room.join('alice', { sfu: FAKE_SFU_CREDENTIALS_CONFIG });
+      const bob = await room.join('bob', { sfu: FAKE_SFU_CREDENTIALS_CONFIG });
+      await room.join('carol', { sfu: FAKE_SFU_CREDENTIALS_CONFIG });
+
+      await alice.share();
+      await room.settle();
+
+      expect([...sfu.published.keys()]).toEqual(['minted-1']);
+      expect(sfu.authorizations).toEqual([
+        'Bearer publish-minted-1',
+        'Bearer read-minted-1',
+        'Bearer read-minted-1',
+      ]);
+      expect(bob.state.peerStreamsWithData[alice.userId]?.streamReady).toBe(true);
+    });
+
+    it('keeps sharing over the mesh when the SFU cannot be reached', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('connection refused')));
+      const room = createTestRoom();
+      const [alice, bob, carol] = await joinAll(room);
+
+      const stream = await alice.share();
+      await room.settle();
+
+      expect(alice.state.topology).toBe('sfu');
+      expect(bob.state.peerStreams[alice.userId]?.id).toBe(stream?.id);
+      expect(carol.state.peerStreams[alice.userId]?.id).toBe(stream?.id);
+    });
+  });
+
+  describe('viewers', () => {
+    it('connects viewers only to sharers and lists them apart from the participants', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+      const carol = await room.join('carol', { viewOnly: true });
+      const dave = await room.join('dave', { viewOnly: true });
+
+      expect(alice.state.peers).toEqual([bob.userId]);
+      expect([...alice.state.viewers].sort()).toEqual([carol.userId, dave.userId].sort());
+      expect([...carol.state.peers].sort()).toEqual([alice.userId, bob.userId].sort());
+      expect(carol.connectionTo(alice)).toBeUndefined();
+      expect(carol.connectionTo(dave)).toBeUndefined();
+
+      const stream = await alice.share();
+      await room.settle();
+      for (const viewer of [carol, dave]) {
+        expect(viewer.state.peerStreams[alice.userId]?.id).toBe(stream?.id);
+        expect(viewer.state.peerStreamsWithData[alice.userId]?.isSharing).toBe(true);
+      }
+      expect(carol.connectionTo(bob) ?? bob.connectionTo(carol)).toBeUndefined();
+      expect(carol.connectionTo(dave) ?? dave.connectionTo(carol)).toBeUndefined();
+
+      const pc = carol.connectionTo(alice) ?? alice.connectionTo(carol);
+      await alice.stopSharing();
+      await room.settle();
+      expect(pc?.connectionState).toBe('closed');
+      expect(carol.state.peers).toContain(alice.userId);
+      expect(carol.state.peerStreams[alice.userId]).toBeUndefined();
+    });
+
+    it('shows what was shared before they joined, and never lets them share', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob');
+      const stream = await bob.share();
+      const carol = await room.join('carol', { viewOnly: true });
+      await room.settle();
+
+      expect(carol.state.peerStreams[bob.userId]?.id).toBe(stream?.id);
+      expect(carol.state.isHost).toBe(false);
+      expect(await carol.share()).toBeNull();
+      await carol.act(state => state.setCameraEnabled(true));
+
+      expect(carol.state.localStream).toBeNull();
+      expect(carol.state.peerMedia[carol.userId]?.camera).toBeFalsy();
+      expect(alice.state.peers).toEqual([bob.userId]);
+      expect(Object.keys(alice.state.peerStreamsWithData)).not.toContain(carol.userId);
+    });
+
+    it('lets viewers in without waiting for the host', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const bob = await room.join('bob', { admit: false });
+      const carol = await room.join('carol', { viewOnly: true, admit: false });
+
+      expect(bob.state.admissionStatus).toBe('pending');
+      expect(carol.state.admissionStatus).toBe('admitted');
+      expect(alice.state.pendingUsers).toEqual([bob.userId]);
+      expect(alice.state.viewers).toEqual([carol.userId]);
+      expect(alice.state.viewerRoomId).toMatch(new RegExp(`^${room.roomId}\\.`));
+      expect(bob.state.viewerRoomId).toBeNull();
+    });
+
+    it('keeps anyone without a viewer link in the waiting room', async () => {
+      const room = createTestRoom();
+      const alice = await room.join('alice');
+      const user = {
+        joined: new Date().toISOString(),
+        active: false,
+        status: 'pending' as const,
+        role: 'viewer' as const,
+      };
+
+      const mallory = room.bus.createTransport(room.roomId);
+      await mallory.join('mallory', user);
+      const forged = room.bus.createTransport(`${room.roomId}.forged`, true);
+      await expect(forged.join('eve', user)).rejects.toThrow('This viewer link is no longer valid');
+      await room.settle();
+
+      expect((await mallory.getUsers()).mallory).toMatchObject({ active: false });
+      expect((await mallory.getUsers()).mallory.role).toBeUndefined();
+      expect(alice.state.pendingUsers).toEqual(['mallory']);
+      expect(alice.state.viewers).toEqual([]);
+    });
+
+    it('ignores offers from viewers unless we are sharing', async () => {
+      const room = createTestRoom();
+      await room.join('alice');
+      const bob = await room.join('bob');
+      const carol = await room.join('carol', { viewOnly: true });
+
+      await room.bus.createTransport(room.roomId).sendOffer({
+        from: carol.userId,
+        target: bob.userId,
+        timestamp: new Date().toISOString(),
+        sdp: { type: 'offer', sdp: JSON.stringify({ connectionId: 'forged' }) },
+      });
+      await room.settle();
+
+      const answered = room.bus.sent.some(
+        ({ channel, message }) =>
+          channel === 'onAnswer' && message.from === bob.userId && message.target === carol.userId
+      );
+      expect(answered).toBe(false);
+      expect(bob.connectionTo(carol)).toBeUndefined();
+    });
+  });
+});
@@ -1,11 +1,112 @@
-import { get, onChildAdded, onValue, push, ref, remove, set } from 'firebase/database';
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 
-import { database } from '../firebase';
+import {
+  Annotation,
+  ANNOTATION_SEND_INTERVAL_MS,
+  findUndoableAnnotation,
+  HIGHLIGHTER_FADE_MS,
+  upsertAnnotation,
+} from '../annotation';
+import { createChatMessage, insertChatMessage, isChatMessage } from '../chat';
+import {
+  buildDiagnosticsBundle,
+  createEventLog,
+  DiagnosticsBundle,
+  EventLevel,
+  EventLog,
+  PeerDiagnostics,
+} from '../diagnostics';
+import {
+  DATA_CHANNEL_ID,
+  DATA_CHANNEL_LABEL,
+  decodePeerData,
+  encodePeerData,
+  PeerDataMessage,
+} from '../datachannel';
+import {
+  createConfiguredIceServerProvider,
+  DEFAULT_ICE_SERVERS,
+  DISCONNECTED_GRACE_MS,
+  ICE_RESTART_ATTEMPTS,
+  iceRestartDelay,
+  IceServerProvider,
+} from '../ice';
+import {
+  describePeerMedia,
+  getDeviceTrack,
+  localTrackSlots,
+  PeerMedia,
+  SenderSlot,
+} from '../media';
+import { POINTER_IDLE_MS, POINTER_SEND_INTERVAL_MS, PointerPosition } from '../pointer';
+import {
+  getParticipant,
+  Participant,
+  RoomIdentity,
+  toRoomUserProfile,
+  UserProfile,
+} from '../profile';
+import {
+  ADAPT_INTERVAL_MS,
+  adaptEncoding,
+  applyEncoding,
+  DEFAULT_SHARE_PRESET,
+  initialEncoding,
+  readSenderStats,
+  ScreenEncoding,
+  SHARE_PRESETS,
+  SharePreset,
+} from '../quality';
+import {
+  chooseTopology,
+  publishToSfu,
+  readSfuConfig,
+  requestSfuStream,
+  SfuConfig,
+  SfuSession,
+  sfuStreamUrl,
+  subscribeFromSfu,
+  Topology,
+} from '../sfu';
+import {
+  ABANDONED_AFTER_MS,
+  AdmissionStatus,
+  ChatMessage,
+  createSignalingTransport,
+  hashPasscode,
+  HEARTBEAT_INTERVAL_MS,
+  isPasscodeRejected,
+  isRoomLockedError,
+  RoomUser,
+  RoomUsers,
+  SignalingMessage,
+  SignalingTransport,
+  STALE_AFTER_MS,
+  StreamingStatus,
+} from '../signaling';
+import { StatsCounters, summarizeConnectionStats } from '../stats';
 
 interface UseWebRTCProps {
   roomId: string;
+  // Signaling backend for the room; defaults to the one selected by VITE_SIGNALING_TRANSPORT.
+  // Must be stable across renders.
+  transport?: SignalingTransport;
+  // ICE server source; defaults to VITE_ICE_SERVERS plus TURN credentials from
+  // VITE_TURN_CREDENTIALS_URL. Must be stable across renders.
+  iceServers?: IceServerProvider;
+  // Passcode for the room. A room that nobody has joined yet gets protected with it.
+  passcode?: string;
+  // Name and avatar color shown to the other participants
+  profile?: UserProfile;
+  // Identity to rejoin the room with after a reload; a fresh user ID otherwise.
+  // Must be stable across renders.
+  identity?: RoomIdentity;
+  // SFU that larger rooms share screens through; defaults to the one configured by
+  // VITE_SFU_*, null to always use a mesh. Must be stable across renders.
+  sfu?: SfuConfig | null;
+  // Join as a viewer, who only watches what others share (see RoomUser.role)
+  viewOnly?: boolean;
 }
 
 interface PeerStreamData {
@@ -19,10 +120,28 @@ interface PeerConnections {
   [peerId: string]: RTCPeerConnection;
 }
 
+// Our senders on each connection, by what they carry. They outlive a share or the camera being
+// turned off, so turning it on again reuses their transceivers instead of adding new ones.
 interface StreamSenders {
-  [peerId: string]: RTCRtpSender[];
+  [peerId: string]: Partial<Record<SenderSlot, RTCRtpSender>>;
 }
 
+// Bringing back a connection that dropped: the ICE restarts tried so far, and the next step
+interface ReconnectState {
+  attempt: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+// Perfect negotiation state of a connection: whether we're in the middle of making an offer,
+// and whether we ignored the peer's last offer because it collided with ours
+interface NegotiationState {
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+}
+
+// How often the diagnostics log gets a stats snapshot of each connection
+const STATS_SNAPSHOT_INTERVAL_MS = 10000;
+
 interface UseWebRTCResult {
   isConnected: boolean;
   isConnecting: boolean;
@@ -41,9 +160,110 @@ interface UseWebRTCResult {
   userId: string;
   // eslint-disable-next-line no-unused-vars
   requestStream: (peerId: string) => void;
+  // The room is protected and we haven't joined with the right passcode yet
+  passcodeRequired: boolean;
+  // eslint-disable-next-line no-unused-vars
+  submitPasscode: (passcode: string) => void;
+  // Host and waiting room
+  hostId: string | null;
+  isHost: boolean;
+  // Our own place in the waiting room, null until we've joined
+  admissionStatus: AdmissionStatus | null;
+  // Users waiting for the host to let them in (only filled in for admitted users)
+  pendingUsers: string[];
+  // eslint-disable-next-line no-unused-vars
+  admitUser: (peerId: string) => void;
+  // eslint-disable-next-line no-unused-vars
+  denyUser: (peerId: string) => void;
+  // Host moderation
+  isRoomLocked: boolean;
+  // eslint-disable-next-line no-unused-vars
+  setRoomLocked: (locked: boolean) => void;
+  // eslint-disable-next-line no-unused-vars
+  kickUser: (peerId: string) => void;
+  // eslint-disable-next-line no-unused-vars
+  forceStopSharing: (peerId: string) => void;
+  // The host removed us from the room
+  removedByHost: boolean;
+  // Names and avatars of everyone in the room (including us and users still waiting)
+  participants: Record<string, Participant>;
+  // We rejoined after a reload that interrupted our screen share; sharing again needs a click
+  canResumeSharing: boolean;
+  dismissResumeSharing: () => void;
+  // Room chat, oldest first
+  messages: ChatMessage[];
+  // eslint-disable-next-line no-unused-vars
+  sendMessage: (text: string) => void;
+  // Where the other participants are pointing on a shared screen, by user ID
+  pointers: Record<string, PointerPosition>;
+  // Show our pointer to everyone, or hide it with null
+  // eslint-disable-next-line no-unused-vars
+  sendPointer: (pointer: PointerPosition | null) => void;
+  // Shapes drawn over shared screens by everyone, oldest first
+  annotations: Annotation[];
+  // Add one of our annotations, or update it while it is being drawn
+  // eslint-disable-next-line no-unused-vars
+  drawAnnotation: (annotation: Annotation) => void;
+  // Take back our latest annotation on a screen
+  // eslint-disable-next-line no-unused-vars
+  undoAnnotation: (streamId: string) => void;
+  // Wipe everyone's annotations off our own shared screen
+  clearAnnotations: () => void;
+  // Peers who are recording right now
+  recordingPeers: string[];
+  // Let peers know we started or stopped recording
+  // eslint-disable-next-line no-unused-vars
+  setRecording: (recording: boolean) => void;
+  // Screen, camera and microphone tracks of everyone with media, us included, by user ID
+  peerMedia: Record<string, PeerMedia>;
+  // Devices our camera and microphone use, null for the default ones
+  cameraDeviceId: string | null;
+  microphoneDeviceId: string | null;
+  // Turn our camera or microphone on or off, independently of the screen share
+  // eslint-disable-next-line no-unused-vars
+  setCameraEnabled: (enabled: boolean) => Promise<void>;
+  // eslint-disable-next-line no-unused-vars
+  setMicrophoneEnabled: (enabled: boolean) => Promise<void>;
+  // Use another device from now on, switching over right away if it is on
+  // eslint-disable-next-line no-unused-vars
+  selectCamera: (deviceId: string) => Promise<void>;
+  // eslint-disable-next-line no-unused-vars
+  selectMicrophone: (deviceId: string) => Promise<void>;
+  // Whether the audio of our screen share is sent as silence; this carries over to later shares
+  isShareAudioMuted: boolean;
+  // eslint-disable-next-line no-unused-vars
+  setShareAudioMuted: (muted: boolean) => void;
+  // What our screen share is tuned for; changing it applies to a running share right away
+  sharePreset: SharePreset;
+  // eslint-disable-next-line no-unused-vars
+  setSharePreset: (preset: SharePreset) => void;
+  // A fresh stats report of our connection to a peer, null while we have none
+  // eslint-disable-next-line no-unused-vars
+  getConnectionStats: (peerId: string) => Promise<RTCStatsReport | null>;
+  // What happened in this session and where each connection stands, to attach to bug reports;
+  // redactSdp masks ICE credentials, fingerprints and addresses
+  // eslint-disable-next-line no-unused-vars
+  getDiagnostics: (options: { redactSdp: boolean }) => DiagnosticsBundle;
+  // Peers whose connection dropped and is being brought back; their streams are kept meanwhile
+  reconnectingPeers: string[];
+  // Whether screen shares go straight to each viewer or through the SFU
+  topology: Topology;
+  // Users in the room through a viewer link; they never show up in peers
+  viewers: string[];
+  // Room ID for viewer links to this room, once the backend handed one out
+  viewerRoomId: string | null;
 }
 
-export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
+export function useWebRTCFirebase({
+  roomId,
+  transport: transportOverride,
+  iceServers: iceServersOverride,
+  passcode,
+  profile,
+  identity,
+  sfu: sfuOverride,
+  viewOnly = false,
+}: UseWebRTCProps): UseWebRTCResult {
   // State for connection status
   const [isConnected, setIsConnected] = useState<boolean>(false);
   const [isConnecting, setIsConnecting] = useState<boolean>(false);
@@ -52,66 +272,527 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
 
   // State for peers
   const [peers, setPeers] = useState<string[]>([]);
+  const [viewers, setViewers] = useState<string[]>([]);
+  const [viewerRoomId, setViewerRoomId] = useState<string | null>(null);
   const [peerStreams, setPeerStreams] = useState<Record<string, MediaStream>>({});
   const [peerStreamsWithData, setPeerStreamsWithData] = useState<Record<string, PeerStreamData>>(
     {}
   );
   const [selectedStream, setSelectedStream] = useState<string | null>(null);
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [passcodeRequired, setPasscodeRequired] = useState<boolean>(false);
+  const [hostId, setHostId] = useState<string | null>(null);
+  const [admissionStatus, setAdmissionStatus] = useState<AdmissionStatus | null>(null);
+  const [pendingUsers, setPendingUsers] = useState<string[]>([]);
+  const [isRoomLocked, setIsRoomLocked] = useState<boolean>(false);
+  const [removedByHost, setRemovedByHost] = useState<boolean>(false);
+  const [participants, setParticipants] = useState<Record<string, Participant>>({});
+  const [canResumeSharing, setCanResumeSharing] = useState<boolean>(false);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [pointers, setPointers] = useState<Record<string, PointerPosition>>({});
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [recordingPeers, setRecordingPeers] = useState<string[]>([]);
+  // Our camera and microphone, and the streams peers send theirs in
+  const [localCamera, setLocalCamera] = useState<MediaStreamTrack | null>(null);
+  const [localMicrophone, setLocalMicrophone] = useState<MediaStreamTrack | null>(null);
+  const [cameraDeviceId, setCameraDeviceId] = useState<string | null>(null);
+  const [microphoneDeviceId, setMicrophoneDeviceId] = useState<string | null>(null);
+  const [isShareAudioMuted, setIsShareAudioMuted] = useState<boolean>(false);
+  const [sharePreset, setSharePresetState] = useState<SharePreset>(DEFAULT_SHARE_PRESET);
+  const [reconnectingPeers, setReconnectingPeers] = useState<string[]>([]);
+  const [topology, setTopology] = useState<Topology>('mesh');
+  const [peerCameraStreams, setPeerCameraStreams] = useState<Record<string, MediaStream>>({});
+  // Bumped when tracks come and go on a stream we receive, which leaves the stream itself as is
+  const [trackChanges, setTrackChanges] = useState<number>(0);
 
   // References
   const peerConnections = useRef<PeerConnections>({});
+  const dataChannels = useRef<Record<string, RTCDataChannel>>({});
+  // Hide timers for remote pointers, and the state of our own throttled pointer updates
+  const pointerTimers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const pointerUpdates = useRef<{
+    latest: PointerPosition | null;
+    lastSentAt: number;
+    timer: ReturnType<typeof setTimeout> | null;
+  }>({ latest: null, lastSentAt: 0, timer: null });
+  // Fade-out timers of finished highlighter strokes, and our annotations waiting to be sent
+  const highlighterTimers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const annotationUpdates = useRef<{
+    pending: Map<string, Annotation>;
+    lastSentAt: number;
+    timer: ReturnType<typeof setTimeout> | null;
+  }>({ pending: new Map(), lastSentAt: 0, timer: null });
+  // Whether we are recording, announced to every peer whose data channel opens
+  const isRecording = useRef<boolean>(false);
   const localStreamRef = useRef<MediaStream | null>(null);
-  const userId = useRef<string>(uuidv4());
+  const shareAudioMuted = useRef<boolean>(false);
+  const sharePresetRef = useRef<SharePreset>(DEFAULT_SHARE_PRESET);
+  // Limits on what our screen share sends each peer, adapted to their connection
+  const screenEncodings = useRef<Record<string, ScreenEncoding>>({});
+  // The stream our camera and microphone are sent in. It lives as long as the hook, so peers can
+  // tell it from the screen share by its ID, which offers and answers carry.
+  const cameraStreamRef = useRef<MediaStream | null>(null);
+  const peerCameraStreamIds = useRef<Record<string, string>>({});
+  const watchedStreams = useRef<WeakSet<MediaStream>>(new WeakSet());
+  const identityRef = useRef<RoomIdentity | undefined>(identity);
+  const userId = useRef<string>(identity?.userId ?? uuidv4());
   const isUnmounting = useRef<boolean>(false);
   const streamSenders = useRef<StreamSenders>({});
+  const negotiations = useRef<Record<string, NegotiationState>>({});
+  // Signaling, connection states, negotiation decisions and stats snapshots for diagnostics
+  const eventLog = useRef<EventLog>(createEventLog());
+  const statsCounters = useRef<Record<string, StatsCounters>>({});
+  const reconnects = useRef<Record<string, ReconnectState>>({});
+  // eslint-disable-next-line no-unused-vars
+  const runReconnectRef = useRef<(peerId: string) => void>(() => {});
+  // Our screen share published to the SFU, and the shares we view from it by sharer. A share
+  // on the SFU isn't sent over the mesh.
+  const sfuPublication = useRef<{ stream: string; session: SfuSession } | null>(null);
+  const sfuSubscriptions = useRef<Record<string, Promise<SfuSession>>>({});
   const userUnsubscribeFunction = useRef<(() => void) | null>(null);
-  const offersUnsubscribeFunction = useRef<(() => void) | null>(null);
-  const answersUnsubscribeFunction = useRef<(() => void) | null>(null);
+  const messagesUnsubscribeFunction = useRef<(() => void) | null>(null);
+  const hostUnsubscribeFunction = useRef<(() => void) | null>(null);
+  const lockedUnsubscribeFunction = useRef<(() => void) | null>(null);
   const peersUnsubscribeFunction = useRef<(() => void) | null>(null);
-  const candidatesUnsubscribeFunction = useRef<(() => void) | null>(null);
   const processedOfferIds = useRef<Set<string>>(new Set());
   const processingOffer = useRef<boolean>(false);
   const currentRoomId = useRef<string | null>(null);
   const connectionEstablished = useRef<boolean>(false);
   const hasInitializedConnection = useRef<boolean>(false);
   const processedAnswerIds = useRef<Set<string>>(new Set());
+  const peerStreamsWithDataRef = useRef<Record<string, PeerStreamData>>({});
+  const iceServerProvider = useRef<IceServerProvider | null>(null);
+  const passcodeRef = useRef<string | undefined>(passcode);
+  const profileRef = useRef<UserProfile | undefined>(profile);
+  const viewOnlyRef = useRef<boolean>(viewOnly);
+  const roomUsersRef = useRef<RoomUsers>({});
+  const streamingStatusRef = useRef<StreamingStatus>({});
+  const admissionStatusRef = useRef<AdmissionStatus | null>(null);
+  const hostIdRef = useRef<string | null>(null);
+  // When each peer joined; a new timestamp under a known ID means the peer came back
+  // (e.g. after a reload) and its old connection is dead
+  const peerSessions = useRef<Record<string, string>>({});
+  // The record we joined with, kept to rejoin if the backend drops it while we're still here
+  const joinedUser = useRef<{ user: RoomUser; passcodeHash?: string } | null>(null);
+  const rejoining = useRef<boolean>(false);
+  // Last heartbeat seen from each user and when it changed, on our own clock
+  const heartbeatsSeen = useRef<Record<string, { lastSeen: number; observedAt: number }>>({});
+  const staleUsers = useRef<Set<string>>(new Set());
+  // stopSharing and disconnectFromRoom are defined further down; moderation requests
+  // reach them through these refs
+  const stopSharingRef = useRef<() => void>(() => {});
+  const disconnectFromRoomRef = useRef<() => void>(() => {});
+
+  // Keep the latest stream data available to long-lived signaling handlers
+  peerStreamsWithDataRef.current = peerStreamsWithData;
+
+  // Signaling backend for this room
+  const transport = useMemo(
+    () => transportOverride ?? createSignalingTransport(roomId, viewOnly),
+    [transportOverride, roomId, viewOnly]
+  );
+  const sfuConfig = useMemo(
+    () => (sfuOverride === undefined ? readSfuConfig() : sfuOverride),
+    [sfuOverride]
+  );
 
-  // Get Firebase references
-  const getUserRef = useCallback(() => {
-    if (!roomId) return null;
-    return ref(database, `rooms/${roomId}/users/${userId.current}`);
-  }, [roomId]);
-
-  const getOffersRef = useCallback(() => {
-    return ref(database, `rooms/${roomId}/offers`);
-  }, [roomId]);
+  // Load ICE servers and keep TURN credentials on open connections fresh
+  useEffect(() => {
+    const provider = iceServersOverride ?? createConfiguredIceServerProvider();
+    iceServerProvider.current = provider;
 
-  const getAnswersRef = useCallback(() => {
-    return ref(database, `rooms/${roomId}/answers`);
-  }, [roomId]);
+    const unsubscribe = provider.subscribe(iceServers => {
+      console.log('[WebRTC] ICE servers refreshed, updating open connections');
+      Object.entries(peerConnections.current).forEach(([peerId, pc]) => {
+        if (pc.connectionState === 'closed') return;
+        try {
+          pc.setConfiguration({ ...pc.getConfiguration(), iceServers });
+        } catch (err) {
+          console.warn(`[WebRTC] Could not update ICE servers for ${peerId}:`, err);
+        }
+      });
+    });
 
-  const getCandidatesRef = useCallback(() => {
-    return ref(database, `rooms/${roomId}/candidates`);
-  }, [roomId]);
+    return () => {
+      unsubscribe();
+      if (!iceServersOverride) provider.dispose();
+      if (iceServerProvider.current === provider) iceServerProvider.current = null;
+    };
+  }, [iceServersOverride]);
 
   // Request stream from a peer
   const requestStream = useCallback(
     (peerId: string) => {
       console.log(`Requesting stream from ${peerId}`);
 
-      push(getOffersRef(), {
-        type: 'request-stream',
+      transport
+        .sendControl({
+          type: 'request-stream',
+          from: userId.current,
+          target: peerId,
+          timestamp: new Date().toISOString(),
+        })
+        .catch(err => {
+          console.error(`Error requesting stream from ${peerId}:`, err);
+        });
+    },
+    [transport]
+  );
+
+  // Keep a signaling message we sent or received in the diagnostics log, SDP included
+  const logSignal = useCallback(
+    (description: string, message: SignalingMessage, level: EventLevel = 'info') => {
+      const peerId = message.from === userId.current ? message.target : message.from;
+      eventLog.current.record(level, 'signaling', description, { peerId, data: { ...message } });
+    },
+    []
+  );
+
+  // Chat messages can reach us over a data channel and through the signaling backend
+  const receiveChatMessage = useCallback((message: ChatMessage) => {
+    setMessages(prev => insertChatMessage(prev, message));
+  }, []);
+
+  const setPeerRecording = useCallback((peerId: string, recording: boolean) => {
+    setRecordingPeers(prev => {
+      if (prev.includes(peerId) === recording) return prev;
+      return recording ? [...prev, peerId] : prev.filter(id => id !== peerId);
+    });
+  }, []);
+
+  const removePeerCamera = useCallback((peerId: string) => {
+    setPeerCameraStreams(prev => {
+      if (!(peerId in prev)) return prev;
+      const newStreams = { ...prev };
+      delete newStreams[peerId];
+      return newStreams;
+    });
+  }, []);
+
+  // Re-render when tracks are added to or removed from a stream we receive
+  const watchStreamTracks = useCallback((stream: MediaStream) => {
+    if (watchedStreams.current.has(stream)) return;
+    watchedStreams.current.add(stream);
+
+    const trackChanged = () => setTrackChanges(count => count + 1);
+    stream.addEventListener('addtrack', trackChanged);
+    stream.addEventListener('removetrack', trackChanged);
+  }, []);
+
+  // Tell a peer to view our screen share from the SFU
+  const announceSfuShare = useCallback(
+    (peerId: string) => {
+      const publication = sfuPublication.current;
+      if (!publication) return;
+
+      const message: SignalingMessage = {
+        type: 'sfu-share',
         from: userId.current,
         target: peerId,
         timestamp: new Date().toISOString(),
-      }).catch(err => {
-        console.error(`Error requesting stream from ${peerId}:`, err);
+        sfuStream: publication.stream,
+      };
+      logSignal('Sent sfu-share', message);
+      transport.sendControl(message).catch(err => {
+        console.error(`[SFU] Error announcing the share to ${peerId}:`, err);
+      });
+    },
+    [transport, logSignal]
+  );
+
+  const closeSfuSubscription = useCallback((peerId: string) => {
+    const subscription = sfuSubscriptions.current[peerId];
+    if (!subscription) return;
+
+    delete sfuSubscriptions.current[peerId];
+    subscription.then(session => session.close()).catch(() => {});
+  }, []);
+
+  // View a peer's screen share from the SFU. It takes the place of what they sent us directly.
+  const viewSfuShare = useCallback(
+    (peerId: string, stream: string | undefined) => {
+      if (!sfuConfig) {
+        console.warn(`[SFU] ${peerId} shares through an SFU, but none is configured`);
+        return;
+      }
+      if (!stream) {
+        console.warn(`[SFU] ${peerId} shares through an SFU without saying which stream`);
+        return;
+      }
+      if (peerId in sfuSubscriptions.current) return;
+
+      console.log(`[SFU] Viewing the screen share of ${peerId}`);
+      eventLog.current.record('info', 'connection', 'Viewing the screen share from the SFU', {
+        peerId,
+      });
+      const subscription = requestSfuStream(sfuConfig.credentialsUrl, {
+        action: 'read',
+        stream,
+      }).then(({ token }) =>
+        subscribeFromSfu(
+          {
+            url: sfuStreamUrl(sfuConfig.whepUrl, stream),
+            token,
+            iceServers: iceServerProvider.current?.current() ?? DEFAULT_ICE_SERVERS,
+          },
+          received => {
+            if (sfuSubscriptions.current[peerId] !== subscription) return;
+            watchStreamTracks(received);
+            setTrackChanges(count => count + 1);
+            setPeerStreams(prev =>
+              prev[peerId] === received ? prev : { ...prev, [peerId]: received }
+            );
+            setPeerStreamsWithData(prev => ({
+              ...prev,
+              [peerId]: {
+                ...prev[peerId],
+                stream: received,
+                isSharing: true,
+                mediaType: 'screen',
+                streamReady: true,
+              },
+            }));
+            setSelectedStream(prev => prev ?? peerId);
+          }
+        )
+      );
+      sfuSubscriptions.current[peerId] = subscription;
+
+      subscription.catch(err => {
+        console.warn(`[SFU] Could not view the screen share of ${peerId}:`, err);
+        eventLog.current.record('error', 'connection', `Could not view from the SFU: ${err}`, {
+          peerId,
+        });
+        if (sfuSubscriptions.current[peerId] === subscription) {
+          delete sfuSubscriptions.current[peerId];
+        }
+      });
+    },
+    [sfuConfig, watchStreamTracks]
+  );
+
+  const clearPointer = useCallback((peerId: string) => {
+    clearTimeout(pointerTimers.current[peerId]);
+    delete pointerTimers.current[peerId];
+    setPointers(prev => {
+      if (!(peerId in prev)) return prev;
+      const newPointers = { ...prev };
+      delete newPointers[peerId];
+      return newPointers;
+    });
+  }, []);
+
+  // Send a message to every peer whose data channel is open
+  const broadcastPeerData = useCallback((message: PeerDataMessage) => {
+    const payload = encodePeerData(message);
+
+    Object.entries(dataChannels.current).forEach(([peerId, channel]) => {
+      if (channel.readyState !== 'open') return;
+      try {
+        channel.send(payload);
+      } catch (err) {
+        console.warn(`[WebRTC] Error sending ${message.type} to ${peerId}:`, err);
+      }
+    });
+  }, []);
+
+  // eslint-disable-next-line no-unused-vars
+  const removeAnnotations = useCallback((predicate: (annotation: Annotation) => boolean) => {
+    setAnnotations(prev => {
+      const remaining = prev.filter(annotation => !predicate(annotation));
+      return remaining.length === prev.length ? prev : remaining;
+    });
+  }, []);
+
+  // Keep an annotation, ours or a peer's. Finished highlighter strokes fade out and go away.
+  const storeAnnotation = useCallback(
+    (annotation: Annotation) => {
+      setAnnotations(prev => {
+        const existing = prev.find(({ id }) => id === annotation.id);
+        const completedAt = annotation.complete ? (existing?.completedAt ?? Date.now()) : undefined;
+        return upsertAnnotation(prev, { ...annotation, completedAt });
+      });
+
+      const { id } = annotation;
+      if (
+        annotation.tool === 'highlighter' &&
+        annotation.complete &&
+        !highlighterTimers.current[id]
+      ) {
+        highlighterTimers.current[id] = setTimeout(() => {
+          delete highlighterTimers.current[id];
+          removeAnnotations(existing => existing.id === id);
+        }, HIGHLIGHTER_FADE_MS);
+      }
+    },
+    [removeAnnotations]
+  );
+
+  // Handle a message from a peer's data channel
+  const handlePeerData = useCallback(
+    (peerId: string, data: unknown) => {
+      const message = decodePeerData(data);
+
+      if (message?.type === 'chat' && message.message.from === peerId) {
+        receiveChatMessage(message.message);
+      } else if (message?.type === 'pointer') {
+        const { pointer } = message;
+        if (!pointer) {
+          clearPointer(peerId);
+          return;
+        }
+
+        setPointers(prev => ({ ...prev, [peerId]: pointer }));
+        clearTimeout(pointerTimers.current[peerId]);
+        pointerTimers.current[peerId] = setTimeout(() => clearPointer(peerId), POINTER_IDLE_MS);
+      } else if (message?.type === 'annotation' && message.annotation.author === peerId) {
+        storeAnnotation(message.annotation);
+      } else if (message?.type === 'annotation-undo') {
+        removeAnnotations(({ id, author }) => id === message.id && author === peerId);
+      } else if (message?.type === 'annotation-clear' && message.streamId === peerId) {
+        // Only the sharer clears their screen
+        removeAnnotations(({ streamId }) => streamId === peerId);
+      } else if (message?.type === 'recording') {
+        setPeerRecording(peerId, message.recording);
+      }
+    },
+    [receiveChatMessage, clearPointer, storeAnnotation, removeAnnotations, setPeerRecording]
+  );
+
+  // Offer the peer what the connection carries now. Offers can cross; the side with the lower
+  // user ID is polite and gives way (see handleOffer), so neither connection is torn down.
+  const negotiate = useCallback(
+    async (peerId: string) => {
+      const pc = peerConnections.current[peerId];
+      const negotiation = negotiations.current[peerId];
+      // Anything that changes meanwhile is negotiated when the connection is stable again
+      if (!pc || !negotiation || negotiation.makingOffer || pc.signalingState !== 'stable') {
+        return;
+      }
+
+      try {
+        negotiation.makingOffer = true;
+        const offer = await pc.createOffer();
+        // The peer's offer won the race
+        if (pc.signalingState !== 'stable') return;
+        await pc.setLocalDescription(offer);
+        if (!pc.localDescription) {
+          throw new Error('No local description to send');
+        }
+
+        console.log(`[WebRTC] Sending offer to ${peerId}`);
+        const offerMessage: SignalingMessage = {
+          from: userId.current,
+          target: peerId,
+          sdp: {
+            type: pc.localDescription.type,
+            sdp: pc.localDescription.sdp,
+          },
+          // Tells the peer this is a screen share
+          ...(localStreamRef.current && { hasScreen: true }),
+          ...(cameraStreamRef.current && { cameraStreamId: cameraStreamRef.current.id }),
+          timestamp: new Date().toISOString(),
+        };
+        logSignal('Sent offer', offerMessage);
+        await transport.sendOffer(offerMessage);
+      } catch (error: any) {
+        // The connection changed state or went away while we were making the offer
+        if (error?.name === 'InvalidStateError' || peerConnections.current[peerId] !== pc) {
+          console.warn(`[WebRTC] Could not offer to ${peerId}: ${error?.message}`);
+          eventLog.current.record('warn', 'negotiation', `Could not offer: ${error?.message}`, {
+            peerId,
+          });
+        } else {
+          console.error(`[WebRTC] Error creating offer for ${peerId}:`, error);
+          eventLog.current.record(
+            'error',
+            'negotiation',
+            `Error creating offer: ${error?.message}`,
+            {
+              peerId,
+            }
+          );
+          setError(`Failed to create offer: ${error?.message || 'Unknown error'}`);
+        }
+      } finally {
+        negotiation.makingOffer = false;
+      }
+    },
+    [transport, logSignal]
+  );
+
+  // Limit what our screen share sends a peer, starting from the preset's limits
+  const applyScreenEncoding = useCallback((peerId: string, sender: RTCRtpSender) => {
+    const encoding = (screenEncodings.current[peerId] ??= initialEncoding(
+      SHARE_PRESETS[sharePresetRef.current]
+    ));
+    applyEncoding(sender, encoding).catch(err => {
+      console.warn(`[WebRTC] Could not limit the screen share for ${peerId}:`, err);
+    });
+  }, []);
+
+  // Send our screen, camera and microphone tracks on a connection, or stop sending the ones
+  // that are off. Each keeps its sender, so turning them on and off only swaps tracks and
+  // transceiver directions.
+  const sendLocalTracks = useCallback(
+    (peerId: string, pc: RTCPeerConnection) => {
+      const senders = (streamSenders.current[peerId] ??= {});
+      const screen = sfuPublication.current ? null : localStreamRef.current;
+      const wanted = localTrackSlots(screen, cameraStreamRef.current);
+      const slots = new Set([...Object.keys(senders), ...Object.keys(wanted)]) as Set<SenderSlot>;
+
+      slots.forEach(slot => {
+        const local = wanted[slot];
+        const track = local?.track ?? null;
+        const sender = senders[slot];
+
+        try {
+          if (!sender) {
+            if (!local) return;
+            console.log(`[WebRTC] Adding ${slot} track to connection with ${peerId}`);
+            senders[slot] = pc.addTrack(local.track, local.stream);
+            return;
+          }
+
+          if (sender.track !== track) {
+            sender.replaceTrack(track).catch(err => {
+              console.warn(`[WebRTC] Error replacing ${slot} track for ${peerId}:`, err);
+            });
+          }
+          // Turning the direction around renegotiates, so the peer sees the track end or resume
+          const transceiver = pc.getTransceivers().find(existing => existing.sender === sender);
+          if (transceiver) transceiver.direction = track ? 'sendrecv' : 'recvonly';
+        } catch (err) {
+          console.error(`[WebRTC] Error updating ${slot} track for ${peerId}:`, err);
+        }
       });
+
+      if (wanted.screen && senders.screen) applyScreenEncoding(peerId, senders.screen);
     },
-    [getOffersRef]
+    [applyScreenEncoding]
   );
 
+  // Stop bringing a connection back: it recovered, was replaced, or the peer left
+  const stopReconnecting = useCallback((peerId: string) => {
+    const reconnect = reconnects.current[peerId];
+    if (!reconnect) return;
+
+    if (reconnect.timer) clearTimeout(reconnect.timer);
+    delete reconnects.current[peerId];
+    setReconnectingPeers(prev => prev.filter(id => id !== peerId));
+  }, []);
+
+  // Take the next step in bringing a connection back after a delay (see runReconnect)
+  const scheduleReconnect = useCallback((peerId: string, delay: number) => {
+    const reconnect = (reconnects.current[peerId] ??= { attempt: 0, timer: null });
+    if (reconnect.timer) clearTimeout(reconnect.timer);
+    reconnect.timer = setTimeout(() => {
+      reconnect.timer = null;
+      runReconnectRef.current(peerId);
+    }, delay);
+    setReconnectingPeers(prev => (prev.includes(peerId) ? prev : [...prev, peerId]));
+  }, []);
+
   // Create a peer connection
   const createPeerConnection = useCallback(
     (peerId: string, isInitiator: boolean): RTCPeerConnection | null => {
@@ -139,99 +820,64 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
         }
 
         console.log(`Creating new RTCPeerConnection with ${peerId}`);
+        eventLog.current.record('info', 'connection', 'Creating peer connection', {
+          peerId,
+          data: { initiator: isInitiator },
+        });
 
         const pc = new RTCPeerConnection({
-          iceServers: [
-            { urls: 'stun:stun.l.google.com:19302' },
-            { urls: 'stun:stun1.l.google.com:19302' },
-          ],
+          iceServers: iceServerProvider.current?.current() ?? DEFAULT_ICE_SERVERS,
         });
 
         // Store the connection before adding any handlers to prevent race conditions
         peerConnections.current[peerId] = pc;
+        streamSenders.current[peerId] = {};
+        delete screenEncodings.current[peerId];
+        negotiations.current[peerId] = { makingOffer: false, ignoreOffer: false };
 
-        // Add local tracks if we're already sharing
-        if (localStreamRef.current) {
-          console.log(
-            `Adding ${localStreamRef.current.getTracks().length} local tracks to new connection with ${peerId}`
-          );
+        // Data channel for chat and pointers. Both sides create it up front, so it is part of
+        // the first offer and opens without either side having to announce it.
+        try {
+          const channel = pc.createDataChannel(DATA_CHANNEL_LABEL, {
+            negotiated: true,
+            id: DATA_CHANNEL_ID,
+          });
+          dataChannels.current[peerId] = channel;
 
-          try {
-            // Clean up any existing senders first
-            if (streamSenders.current[peerId]) {
-              streamSenders.current[peerId] = [];
-            } else {
-              streamSenders.current[peerId] = [];
+          channel.onopen = () => {
+            console.log(`Data channel with ${peerId} open`);
+            // Peers who connect while we record should see it too
+            if (isRecording.current) {
+              channel.send(encodePeerData({ type: 'recording', recording: true }));
             }
+          };
+          channel.onclose = () => console.log(`Data channel with ${peerId} closed`);
+          channel.onmessage = event => handlePeerData(peerId, event.data);
+        } catch (err) {
+          console.warn(`Could not create data channel with ${peerId}:`, err);
+        }
 
-            // Add all tracks
-            localStreamRef.current.getTracks().forEach(track => {
-              console.log(`Adding ${track.kind} track to connection with ${peerId}`);
-              try {
-                // Wait until the connection is fully created before adding tracks
-                setTimeout(() => {
-                  try {
-                    if (peerConnections.current[peerId] === pc) {
-                      const sender = pc.addTrack(track, localStreamRef.current!);
-                      streamSenders.current[peerId].push(sender);
-                      console.log(
-                        `Successfully added delayed ${track.kind} track to connection with ${peerId}`
-                      );
-
-                      // Renegotiate if needed
-                      if (pc.signalingState === 'stable' && isInitiator) {
-                        setTimeout(() => {
-                          console.log(
-                            `Creating renegotiation offer for ${peerId} after adding tracks`
-                          );
-                          pc.createOffer()
-                            .then(offer => pc.setLocalDescription(offer))
-                            .then(() => {
-                              if (!pc.localDescription) return;
-
-                              console.log(`Sending renegotiation offer to ${peerId}`);
-                              return push(getOffersRef(), {
-                                from: userId.current,
-                                target: peerId,
-                                sdp: {
-                                  type: pc.localDescription.type,
-                                  sdp: pc.localDescription.sdp,
-                                },
-                                hasScreen: true, // Mark this as screen sharing
-                                timestamp: new Date().toISOString(),
-                              });
-                            })
-                            .catch(err =>
-                              console.error(`Error sending renegotiation offer to ${peerId}:`, err)
-                            );
-                        }, 1000);
-                      }
-                    }
-                  } catch (err) {
-                    console.error(`Delayed track add failed for ${peerId}:`, err);
-                  }
-                }, 1000); // 1 second delay to let the connection establish first
-              } catch (err) {
-                console.error(`Failed to add ${track.kind} track to connection:`, err);
-              }
-            });
-          } catch (err) {
-            console.error(`Error adding tracks to new connection with ${peerId}:`, err);
-          }
+        // Send our share and camera if there are any; the first offer carries them
+        if (localStreamRef.current || cameraStreamRef.current?.getTracks().length) {
+          console.log(`Adding local tracks to new connection with ${peerId}`);
+          sendLocalTracks(peerId, pc);
         } else {
           console.log(`No local stream to add to connection with ${peerId}`);
         }
+        if (sfuPublication.current) announceSfuShare(peerId);
 
         // Handle ICE candidates
         pc.onicecandidate = event => {
           if (event.candidate) {
             console.log(`Sending ICE candidate to ${peerId}`);
-            push(getCandidatesRef(), {
+            const candidateMessage: SignalingMessage = {
               from: userId.current,
               target: peerId,
-              candidate: event.candidate,
+              candidate: event.candidate.toJSON(),
               timestamp: new Date().toISOString(),
-            }).catch(err => {
+            };
+            logSignal('Sent ICE candidate', candidateMessage, 'debug');
+            transport.sendCandidate(candidateMessage).catch(err => {
               console.error(`Error sending ICE candidate to ${peerId}:`, err);
             });
           }
@@ -239,10 +885,15 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
 
         pc.oniceconnectionstatechange = () => {
           console.log(`ICE connection state with ${peerId}: ${pc.iceConnectionState}`);
+          eventLog.current.record(
+            pc.iceConnectionState === 'failed' ? 'warn' : 'info',
+            'connection',
+            `ICE connection state: ${pc.iceConnectionState}`,
+            { peerId }
+          );
 
           if (pc.iceConnectionState === 'failed') {
-            console.log(`ICE connection failed with ${peerId}, attempting restart`);
-            pc.restartIce();
+            console.log(`ICE connection failed with ${peerId}`);
           } else if (
             pc.iceConnectionState === 'connected' ||
             pc.iceConnectionState === 'completed'
@@ -253,47 +904,45 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
 
         pc.onconnectionstatechange = () => {
           console.log(`Connection state with ${peerId}: ${pc.connectionState}`);
+          eventLog.current.record(
+            pc.connectionState === 'failed' ? 'warn' : 'info',
+            'connection',
+            `Connection state: ${pc.connectionState}`,
+            { peerId }
+          );
 
-          if (
-            pc.connectionState === 'disconnected' ||
-            pc.connectionState === 'failed' ||
-            pc.connectionState === 'closed'
-          ) {
-            console.log(`Connection with ${peerId} lost or failed (${pc.connectionState})`);
-
-            // Clean up
-            if (streamSenders.current[peerId]) {
-              streamSenders.current[peerId] = [];
-            }
-
-            // Remove stream if connection failed
-            if (pc.connectionState === 'failed' || pc.connectionState === 'closed') {
-              setPeerStreams(prev => {
-                const newStreams = { ...prev };
-                delete newStreams[peerId];
-                return newStreams;
-              });
-
-              // Retry connection after a delay if the peer is still in the room
-              if (peers.includes(peerId)) {
-                console.log(`Peer ${peerId} is still in the room, will retry connection soon`);
-                setTimeout(() => {
-                  // Only recreate if it's still the same failed connection
-                  if (peerConnections.current[peerId] === pc) {
-                    console.log(`Retrying connection with ${peerId}`);
-                    const shouldInitiate = userId.current > peerId;
-                    createPeerConnection(peerId, shouldInitiate);
-                  }
-                }, 2000); // Wait 2 seconds before retry
-              }
-            }
+          // A connection we replaced in the meantime
+          if (peerConnections.current[peerId] !== pc) return;
+
+          // Their streams stay while the connection is brought back, frozen on the last frame
+          if (pc.connectionState === 'disconnected') {
+            // Often recovers by itself, e.g. after a short network hiccup
+            console.log(`Connection with ${peerId} interrupted, waiting for it to recover`);
+            if (!reconnects.current[peerId]) scheduleReconnect(peerId, DISCONNECTED_GRACE_MS);
+          } else if (pc.connectionState === 'failed') {
+            console.log(`Connection with ${peerId} failed, restarting ICE`);
+            // Right away, unless an ICE restart is under way already
+            if (!reconnects.current[peerId]?.attempt) scheduleReconnect(peerId, 0);
           } else if (pc.connectionState === 'connected') {
             console.log(`Connection established with ${peerId}`);
+            stopReconnecting(peerId);
           }
         };
 
         pc.onsignalingstatechange = () => {
           console.log(`Signaling state with ${peerId}: ${pc.signalingState}`);
+          eventLog.current.record('debug', 'connection', `Signaling state: ${pc.signalingState}`, {
+            peerId,
+          });
+        };
+
+        pc.onicegatheringstatechange = () => {
+          eventLog.current.record(
+            'debug',
+            'connection',
+            `ICE gathering state: ${pc.iceGatheringState}`,
+            { peerId }
+          );
         };
 
         // Handle incoming tracks
@@ -303,6 +952,19 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
           if (event.streams && event.streams.length > 0) {
             const stream = event.streams[0];
             console.log(`Stream has ${stream.getTracks().length} tracks`);
+            watchStreamTracks(stream);
+            setTrackChanges(count => count + 1);
+
+            // Their camera and microphone, which are no screen share
+            if (stream.id === peerCameraStreamIds.current[peerId]) {
+              setPeerCameraStreams(prev =>
+                prev[peerId] === stream ? prev : { ...prev, [peerId]: stream }
+              );
+              return;
+            }
+
+            // They share over the mesh again
+            closeSfuSubscription(peerId);
 
             // Always store the stream regardless of video tracks - audio-only is also valid
             setPeerStreams(prev => ({
@@ -310,11 +972,10 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
               [peerId]: stream,
             }));
 
-            // Check for screen sharing status from Firebase
-            const peerScreenShareStatus = ref(database, `rooms/${roomId}/streaming/${peerId}`);
-            get(peerScreenShareStatus)
-              .then(snapshot => {
-                const isScreenSharing = snapshot.val() === true;
+            // Check for screen sharing status from the signaling backend
+            transport
+              .getStreaming(peerId)
+              .then(isScreenSharing => {
                 console.log(
                   `Peer ${peerId} screen sharing status:`,
                   isScreenSharing ? 'sharing' : 'not sharing'
@@ -384,137 +1045,209 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
           }
         };
 
-        // Create and send offer if initiator with proper error handling
+        // Tracks added or stopped later are offered as they change. Until the first exchange
+        // only the initiator offers, and its offer carries everything added by then.
+        pc.onnegotiationneeded = () => {
+          if (!pc.localDescription && !pc.remoteDescription) return;
+          console.log(`[WebRTC] Renegotiating with ${peerId}`);
+          negotiate(peerId);
+        };
+
         if (isInitiator) {
           console.log(`Creating offer for ${peerId}`);
 
-          // Create a helper function to send the offer
-          const sendOffer = () => {
-            // Check that connection is still valid before proceeding
-            if (
-              !peerConnections.current[peerId] ||
-              peerConnections.current[peerId] !== pc ||
-              pc.signalingState === 'closed'
-            ) {
+          // Wait a short period to ensure both peers are ready
+          setTimeout(() => {
+            if (peerConnections.current[peerId] !== pc) {
               console.warn(`Connection with ${peerId} is no longer valid, not sending offer`);
               return;
             }
-
-            try {
-              pc.createOffer()
-                .then(offer => {
-                  // Double-check connection is still valid
-                  if (pc.signalingState === 'closed') {
-                    throw new Error('Connection closed before setting local description');
-                  }
-
-                  console.log(`Setting local description for ${peerId}`);
-                  return pc.setLocalDescription(offer);
-                })
-                .then(() => {
-                  // Make sure we have a valid local description before sending
-                  if (!pc.localDescription) {
-                    throw new Error('No local description to send');
-                  }
-
-                  // Check connection state again before sending
-                  if (pc.signalingState === 'closed') {
-                    throw new Error('Connection closed before sending offer');
-                  }
-
-                  console.log(`Sending offer to ${peerId}:`, pc.localDescription.type);
-                  const sdpData = {
-                    type: pc.localDescription.type,
-                    sdp: pc.localDescription.sdp,
-                  };
-
-                  return push(getOffersRef(), {
-                    from: userId.current,
-                    target: peerId,
-                    sdp: sdpData,
-                    timestamp: new Date().toISOString(),
-                  });
-                })
-                .catch(error => {
-                  if (error.name === 'InvalidStateError' || error.message.includes('closed')) {
-                    console.warn(
-                      `Failed to create offer due to connection state: ${error.message}`
-                    );
-                  } else {
-                    console.error('Error creating offer:', error);
-                    setError(`Failed to create offer: ${error.message}`);
-                  }
-                });
-            } catch (error) {
-              console.error(`Unexpected error creating offer: ${error}`);
-            }
-          };
-
-          // Wait a short period to ensure both peers are ready, with progressive backoff
-          setTimeout(sendOffer, 1000);
+            negotiate(peerId);
+          }, 1000);
         }
 
         return pc;
       } catch (error) {
         console.error('Error creating peer connection:', error);
+        eventLog.current.record('error', 'connection', `Error creating peer connection: ${error}`, {
+          peerId,
+        });
         setError(
           `Failed to create peer connection: ${error instanceof Error ? error.message : String(error)}`
         );
         return null;
       }
     },
-    [getCandidatesRef, getOffersRef, peers]
+    [
+      transport,
+      handlePeerData,
+      negotiate,
+      sendLocalTracks,
+      removePeerCamera,
+      watchStreamTracks,
+      logSignal,
+      scheduleReconnect,
+      stopReconnecting,
+      announceSfuShare,
+      closeSfuSubscription,
+    ]
   );
 
-  // Add a helper function to handle connection resets
-  const resetAndRecreateConnection = useCallback(
-    (peerId: string, shouldInitiate: boolean = false): RTCPeerConnection | null => {
-      console.log(`[WebRTC] Resetting and recreating connection with ${peerId}`);
+  // One step in bringing a dropped connection back: restart ICE, giving each restart a little
+  // longer to work, and rebuild the connection from scratch once restarts don't help
+  const runReconnect = useCallback(
+    (peerId: string) => {
+      const pc = peerConnections.current[peerId];
+      const reconnect = reconnects.current[peerId];
+      if (!reconnect) return;
+      if (!pc || pc.connectionState === 'closed' || pc.connectionState === 'connected') {
+        stopReconnecting(peerId);
+        return;
+      }
+      // Nothing gets through while offline; going online again picks this up
+      if (!navigator.onLine) {
+        console.log(`[WebRTC] Offline, waiting to reconnect to ${peerId}`);
+        return;
+      }
 
-      try {
-        // Close existing connection if it exists
-        const existingPc = peerConnections.current[peerId];
-        if (existingPc) {
-          console.log(
-            `[WebRTC] Closing existing connection in state: ${existingPc.connectionState}`
-          );
-          existingPc.close();
-          delete peerConnections.current[peerId];
-        }
+      if (reconnect.attempt < ICE_RESTART_ATTEMPTS) {
+        reconnect.attempt += 1;
+        console.log(`[WebRTC] Restarting ICE with ${peerId} (attempt ${reconnect.attempt})`);
+        eventLog.current.record('info', 'connection', 'Restarting ICE', {
+          peerId,
+          data: { attempt: reconnect.attempt },
+        });
+        pc.restartIce();
+        negotiate(peerId);
+        scheduleReconnect(peerId, iceRestartDelay(reconnect.attempt));
+        return;
+      }
 
-        // Clean up senders
-        if (streamSenders.current[peerId]) {
-          delete streamSenders.current[peerId];
-        }
+      console.log(`[WebRTC] ICE restarts did not help, rebuilding the connection with ${peerId}`);
+      eventLog.current.record('warn', 'connection', 'Rebuilding the connection', { peerId });
+      pc.close();
+      delete peerConnections.current[peerId];
+      setPeerStreams(prev => {
+        const newStreams = { ...prev };
+        delete newStreams[peerId];
+        return newStreams;
+      });
+      removePeerCamera(peerId);
 
-        // Create a new connection
-        const newPc = createPeerConnection(peerId, shouldInitiate);
-        return newPc;
-      } catch (error) {
-        console.error(`[WebRTC] Error resetting connection with ${peerId}:`, error);
-        return null;
-      }
+      // The new connection gets the same treatment if it doesn't come up either
+      reconnect.attempt = 0;
+      createPeerConnection(peerId, userId.current > peerId);
+      scheduleReconnect(peerId, iceRestartDelay(ICE_RESTART_ATTEMPTS));
     },
-    [createPeerConnection]
+    [negotiate, createPeerConnection, removePeerCamera, scheduleReconnect, stopReconnecting]
   );
+  runReconnectRef.current = runReconnect;
+
+  // Going offline drops every connection. Once back online, connections that dropped are brought
+  // back right away, and the others restart ICE too: they may still use addresses that are gone.
+  useEffect(() => {
+    if (!isConnected) return;
+
+    const handleOffline = () => {
+      console.log('[WebRTC] Went offline');
+      eventLog.current.record('warn', 'connection', 'Went offline');
+      Object.keys(peerConnections.current).forEach(peerId => scheduleReconnect(peerId, 0));
+    };
+
+    const handleOnline = () => {
+      console.log('[WebRTC] Back online, restarting ICE on every connection');
+      eventLog.current.record('info', 'connection', 'Back online');
+      Object.entries(peerConnections.current).forEach(([peerId, pc]) => {
+        if (pc.connectionState === 'closed') return;
+
+        if (pc.connectionState === 'connected') {
+          stopReconnecting(peerId);
+          pc.restartIce();
+          negotiate(peerId);
+          return;
+        }
+        if (reconnects.current[peerId]) reconnects.current[peerId].attempt = 0;
+        scheduleReconnect(peerId, 0);
+      });
+    };
+
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [isConnected, negotiate, scheduleReconnect, stopReconnecting]);
+
+  // Honor a moderation request, as long as it comes from the host. The backends vouch for
+  // `from`: the WebSocket server only relays messages from users the socket joined as, and the
+  // Firebase rules only accept them from the UID that owns the sender's user record.
+  const handleModeration = useCallback((message: SignalingMessage) => {
+    if (!hostIdRef.current || message.from !== hostIdRef.current) {
+      console.warn(`[WebRTC] Ignoring ${message.type} from ${message.from}, who is not the host`);
+      return;
+    }
+
+    if (message.type === 'force-stop-sharing') {
+      console.log('[WebRTC] The host stopped our screen share');
+      stopSharingRef.current();
+      return;
+    }
+
+    if (message.type === 'kick') {
+      console.log('[WebRTC] The host removed us from the room');
+      admissionStatusRef.current = 'denied';
+      setAdmissionStatus('denied');
+      setRemovedByHost(true);
+      setError('The host removed you from this room');
+      stopSharingRef.current();
+      disconnectFromRoomRef.current();
+    }
+  }, []);
 
   // Handle incoming offer
   const handleOffer = useCallback(
-    async (offerData: any, offerId?: string) => {
+    async (offerData: SignalingMessage, offerId?: string) => {
       const peerId = offerData.from;
       console.log(`[WebRTC] Received offer from ${peerId}`, offerData);
 
-      // Check if we've already processed this offer
+      // Ignore anyone still in the waiting room, and everyone while we are
+      const sender = roomUsersRef.current[peerId];
+      if (admissionStatusRef.current !== 'admitted' || (sender && sender.active !== true)) {
+        console.log(`[WebRTC] Ignoring message from ${peerId}, not admitted`);
+        return;
+      }
+
+      // Viewers only get to connect to us while we share
+      if (sender?.role === 'viewer' && !localStreamRef.current) {
+        console.log(`[WebRTC] Ignoring message from viewer ${peerId}, we are not sharing`);
+        return;
+      }
+
+      // Check if we've already processed this offer
       if (offerId && processedOfferIds.current.has(offerId)) {
         console.log(`[WebRTC] Skipping already processed offer ${offerId}`);
         return;
       }
+      logSignal(offerData.type ? `Received ${offerData.type}` : 'Received offer', offerData);
 
       // Add to processed set if we have an ID
       if (offerId) {
         processedOfferIds.current.add(offerId);
       }
 
+      // Moderation requests don't touch the connection
+      if (offerData.type === 'kick' || offerData.type === 'force-stop-sharing') {
+        handleModeration(offerData);
+        return;
+      }
+
+      // Neither does a share we view from the SFU
+      if (offerData.type === 'sfu-share') {
+        viewSfuShare(peerId, offerData.sfuStream);
+        return;
+      }
+
       // Prevent concurrent processing
       if (processingOffer.current) {
         console.log('[WebRTC] Already processing an offer, deferring');
@@ -528,120 +1261,11 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
         // For handling hasScreen flag in offers - this indicates screen sharing
         const hasScreen = offerData.hasScreen === true;
 
-        // Special case: we're also screen sharing and this is a screen sharing offer
-        // This is likely to cause an m-line mismatch, so we need special handling
-        if (hasScreen && localStreamRef.current) {
-          console.log(`[WebRTC] Both sides are trying to share screen - coordinating transition`);
-
-          // Close existing connection completely, regardless of state
-          if (peerConnections.current[peerId]) {
-            console.log(`[WebRTC] Closing existing connection for conflict resolution`);
-            peerConnections.current[peerId].close();
-            delete peerConnections.current[peerId];
-          }
-
-          // Create a new connection with the peer
-          const newPc = createPeerConnection(peerId, false);
-          if (!newPc) {
-            processingOffer.current = false;
-            setError(`Failed to create new connection during conflict resolution`);
-            return;
-          }
-
-          // Signal UI that peer is sharing screen
-          setPeerStreamsWithData(prev => {
-            const newStreamsData = { ...prev };
-            if (!newStreamsData[peerId]) {
-              newStreamsData[peerId] = {
-                isSharing: true,
-                mediaType: 'screen',
-                streamReady: false,
-              };
-            } else {
-              newStreamsData[peerId] = {
-                ...newStreamsData[peerId],
-                isSharing: true,
-                mediaType: 'screen',
-                streamReady: newStreamsData[peerId]?.stream ? true : false,
-              };
-            }
-            return newStreamsData;
-          });
-
-          // Wait for the connection to initialize before continuing
-          await new Promise(resolve => setTimeout(resolve, 1000));
-
-          // Now try to set the remote description on the fresh connection
-          try {
-            await newPc.setRemoteDescription(new RTCSessionDescription(offerData.sdp));
-          } catch (error: any) {
-            console.error(
-              '[WebRTC] Error setting remote description during conflict resolution:',
-              error
-            );
-            processingOffer.current = false;
-            setError(
-              `Failed to handle simultaneous screen sharing: ${error?.message || 'Unknown error'}`
-            );
-            return;
-          }
-
-          // Create and send answer
-          try {
-            const answer = await newPc.createAnswer();
-            await newPc.setLocalDescription(answer);
-
-            if (!newPc.localDescription) {
-              throw new Error('No local description to send');
-            }
-
-            console.log(`[WebRTC] Sending answer after conflict resolution to ${peerId}`);
-
-            await push(getAnswersRef(), {
-              from: userId.current,
-              target: peerId,
-              sdp: {
-                type: newPc.localDescription.type,
-                sdp: newPc.localDescription.sdp,
-              },
-              timestamp: new Date().toISOString(),
-            });
-
-            processingOffer.current = false;
-            return;
-          } catch (error: any) {
-            console.error(
-              '[WebRTC] Error creating/sending answer during conflict resolution:',
-              error
-            );
-            processingOffer.current = false;
-            setError(
-              `Failed to handle simultaneous screen sharing: ${error?.message || 'Unknown error'}`
-            );
-            return;
-          }
-        }
-
+        // We may be sharing too: their tracks are negotiated on the connection that already
+        // carries ours, so it isn't reset
         if (hasScreen) {
           console.log(`[WebRTC] Offer includes screen share from ${peerId}`);
 
-          // If we're in a state where connection isn't suitable for receiving a screen share
-          // offer, reset the connection completely
-          let pc = peerConnections.current[peerId];
-          if (pc && pc.signalingState !== 'stable') {
-            console.log(
-              `[WebRTC] Connection state not stable for screen share, resetting connection`
-            );
-            pc = resetAndRecreateConnection(peerId, false) || pc;
-
-            // Delay processing to allow connection setup
-            setTimeout(() => {
-              processingOffer.current = false;
-              handleOffer(offerData, offerId);
-            }, 1000);
-            return;
-          }
-
           // Update UI to show that peer is screen sharing
           setPeerStreamsWithData(prev => {
             const newStreamsData = { ...prev };
@@ -663,214 +1287,26 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
           });
         }
 
-        // Special handling for stream requests
+        // A peer asking for our stream gets a fresh offer on the connection it already has
         if (offerData.type === 'request-stream' && localStreamRef.current) {
           console.log(`[WebRTC] Received stream request from ${peerId}`);
 
-          // Create a connection if it doesn't exist
-          let pc = peerConnections.current[peerId];
+          const pc = peerConnections.current[peerId];
           if (!pc || pc.connectionState === 'closed' || pc.connectionState === 'failed') {
-            const newPc = createPeerConnection(peerId, true);
-            if (!newPc) {
-              processingOffer.current = false;
-              return;
-            }
-            pc = newPc;
+            createPeerConnection(peerId, true);
+          } else {
+            sendLocalTracks(peerId, pc);
+            negotiate(peerId);
           }
+          if (sfuPublication.current) announceSfuShare(peerId);
 
-          // Extra: force a new stream connection on request-stream to fix the first share issue
-          if (localStreamRef.current && pc) {
-            // We have a stream and connection - ensure tracks are added
-            console.log(
-              `[WebRTC] Request-stream received with active local stream - ensuring track is sent to ${peerId}`
-            );
-
-            // Try a different approach - completely recreate the connection
-            if (
-              pc.connectionState !== 'connected' ||
-              !streamSenders.current[peerId] ||
-              streamSenders.current[peerId].length === 0
-            ) {
-              console.log(
-                `[WebRTC] Connection not fully established or no senders - recreating to fix first-share issue`
-              );
-
-              // Close the existing connection
-              pc.close();
-              delete peerConnections.current[peerId];
-
-              // Create a fresh connection
-              const newPc = createPeerConnection(peerId, true);
-              if (!newPc) {
-                processingOffer.current = false;
-                return;
-              }
-
-              pc = newPc;
-
-              // Wait a bit before proceeding to ensure the connection is ready
-              setTimeout(() => {
-                // Now create and send a special offer
-                if (pc.signalingState === 'stable') {
-                  console.log(`[WebRTC] Creating special reconnection offer for ${peerId}`);
-                  pc.createOffer()
-                    .then(offer => pc.setLocalDescription(offer))
-                    .then(() => {
-                      if (!pc.localDescription) return;
-
-                      return push(getOffersRef(), {
-                        from: userId.current,
-                        target: peerId,
-                        sdp: {
-                          type: pc.localDescription.type,
-                          sdp: pc.localDescription.sdp,
-                        },
-                        hasScreen: true, // Mark this as screen sharing
-                        timestamp: new Date().toISOString(),
-                      });
-                    })
-                    .catch(err =>
-                      console.error(`[WebRTC] Error sending reconnection offer to ${peerId}:`, err)
-                    );
-                }
-              }, 1000);
-
-              // Let Firebase mark this process complete
-              processingOffer.current = false;
-              return;
-            }
-
-            // Try the original approach with better track handling as a fallback
-            setTimeout(() => {
-              try {
-                // Clean up any existing senders first more carefully
-                if (streamSenders.current[peerId] && streamSenders.current[peerId].length > 0) {
-                  console.log(
-                    `[WebRTC] Removing ${streamSenders.current[peerId].length} existing senders for ${peerId}`
-                  );
-
-                  // First remove track senders
-                  streamSenders.current[peerId].forEach(sender => {
-                    try {
-                      pc.removeTrack(sender);
-                    } catch (err) {
-                      // Ignore errors here, just log
-                      console.warn(`[WebRTC] Error removing track from ${peerId}:`, err);
-                    }
-                  });
-
-                  // Clear the senders array
-                  streamSenders.current[peerId] = [];
-
-                  // Wait briefly before adding tracks
-                  setTimeout(() => {
-                    if (localStreamRef.current) {
-                      console.log(
-                        `[WebRTC] Adding ${localStreamRef.current.getTracks().length} tracks after cleanup`
-                      );
-
-                      // Add all tracks with a forced reconnection approach
-                      localStreamRef.current.getTracks().forEach(track => {
-                        try {
-                          if (peerConnections.current[peerId] === pc) {
-                            const sender = pc.addTrack(track, localStreamRef.current!);
-                            streamSenders.current[peerId].push(sender);
-
-                            // Create a new offer after adding tracks
-                            setTimeout(() => {
-                              if (pc.signalingState === 'stable') {
-                                console.log(
-                                  `[WebRTC] Creating explicit offer for ${peerId} after stream request`
-                                );
-                                pc.createOffer()
-                                  .then(offer => pc.setLocalDescription(offer))
-                                  .then(() => {
-                                    if (!pc.localDescription) return;
-
-                                    return push(getOffersRef(), {
-                                      from: userId.current,
-                                      target: peerId,
-                                      sdp: {
-                                        type: pc.localDescription.type,
-                                        sdp: pc.localDescription.sdp,
-                                      },
-                                      hasScreen: true, // Mark this as screen sharing
-                                      timestamp: new Date().toISOString(),
-                                    });
-                                  })
-                                  .catch(err =>
-                                    console.error(
-                                      `[WebRTC] Error sending offer after track cleanup to ${peerId}:`,
-                                      err
-                                    )
-                                  );
-                              }
-                            }, 500);
-                          }
-                        } catch (err) {
-                          console.error(`[WebRTC] Failed to add track during stream request:`, err);
-                        }
-                      });
-                    }
-                  }, 500);
-                } else {
-                  // No existing senders - just add tracks
-                  if (localStreamRef.current) {
-                    localStreamRef.current.getTracks().forEach(track => {
-                      try {
-                        if (peerConnections.current[peerId] === pc) {
-                          console.log(
-                            `[WebRTC] Adding track to connection without previous senders`
-                          );
-                          const sender = pc.addTrack(track, localStreamRef.current!);
-                          if (!streamSenders.current[peerId]) {
-                            streamSenders.current[peerId] = [];
-                          }
-                          streamSenders.current[peerId].push(sender);
-
-                          // Create a new offer after adding tracks
-                          setTimeout(() => {
-                            if (pc.signalingState === 'stable') {
-                              console.log(
-                                `[WebRTC] Creating explicit offer for ${peerId} after stream request`
-                              );
-                              pc.createOffer()
-                                .then(offer => pc.setLocalDescription(offer))
-                                .then(() => {
-                                  if (!pc.localDescription) return;
-
-                                  return push(getOffersRef(), {
-                                    from: userId.current,
-                                    target: peerId,
-                                    sdp: {
-                                      type: pc.localDescription.type,
-                                      sdp: pc.localDescription.sdp,
-                                    },
-                                    hasScreen: true, // Mark this as screen sharing
-                                    timestamp: new Date().toISOString(),
-                                  });
-                                })
-                                .catch(err =>
-                                  console.error(
-                                    `[WebRTC] Error sending offer after stream request to ${peerId}:`,
-                                    err
-                                  )
-                                );
-                            }
-                          }, 500);
-                        }
-                      } catch (err) {
-                        console.error(`[WebRTC] Failed to add track during stream request:`, err);
-                      }
-                    });
-                  }
-                }
-              } catch (err) {
-                console.error(`[WebRTC] Error processing stream request:`, err);
-              }
-            }, 500);
-          }
+          processingOffer.current = false;
+          return;
+        }
 
+        // Nothing to send, e.g. the request crossed the end of our share. Viewers asking must
+        // not get a connection out of it either.
+        if (offerData.type === 'request-stream') {
           processingOffer.current = false;
           return;
         }
@@ -878,6 +1314,7 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
         // Handle stopped-sharing notification
         if (offerData.type === 'stopped-sharing') {
           console.log(`[WebRTC] Received stopped-sharing notification from ${peerId}`);
+          closeSfuSubscription(peerId);
 
           // Update peerStreamsWithData to mark this peer as no longer sharing
           setPeerStreamsWithData(prev => {
@@ -892,10 +1329,13 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
             return newStreamsData;
           });
 
-          // If we're currently viewing this peer's stream, let's switch to another sharing peer
-          if (selectedStream === peerId) {
+          // If we're currently viewing this peer's stream, let's switch to another sharing peer.
+          // This handler outlives the render it was created in, so read the latest state.
+          setSelectedStream(prev => {
+            if (prev !== peerId) return prev;
+
             // Find another peer who is sharing
-            const sharingPeerId = Object.entries(peerStreamsWithData).find(
+            const sharingPeerId = Object.entries(peerStreamsWithDataRef.current).find(
               ([id, data]) => id !== peerId && data?.isSharing
             )?.[0];
 
@@ -903,111 +1343,21 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
               console.log(
                 `Switching view from stopped ${peerId} to another sharing peer ${sharingPeerId}`
               );
-              selectStream(sharingPeerId);
-            } else {
-              console.log(`No other sharing peers found, clearing selected stream`);
-              selectStream(null);
+              return sharingPeerId;
             }
-          }
+
+            console.log(`No other sharing peers found, clearing selected stream`);
+            return null;
+          });
 
           processingOffer.current = false;
           return;
         }
 
-        // Special handling for pre-screen-share notifications
+        // Older clients announce their share before starting it. Several people may share at
+        // once now, so there is nothing to coordinate.
         if (offerData.type === 'pre-screen-share') {
-          console.log(`[WebRTC] Received pre-screen-share notification from ${peerId}`);
-
-          // Check if this is part of the new coordination system
-          if (offerData.coordinationId) {
-            console.log(`[WebRTC] Acknowledging coordination request ${offerData.coordinationId}`);
-
-            // Send acknowledgment by updating the coordination acks
-            const ackRef = ref(
-              database,
-              `rooms/${roomId}/coordination/${offerData.coordinationId}/acks/${userId.current}`
-            );
-            await set(ackRef, {
-              timestamp: new Date().toISOString(),
-              status: 'acknowledged',
-            }).catch(err => {
-              console.error(`[WebRTC] Error acknowledging coordination:`, err);
-            });
-
-            // If we're also trying to share screen, we need to coordinate
-            if (localStreamRef.current) {
-              // Decide who goes first based on user ID (higher ID wins)
-              const myId = userId.current || '';
-              const peerId = offerData.from;
-
-              // If our ID is lower, we should wait and let peer share first
-              if (myId < peerId) {
-                console.log(
-                  `[WebRTC] Our ID (${myId}) is lower than peer's (${peerId}), will wait for their share`
-                );
-
-                // Listen for their sharing status
-                const peerSharingRef = ref(database, `rooms/${roomId}/streaming/${peerId}`);
-                const unsubscribe = onValue(peerSharingRef, snapshot => {
-                  if (snapshot.val() === true) {
-                    console.log(`[WebRTC] Peer ${peerId} has started sharing, we'll wait`);
-                    unsubscribe();
-
-                    setError(
-                      'Cannot share screen - another user is already sharing. Please wait until they finish.'
-                    );
-                  }
-                });
-
-                // Set a timeout to clean up listener if peer doesn't share
-                setTimeout(() => {
-                  unsubscribe();
-                }, 10000); // 10 seconds max wait
-              } else {
-                console.log(
-                  `[WebRTC] Our ID (${myId}) is higher than peer's (${peerId}), we'll proceed with our share`
-                );
-              }
-            }
-          } else {
-            // Handle legacy pre-screen-share messages for backward compatibility
-            // If we're also trying to share screen, we need to coordinate
-            if (localStreamRef.current) {
-              // Decide who goes first based on user ID (higher ID wins)
-              const myId = userId.current || '';
-              const peerId = offerData.from;
-
-              // If our ID is lower, we should wait and let peer share first
-              if (myId < peerId) {
-                console.log(
-                  `[WebRTC] Our ID (${myId}) is lower than peer's (${peerId}), will wait for their share`
-                );
-
-                // Wait to see if they actually share
-                await new Promise(resolve => setTimeout(resolve, 2000));
-
-                // Check if they've shared their screen
-                const peerIsSharing = peerStreamsWithData[peerId]?.isSharing === true;
-
-                if (peerIsSharing) {
-                  console.log(
-                    `[WebRTC] Peer ${peerId} is now sharing, will wait before trying to share`
-                  );
-                  // We'll wait before trying again
-                  setError(
-                    'Cannot share screen - another user is already sharing. Please wait until they finish.'
-                  );
-                  processingOffer.current = false;
-                  return;
-                }
-              } else {
-                console.log(
-                  `[WebRTC] Our ID (${myId}) is higher than peer's (${peerId}), we'll proceed with our share`
-                );
-              }
-            }
-          }
-
+          console.log(`[WebRTC] Ignoring pre-screen-share notification from ${peerId}`);
           processingOffer.current = false;
           return;
         }
@@ -1040,111 +1390,40 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
           return;
         }
 
-        // Check if we're already processing this offer type or are in a conflicting state
-        // Expanded the valid states and added handling for difficult situations
-        const validStates = ['stable', 'have-remote-offer'];
-        if (!validStates.includes(pc.signalingState)) {
-          console.warn(
-            `[WebRTC] Connection with ${peerId} not in valid state to process offer (current: ${pc.signalingState})`
-          );
-
-          // If both sides are trying to send offers simultaneously (common during screen sharing)
-          // Handle this scenario by creating a completely new connection to avoid m-line conflicts
-          if (pc.signalingState === 'have-local-offer' && hasScreen) {
-            console.log(
-              `[WebRTC] Both sides are trying to share screen simultaneously, recreating connection`
-            );
-
-            // Close and recreate the connection
-            pc.close();
-            delete peerConnections.current[peerId];
-
-            // Create a new connection without initiating an offer
-            // Let the peer who wants to share screen be the initiator
-            const newPc = createPeerConnection(peerId, false);
-            if (!newPc) {
-              processingOffer.current = false;
-              return;
+        // Perfect negotiation: when offers cross, the impolite side (the higher user ID) ignores
+        // the peer's and waits for its own to be answered; the polite side rolls its own back
+        const negotiation = negotiations.current[peerId];
+        const offerCollision = negotiation.makingOffer || pc.signalingState !== 'stable';
+        negotiation.ignoreOffer = userId.current > peerId && offerCollision;
+        if (negotiation.ignoreOffer) {
+          console.log(`[WebRTC] Ignoring offer from ${peerId} that collided with ours`);
+          eventLog.current.record(
+            'info',
+            'negotiation',
+            'Ignored an offer that collided with ours',
+            {
+              peerId,
+              data: { signalingState: pc.signalingState, makingOffer: negotiation.makingOffer },
             }
-
-            // Reset the connection state and try again
-            pc = newPc;
-
-            // Retry with the new connection after a short delay
-            setTimeout(() => {
-              processingOffer.current = false;
-              handleOffer(offerData, offerId);
-            }, 1000);
-            return;
-          }
-
-          // Reset the offer processing state
-          processingOffer.current = false;
+          );
           return;
         }
 
-        console.log(
-          `[WebRTC] Setting remote description for offer from ${peerId}, signaling state: ${pc.signalingState}`
-        );
-
-        // Handle rollback if needed for Chromium-based browsers
         if (pc.signalingState === 'have-local-offer') {
-          console.log(`[WebRTC] Rolling back local description to handle incoming offer`);
-          try {
-            // @ts-ignore - Rollback is standard but TypeScript doesn't recognize it
-            await pc.setLocalDescription({ type: 'rollback' });
-          } catch (err) {
-            console.warn(`[WebRTC] Rollback not supported, trying to handle anyway:`, err);
-          }
+          console.log(`[WebRTC] Rolling back our offer to ${peerId} in favor of theirs`);
+          eventLog.current.record('info', 'negotiation', 'Rolled back our offer for theirs', {
+            peerId,
+          });
+          await pc.setLocalDescription({ type: 'rollback' });
         }
 
-        try {
-          // Now set the remote offer and create answer
-          await pc.setRemoteDescription(new RTCSessionDescription(offer));
-        } catch (error: any) {
-          console.error('[WebRTC] Error setting remote description:', error);
-
-          // Handle M-line order mismatch errors more gracefully
-          if (
-            error.message &&
-            error.message.includes("m-lines in subsequent offer doesn't match order")
-          ) {
-            console.log(`[WebRTC] M-line order mismatch, recreating connection with ${peerId}`);
-
-            // Close and recreate the connection
-            pc.close();
-            delete peerConnections.current[peerId];
-
-            // Create a new connection
-            const newPc = createPeerConnection(peerId, false);
-            if (!newPc) {
-              processingOffer.current = false;
-              setError(`Failed to recreate connection after m-line mismatch`);
-              return;
-            }
-
-            pc = newPc;
-
-            // Try setting the remote description on the new connection
-            try {
-              await pc.setRemoteDescription(new RTCSessionDescription(offer));
-            } catch (secondError: any) {
-              console.error(
-                '[WebRTC] Still failed to set remote description after recreating connection:',
-                secondError
-              );
-              processingOffer.current = false;
-              setError(`Failed to handle offer: ${secondError.message || 'Unknown error'}`);
-              return;
-            }
-          } else {
-            // For other errors, just propagate them
-            processingOffer.current = false;
-            setError(`Failed to handle offer: ${error.message || 'Unknown error'}`);
-            return;
-          }
+        if (offerData.cameraStreamId) {
+          peerCameraStreamIds.current[peerId] = offerData.cameraStreamId;
         }
 
+        console.log(`[WebRTC] Setting remote description for offer from ${peerId}`);
+        await pc.setRemoteDescription(new RTCSessionDescription(offer));
+
         const answer = await pc.createAnswer();
         await pc.setLocalDescription(answer);
 
@@ -1159,12 +1438,15 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
           sdp: pc.localDescription.sdp,
         };
 
-        await push(getAnswersRef(), {
+        const answerMessage: SignalingMessage = {
           from: userId.current,
           target: peerId,
           sdp: sdpData,
+          ...(cameraStreamRef.current && { cameraStreamId: cameraStreamRef.current.id }),
           timestamp: new Date().toISOString(),
-        });
+        };
+        logSignal('Sent answer', answerMessage);
+        await transport.sendAnswer(answerMessage);
 
         // If this was a screen sharing offer, ensure it's set in the state
         if (hasScreen) {
@@ -1191,91 +1473,137 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
         }
       } catch (error: any) {
         console.error('[WebRTC] Error handling offer:', error);
+        eventLog.current.record('error', 'negotiation', `Error handling offer: ${error?.message}`, {
+          peerId,
+        });
         setError(`Failed to handle offer: ${error?.message || 'Unknown error'}`);
       } finally {
         processingOffer.current = false;
       }
     },
-    [createPeerConnection, getAnswersRef, peerStreams, resetAndRecreateConnection]
+    [
+      createPeerConnection,
+      transport,
+      peerStreams,
+      handleModeration,
+      negotiate,
+      sendLocalTracks,
+      logSignal,
+      announceSfuShare,
+      closeSfuSubscription,
+      viewSfuShare,
+    ]
   );
 
   // Handle incoming answer
-  const handleAnswer = useCallback((answerData: any, answerId?: string) => {
-    const peerId = answerData.from;
-    console.log(`[WebRTC] Received answer from ${peerId}`, answerData);
+  const handleAnswer = useCallback(
+    (answerData: SignalingMessage, answerId?: string) => {
+      const peerId = answerData.from;
+      console.log(`[WebRTC] Received answer from ${peerId}`, answerData);
+
+      // Track processed answers similar to how we do with offers
+      if (answerId && processedAnswerIds.current.has(answerId)) {
+        console.log(`[WebRTC] Skipping already processed answer ${answerId}`);
+        return;
+      }
 
-    // Track processed answers similar to how we do with offers
-    if (answerId && processedAnswerIds.current.has(answerId)) {
-      console.log(`[WebRTC] Skipping already processed answer ${answerId}`);
-      return;
-    }
+      // Add to processed set if we have an ID
+      if (answerId) {
+        processedAnswerIds.current.add(answerId);
+      }
+      logSignal('Received answer', answerData);
 
-    // Add to processed set if we have an ID
-    if (answerId) {
-      processedAnswerIds.current.add(answerId);
-    }
+      const pc = peerConnections.current[peerId];
+      if (!pc) {
+        console.error(`[WebRTC] No connection found for peer ${peerId}`);
+        return;
+      }
 
-    const pc = peerConnections.current[peerId];
-    if (!pc) {
-      console.error(`[WebRTC] No connection found for peer ${peerId}`);
-      return;
-    }
+      // Check if the connection is in a state where it can accept an answer
+      if (pc.signalingState !== 'have-local-offer') {
+        console.warn(
+          `[WebRTC] Ignoring answer from ${peerId} - connection not in 'have-local-offer' state (current: ${pc.signalingState})`
+        );
+        eventLog.current.record('warn', 'negotiation', 'Ignored an answer to no offer of ours', {
+          peerId,
+          data: { signalingState: pc.signalingState },
+        });
+        return;
+      }
 
-    // Check if the connection is in a state where it can accept an answer
-    if (pc.signalingState !== 'have-local-offer') {
-      console.warn(
-        `[WebRTC] Ignoring answer from ${peerId} - connection not in 'have-local-offer' state (current: ${pc.signalingState})`
-      );
-      return;
-    }
+      // Validate the answer data
+      if (!answerData.sdp || !answerData.sdp.type || !answerData.sdp.sdp) {
+        console.error('[WebRTC] Invalid answer data received:', answerData);
+        console.dir(answerData, { depth: null });
+        setError(`Invalid answer received from peer ${peerId}`);
+        return;
+      }
 
-    // Validate the answer data
-    if (!answerData.sdp || !answerData.sdp.type || !answerData.sdp.sdp) {
-      console.error('[WebRTC] Invalid answer data received:', answerData);
-      console.dir(answerData, { depth: null });
-      setError(`Invalid answer received from peer ${peerId}`);
-      return;
-    }
+      if (answerData.cameraStreamId) {
+        peerCameraStreamIds.current[peerId] = answerData.cameraStreamId;
+      }
 
-    try {
-      // Set the remote description
-      pc.setRemoteDescription(new RTCSessionDescription(answerData.sdp))
-        .then(() => {
-          console.log(`[WebRTC] Set remote description for ${peerId} successfully`);
-        })
-        .catch(error => {
-          console.error(`[WebRTC] Error handling answer:`, error);
-          // Don't set error state for expected state errors, just log them
-          if (error.name === 'InvalidStateError' || error.message.includes('stable')) {
-            console.warn(
-              `[WebRTC] Answer arrived when connection was already in stable state, ignoring`
+      try {
+        // Set the remote description
+        pc.setRemoteDescription(new RTCSessionDescription(answerData.sdp))
+          .then(() => {
+            console.log(`[WebRTC] Set remote description for ${peerId} successfully`);
+          })
+          .catch(error => {
+            console.error(`[WebRTC] Error handling answer:`, error);
+            eventLog.current.record(
+              'error',
+              'negotiation',
+              `Error handling answer: ${error.message}`,
+              {
+                peerId,
+              }
             );
-          } else {
-            setError(`Failed to handle answer: ${error.message}`);
-          }
-        });
-    } catch (error) {
-      console.error('[WebRTC] Error in answer handling:', error);
-    }
-  }, []);
+            // Don't set error state for expected state errors, just log them
+            if (error.name === 'InvalidStateError' || error.message.includes('stable')) {
+              console.warn(
+                `[WebRTC] Answer arrived when connection was already in stable state, ignoring`
+              );
+            } else {
+              setError(`Failed to handle answer: ${error.message}`);
+            }
+          });
+      } catch (error) {
+        console.error('[WebRTC] Error in answer handling:', error);
+      }
+    },
+    [logSignal]
+  );
 
   // Handle incoming ICE candidate
-  const handleIceCandidate = useCallback((candidateData: any) => {
-    const peerId = candidateData.from;
-
-    if (peerConnections.current[peerId] && candidateData.candidate) {
-      const pc = peerConnections.current[peerId];
+  const handleIceCandidate = useCallback(
+    (candidateData: SignalingMessage) => {
+      const peerId = candidateData.from;
 
-      pc.addIceCandidate(new RTCIceCandidate(candidateData.candidate)).catch(error => {
-        console.error(`[WebRTC] Error adding ICE candidate from ${peerId}:`, error);
-      });
-    }
-  }, []);
+      if (peerConnections.current[peerId] && candidateData.candidate) {
+        const pc = peerConnections.current[peerId];
+        logSignal('Received ICE candidate', candidateData, 'debug');
+
+        pc.addIceCandidate(new RTCIceCandidate(candidateData.candidate)).catch(error => {
+          // Candidates for an offer we ignored have nowhere to go
+          if (negotiations.current[peerId]?.ignoreOffer) return;
+          console.error(`[WebRTC] Error adding ICE candidate from ${peerId}:`, error);
+          eventLog.current.record('warn', 'signaling', `Could not add ICE candidate: ${error}`, {
+            peerId,
+          });
+        });
+      }
+    },
+    [logSignal]
+  );
 
   // Handle peer leaving
   const handlePeerLeft = useCallback(
     (peerId: string) => {
       console.log(`[WebRTC] Peer left: ${peerId}`);
+      eventLog.current.record('info', 'room', 'Peer left', { peerId });
+      stopReconnecting(peerId);
+      closeSfuSubscription(peerId);
 
       // Close and remove the connection
       if (peerConnections.current[peerId]) {
@@ -1287,6 +1615,13 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
         }
         delete peerConnections.current[peerId];
       }
+      delete dataChannels.current[peerId];
+      delete peerCameraStreamIds.current[peerId];
+      removePeerCamera(peerId);
+      clearPointer(peerId);
+      setPeerRecording(peerId, false);
+      // Annotations on their screen went with it
+      removeAnnotations(({ streamId }) => streamId === peerId);
 
       // Remove from UI
       setPeerStreams(prev => {
@@ -1303,6 +1638,8 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
         console.log(`[WebRTC] Cleaning up stream senders for peer: ${peerId}`);
         delete streamSenders.current[peerId];
       }
+      delete screenEncodings.current[peerId];
+      delete negotiations.current[peerId];
 
       // Update peers list
       setPeers(prev => {
@@ -1338,104 +1675,146 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
         return newStreamsData;
       });
 
-      // Also clean up any streaming status in Firebase
+      // Also clean up any streaming status in the signaling backend
       if (roomId) {
-        const streamingRef = ref(database, `rooms/${roomId}/streaming/${peerId}`);
-        remove(streamingRef).catch(err => {
+        transport.setStreaming(peerId, false).catch(err => {
           console.error(`[WebRTC] Error cleaning streaming status for left peer ${peerId}:`, err);
         });
       }
     },
-    [roomId]
+    [
+      roomId,
+      transport,
+      clearPointer,
+      setPeerRecording,
+      removeAnnotations,
+      removePeerCamera,
+      stopReconnecting,
+      closeSfuSubscription,
+    ]
   );
 
-  // Clean up inactive users
-  const cleanupInactiveUsers = useCallback(async () => {
-    if (!roomId) return;
-
-    try {
-      console.log(`[WebRTC] Checking room status: ${roomId}`);
+  // Drop the connection to a peer that stays in the room: one that rejoined under the same ID,
+  // whose old share ended with the old page, or one we no longer exchange media with (see
+  // syncConnections). Unlike handlePeerLeft this leaves the peer's place in the room and their
+  // streaming status in the backend alone.
+  const resetPeerSession = useCallback(
+    (peerId: string) => {
+      console.log(`[WebRTC] Dropping the connection with ${peerId}`);
+      stopReconnecting(peerId);
+      closeSfuSubscription(peerId);
 
-      // Check if the room exists and has any users
-      const roomUsersRef = ref(database, `rooms/${roomId}/users`);
-      const snapshot = await get(roomUsersRef);
-
-      // If room exists but has no users, it can be safely deleted
-      if (snapshot.exists() && Object.keys(snapshot.val()).length === 0) {
-        console.log(`[WebRTC] Room ${roomId} has no users, removing it`);
-        const roomRef = ref(database, `rooms/${roomId}`);
-        await remove(roomRef);
+      try {
+        peerConnections.current[peerId]?.close();
+      } catch (err) {
+        console.error(`[WebRTC] Error closing connection with ${peerId}:`, err);
       }
+      delete peerConnections.current[peerId];
+      delete dataChannels.current[peerId];
+      delete streamSenders.current[peerId];
+      delete screenEncodings.current[peerId];
+      delete negotiations.current[peerId];
+      delete peerCameraStreamIds.current[peerId];
+      removePeerCamera(peerId);
+      clearPointer(peerId);
+      setPeerRecording(peerId, false);
+      removeAnnotations(({ streamId }) => streamId === peerId);
+
+      setPeerStreams(prev => {
+        if (!(peerId in prev)) return prev;
+        const newStreams = { ...prev };
+        delete newStreams[peerId];
+        return newStreams;
+      });
+
+      setPeerStreamsWithData(prev => {
+        if (!(peerId in prev)) return prev;
+        return {
+          ...prev,
+          [peerId]: {
+            stream: undefined,
+            isSharing: false,
+            streamReady: false,
+            mediaType: undefined,
+          },
+        };
+      });
+    },
+    [
+      clearPointer,
+      setPeerRecording,
+      removeAnnotations,
+      removePeerCamera,
+      stopReconnecting,
+      closeSfuSubscription,
+    ]
+  );
+
+  // Clean up inactive users
+  const cleanupInactiveUsers = useCallback(async () => {
+    if (!roomId) return;
+
+    try {
+      console.log(`[WebRTC] Checking room status: ${roomId}`);
+
+      // Purge users nobody has heard from in a long time and their leftover signaling
+      // messages; this removes the room as well if it was abandoned
+      await transport.purgeStale(Date.now() - ABANDONED_AFTER_MS);
     } catch (err) {
       console.error('[WebRTC] Error checking room status:', err);
     }
-  }, [roomId]);
+  }, [roomId, transport]);
 
   // Mark user as inactive when leaving the room or app
   const markUserAsInactive = useCallback(() => {
+    joinedUser.current = null;
+
     if (currentRoomId.current != null) {
       console.log(`[WebRTC] Removing user ${userId.current} from room ${currentRoomId.current}`);
-      const userRef = ref(database, `rooms/${currentRoomId.current}/users/${userId.current}`);
 
-      // Also clean up any streaming status
-      const streamingRef = ref(
-        database,
-        `rooms/${currentRoomId.current}/streaming/${userId.current}`
-      );
+      // Remove the user record and streaming status, then the room if it is now empty
+      transport.leave(userId.current).catch(err => {
+        console.error('[WebRTC] Error removing user or checking room status:', err);
+      });
+    }
+  }, [transport]);
+
+  // Take the host role if the room has none. The host lets themselves in.
+  const claimHostRole = useCallback(() => {
+    // Viewers only watch, moderating included
+    if (viewOnlyRef.current) return;
+    transport
+      .claimHost(userId.current)
+      .then(claimed => {
+        if (!claimed) return;
+        console.log('[WebRTC] We are now the room host');
+        return transport.setAdmission(userId.current, 'admitted');
+      })
+      .catch(err => {
+        console.error('[WebRTC] Error claiming host role:', err);
+      });
+  }, [transport]);
 
-      // Clean up any coordination data this user initiated
-      const coordinationQuery = ref(database, `rooms/${currentRoomId.current}/coordination`);
-      get(coordinationQuery)
-        .then(snapshot => {
-          if (snapshot.exists()) {
-            const coordinationData = snapshot.val();
-            // Find and clean up any coordination data initiated by this user
-            const promises: Promise<void>[] = [];
-
-            Object.keys(coordinationData).forEach(coordId => {
-              if (coordId.startsWith(`${userId.current}-`)) {
-                console.log(`[WebRTC] Cleaning up coordination data: ${coordId}`);
-                const coordRef = ref(
-                  database,
-                  `rooms/${currentRoomId.current}/coordination/${coordId}`
-                );
-                promises.push(remove(coordRef));
-              }
-            });
+  // Work out the passcode hash to join with; null means we have to ask for the passcode
+  const resolvePasscodeHash = useCallback(async (): Promise<string | undefined | null> => {
+    const currentPasscode = passcodeRef.current;
 
-            if (promises.length > 0) {
-              return Promise.all(promises);
-            }
-          }
-          return null;
-        })
-        .catch(err => {
-          console.error('[WebRTC] Error cleaning up coordination data:', err);
-        });
+    if (await transport.isProtected()) {
+      return currentPasscode ? hashPasscode(roomId, currentPasscode) : null;
+    }
+    if (!currentPasscode) return undefined;
 
-      // Remove both the user record and streaming status
-      Promise.all([remove(userRef), remove(streamingRef)])
-        .then(() => {
-          // After removing the user, check if room is now empty and should be removed
-          const roomUsersRef = ref(database, `rooms/${currentRoomId.current}/users`);
-          return get(roomUsersRef);
-        })
-        .then(snapshot => {
-          if (snapshot.exists()) {
-            const users = snapshot.val();
-            if (Object.keys(users).length === 0) {
-              // Room is empty, remove it entirely
-              console.log(`[WebRTC] Room ${currentRoomId.current} is now empty, removing it`);
-              const roomRef = ref(database, `rooms/${currentRoomId.current}`);
-              return remove(roomRef);
-            }
-          }
-        })
-        .catch(err => {
-          console.error('[WebRTC] Error removing user or checking room status:', err);
-        });
+    // Nobody protected the room yet, so we are the ones creating it
+    const passcodeHash = await hashPasscode(roomId, currentPasscode);
+    try {
+      await transport.setPasscode(passcodeHash);
+      console.log('[WebRTC] Room protected with passcode');
+      return passcodeHash;
+    } catch (err) {
+      console.warn('[WebRTC] Could not protect room, joining without passcode:', err);
+      return undefined;
     }
-  }, []);
+  }, [roomId, transport]);
 
   // Connect to the room
   const connectToRoom = useCallback(() => {
@@ -1448,6 +1827,7 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
     }
 
     console.log('[WebRTC] Connecting to room:', roomId);
+    eventLog.current.record('info', 'room', 'Connecting to room', { data: { roomId } });
 
     // Set connecting state
     setIsConnecting(true);
@@ -1457,26 +1837,50 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
     try {
       // First clean up any stale users
       cleanupInactiveUsers()
-        .then(() => {
-          // Register user
-          const userRef = getUserRef();
-          if (!userRef) {
-            console.error('[WebRTC] Failed to get user reference');
+        .then(() => resolvePasscodeHash())
+        .then(passcodeHash => {
+          // Don't register or listen for offers until the passcode checks out
+          if (passcodeHash === null) {
+            console.log('[WebRTC] Room is protected, waiting for passcode');
+            setPasscodeRequired(true);
             setIsConnecting(false);
             setIsLoading(false);
             return;
           }
 
-          // Clean up any previous user entries with same ID
-          markUserAsInactive();
-
-          // Add user to room
-          set(userRef, {
+          const user: RoomUser = {
             joined: new Date().toISOString(),
-            active: true,
-          })
+            // Everyone starts in the waiting room until the host admits them
+            active: false,
+            status: 'pending',
+            ...(profileRef.current && toRoomUserProfile(profileRef.current)),
+            ...(viewOnlyRef.current && { role: 'viewer' as const }),
+          };
+
+          // Add user to room, then fetch TURN credentials with the session from the join, so
+          // the first connections can already relay
+          transport
+            .join(userId.current, user, passcodeHash)
+            .then(() => {
+              const token = transport.getSessionToken(userId.current);
+              if (!token) return;
+              return iceServerProvider.current?.authorize({
+                roomId: transport.roomId,
+                userId: userId.current,
+                token,
+              });
+            })
             .then(() => {
               console.log('[WebRTC] User registered successfully');
+              setPasscodeRequired(false);
+              joinedUser.current = { user, passcodeHash };
+
+              // A previous session under our identity may have left its share behind
+              if (!localStreamRef.current) {
+                transport.setStreaming(userId.current, false).catch(err => {
+                  console.error('[WebRTC] Error clearing previous streaming status:', err);
+                });
+              }
 
               // Mark the user inactive when browser closes
               window.addEventListener('beforeunload', markUserAsInactive);
@@ -1484,22 +1888,47 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
               // Set up user listeners
               setupRoomListeners();
 
+              // The first one in becomes host. Anyone else waits to be let in; the backends
+              // turn down claims from waiting users anyway.
+              transport
+                .getUsers()
+                .then(users => {
+                  const others = Object.entries(users).filter(
+                    ([id, other]) => id !== userId.current && other.active
+                  );
+                  if (others.length === 0) claimHostRole();
+                })
+                .catch(err => {
+                  console.error('[WebRTC] Error checking for other users:', err);
+                });
+
               // Update connection state
               setIsConnected(true);
               setIsConnecting(false);
               setIsLoading(false);
             })
             .catch(err => {
-              console.error('[WebRTC] Error registering user:', err);
-              setError(`Failed to register user: ${err.message}`);
+              if (isPasscodeRejected(err)) {
+                console.warn('[WebRTC] Room passcode rejected');
+                setPasscodeRequired(true);
+                setError('Incorrect passcode');
+              } else if (isRoomLockedError(err)) {
+                console.warn('[WebRTC] Room is locked');
+                setIsRoomLocked(true);
+                setError('This room is locked');
+              } else {
+                console.error('[WebRTC] Error registering user:', err);
+                setError(`Failed to register user: ${err.message}`);
+              }
               setIsConnecting(false);
               setIsLoading(false);
             });
         })
         .catch(err => {
-          console.error('[WebRTC] Error during inactive user cleanup:', err);
-          // Continue with connection even if cleanup fails
-          // Rest of the connection code...
+          console.error('[WebRTC] Error checking room access:', err);
+          setError(`Failed to check room access: ${err.message}`);
+          setIsConnecting(false);
+          setIsLoading(false);
         });
     } catch (error) {
       console.error('[WebRTC] Error connecting to room:', error);
@@ -1513,7 +1942,163 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
         setIsLoading(false);
       }
     }
-  }, [roomId, getUserRef, markUserAsInactive, cleanupInactiveUsers]);
+  }, [
+    roomId,
+    transport,
+    markUserAsInactive,
+    cleanupInactiveUsers,
+    resolvePasscodeHash,
+    claimHostRole,
+  ]);
+
+  // Retry joining a protected room with a passcode entered by the user
+  const submitPasscode = useCallback(
+    (value: string) => {
+      passcodeRef.current = value;
+      setPasscodeRequired(false);
+      connectToRoom();
+    },
+    [connectToRoom]
+  );
+
+  // Our presence record vanished while we're still here: the backend took us for gone (an
+  // onDisconnect after a network drop, or peers that missed our heartbeats). Rejoin as a
+  // new session so everyone sets up fresh connections to us.
+  const rejoinRoom = useCallback(() => {
+    const joined = joinedUser.current;
+    if (!joined || rejoining.current) return;
+
+    console.log('[WebRTC] Our presence record disappeared, rejoining the room');
+    rejoining.current = true;
+    // Replays the room's shares once we're back in
+    admissionStatusRef.current = null;
+    Object.keys(peerConnections.current).forEach(resetPeerSession);
+
+    const user = { ...joined.user, joined: new Date().toISOString() };
+    joinedUser.current = { ...joined, user };
+
+    transport
+      .join(userId.current, user, joined.passcodeHash)
+      .then(() => {
+        // The backend cleared our share along with the record
+        if (localStreamRef.current) {
+          return transport.setStreaming(userId.current, true);
+        }
+      })
+      .catch(err => {
+        console.error('[WebRTC] Error rejoining the room:', err);
+        setError(`Lost connection to the room: ${err.message}`);
+      })
+      .finally(() => {
+        rejoining.current = false;
+      });
+  }, [resetPeerSession, transport]);
+
+  // Note when each user's heartbeat last moved. Comparing against our own clock keeps
+  // clock differences between browsers and the backend out of the picture.
+  const trackHeartbeats = useCallback((users: RoomUsers) => {
+    const now = Date.now();
+
+    Object.keys(heartbeatsSeen.current).forEach(id => {
+      if (!(id in users)) {
+        delete heartbeatsSeen.current[id];
+        staleUsers.current.delete(id);
+      }
+    });
+
+    Object.entries(users).forEach(([id, user]) => {
+      // Users whose backend doesn't report heartbeats are never considered stale
+      if (user.lastSeen === undefined) return;
+      if (heartbeatsSeen.current[id]?.lastSeen === user.lastSeen) return;
+
+      heartbeatsSeen.current[id] = { lastSeen: user.lastSeen, observedAt: now };
+      staleUsers.current.delete(id);
+    });
+  }, []);
+
+  // Treat users whose heartbeat stopped as gone and clear them out of the room
+  const evictStaleUsers = useCallback(() => {
+    const now = Date.now();
+
+    Object.entries(heartbeatsSeen.current).forEach(([id, seen]) => {
+      if (id === userId.current || staleUsers.current.has(id)) return;
+      if (now - seen.observedAt < STALE_AFTER_MS) return;
+
+      console.log(`[WebRTC] No heartbeat from ${id} for ${now - seen.observedAt}ms, removing them`);
+      staleUsers.current.add(id);
+      if (peerConnections.current[id]) {
+        handlePeerLeft(id);
+      }
+      setPendingUsers(prev => prev.filter(pendingId => pendingId !== id));
+
+      transport.evict(id).catch(err => {
+        console.error(`[WebRTC] Error removing stale user ${id}:`, err);
+      });
+    });
+  }, [handlePeerLeft, transport]);
+
+  // Connect to the users we exchange media with, and drop the connections we no longer need.
+  // Participants connect to each other, and to the viewers while sharing; viewers connect only
+  // to the participants who share.
+  const syncConnections = useCallback(
+    (users: RoomUsers) => {
+      const activeUsers = Object.keys(users).filter(
+        id =>
+          id !== userId.current &&
+          users[id] &&
+          users[id].active === true &&
+          !staleUsers.current.has(id)
+      );
+      const activePeers = activeUsers.filter(id => users[id].role !== 'viewer');
+      const activeViewers = activeUsers.filter(id => users[id].role === 'viewer');
+
+      console.log(`[WebRTC] Active peers in room: ${JSON.stringify(activePeers)}`);
+      setPeers(activePeers);
+      setViewers(activeViewers);
+
+      let connectTo = localStreamRef.current ? activeUsers : activePeers;
+      if (viewOnlyRef.current) {
+        connectTo = activePeers.filter(id => streamingStatusRef.current[id] === true);
+      }
+
+      // Initiate connections with new peers
+      connectTo.forEach(peerId => {
+        const previousSession = peerSessions.current[peerId];
+        peerSessions.current[peerId] = users[peerId].joined;
+        if (previousSession && previousSession !== users[peerId].joined) {
+          resetPeerSession(peerId);
+        }
+
+        // We'll let the peer with the "higher" ID initiate the connection
+        const shouldInitiate = userId.current > peerId;
+        const existingConnection = peerConnections.current[peerId];
+
+        if (
+          !existingConnection ||
+          existingConnection.connectionState === 'failed' ||
+          existingConnection.connectionState === 'closed'
+        ) {
+          createPeerConnection(peerId, shouldInitiate);
+        }
+      });
+
+      // Clean up connections for peers that are no longer active, or no longer needed
+      Object.keys(peerConnections.current).forEach(peerId => {
+        if (connectTo.includes(peerId)) return;
+        if (activeUsers.includes(peerId)) {
+          resetPeerSession(peerId);
+        } else {
+          handlePeerLeft(peerId);
+        }
+      });
+      Object.keys(peerSessions.current).forEach(peerId => {
+        if (!connectTo.includes(peerId)) {
+          delete peerSessions.current[peerId];
+        }
+      });
+    },
+    [createPeerConnection, handlePeerLeft, resetPeerSession]
+  );
 
   // Set up all room listeners
   const setupRoomListeners = useCallback(() => {
@@ -1522,59 +2107,114 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
     console.log('[WebRTC] Setting up room listeners');
 
     try {
+      // Latest streaming status, replayed once we get admitted
+      let latestStreamingStatus: StreamingStatus | null = null;
+
       // Listen for users
-      const usersRef = ref(database, `rooms/${roomId}/users`);
-      const unsubscribeUsers = onValue(usersRef, snapshot => {
+      const unsubscribeUsers = transport.subscribePresence(users => {
         if (isUnmounting.current) return;
 
-        const users = snapshot.val() || {};
-
-        // Check for active users and filter out inactive ones
-        const activePeers = Object.keys(users).filter(
-          id => id !== userId.current && users[id] && users[id].active === true
+        roomUsersRef.current = users;
+        setParticipants(
+          Object.fromEntries(Object.keys(users).map(id => [id, getParticipant(id, users[id])]))
         );
+        trackHeartbeats(users);
 
-        console.log(`[WebRTC] Active peers in room: ${JSON.stringify(activePeers)}`);
-        setPeers(activePeers);
+        // A denied user stays out; we already left the room
+        if (admissionStatusRef.current === 'denied') return;
 
-        // Initiate connections with new peers
-        activePeers.forEach(peerId => {
-          // We'll let the peer with the "higher" ID initiate the connection
-          const shouldInitiate = userId.current > peerId;
-          const existingConnection = peerConnections.current[peerId];
+        const self = users[userId.current];
+        if (!self && joinedUser.current) {
+          rejoinRoom();
+          return;
+        }
+        const status: AdmissionStatus | null = self
+          ? (self.status ?? (self.active ? 'admitted' : 'pending'))
+          : null;
+        const wasAdmitted = admissionStatusRef.current === 'admitted';
+        admissionStatusRef.current = status;
+        setAdmissionStatus(status);
+
+        if (status === 'denied' && wasAdmitted) {
+          // Kicked: the host revoked our admission
+          console.log('[WebRTC] The host removed us from the room');
+          setRemovedByHost(true);
+          setError('The host removed you from this room');
+          stopSharingRef.current();
+          disconnectFromRoomRef.current();
+          return;
+        }
 
-          if (
-            !existingConnection ||
-            existingConnection.connectionState === 'failed' ||
-            existingConnection.connectionState === 'closed'
-          ) {
-            createPeerConnection(peerId, shouldInitiate);
-          }
-        });
+        if (status === 'denied') {
+          console.log('[WebRTC] The host denied our request to join');
+          setError('The host did not let you into this room');
+          joinedUser.current = null;
+          transport.leave(userId.current).catch(err => {
+            console.error('[WebRTC] Error leaving after being denied:', err);
+          });
+        }
 
-        // Clean up connections for peers that are no longer active
-        Object.keys(peerConnections.current).forEach(peerId => {
-          if (!activePeers.includes(peerId)) {
-            handlePeerLeft(peerId);
-          }
-        });
+        // Stay unconnected while waiting for the host
+        if (status !== 'admitted') {
+          setPeers([]);
+          setViewers([]);
+          setPendingUsers([]);
+          return;
+        }
+
+        // Catch up on existing shares the first time we're let in
+        if (!wasAdmitted && latestStreamingStatus) {
+          handleStreamingStatus(latestStreamingStatus);
+        }
+
+        // Offer to pick the share back up if a reload interrupted it
+        if (!wasAdmitted && identityRef.current?.wasSharing && !localStreamRef.current) {
+          setCanResumeSharing(true);
+        }
+
+        setPendingUsers(
+          Object.keys(users).filter(
+            id =>
+              id !== userId.current && users[id].status === 'pending' && !staleUsers.current.has(id)
+          )
+        );
+
+        syncConnections(users);
       });
 
       userUnsubscribeFunction.current = unsubscribeUsers;
 
-      // Listen for streaming status updates - needed to detect existing shares
-      const streamingRef = ref(database, `rooms/${roomId}/streaming`);
-      const unsubscribeStreaming = onValue(streamingRef, snapshot => {
+      // Keep track of the host, and take over if the host left
+      hostUnsubscribeFunction.current = transport.subscribeHost(currentHostId => {
+        if (isUnmounting.current) return;
+
+        hostIdRef.current = currentHostId;
+        setHostId(currentHostId);
+        if (!currentHostId && admissionStatusRef.current === 'admitted') {
+          claimHostRole();
+        }
+      });
+
+      // Follow the room lock so the host's controls show the right state
+      lockedUnsubscribeFunction.current = transport.subscribeLocked(locked => {
         if (isUnmounting.current) return;
+        setIsRoomLocked(locked);
+      });
+
+      // Listen for streaming status updates - needed to detect existing shares
+      const handleStreamingStatus = (streamingStatus: StreamingStatus) => {
+        latestStreamingStatus = streamingStatus;
+        streamingStatusRef.current = streamingStatus;
+        if (isUnmounting.current || admissionStatusRef.current !== 'admitted') return;
 
-        const streamingStatus = snapshot.val() || {};
         console.log('[WebRTC] Streaming status update:', streamingStatus);
+        // Viewers connect to whoever shares
+        if (viewOnlyRef.current) syncConnections(roomUsersRef.current);
 
         // Cross-reference with active users to detect stale streamers
-        const usersRef = ref(database, `rooms/${roomId}/users`);
-        get(usersRef)
-          .then(usersSnapshot => {
-            const activeUsers = usersSnapshot.val() || {};
+        transport
+          .getUsers()
+          .then(activeUsers => {
             const activeUserIds = Object.keys(activeUsers);
 
             // Process streaming status updates & cleanup stale entries in one pass
@@ -1589,8 +2229,7 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
                 );
 
                 // Remove stale streaming status
-                const staleStreamingRef = ref(database, `rooms/${roomId}/streaming/${peerId}`);
-                await remove(staleStreamingRef);
+                await transport.setStreaming(peerId, false);
 
                 // Update UI
                 setPeerStreamsWithData(prev => {
@@ -1612,6 +2251,9 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
                 return;
               }
 
+              // Viewers have nothing to share
+              if (activeUsers[peerId]?.role === 'viewer') return;
+
               // CASE 2: Regular active peer that's sharing their screen
               if (peerId !== userId.current && streamingStatus[peerId] === true) {
                 console.log(`[WebRTC] Peer ${peerId} is sharing their screen`);
@@ -1669,71 +2311,24 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
           .catch(err => {
             console.error('[WebRTC] Error checking users for stale streamers:', err);
           });
-      });
+      };
+      const unsubscribeStreaming = transport.subscribeStreaming(handleStreamingStatus);
 
       // Add this to the cleanup list
       peersUnsubscribeFunction.current = unsubscribeStreaming;
 
-      // Listen for offers and clean up processed ones
-      const offersRef = getOffersRef();
-      const unsubscribeOffers = onChildAdded(offersRef, snapshot => {
-        const offerData = snapshot.val();
-        if (!offerData) return;
-
-        // Only process offers intended for us
-        if (offerData.target === userId.current) {
-          handleOffer(offerData, snapshot.key || '');
-
-          // Clean up processed offers after a delay (to prevent race conditions)
-          setTimeout(() => {
-            if (snapshot.key) {
-              remove(ref(database, `rooms/${roomId}/offers/${snapshot.key}`)).catch(err =>
-                console.error('[WebRTC] Error removing processed offer:', err)
-              );
-            }
-          }, 5000);
-        }
+      // Listen for offers, answers, candidates and control messages addressed to us
+      const unsubscribeMessages = transport.subscribeMessages(userId.current, {
+        onOffer: (message, messageId) => handleOffer(message, messageId),
+        onControl: (message, messageId) => handleOffer(message, messageId),
+        onAnswer: (message, messageId) => {
+          if (isUnmounting.current) return;
+          handleAnswer(message, messageId);
+        },
+        onCandidate: message => handleIceCandidate(message),
       });
 
-      offersUnsubscribeFunction.current = unsubscribeOffers;
-
-      // Listen for answers
-      const answersRef = ref(database, `rooms/${roomId}/answers`);
-      const unsubscribeAnswers = onChildAdded(answersRef, snapshot => {
-        if (isUnmounting.current) return;
-
-        const answerData = snapshot.val();
-        if (!answerData || answerData.target !== userId.current) return;
-
-        handleAnswer(answerData, snapshot.key || '');
-
-        // Clean up after processing
-        if (snapshot.key) {
-          remove(ref(database, `rooms/${roomId}/answers/${snapshot.key}`)).catch(err =>
-            console.error('[WebRTC] Error removing processed answer:', err)
-          );
-        }
-      });
-
-      answersUnsubscribeFunction.current = unsubscribeAnswers;
-
-      // Listen for ICE candidates
-      const candidatesRef = getCandidatesRef();
-      const unsubscribeCandidates = onChildAdded(candidatesRef, snapshot => {
-        const candidateData = snapshot.val();
-        if (!candidateData || candidateData.target !== userId.current) return;
-
-        handleIceCandidate(candidateData);
-
-        // Clean up after processing
-        if (snapshot.key) {
-          remove(ref(database, `rooms/${roomId}/candidates/${snapshot.key}`)).catch(err =>
-            console.error('[WebRTC] Error removing processed candidate:', err)
-          );
-        }
-      });
-
-      candidatesUnsubscribeFunction.current = unsubscribeCandidates;
+      messagesUnsubscribeFunction.current = unsubscribeMessages;
 
       console.log('[WebRTC] Room listeners set up successfully');
     } catch (error) {
@@ -1744,14 +2339,14 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
     }
   }, [
     roomId,
-    getOffersRef,
-    getAnswersRef,
-    getCandidatesRef,
-    createPeerConnection,
+    transport,
+    syncConnections,
     handleOffer,
     handleAnswer,
     handleIceCandidate,
-    handlePeerLeft,
+    claimHostRole,
+    trackHeartbeats,
+    rejoinRoom,
   ]);
 
   // Reset WebRTC state
@@ -1760,6 +2355,11 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
     processedOfferIds.current.clear();
     processedAnswerIds.current.clear();
     connectionEstablished.current = false;
+    roomUsersRef.current = {};
+    peerSessions.current = {};
+    heartbeatsSeen.current = {};
+    staleUsers.current.clear();
+    admissionStatusRef.current = null;
 
     console.log('[WebRTC] Resetting initialization for future reconnection');
     hasInitializedConnection.current = false;
@@ -1768,6 +2368,7 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
   // Disconnect from room
   const disconnectFromRoom = useCallback(() => {
     console.log('[WebRTC] Disconnecting from room');
+    eventLog.current.record('info', 'room', 'Disconnecting from room');
 
     // Remove beforeunload listener
     window.removeEventListener('beforeunload', markUserAsInactive);
@@ -1780,7 +2381,11 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
       setIsConnected(false);
       setIsConnecting(false);
       setIsLoading(false);
+      setReconnectingPeers([]);
     }
+    Object.values(reconnects.current).forEach(({ timer }) => timer && clearTimeout(timer));
+    reconnects.current = {};
+    Object.keys(sfuSubscriptions.current).forEach(closeSfuSubscription);
 
     // Close and terminate all peer connections
     const peerIds = Object.keys(peerConnections.current);
@@ -1806,7 +2411,7 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
 
             // Remove all tracks explicitly
             if (streamSenders.current[peerId]) {
-              streamSenders.current[peerId].forEach(sender => {
+              Object.values(streamSenders.current[peerId]).forEach(sender => {
                 try {
                   const track = sender.track;
                   if (track) {
@@ -1830,22 +2435,42 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
 
     // Clean up all references
     peerConnections.current = {};
+    dataChannels.current = {};
     streamSenders.current = {};
-
-    // Remove Firebase listeners
-    if (offersUnsubscribeFunction.current) {
-      offersUnsubscribeFunction.current();
-      offersUnsubscribeFunction.current = null;
-    }
-
-    if (answersUnsubscribeFunction.current) {
-      answersUnsubscribeFunction.current();
-      answersUnsubscribeFunction.current = null;
+    screenEncodings.current = {};
+    negotiations.current = {};
+
+    // Our camera and microphone go off with the connections
+    const cameraStream = cameraStreamRef.current;
+    cameraStream?.getTracks().forEach(track => {
+      track.stop();
+      cameraStream.removeTrack(track);
+    });
+    peerCameraStreamIds.current = {};
+    if (!isUnmounting.current) {
+      setLocalCamera(null);
+      setLocalMicrophone(null);
+      setPeerCameraStreams({});
     }
 
-    if (candidatesUnsubscribeFunction.current) {
-      candidatesUnsubscribeFunction.current();
-      candidatesUnsubscribeFunction.current = null;
+    // Forget pointers, ours and everyone else's
+    Object.values(pointerTimers.current).forEach(timer => clearTimeout(timer));
+    pointerTimers.current = {};
+    if (pointerUpdates.current.timer) clearTimeout(pointerUpdates.current.timer);
+    pointerUpdates.current = { latest: null, lastSentAt: 0, timer: null };
+    if (!isUnmounting.current) setPointers({});
+    if (!isUnmounting.current) setRecordingPeers([]);
+
+    Object.values(highlighterTimers.current).forEach(timer => clearTimeout(timer));
+    highlighterTimers.current = {};
+    if (annotationUpdates.current.timer) clearTimeout(annotationUpdates.current.timer);
+    annotationUpdates.current = { pending: new Map(), lastSentAt: 0, timer: null };
+    if (!isUnmounting.current) setAnnotations([]);
+
+    // Remove signaling listeners
+    if (messagesUnsubscribeFunction.current) {
+      messagesUnsubscribeFunction.current();
+      messagesUnsubscribeFunction.current = null;
     }
 
     if (userUnsubscribeFunction.current) {
@@ -1858,9 +2483,21 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
       peersUnsubscribeFunction.current = null;
     }
 
+    if (hostUnsubscribeFunction.current) {
+      hostUnsubscribeFunction.current();
+      hostUnsubscribeFunction.current = null;
+    }
+
+    if (lockedUnsubscribeFunction.current) {
+      lockedUnsubscribeFunction.current();
+      lockedUnsubscribeFunction.current = null;
+    }
+
     // Reset state
     resetState();
-  }, [markUserAsInactive, resetState]);
+  }, [markUserAsInactive, resetState, closeSfuSubscription]);
+
+  disconnectFromRoomRef.current = disconnectFromRoom;
 
   // Main connection effect
   useEffect(() => {
@@ -1896,6 +2533,53 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
     };
   }, [roomId, connectToRoom, disconnectFromRoom]);
 
+  // Heartbeat while we're in the room, and look out for peers whose heartbeat stopped
+  useEffect(() => {
+    if (!isConnected) return;
+
+    const interval = setInterval(() => {
+      if (!joinedUser.current) return;
+
+      transport.heartbeat(userId.current).catch(err => {
+        // Our record is gone; the presence listener rejoins
+        console.warn('[WebRTC] Heartbeat failed:', err);
+      });
+      evictStaleUsers();
+    }, HEARTBEAT_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isConnected, transport, evictStaleUsers]);
+
+  // Chat that peers sent through the signaling backend because their data channel wasn't open
+  useEffect(() => {
+    if (!isConnected || admissionStatus !== 'admitted') return;
+
+    return transport.subscribeChat(message => {
+      if (isChatMessage(message)) receiveChatMessage(message);
+    });
+  }, [isConnected, admissionStatus, transport, receiveChatMessage]);
+
+  // Backends that enforce roles only hand viewer links to users they let in
+  useEffect(() => {
+    if (!isConnected || admissionStatus !== 'admitted') {
+      setViewerRoomId(null);
+      return;
+    }
+
+    let cancelled = false;
+    transport
+      .getViewerRoomId()
+      .then(id => {
+        if (!cancelled) setViewerRoomId(id);
+      })
+      .catch(err => {
+        console.error('[WebRTC] Error getting a viewer link:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isConnected, admissionStatus, transport]);
+
   // Handle component unmounting or page refresh in a completely separate effect
   useEffect(() => {
     // Add a page unload listener to ensure user is marked inactive
@@ -1928,39 +2612,37 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
       localStreamRef.current.getTracks().forEach(track => {
         track.stop();
       });
+      localStreamRef.current = null;
 
-      // Remove tracks from all peer connections
+      // Stop sending on every connection; the transceivers stay for the next share
       Object.entries(peerConnections.current).forEach(([peerId, pc]) => {
-        if (streamSenders.current[peerId]) {
-          streamSenders.current[peerId].forEach(sender => {
-            try {
-              pc.removeTrack(sender);
-            } catch (err) {
-              console.warn(`Error removing track from ${peerId}:`, err);
-            }
-          });
-          streamSenders.current[peerId] = [];
-        }
+        if (pc.signalingState !== 'closed') sendLocalTracks(peerId, pc);
 
         // Send explicit "stopped-sharing" notification to each peer
         console.log(`Sending stopped-sharing notification to ${peerId}`);
-        push(getOffersRef(), {
-          from: userId.current,
-          target: peerId,
-          type: 'stopped-sharing',
-          timestamp: new Date().toISOString(),
-        }).catch(err =>
-          console.error(`Error sending stopped-sharing notification to ${peerId}:`, err)
-        );
+        transport
+          .sendControl({
+            from: userId.current,
+            target: peerId,
+            type: 'stopped-sharing',
+            timestamp: new Date().toISOString(),
+          })
+          .catch(err =>
+            console.error(`Error sending stopped-sharing notification to ${peerId}:`, err)
+          );
       });
 
-      // Update streaming status in Firebase
+      // Update streaming status in the signaling backend
       if (roomId != null) {
-        const streamingRef = ref(database, `rooms/${roomId}/streaming/${userId.current}`);
-        remove(streamingRef).catch(err => {
+        transport.setStreaming(userId.current, false).catch(err => {
           console.error('Error removing streaming status:', err);
         });
       }
+      identityRef.current?.setSharing(false);
+
+      // Annotations on our screen make no sense without it
+      removeAnnotations(({ streamId }) => streamId === userId.current);
+      broadcastPeerData({ type: 'annotation-clear', streamId: userId.current });
 
       // Update local state to reflect stopped sharing
       setPeerStreamsWithData(prev => {
@@ -1975,128 +2657,49 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
         return newStreamsData;
       });
 
-      localStreamRef.current = null;
       setLocalStream(null); // Also update the state
+
+      // Viewers don't need us any more
+      syncConnections(roomUsersRef.current);
     }
-  }, [roomId, getOffersRef]);
+  }, [roomId, transport, removeAnnotations, broadcastPeerData, sendLocalTracks, syncConnections]);
+
+  stopSharingRef.current = stopSharing;
 
   // Share screen
   const shareScreen = useCallback(async (): Promise<MediaStream | null> => {
-    try {
-      // Check if we're in a conflict scenario where the peer is already sharing
-      const peerSharingCount = Object.values(peerStreamsWithData).filter(
-        data => data.isSharing
-      ).length;
-
-      if (peerSharingCount > 0) {
-        console.log('A peer is already sharing their screen. Coordinating sharing transitions...');
-
-        // First notify all peers that we're about to share screen to prevent conflicts
-        const peerIds = Object.keys(peerConnections.current);
-        const coordinationPromises = [];
-
-        // Create a unique coordination ID for this share attempt
-        const coordinationId = `${userId.current}-${Date.now()}`;
-
-        // Create a promise that will resolve when coordination is complete
-        const coordinationComplete = new Promise<void>(resolve => {
-          // Create a reference to track acknowledgments from peers
-          const ackRef = ref(database, `rooms/${roomId}/coordination/${coordinationId}/acks`);
-
-          // Set our intent to share
-          set(ref(database, `rooms/${roomId}/coordination/${coordinationId}`), {
-            type: 'pre-screen-share',
-            from: userId.current,
-            timestamp: new Date().toISOString(),
-            status: 'pending',
-          });
-
-          // Listen for acknowledgments from peers
-          const unsubscribe = onValue(ackRef, snapshot => {
-            const acks = snapshot.val() || {};
-            // Check if all peers have acknowledged
-            if (Object.keys(acks).length >= peerIds.length) {
-              console.log('All peers have acknowledged our sharing intent');
-              unsubscribe();
-              // Mark coordination as complete
-              set(
-                ref(database, `rooms/${roomId}/coordination/${coordinationId}/status`),
-                'complete'
-              )
-                .then(() => resolve())
-                .catch(err => {
-                  console.error('Error updating coordination status:', err);
-                  resolve(); // Resolve anyway to prevent hanging
-                });
-            }
-          });
-
-          // Set a maximum timeout as a fallback (5 seconds)
-          setTimeout(() => {
-            console.log('Coordination timeout reached, proceeding anyway');
-            unsubscribe();
-            resolve();
-          }, 5000);
-        });
-
-        // Notify each peer and collect their acknowledgments
-        for (const peerId of peerIds) {
-          console.log(`Notifying ${peerId} about upcoming screen share to prevent conflicts`);
-
-          // Send a pre-notification message
-          const notifyPromise = push(getOffersRef(), {
-            from: userId.current,
-            target: peerId,
-            type: 'pre-screen-share',
-            coordinationId: coordinationId, // Include the coordination ID
-            timestamp: new Date().toISOString(),
-          }).catch(err => console.error('Error sending pre-notification:', err));
-
-          coordinationPromises.push(notifyPromise);
-        }
-
-        // Wait for all notifications to be sent
-        await Promise.all(coordinationPromises);
-
-        // Wait for the coordination to complete
-        await coordinationComplete;
-
-        console.log('Screen sharing coordination complete, proceeding with connection reset');
-
-        // Close and recreate all peer connections to ensure clean slate
-        const peerIds2 = Object.keys(peerConnections.current);
-        for (const peerId of peerIds2) {
-          const pc = peerConnections.current[peerId];
-          if (pc) {
-            // Close the current connection to start fresh
-            console.log(`Closing connection with ${peerId} to prepare for screen sharing`);
-            pc.close();
-            delete peerConnections.current[peerId];
-          }
-        }
+    if (viewOnlyRef.current) {
+      console.warn('[WebRTC] Viewers cannot share their screen');
+      return null;
+    }
 
-        // Wait for connections to be fully closed - use a promise that resolves on next tick
-        await new Promise(resolve => setTimeout(resolve, 0));
-      }
+    try {
+      // Other peers may be sharing too: our tracks are added to the existing connections
+      // alongside theirs, so nobody's connection is reset
 
       // Get screen share media
+      const preset = SHARE_PRESETS[sharePresetRef.current];
       const stream = await navigator.mediaDevices.getDisplayMedia({
-        video: true,
+        video: preset.constraints,
         audio: true,
       });
 
       console.log('Got screen sharing stream with tracks:', stream.getTracks().length);
+      stream.getVideoTracks().forEach(track => (track.contentHint = preset.contentHint));
+      screenEncodings.current = {};
+      stream.getAudioTracks().forEach(track => (track.enabled = !shareAudioMuted.current));
 
       // Store it locally and update state
       localStreamRef.current = stream;
       setLocalStream(stream);
 
-      // Update the streaming status in Firebase FIRST
+      // Update the streaming status in the signaling backend FIRST
       if (roomId != null) {
-        const streamingRef = ref(database, `rooms/${roomId}/streaming/${userId.current}`);
-        await set(streamingRef, true).catch(err => {
+        await transport.setStreaming(userId.current, true).catch(err => {
           console.error('Error setting streaming status:', err);
         });
+        identityRef.current?.setSharing(true);
+        setCanResumeSharing(false);
 
         // Handle track ended events
         stream.getTracks().forEach(track => {
@@ -2123,382 +2726,542 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
         return newStreamsData;
       });
 
-      // Make sure all peers have properly established connections
-      // and wait if needed
-      const ensureConnections = async () => {
-        const peerIds = Object.keys(peerConnections.current);
-
-        if (peerIds.length === 0) {
-          console.log('No peers to share screen with');
-          return;
+      // Our tracks go onto the connections we already have, each of which renegotiates on its
+      // own. Only a connection that has failed is replaced; the new one carries them from the
+      // start.
+      Object.entries(peerConnections.current).forEach(([peerId, pc]) => {
+        if (pc.connectionState === 'failed' || pc.connectionState === 'closed') {
+          createPeerConnection(peerId, userId.current > peerId);
+        } else {
+          sendLocalTracks(peerId, pc);
         }
+      });
+      // Viewers get it too, on connections of their own
+      syncConnections(roomUsersRef.current);
 
-        console.log(`Ensuring ${peerIds.length} peer connections are ready for screen sharing`);
+      return stream;
+    } catch (error) {
+      console.error('Error getting screen share:', error);
+      setError(`Failed to get screen: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }, [transport, roomId, stopSharing, createPeerConnection, sendLocalTracks, syncConnections]);
 
-        // First, check if we have any peers in "new" state that need connection
-        const peersNeedingInitiation = peerIds.filter(peerId => {
-          const pc = peerConnections.current[peerId];
-          return (
-            pc &&
-            (pc.connectionState === 'new' || pc.iceConnectionState === 'new') &&
-            pc.signalingState === 'stable' // Only if we haven't sent an offer yet
-          );
+  // Share through the SFU while the room is large enough for it (see chooseTopology)
+  useEffect(() => {
+    setTopology(prev => {
+      // Viewers count too: a sharer sends to each of them as well
+      const participants = peers.length + viewers.length + 1;
+      const next = chooseTopology(participants, prev, sfuConfig);
+      if (next !== prev) {
+        console.log(`[SFU] ${participants} participants, switching to ${next}`);
+        eventLog.current.record('info', 'room', `Switching to ${next}`, {
+          data: { participants },
         });
+      }
+      return next;
+    });
+  }, [peers.length, viewers.length, sfuConfig]);
 
-        // Optimize by only recreating connections that need it, and reuse stable ones
-        console.log(
-          `Found ${peersNeedingInitiation.length} peers needing initialization out of ${peerIds.length} total peers`
-        );
+  // Publish our screen share to the SFU in SFU rooms, and take it off the mesh once it's there.
+  // If the SFU can't be reached, or drops it, the mesh keeps carrying it.
+  useEffect(() => {
+    if (!isConnected || topology !== 'sfu' || !localStream || !sfuConfig) return;
 
-        // First handle peers needing initialization
-        for (const peerId of peersNeedingInitiation) {
-          try {
-            const existingPc = peerConnections.current[peerId];
-            if (existingPc) {
-              console.log(`Closing connection with ${peerId} that needs initialization`);
-              existingPc.close();
-              delete peerConnections.current[peerId];
-            }
+    let active = true;
+    let publication: { stream: string; session: SfuSession } | null = null;
+    const sendOverMesh = () => {
+      Object.entries(peerConnections.current).forEach(([peerId, pc]) => {
+        if (pc.signalingState !== 'closed') sendLocalTracks(peerId, pc);
+      });
+    };
+    const unpublish = () => {
+      if (!publication) return;
+      publication.session.close();
+      publication = null;
+      sfuPublication.current = null;
+      // Viewers switch back to the mesh as our tracks arrive there
+      if (localStreamRef.current) sendOverMesh();
+    };
 
-            // Create a new peer connection with screens
-            console.log(`Creating fresh connection with ${peerId} for screen sharing`);
-            const shouldInitiate = userId.current > peerId;
-            createPeerConnection(peerId, shouldInitiate);
-          } catch (err) {
-            console.error(`Error creating fresh connection with ${peerId}:`, err);
-          }
+    requestSfuStream(sfuConfig.credentialsUrl, { action: 'publish' })
+      .then(async ({ stream, token }) => ({
+        stream,
+        session: await publishToSfu(localStream, {
+          url: sfuStreamUrl(sfuConfig.whipUrl, stream),
+          token,
+          iceServers: iceServerProvider.current?.current() ?? DEFAULT_ICE_SERVERS,
+        }),
+      }))
+      .then(published => {
+        const { session } = published;
+        if (!active) {
+          session.close();
+          return;
         }
 
-        // For peers with established connections, check if they're in a good state
-        const stablePeers = peerIds.filter(peerId => !peersNeedingInitiation.includes(peerId));
-        console.log(`${stablePeers.length} peers have established connections`);
-
-        for (const peerId of stablePeers) {
-          const pc = peerConnections.current[peerId];
-          if (!pc) continue;
+        console.log('[SFU] Publishing the screen share');
+        eventLog.current.record('info', 'connection', 'Publishing the screen share to the SFU');
+        publication = published;
+        sfuPublication.current = published;
+        session.pc.addEventListener('connectionstatechange', () => {
+          if (session.pc.connectionState !== 'failed' || publication !== published) return;
+          console.warn('[SFU] Lost the SFU, sharing over the mesh');
+          eventLog.current.record('warn', 'connection', 'Lost the SFU, sharing over the mesh');
+          unpublish();
+        });
 
-          // Only recreate if connection is in a problematic state
-          if (
-            pc.connectionState === 'failed' ||
-            pc.connectionState === 'disconnected' ||
-            pc.iceConnectionState === 'failed' ||
-            pc.signalingState === 'have-local-offer' // Could cause conflicts with new offers
-          ) {
-            try {
-              console.log(
-                `Recreating problematic connection with ${peerId} (${pc.connectionState}/${pc.iceConnectionState}/${pc.signalingState})`
-              );
-              pc.close();
-              delete peerConnections.current[peerId];
-
-              // Create a new peer connection
-              const shouldInitiate = userId.current > peerId;
-              createPeerConnection(peerId, shouldInitiate);
-            } catch (err) {
-              console.error(`Error recreating problematic connection with ${peerId}:`, err);
-            }
-          } else {
-            console.log(
-              `Reusing stable connection with ${peerId} (${pc.connectionState}/${pc.iceConnectionState}/${pc.signalingState})`
-            );
-          }
-        }
+        Object.keys(peerConnections.current).forEach(announceSfuShare);
+        sendOverMesh();
+      })
+      .catch(err => {
+        console.warn('[SFU] Could not publish, sharing over the mesh:', err);
+        eventLog.current.record('error', 'connection', `Could not publish to the SFU: ${err}`);
+      });
 
-        // Wait for connections to initialize using connection events instead of arbitrary timeout
-        console.log('Waiting for connections to initialize...');
-
-        // Create a promise that resolves when connections are ready or max time is reached
-        await Promise.all(
-          peerIds.map(peerId => {
-            const pc = peerConnections.current[peerId];
-            if (!pc) return Promise.resolve(); // Skip if no connection
-
-            return new Promise<void>(resolve => {
-              // If already in good state, resolve immediately
-              if (
-                pc.connectionState === 'connected' ||
-                pc.iceConnectionState === 'connected' ||
-                pc.iceConnectionState === 'completed'
-              ) {
-                console.log(`Connection with ${peerId} already in good state, ready for offers`);
-                resolve();
-                return;
-              }
+    return () => {
+      active = false;
+      unpublish();
+    };
+  }, [isConnected, topology, localStream, sfuConfig, sendLocalTracks, announceSfuShare]);
 
-              // Set up event listeners for connection state changes
-              const connectionStateHandler = () => {
-                if (
-                  pc.connectionState === 'connected' ||
-                  pc.iceConnectionState === 'connected' ||
-                  pc.iceConnectionState === 'completed'
-                ) {
-                  console.log(`Connection with ${peerId} now in good state, ready for offers`);
-                  cleanup();
-                  resolve();
-                }
-              };
+  // Let a waiting user in, or turn them away (host only)
+  const setPeerAdmission = useCallback(
+    (peerId: string, status: 'admitted' | 'denied') => {
+      if (hostId !== userId.current) {
+        console.warn('[WebRTC] Only the host can admit or deny users');
+        return;
+      }
 
-              const iceConnectionStateHandler = () => {
-                if (
-                  pc.iceConnectionState === 'connected' ||
-                  pc.iceConnectionState === 'completed'
-                ) {
-                  console.log(`ICE connection with ${peerId} now in good state, ready for offers`);
-                  cleanup();
-                  resolve();
-                }
-              };
+      console.log(`[WebRTC] Host ${status} ${peerId}`);
+      transport.setAdmission(peerId, status).catch(err => {
+        console.error(`[WebRTC] Error updating admission for ${peerId}:`, err);
+      });
+    },
+    [hostId, transport]
+  );
 
-              // Clean up event listeners
-              const cleanup = () => {
-                pc.removeEventListener('connectionstatechange', connectionStateHandler);
-                pc.removeEventListener('iceconnectionstatechange', iceConnectionStateHandler);
-              };
+  const admitUser = useCallback(
+    (peerId: string) => setPeerAdmission(peerId, 'admitted'),
+    [setPeerAdmission]
+  );
 
-              // Add event listeners
-              pc.addEventListener('connectionstatechange', connectionStateHandler);
-              pc.addEventListener('iceconnectionstatechange', iceConnectionStateHandler);
+  const denyUser = useCallback(
+    (peerId: string) => setPeerAdmission(peerId, 'denied'),
+    [setPeerAdmission]
+  );
 
-              // Set a maximum timeout as fallback (5 seconds)
-              setTimeout(() => {
-                console.log(`Timeout reached for connection with ${peerId}, proceeding anyway`);
-                cleanup();
-                resolve();
-              }, 5000);
-            });
-          })
-        );
+  // Host moderation: lock the room, remove someone, or stop their share
+  const setRoomLocked = useCallback(
+    (locked: boolean) => {
+      if (hostId !== userId.current) {
+        console.warn('[WebRTC] Only the host can lock the room');
+        return;
+      }
 
-        // Now ensure all connections that need it have offers sent
-        for (const peerId of peerIds) {
-          const pc = peerConnections.current[peerId];
-          if (!pc) continue;
-
-          const shouldInitiate = userId.current > peerId;
-          if (shouldInitiate && pc.signalingState === 'stable') {
-            try {
-              console.log(`Creating special pre-sharing offer for ${peerId}`);
-
-              pc.createOffer()
-                .then(offer => pc.setLocalDescription(offer))
-                .then(() => {
-                  if (!pc.localDescription) return;
-
-                  console.log(`Sending pre-sharing offer to ${peerId}`);
-                  return push(getOffersRef(), {
-                    from: userId.current,
-                    target: peerId,
-                    sdp: {
-                      type: pc.localDescription.type,
-                      sdp: pc.localDescription.sdp,
-                    },
-                    timestamp: new Date().toISOString(),
-                  });
-                })
-                .catch(err => console.error(`Error sending pre-sharing offer to ${peerId}:`, err));
-            } catch (err) {
-              console.error(`Failed to create pre-sharing offer for ${peerId}:`, err);
-            }
-          }
-        }
+      console.log(`[WebRTC] ${locked ? 'Locking' : 'Unlocking'} room ${roomId}`);
+      transport.setLocked(locked).catch(err => {
+        console.error('[WebRTC] Error updating room lock:', err);
+      });
+    },
+    [hostId, roomId, transport]
+  );
 
-        // Wait for ICE gathering to complete using events instead of arbitrary timeout
-        console.log('Waiting for ICE gathering to complete before sharing screen...');
+  const sendModeration = useCallback(
+    (peerId: string, type: 'kick' | 'force-stop-sharing') => {
+      if (hostId !== userId.current) {
+        console.warn(`[WebRTC] Only the host can send ${type}`);
+        return false;
+      }
 
-        // Monitor ICE gathering state of all connections
-        await Promise.all(
-          peerIds.map(peerId => {
-            const pc = peerConnections.current[peerId];
-            if (!pc) return Promise.resolve(); // Skip if no connection
+      console.log(`[WebRTC] Sending ${type} to ${peerId}`);
+      transport
+        .sendControl({
+          type,
+          from: userId.current,
+          target: peerId,
+          timestamp: new Date().toISOString(),
+        })
+        .catch(err => {
+          console.error(`[WebRTC] Error sending ${type} to ${peerId}:`, err);
+        });
+      return true;
+    },
+    [hostId, transport]
+  );
 
-            return new Promise<void>(resolve => {
-              // If already complete, resolve immediately
-              if (pc.iceGatheringState === 'complete') {
-                console.log(`ICE gathering for ${peerId} already complete`);
-                resolve();
-                return;
-              }
+  const kickUser = useCallback(
+    (peerId: string) => {
+      if (!sendModeration(peerId, 'kick')) return;
 
-              // Set up event listener for ICE gathering state changes
-              const iceGatheringStateHandler = () => {
-                if (pc.iceGatheringState === 'complete') {
-                  console.log(`ICE gathering for ${peerId} now complete`);
-                  pc.removeEventListener('icegatheringstatechange', iceGatheringStateHandler);
-                  resolve();
-                }
-              };
+      // Revoking admission drops them for everyone, even if their client ignores the kick
+      transport.setAdmission(peerId, 'denied').catch(err => {
+        console.error(`[WebRTC] Error revoking admission for ${peerId}:`, err);
+      });
+    },
+    [sendModeration, transport]
+  );
 
-              // Add event listener
-              pc.addEventListener('icegatheringstatechange', iceGatheringStateHandler);
+  const forceStopSharing = useCallback(
+    (peerId: string) => {
+      sendModeration(peerId, 'force-stop-sharing');
+    },
+    [sendModeration]
+  );
 
-              // Set a maximum timeout as fallback (3 seconds)
-              setTimeout(() => {
-                console.log(`ICE gathering timeout reached for ${peerId}, proceeding anyway`);
-                pc.removeEventListener('icegatheringstatechange', iceGatheringStateHandler);
-                resolve();
-              }, 3000);
-            });
-          })
-        );
+  // Select stream
+  const selectStream = useCallback((streamId: string | null) => {
+    setSelectedStream(streamId);
+  }, []);
 
-        console.log(
-          `Connection setup complete: ${peersNeedingInitiation.length} peers recreated, ${stablePeers.length} stable peers reused`
-        );
-      };
+  // Send a chat message straight to every peer, falling back to the signaling backend when the
+  // data channel to any of them isn't open (yet). Peers that get it both ways dedupe it.
+  const sendMessage = useCallback(
+    (text: string) => {
+      const message = createChatMessage(userId.current, text, profileRef.current?.name);
+      if (!message) return;
+      receiveChatMessage(message);
 
-      // Wait for connections to be ready
-      await ensureConnections();
+      const payload = encodePeerData({ type: 'chat', message });
+      const unreached = peers.filter(peerId => {
+        const channel = dataChannels.current[peerId];
+        if (channel?.readyState !== 'open') return true;
 
-      // Create a function to add tracks to a peer connection
-      const addTracksToConnection = async (
-        peerId: string,
-        pc: RTCPeerConnection
-      ): Promise<boolean> => {
         try {
-          // Check connection state more permissively - attempt to add tracks in more states
-          const canAddTracks =
-            pc.signalingState === 'stable' ||
-            pc.connectionState === 'connecting' ||
-            pc.connectionState === 'connected' ||
-            pc.iceConnectionState === 'checking' ||
-            pc.iceConnectionState === 'connected';
-
-          if (!canAddTracks) {
-            console.log(
-              `Connection with ${peerId} not ready (${pc.connectionState}/${pc.iceConnectionState}/${pc.signalingState}), waiting...`
-            );
-            // Wait for connection to establish
-            return false;
-          }
+          channel.send(payload);
+          return false;
+        } catch (err) {
+          console.warn(`[WebRTC] Error sending chat message to ${peerId}:`, err);
+          return true;
+        }
+      });
+      if (unreached.length === 0) return;
 
-          console.log(
-            `Adding screen share tracks to connection with ${peerId} (${pc.connectionState}/${pc.iceConnectionState}/${pc.signalingState})`
-          );
+      console.log(
+        `[WebRTC] No open data channel to ${unreached.join(', ')}, sending chat via signaling`
+      );
+      transport.sendChat(message).catch(err => {
+        console.error('[WebRTC] Error sending chat message:', err);
+        setError('Failed to send chat message');
+      });
+    },
+    [peers, transport, receiveChatMessage]
+  );
 
-          // First clean up any existing senders to avoid duplicates
-          if (streamSenders.current[peerId]) {
-            for (const sender of streamSenders.current[peerId]) {
-              try {
-                pc.removeTrack(sender);
-              } catch (e) {
-                console.warn(`Error removing existing track: ${e}`);
-              }
-            }
-            streamSenders.current[peerId] = [];
-          }
+  // Send our pointer to every peer with an open data channel. Updates are throttled to one per
+  // POINTER_SEND_INTERVAL_MS; the last one always goes out.
+  const sendPointer = useCallback(
+    (pointer: PointerPosition | null) => {
+      const updates = pointerUpdates.current;
+      updates.latest = pointer;
+      if (updates.timer) return;
+
+      const flush = () => {
+        updates.timer = null;
+        updates.lastSentAt = Date.now();
+        broadcastPeerData({ type: 'pointer', pointer: updates.latest });
+      };
 
-          // Add all tracks from the stream
-          const senders: RTCRtpSender[] = [];
-          stream.getTracks().forEach(track => {
-            try {
-              console.log(`Adding ${track.kind} track to connection with ${peerId}`);
-              const sender = pc.addTrack(track, stream);
-              senders.push(sender);
-            } catch (err) {
-              console.error(`Failed to add ${track.kind} track to connection with ${peerId}:`, err);
-            }
-          });
+      const wait = updates.lastSentAt + POINTER_SEND_INTERVAL_MS - Date.now();
+      if (wait <= 0) {
+        flush();
+      } else {
+        updates.timer = setTimeout(flush, wait);
+      }
+    },
+    [broadcastPeerData]
+  );
 
-          if (senders.length === 0) {
-            console.error(`No track senders created for ${peerId}`);
-            return false;
-          }
+  // Draw or update one of our annotations and send it to every peer. Strokes being drawn are
+  // throttled like pointers; finishing one sends everything pending right away.
+  const drawAnnotation = useCallback(
+    (annotation: Annotation) => {
+      storeAnnotation(annotation);
 
-          // Update senders
-          if (!streamSenders.current[peerId]) {
-            streamSenders.current[peerId] = [];
-          }
-          streamSenders.current[peerId].push(...senders);
+      const updates = annotationUpdates.current;
+      updates.pending.set(annotation.id, annotation);
 
-          // Wait a moment to ensure tracks are properly added
-          await new Promise(resolve => setTimeout(resolve, 200));
+      const flush = () => {
+        if (updates.timer) clearTimeout(updates.timer);
+        updates.timer = null;
+        updates.lastSentAt = Date.now();
 
-          // Create a new offer to notify peer about the added tracks
-          try {
-            console.log(`Creating offer with screen tracks for ${peerId}`);
-            const offer = await pc.createOffer();
-            await pc.setLocalDescription(offer);
+        const pending = Array.from(updates.pending.values());
+        updates.pending.clear();
+        pending.forEach(update => broadcastPeerData({ type: 'annotation', annotation: update }));
+      };
 
-            if (!pc.localDescription) {
-              throw new Error('No local description to send');
-            }
+      const wait = updates.lastSentAt + ANNOTATION_SEND_INTERVAL_MS - Date.now();
+      if (annotation.complete || wait <= 0) {
+        flush();
+      } else if (!updates.timer) {
+        updates.timer = setTimeout(flush, wait);
+      }
+    },
+    [storeAnnotation, broadcastPeerData]
+  );
 
-            console.log(`Sending screen share update offer to ${peerId}`);
+  // Take back our latest finished annotation on a screen
+  const undoAnnotation = useCallback(
+    (streamId: string) => {
+      const annotation = findUndoableAnnotation(annotations, userId.current, streamId);
+      if (!annotation) return;
 
-            // Send the offer with a special flag
-            await push(getOffersRef(), {
-              from: userId.current,
-              target: peerId,
-              sdp: {
-                type: pc.localDescription.type,
-                sdp: pc.localDescription.sdp,
-              },
-              hasScreen: true, // This flag tells the recipient this is a screen share
-              timestamp: new Date().toISOString(),
-            });
+      removeAnnotations(({ id }) => id === annotation.id);
+      broadcastPeerData({ type: 'annotation-undo', id: annotation.id });
+    },
+    [annotations, removeAnnotations, broadcastPeerData]
+  );
 
-            console.log(`Screen share successfully added to connection with ${peerId}`);
-            return true;
-          } catch (err) {
-            console.error(`Error creating or sending offer after adding tracks to ${peerId}:`, err);
-            return false;
-          }
+  // Tell every peer whether we are recording; peers who connect later are told when their
+  // data channel opens
+  const setRecording = useCallback(
+    (recording: boolean) => {
+      isRecording.current = recording;
+      broadcastPeerData({ type: 'recording', recording });
+    },
+    [broadcastPeerData]
+  );
+
+  // Turn our camera or microphone on with a given device, or off, on every connection. A device
+  // that goes away, e.g. when unplugged, turns off.
+  const setDeviceTrack = useCallback(
+    async (kind: 'video' | 'audio', enabled: boolean, deviceId: string | null) => {
+      const name = kind === 'video' ? 'camera' : 'microphone';
+      const setLocalTrack = kind === 'video' ? setLocalCamera : setLocalMicrophone;
+      if (enabled && viewOnlyRef.current) {
+        console.warn(`[WebRTC] Viewers cannot turn on their ${name}`);
+        return;
+      }
+
+      let track: MediaStreamTrack | null = null;
+      if (enabled) {
+        try {
+          track = await getDeviceTrack(kind, deviceId);
         } catch (err) {
-          console.error(`Error adding screen share to connection with ${peerId}:`, err);
-          return false;
+          console.error(`[WebRTC] Could not turn on the ${name}:`, err);
+          setError(
+            `Could not turn on the ${name}: ${err instanceof Error ? err.message : String(err)}`
+          );
+          return;
         }
-      };
+      }
 
-      // Process all peer connections with a retry mechanism
-      const peerIds = Object.keys(peerConnections.current);
-      console.log(`Starting screen share negotiations with ${peerIds.length} peers`);
+      const cameraStream = (cameraStreamRef.current ??= new MediaStream());
+      const sendToAll = () =>
+        Object.entries(peerConnections.current).forEach(([peerId, pc]) => {
+          if (pc.signalingState !== 'closed') sendLocalTracks(peerId, pc);
+        });
 
-      // Process connections in parallel with retries
-      const retryInterval = 1000; // 1 second between retries
-      const maxRetries = 5;
+      cameraStream
+        .getTracks()
+        .filter(existing => existing.kind === kind)
+        .forEach(existing => {
+          existing.stop();
+          cameraStream.removeTrack(existing);
+        });
 
-      const processConnection = async (peerId: string) => {
-        const pc = peerConnections.current[peerId];
-        if (!pc) return;
+      if (track) {
+        const added = track;
+        cameraStream.addTrack(added);
+        added.addEventListener('ended', () => {
+          if (!cameraStream.getTracks().includes(added)) return;
+          console.log(`[WebRTC] Our ${name} went away`);
+          cameraStream.removeTrack(added);
+          setLocalTrack(null);
+          sendToAll();
+        });
+      }
 
-        let success = false;
-        let attempts = 0;
+      console.log(`[WebRTC] Turned ${track ? 'on' : 'off'} our ${name}`);
+      setLocalTrack(track);
+      sendToAll();
+    },
+    [sendLocalTracks]
+  );
 
-        while (!success && attempts < maxRetries) {
-          success = await addTracksToConnection(peerId, pc);
-          if (!success) {
-            console.log(`Retry ${attempts + 1}/${maxRetries} for ${peerId} in ${retryInterval}ms`);
-            await new Promise(resolve => setTimeout(resolve, retryInterval));
-            attempts++;
-          }
-        }
+  const setCameraEnabled = useCallback(
+    (enabled: boolean) => setDeviceTrack('video', enabled, cameraDeviceId),
+    [setDeviceTrack, cameraDeviceId]
+  );
 
-        if (!success) {
-          console.warn(`Failed to add screen share to ${peerId} after ${maxRetries} attempts`);
-          // Create a new connection as a last resort
-          console.log(`Creating new connection with ${peerId} for screen sharing`);
-          const shouldInitiate = userId.current > peerId;
-          const newPc = createPeerConnection(peerId, shouldInitiate);
-          if (newPc) {
-            // The tracks will be added by the createPeerConnection function
-          }
-        }
-      };
+  const setMicrophoneEnabled = useCallback(
+    (enabled: boolean) => setDeviceTrack('audio', enabled, microphoneDeviceId),
+    [setDeviceTrack, microphoneDeviceId]
+  );
 
-      // Start the connection processing
-      await Promise.all(peerIds.map(processConnection));
+  const selectCamera = useCallback(
+    async (deviceId: string) => {
+      setCameraDeviceId(deviceId);
+      if (localCamera) await setDeviceTrack('video', true, deviceId);
+    },
+    [setDeviceTrack, localCamera]
+  );
 
-      return stream;
-    } catch (error) {
-      console.error('Error getting screen share:', error);
-      setError(`Failed to get screen: ${error instanceof Error ? error.message : String(error)}`);
+  const selectMicrophone = useCallback(
+    async (deviceId: string) => {
+      setMicrophoneDeviceId(deviceId);
+      if (localMicrophone) await setDeviceTrack('audio', true, deviceId);
+    },
+    [setDeviceTrack, localMicrophone]
+  );
+
+  // Tune the share for text or motion: the capture, the encoder's hint and the senders' limits
+  const setSharePreset = useCallback(
+    (preset: SharePreset) => {
+      const settings = SHARE_PRESETS[preset];
+      sharePresetRef.current = preset;
+      setSharePresetState(preset);
+      screenEncodings.current = {};
+
+      const stream = localStreamRef.current;
+      if (!stream) return;
+
+      console.log(`[WebRTC] Switching the screen share to the ${preset} preset`);
+      stream.getVideoTracks().forEach(track => {
+        track.contentHint = settings.contentHint;
+        track.applyConstraints(settings.constraints).catch(err => {
+          console.warn('[WebRTC] Could not apply the share preset to the capture:', err);
+        });
+      });
+      Object.entries(streamSenders.current).forEach(([peerId, senders]) => {
+        if (senders.screen?.track) applyScreenEncoding(peerId, senders.screen);
+      });
+    },
+    [applyScreenEncoding]
+  );
+
+  // Every so often, adapt what our share sends each peer to what their connection takes
+  useEffect(() => {
+    if (!localStream) return;
+
+    const interval = setInterval(() => {
+      const preset = SHARE_PRESETS[sharePresetRef.current];
+
+      Object.entries(streamSenders.current).forEach(([peerId, senders]) => {
+        const sender = senders.screen;
+        const current = screenEncodings.current[peerId];
+        if (!sender?.track || !current) return;
+
+        sender
+          .getStats()
+          .then(report => {
+            const next = adaptEncoding(current, readSenderStats(report), preset);
+            // Unchanged, or the preset or connection changed in the meantime
+            if (next === current || screenEncodings.current[peerId] !== current) return;
+
+            console.log(
+              `[WebRTC] Adapting the screen share for ${peerId}: ${Math.round(next.maxBitrate / 1000)} kbps, scaled down by ${next.scaleResolutionDownBy.toFixed(2)}`
+            );
+            screenEncodings.current[peerId] = next;
+            return applyEncoding(sender, next);
+          })
+          .catch(err => {
+            console.warn(`[WebRTC] Could not adapt the screen share for ${peerId}:`, err);
+          });
+      });
+    }, ADAPT_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [localStream]);
+
+  const getConnectionStats = useCallback(async (peerId: string) => {
+    const pc = peerConnections.current[peerId];
+    if (!pc || pc.connectionState === 'closed') return null;
+
+    try {
+      return await pc.getStats();
+    } catch (err) {
+      console.warn(`[WebRTC] Could not get connection stats for ${peerId}:`, err);
       return null;
     }
-  }, [getOffersRef, roomId, stopSharing, createPeerConnection]);
+  }, []);
 
-  // Select stream
-  const selectStream = useCallback((streamId: string | null) => {
-    setSelectedStream(streamId);
+  // Snapshot every connection's stats into the diagnostics log while we are in the room
+  useEffect(() => {
+    if (!isConnected) return;
+
+    const interval = setInterval(() => {
+      Object.entries(peerConnections.current).forEach(([peerId, pc]) => {
+        if (pc.connectionState === 'closed') return;
+
+        pc.getStats()
+          .then(report => {
+            const { stats, counters } = summarizeConnectionStats(
+              report,
+              statsCounters.current[peerId]
+            );
+            statsCounters.current[peerId] = counters;
+            eventLog.current.record('debug', 'stats', 'Stats snapshot', {
+              peerId,
+              data: { ...stats },
+            });
+          })
+          .catch(err => {
+            console.warn(`[WebRTC] Could not snapshot connection stats for ${peerId}:`, err);
+          });
+      });
+      // Peers that left
+      Object.keys(statsCounters.current).forEach(peerId => {
+        if (!peerConnections.current[peerId]) delete statsCounters.current[peerId];
+      });
+    }, STATS_SNAPSHOT_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isConnected]);
+
+  const getDiagnostics = useCallback(
+    ({ redactSdp }: { redactSdp: boolean }) => {
+      const connections: Record<string, PeerDiagnostics> = {};
+      Object.entries(peerConnections.current).forEach(([peerId, pc]) => {
+        connections[peerId] = {
+          connectionState: pc.connectionState,
+          iceConnectionState: pc.iceConnectionState,
+          signalingState: pc.signalingState,
+          localDescription: pc.localDescription?.sdp ?? null,
+          remoteDescription: pc.remoteDescription?.sdp ?? null,
+        };
+      });
+
+      return buildDiagnosticsBundle({
+        roomId,
+        userId: userId.current,
+        userAgent: navigator.userAgent,
+        peers: connections,
+        log: eventLog.current,
+        redactSdp,
+      });
+    },
+    [roomId]
+  );
+
+  // A disabled track keeps its sender, so muting needs no renegotiation
+  const setShareAudioMuted = useCallback((muted: boolean) => {
+    shareAudioMuted.current = muted;
+    setIsShareAudioMuted(muted);
+    localStreamRef.current?.getAudioTracks().forEach(track => (track.enabled = !muted));
+  }, []);
+
+  // Everyone's screen, camera and microphone tracks. Tracks come and go without the streams
+  // changing, hence trackChanges and our own tracks among the dependencies.
+  const peerMedia = useMemo(() => {
+    const media: Record<string, PeerMedia> = {};
+    new Set([...Object.keys(peerStreams), ...Object.keys(peerCameraStreams)]).forEach(peerId => {
+      media[peerId] = describePeerMedia(peerStreams[peerId], peerCameraStreams[peerId]);
+    });
+    media[userId.current] = describePeerMedia(localStream, cameraStreamRef.current);
+    return media;
+  }, [peerStreams, peerCameraStreams, localStream, localCamera, localMicrophone, trackChanges]);
+
+  // Clear everyone's annotations off the screen we are sharing
+  const clearAnnotations = useCallback(() => {
+    removeAnnotations(({ streamId }) => streamId === userId.current);
+    broadcastPeerData({ type: 'annotation-clear', streamId: userId.current });
+  }, [removeAnnotations, broadcastPeerData]);
+
+  const dismissResumeSharing = useCallback(() => {
+    identityRef.current?.setSharing(false);
+    setCanResumeSharing(false);
   }, []);
 
   return {
@@ -2517,5 +3280,48 @@ export function useWebRTCFirebase({ roomId }: UseWebRTCProps): UseWebRTCResult {
     stopSharing,
     userId: userId.current,
     requestStream,
+    passcodeRequired,
+    submitPasscode,
+    hostId,
+    isHost: hostId !== null && hostId === userId.current,
+    admissionStatus,
+    pendingUsers,
+    admitUser,
+    denyUser,
+    isRoomLocked,
+    setRoomLocked,
+    kickUser,
+    forceStopSharing,
+    removedByHost,
+    participants,
+    canResumeSharing,
+    dismissResumeSharing,
+    messages,
+    sendMessage,
+    pointers,
+    sendPointer,
+    annotations,
+    drawAnnotation,
+    undoAnnotation,
+    clearAnnotations,
+    recordingPeers,
+    setRecording,
+    peerMedia,
+    cameraDeviceId,
+    microphoneDeviceId,
+    setCameraEnabled,
+    setMicrophoneEnabled,
+    selectCamera,
+    selectMicrophone,
+    isShareAudioMuted,
+    setShareAudioMuted,
+    sharePreset,
+    setSharePreset,
+    getConnectionStats,
+    getDiagnostics,
+    reconnectingPeers,
+    topology,
+    viewers,
+    viewerRoomId,
   };
 }
@@ -0,0 +1,146 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createIceServerProvider, DEFAULT_ICE_SERVERS, parseIceServers } from './iceServers';
+
+const credentials = (ttl: number, password = 'secret') => ({
+  username: '1700000000:alice',
+  password,
+  ttl,
+  uris: ['turn:turn.example.com:3478?transport=udp', 'turns:turn.example.com:5349'],
+});
+
+const session = { roomId: 'room-1', userId: 'alice', token: 'session-token' };
+
+const mockFetch = (...responses: Array<object | Error>) => {
+  const fetchMock = vi.fn();
+  responses.forEach(response => {
+    if (response instanceof Error) {
+      fetchMock.mockRejectedValueOnce(response);
+    } else {
+      fetchMock.mockResolvedValueOnce({ ok: true, json: async () => response });
+    }
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+describe('parseIceServers', () => {
+  it('accepts a JSON array of ICE servers', () => {
+    const servers = [{ urls: 'turn:turn.example.com', username: 'u', credential: 'c' }];
+    expect(parseIceServers(JSON.stringify(servers))).toEqual(servers);
+  });
+
+  it('ignores missing or malformed values', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(parseIceServers(undefined)).toBeNull();
+    expect(parseIceServers('not json')).toBeNull();
+    expect(parseIceServers('[{"username":"u"}]')).toBeNull();
+  });
+});
+
+describe('createIceServerProvider', () => {
+  it('uses the static servers when no credentials endpoint is configured', async () => {
+    const provider = createIceServerProvider();
+
+    expect(await provider.authorize(session)).toEqual(DEFAULT_ICE_SERVERS);
+    expect(provider.current()).toEqual(DEFAULT_ICE_SERVERS);
+    provider.dispose();
+  });
+
+  it('adds a TURN server with credentials from the endpoint', async () => {
+    const fetchMock = mockFetch(credentials(600));
+    const provider = createIceServerProvider({
+      credentialsUrl: 'https://example.com/turn-credentials',
+    });
+
+    const servers = await provider.authorize(session);
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://example.com/turn-credentials?service=turn&room=room-1&username=alice&token=session-token',
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+    expect(servers).toEqual([
+      ...DEFAULT_ICE_SERVERS,
+      {
+        urls: credentials(600).uris,
+        username: '1700000000:alice',
+        credential: 'secret',
+      },
+    ]);
+    provider.dispose();
+  });
+
+  it('waits for a joined user before fetching credentials', async () => {
+    const fetchMock = mockFetch(credentials(600));
+    const provider = createIceServerProvider({ credentialsUrl: '/turn-credentials' });
+
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(provider.current()).toEqual(DEFAULT_ICE_SERVERS);
+    provider.dispose();
+  });
+
+  it('refreshes credentials before they expire and notifies listeners', async () => {
+    const fetchMock = mockFetch(credentials(600), credentials(600, 'rotated'));
+    const provider = createIceServerProvider({ credentialsUrl: '/turn-credentials' });
+    const listener = vi.fn();
+    provider.subscribe(listener);
+    await provider.authorize(session);
+
+    await vi.advanceTimersByTimeAsync(470 * 1000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(10 * 1000);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].at(-1).credential).toBe('rotated');
+    provider.dispose();
+  });
+
+  it('falls back to static servers and retries when the endpoint fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = mockFetch(new Error('offline'), credentials(600));
+    const provider = createIceServerProvider({ credentialsUrl: '/turn-credentials' });
+
+    expect(await provider.authorize(session)).toEqual(DEFAULT_ICE_SERVERS);
+
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(provider.current()).toHaveLength(DEFAULT_ICE_SERVERS.length + 1);
+    provider.dispose();
+  });
+
+  it('gives up on an endpoint that does not answer and uses the static servers', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const signals: AbortSignal[] = [];
+    const fetchMock = vi.fn(
+      (_url: string, { signal }: { signal: AbortSignal }) =>
+        new Promise((_resolve, reject) => {
+          signals.push(signal);
+          signal.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const provider = createIceServerProvider({ credentialsUrl: '/turn-credentials' });
+
+    const servers = provider.authorize(session);
+    await vi.advanceTimersByTimeAsync(5 * 1000);
+
+    expect(await servers).toEqual(DEFAULT_ICE_SERVERS);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(signals[0].aborted).toBe(true);
+    provider.dispose();
+  });
+
+  it('stops refreshing once disposed', async () => {
+    const fetchMock = mockFetch(credentials(60));
+    const provider = createIceServerProvider({ credentialsUrl: '/turn-credentials' });
+    await provider.authorize(session);
+
+    provider.dispose();
+    await vi.advanceTimersByTimeAsync(120 * 1000);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
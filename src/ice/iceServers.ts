@@ -0,0 +1,153 @@
+import { TurnCredentialsResponse } from './turnRest';
+
+export const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' },
+];
+
+// Refresh TURN credentials once this fraction of their lifetime has passed
+const REFRESH_AT_FRACTION = 0.8;
+// Retry delay when the credentials endpoint can't be reached
+const RETRY_DELAY_MS = 30000;
+// Joining waits for the first credentials; give up on a hanging endpoint after this long and
+// carry on with the static servers
+const FETCH_TIMEOUT_MS = 5000;
+
+// eslint-disable-next-line no-unused-vars
+type IceServersListener = (iceServers: RTCIceServer[]) => void;
+
+// A user who joined a room, with the session token the signaling server gave them
+export interface TurnSession {
+  roomId: string;
+  userId: string;
+  token: string;
+}
+
+export interface IceServerProviderOptions {
+  // Servers used as-is (STUN, or TURN with static credentials)
+  staticServers?: RTCIceServer[];
+  // TURN REST endpoint minting short-lived credentials, e.g. http://host:3001/turn-credentials
+  credentialsUrl?: string;
+}
+
+export interface IceServerProvider {
+  // Servers to use right now (static servers until the first credentials arrive)
+  current(): RTCIceServer[];
+  // Start fetching credentials for a joined user and keep them fresh. Resolves once the first
+  // fetch has finished (or failed); never rejects.
+  // eslint-disable-next-line no-unused-vars
+  authorize(session: TurnSession): Promise<RTCIceServer[]>;
+  // Called whenever credentials are refreshed
+  // eslint-disable-next-line no-unused-vars
+  subscribe(listener: IceServersListener): () => void;
+  dispose(): void;
+}
+
+// Parse VITE_ICE_SERVERS, a JSON array of RTCIceServer objects
+export function parseIceServers(value: string | undefined): RTCIceServer[] | null {
+  if (!value) return null;
+
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed) && parsed.every(server => server && server.urls)) {
+      return parsed as RTCIceServer[];
+    }
+    console.warn('[ICE] VITE_ICE_SERVERS must be a JSON array of { urls, username?, credential? }');
+  } catch (err) {
+    console.warn('[ICE] Could not parse VITE_ICE_SERVERS:', err);
+  }
+  return null;
+}
+
+export function createIceServerProvider({
+  staticServers = DEFAULT_ICE_SERVERS,
+  credentialsUrl,
+}: IceServerProviderOptions = {}): IceServerProvider {
+  let session: TurnSession | null = null;
+  let turnServer: RTCIceServer | null = null;
+  let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  let disposed = false;
+  const listeners = new Set<IceServersListener>();
+
+  const current = (): RTCIceServer[] =>
+    turnServer ? [...staticServers, turnServer] : [...staticServers];
+
+  const scheduleRefresh = (delayMs: number) => {
+    if (disposed) return;
+    if (refreshTimer) clearTimeout(refreshTimer);
+    refreshTimer = setTimeout(() => {
+      refreshTimer = null;
+      fetchCredentials().then(() => {
+        if (!disposed) listeners.forEach(listener => listener(current()));
+      });
+    }, delayMs);
+  };
+
+  const fetchCredentials = async (): Promise<void> => {
+    if (!credentialsUrl || !session) return;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    try {
+      const url = new URL(credentialsUrl, window.location.href);
+      url.searchParams.set('service', 'turn');
+      url.searchParams.set('room', session.roomId);
+      url.searchParams.set('username', session.userId);
+      url.searchParams.set('token', session.token);
+
+      const response = await fetch(url.toString(), { signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const credentials = (await response.json()) as TurnCredentialsResponse;
+      turnServer = {
+        urls: credentials.uris,
+        username: credentials.username,
+        credential: credentials.password,
+      };
+      console.log(`[ICE] Fetched TURN credentials valid for ${credentials.ttl}s`);
+
+      scheduleRefresh(credentials.ttl * 1000 * REFRESH_AT_FRACTION);
+    } catch (err) {
+      console.warn('[ICE] Failed to fetch TURN credentials, retrying later:', err);
+      scheduleRefresh(RETRY_DELAY_MS);
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+
+  return {
+    current,
+    authorize(joined) {
+      session = joined;
+      if (refreshTimer) {
+        clearTimeout(refreshTimer);
+        refreshTimer = null;
+      }
+      return fetchCredentials().then(current);
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dispose() {
+      disposed = true;
+      listeners.clear();
+      if (refreshTimer) {
+        clearTimeout(refreshTimer);
+        refreshTimer = null;
+      }
+    },
+  };
+}
+
+// Build the provider configured by VITE_ICE_SERVERS and VITE_TURN_CREDENTIALS_URL
+export function createConfiguredIceServerProvider(): IceServerProvider {
+  return createIceServerProvider({
+    staticServers: parseIceServers(import.meta.env.VITE_ICE_SERVERS) ?? DEFAULT_ICE_SERVERS,
+    credentialsUrl: import.meta.env.VITE_TURN_CREDENTIALS_URL || undefined,
+  });
+}
@@ -0,0 +1,10 @@
+export {
+  createConfiguredIceServerProvider,
+  createIceServerProvider,
+  DEFAULT_ICE_SERVERS,
+  parseIceServers,
+} from './iceServers';
+export type { IceServerProvider, IceServerProviderOptions, TurnSession } from './iceServers';
+export { DISCONNECTED_GRACE_MS, ICE_RESTART_ATTEMPTS, iceRestartDelay } from './restart';
+export { TURN_CREDENTIALS_PATH } from './turnRest';
+export type { TurnCredentialsResponse } from './turnRest';
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+
+import { ICE_RESTART_ATTEMPTS, iceRestartDelay } from './restart';
+
+describe('iceRestartDelay', () => {
+  it('doubles with every attempt up to a limit', () => {
+    expect([1, 2, 3].map(iceRestartDelay)).toEqual([1000, 2000, 4000]);
+    expect(iceRestartDelay(10)).toBe(8000);
+  });
+
+  it('gives up on restarting within a reasonable time', () => {
+    const total = Array.from({ length: ICE_RESTART_ATTEMPTS }, (_, index) =>
+      iceRestartDelay(index + 1)
+    ).reduce((sum, delay) => sum + delay, 0);
+    expect(total).toBeLessThanOrEqual(15000);
+  });
+});
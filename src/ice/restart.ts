@@ -0,0 +1,13 @@
+// How a broken connection is brought back: browsers often recover from 'disconnected' on their
+// own, so we wait a moment before stepping in. Then ICE is restarted a few times with growing
+// pauses in between, and only if that doesn't help is the connection rebuilt from scratch.
+export const DISCONNECTED_GRACE_MS = 2000;
+export const ICE_RESTART_ATTEMPTS = 3;
+
+const FIRST_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 8000;
+
+// How long to give the given ICE restart (1 for the first) before trying the next one
+export function iceRestartDelay(attempt: number): number {
+  return Math.min(FIRST_RETRY_DELAY_MS * 2 ** Math.max(0, attempt - 1), MAX_RETRY_DELAY_MS);
+}
@@ -0,0 +1,13 @@
+// TURN REST API (draft-uberti-behave-turn-rest) types shared by server.ts and the client.
+// The server and the TURN server share a secret; credentials are
+// username = "<expiry unix time>:<user id>", password = base64(HMAC-SHA1(secret, username)).
+
+export const TURN_CREDENTIALS_PATH = '/turn-credentials';
+
+export interface TurnCredentialsResponse {
+  username: string;
+  password: string;
+  // Lifetime of the credentials in seconds
+  ttl: number;
+  uris: string[];
+}
@@ -0,0 +1,2 @@
+export { parseRoomPath, roomPath, roomUrl } from './links';
+export type { RoomRoute } from './links';
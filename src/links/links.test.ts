@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseRoomPath, roomPath, roomUrl } from './links';
+
+describe('room links', () => {
+  it('builds participant and viewer links', () => {
+    expect(roomPath('abc')).toBe('/room/abc');
+    expect(roomUrl('https://share.example.com', 'abc', true)).toBe(
+      'https://share.example.com/room/abc/view'
+    );
+  });
+
+  it('reads the room and role back from a path', () => {
+    expect(parseRoomPath('/room/abc')).toEqual({ roomId: 'abc', viewOnly: false });
+    expect(parseRoomPath(roomPath('abc', true))).toEqual({ roomId: 'abc', viewOnly: true });
+    expect(parseRoomPath('/')).toBeNull();
+    expect(parseRoomPath('/room/')).toBeNull();
+  });
+});
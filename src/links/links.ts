@@ -0,0 +1,23 @@
+// Rooms live at /room/<id>. Viewer links add /view: whoever opens one joins as a viewer, who
+// only watches what the participants share. Their ID comes from the signaling backend and may
+// not be the room's (see SignalingTransport.getViewerRoomId).
+
+export interface RoomRoute {
+  roomId: string;
+  viewOnly: boolean;
+}
+
+export function roomPath(roomId: string, viewOnly = false): string {
+  return `/room/${roomId}${viewOnly ? '/view' : ''}`;
+}
+
+export function roomUrl(origin: string, roomId: string, viewOnly = false): string {
+  return `${origin}${roomPath(roomId, viewOnly)}`;
+}
+
+// The room a path points at, or null for any other page
+export function parseRoomPath(path: string): RoomRoute | null {
+  const [, page, roomId, mode] = path.split('/');
+  if (page !== 'room' || !roomId) return null;
+  return { roomId, viewOnly: mode === 'view' };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+
+import { getDeviceTrack, listMediaDevices } from './devices';
+
+const device = (kind: MediaDeviceKind, deviceId: string, label = ''): MediaDeviceInfo =>
+  ({ kind, deviceId, label, groupId: '' }) as MediaDeviceInfo;
+
+describe('listMediaDevices', () => {
+  it('lists cameras and microphones, numbering those without a label', () => {
+    const { cameras, microphones } = listMediaDevices([
+      device('videoinput', 'cam-1', 'FaceTime HD Camera'),
+      device('audioinput', 'mic-1'),
+      device('audiooutput', 'speaker-1', 'Speakers'),
+      device('audioinput', 'mic-2'),
+      // Browsers hide device IDs until access is granted
+      device('videoinput', ''),
+    ]);
+
+    expect(cameras).toEqual([{ deviceId: 'cam-1', label: 'FaceTime HD Camera' }]);
+    expect(microphones).toEqual([
+      { deviceId: 'mic-1', label: 'Microphone 1' },
+      { deviceId: 'mic-2', label: 'Microphone 2' },
+    ]);
+  });
+});
+
+describe('getDeviceTrack', () => {
+  it('keeps only the requested kind of track', async () => {
+    const track = await getDeviceTrack('audio', 'mic-1');
+
+    expect(track.kind).toBe('audio');
+    expect(track.readyState).toBe('live');
+  });
+});
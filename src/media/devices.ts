@@ -0,0 +1,42 @@
+export interface MediaDeviceOption {
+  deviceId: string;
+  label: string;
+}
+
+export interface MediaDeviceOptions {
+  cameras: MediaDeviceOption[];
+  microphones: MediaDeviceOption[];
+}
+
+// Cameras and microphones from enumerateDevices(). Browsers leave labels empty until the user
+// has allowed access, so those are numbered instead.
+export function listMediaDevices(devices: MediaDeviceInfo[]): MediaDeviceOptions {
+  const options = (kind: MediaDeviceKind, fallback: string): MediaDeviceOption[] =>
+    devices
+      .filter(device => device.kind === kind && device.deviceId)
+      .map((device, index) => ({
+        deviceId: device.deviceId,
+        label: device.label || `${fallback} ${index + 1}`,
+      }));
+
+  return {
+    cameras: options('videoinput', 'Camera'),
+    microphones: options('audioinput', 'Microphone'),
+  };
+}
+
+// A single track from the camera or microphone, from a given device or the default one
+export async function getDeviceTrack(
+  kind: 'video' | 'audio',
+  deviceId: string | null
+): Promise<MediaStreamTrack> {
+  const constraints = deviceId ? { deviceId: { exact: deviceId } } : true;
+  const stream = await navigator.mediaDevices.getUserMedia({ [kind]: constraints });
+
+  const [track] = kind === 'video' ? stream.getVideoTracks() : stream.getAudioTracks();
+  stream.getTracks().forEach(other => {
+    if (other !== track) other.stop();
+  });
+  if (!track) throw new Error(`No ${kind === 'video' ? 'camera' : 'microphone'} found`);
+  return track;
+}
@@ -0,0 +1,4 @@
+export { getDeviceTrack, listMediaDevices } from './devices';
+export type { MediaDeviceOption, MediaDeviceOptions } from './devices';
+export { describePeerMedia, localTrackSlots } from './tracks';
+export type { PeerMedia, SenderSlot } from './tracks';
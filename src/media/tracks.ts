@@ -0,0 +1,48 @@
+// What a participant sends, track by track. The camera and microphone travel in a stream of
+// their own, separate from the screen share.
+export interface PeerMedia {
+  screen: MediaStreamTrack | null;
+  screenAudio: MediaStreamTrack | null;
+  camera: MediaStreamTrack | null;
+  microphone: MediaStreamTrack | null;
+  // Camera and microphone together, ready to play; null while both are off
+  cameraStream: MediaStream | null;
+}
+
+const liveTrack = (tracks: MediaStreamTrack[] = []): MediaStreamTrack | null =>
+  tracks.find(track => track.readyState === 'live') ?? null;
+
+export function describePeerMedia(
+  screen: MediaStream | null | undefined,
+  camera: MediaStream | null | undefined
+): PeerMedia {
+  const cameraTrack = liveTrack(camera?.getVideoTracks());
+  const microphoneTrack = liveTrack(camera?.getAudioTracks());
+
+  return {
+    screen: liveTrack(screen?.getVideoTracks()),
+    screenAudio: liveTrack(screen?.getAudioTracks()),
+    camera: cameraTrack,
+    microphone: microphoneTrack,
+    cameraStream: camera && (cameraTrack || microphoneTrack) ? camera : null,
+  };
+}
+
+// Which sender each local track goes out on: the screen share's tracks and the camera's
+export type SenderSlot = 'screen' | 'screen-audio' | 'camera' | 'microphone';
+
+export function localTrackSlots(
+  screen: MediaStream | null,
+  camera: MediaStream | null
+): Partial<Record<SenderSlot, { track: MediaStreamTrack; stream: MediaStream }>> {
+  const slots: Partial<Record<SenderSlot, { track: MediaStreamTrack; stream: MediaStream }>> = {};
+  const assign = (slot: SenderSlot, stream: MediaStream | null, track?: MediaStreamTrack) => {
+    if (stream && track) slots[slot] = { track, stream };
+  };
+
+  assign('screen', screen, screen?.getVideoTracks()[0]);
+  assign('screen-audio', screen, screen?.getAudioTracks()[0]);
+  assign('camera', camera, camera?.getVideoTracks()[0]);
+  assign('microphone', camera, camera?.getAudioTracks()[0]);
+  return slots;
+}
@@ -1,14 +1,20 @@
 import React, { useState } from 'react';
-import { Monitor, Copy, ArrowRight, RefreshCw } from 'lucide-react';
+import { Monitor, Copy, ArrowRight, RefreshCw, Lock, Pencil } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
+import { roomUrl } from '../links';
+import { UserProfile } from '../profile';
 
 interface HomeProps {
+  // Remembered name, if any; rooms ask for one otherwise
+  profile: UserProfile | null;
+  onChangeName: () => void;
   // eslint-disable-next-line no-unused-vars
-  onJoinRoom: (roomId: string) => void;
+  onJoinRoom: (roomId: string, passcode?: string) => void;
 }
 
-export function Home({ onJoinRoom }: HomeProps): React.ReactElement {
+export function Home({ profile, onChangeName, onJoinRoom }: HomeProps): React.ReactElement {
   const [newRoomId, setNewRoomId] = useState<string>('');
+  const [passcode, setPasscode] = useState<string>('');
   const [joinRoomId, setJoinRoomId] = useState<string>('');
   const [copied, setCopied] = useState<boolean>(false);
   const [error, setError] = useState<string>('');
@@ -23,8 +29,7 @@ export function Home({ onJoinRoom }: HomeProps): React.ReactElement {
 
   // Copy room link to clipboard
   const copyToClipboard = (): void => {
-    const url = `${window.location.origin}/room/${newRoomId}`;
-    navigator.clipboard.writeText(url);
+    navigator.clipboard.writeText(roomUrl(window.location.origin, newRoomId));
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
@@ -32,7 +37,7 @@ export function Home({ onJoinRoom }: HomeProps): React.ReactElement {
   // Handle creating a new room
   const handleCreateRoom = (): void => {
     const roomId = newRoomId || generateRoomId();
-    onJoinRoom(roomId);
+    onJoinRoom(roomId, passcode || undefined);
   };
 
   // Handle joining an existing room
@@ -52,6 +57,22 @@ export function Home({ onJoinRoom }: HomeProps): React.ReactElement {
         <p className="text-secondary-600 text-lg">
           Create or join a room to collaborate with screen sharing
         </p>
+        {profile && (
+          <p className="text-secondary-500 text-sm mt-2 flex items-center justify-center gap-1">
+            <span>
+              Joining as <span className="font-medium text-secondary-700">{profile.name}</span>
+            </span>
+            <button
+              type="button"
+              onClick={onChangeName}
+              className="text-primary-600 hover:text-primary-800 p-1"
+              aria-label="Change name"
+              title="Change name"
+            >
+              <Pencil size={12} />
+            </button>
+          </p>
+        )}
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
@@ -77,6 +98,18 @@ export function Home({ onJoinRoom }: HomeProps): React.ReactElement {
             </button>
           </div>
 
+          <div className="flex items-center gap-2 mb-6">
+            <Lock size={20} className="text-secondary-500 shrink-0" />
+            <input
+              type="password"
+              value={passcode}
+              onChange={e => setPasscode(e.target.value)}
+              placeholder="Passcode (optional)"
+              autoComplete="new-password"
+              className="w-full p-3 border border-secondary-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+          </div>
+
           {newRoomId && (
             <div className="mb-6">
               <div className="flex items-center gap-2 mb-2">
@@ -89,8 +122,11 @@ export function Home({ onJoinRoom }: HomeProps): React.ReactElement {
                 </button>
               </div>
               <div className="p-3 bg-secondary-50 rounded-lg text-secondary-800 font-mono text-sm truncate">
-                {window.location.origin}/room/{newRoomId}
+                {roomUrl(window.location.origin, newRoomId)}
               </div>
+              <p className="text-xs text-secondary-500 mt-2">
+                Viewer links, for people who only watch, are in the room once you're in.
+              </p>
             </div>
           )}
 
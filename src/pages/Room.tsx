@@ -1,23 +1,108 @@
-import { ArrowLeft, Copy, Monitor, RefreshCw, Users, X } from 'lucide-react';
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Activity,
+  ArrowLeft,
+  Camera,
+  Check,
+  Circle,
+  Copy,
+  Crown,
+  Eye,
+  Film,
+  Images,
+  LayoutGrid,
+  MessageSquare,
+  Monitor,
+  Pin,
+  PinOff,
+  Presentation,
+  RefreshCw,
+  Square,
+  Type,
+  Users,
+  Volume2,
+  VolumeX,
+  X,
+} from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AnnotationTool, findUndoableAnnotation } from '../annotation';
+import { SPEAKING_LEVEL } from '../audio';
+import { captureFileName, captureVideoFrame, copyImageToClipboard, FrameCapture } from '../capture';
+import { AnnotationCanvas } from '../components/AnnotationCanvas';
+import { AnnotationToolbar } from '../components/AnnotationToolbar';
+import { Avatar } from '../components/Avatar';
+import { CameraBubble } from '../components/CameraBubble';
+import { CaptureGallery } from '../components/CaptureGallery';
+import { ChatPanel } from '../components/ChatPanel';
+import { HostMenu } from '../components/HostMenu';
+import { MediaControls } from '../components/MediaControls';
+import { PasscodePrompt } from '../components/PasscodePrompt';
+import { PointerOverlay, RemotePointer } from '../components/PointerOverlay';
+import { SignalBadge } from '../components/SignalBadge';
+import { StatsOverlay } from '../components/StatsOverlay';
+import { VideoTile } from '../components/VideoTile';
+import { VolumeControl } from '../components/VolumeControl';
+import { LobbyStatus, WaitingRoom } from '../components/WaitingRoom';
+import { diagnosticsFileName } from '../diagnostics';
+import { useAudioLevels } from '../hooks/useAudioLevels';
+import { useCaptureGallery } from '../hooks/useCaptureGallery';
+import { useConnectionStats } from '../hooks/useConnectionStats';
+import { useStreamRecording } from '../hooks/useStreamRecording';
 import { useWebRTCFirebase } from '../hooks/useWebRTCFirebase';
+import { roomPath, roomUrl } from '../links';
+import { getNormalizedVideoPoint } from '../pointer';
+import { SHARE_PRESETS } from '../quality';
+import { downloadBlob, formatBytes, formatDuration } from '../recording';
+import { createRoomIdentity, getParticipant, Participant, UserProfile } from '../profile';
 
 interface RoomProps {
   roomId: string;
+  // Passcode to protect the room with when we are creating it
+  passcode?: string;
+  // Our name and avatar
+  profile: UserProfile;
+  // Joined through a viewer link: we only watch
+  viewOnly?: boolean;
   onLeaveRoom: () => void;
 }
 
-export function Room({ roomId, onLeaveRoom }: RoomProps): React.ReactElement {
-  const [copied, setCopied] = useState<boolean>(false);
+export function Room({
+  roomId,
+  passcode,
+  profile,
+  viewOnly = false,
+  onLeaveRoom,
+}: RoomProps): React.ReactElement {
+  // Which of the room's links was just copied
+  const [copied, setCopied] = useState<'room' | 'viewer' | null>(null);
   const [showParticipants, setShowParticipants] = useState<boolean>(false);
+  const [showChat, setShowChat] = useState<boolean>(false);
+  // How many messages from others we had seen when the chat was last open
+  const [readCount, setReadCount] = useState<number>(0);
+  // Drawing tool over the shared screen, or null to just point
+  const [annotationTool, setAnnotationTool] = useState<AnnotationTool | null>(null);
+  const [showGallery, setShowGallery] = useState<boolean>(false);
+  // Live numbers of each peer connection over the video
+  const [showStats, setShowStats] = useState<boolean>(false);
+  // One screen large with the others in a filmstrip, or all screens in equal tiles
+  const [layout, setLayout] = useState<'spotlight' | 'grid'>('spotlight');
+  // Screen kept in the spotlight even when someone else starts sharing
+  const [pinnedStream, setPinnedStream] = useState<string | null>(null);
+  // Brief feedback after capturing a frame
+  const [captureNotice, setCaptureNotice] = useState<string | null>(null);
+  // How loud each peer plays for us (0-1), and whom we muted
+  const [peerVolumes, setPeerVolumes] = useState<Record<string, number>>({});
+  const [mutedPeers, setMutedPeers] = useState<string[]>([]);
   const [isSharingScreen, setIsSharingScreen] = useState<boolean>(false);
   const videoRef = useRef<HTMLVideoElement>(null);
   const [error, setError] = useState<string | null>(null);
+  // Rejoin as the same user after a reload
+  const identity = useMemo(() => createRoomIdentity(roomId), [roomId]);
 
   const {
     isConnected,
     isConnecting,
     isLoading,
+    error: connectionError,
     peers,
     localStream,
     peerStreams,
@@ -28,7 +113,61 @@ export function Room({ roomId, onLeaveRoom }: RoomProps): React.ReactElement {
     stopSharing,
     userId,
     requestStream,
-  } = useWebRTCFirebase({ roomId });
+    passcodeRequired,
+    submitPasscode,
+    hostId,
+    isHost,
+    admissionStatus,
+    pendingUsers,
+    admitUser,
+    denyUser,
+    isRoomLocked,
+    setRoomLocked,
+    kickUser,
+    forceStopSharing,
+    removedByHost,
+    participants,
+    canResumeSharing,
+    dismissResumeSharing,
+    messages,
+    sendMessage,
+    pointers,
+    sendPointer,
+    annotations,
+    drawAnnotation,
+    undoAnnotation,
+    clearAnnotations,
+    recordingPeers,
+    setRecording,
+    peerMedia,
+    cameraDeviceId,
+    microphoneDeviceId,
+    setCameraEnabled,
+    setMicrophoneEnabled,
+    selectCamera,
+    selectMicrophone,
+    isShareAudioMuted,
+    setShareAudioMuted,
+    sharePreset,
+    setSharePreset,
+    getConnectionStats,
+    getDiagnostics,
+    reconnectingPeers,
+    topology,
+    viewers,
+    viewerRoomId,
+  } = useWebRTCFirebase({ roomId, passcode, profile, identity, viewOnly });
+
+  // The links we can hand out: viewers only pass on their viewer link, and viewer links wait
+  // for the backend to hand out an ID for them
+  const shareableLinks = [
+    ...(viewOnly ? [] : (['room'] as const)),
+    ...(viewerRoomId ? (['viewer'] as const) : []),
+  ];
+
+  // Name and avatar of a user, with a placeholder until their presence record arrives
+  const participantFor = (id: string): Participant =>
+    participants[id] ?? getParticipant(id, undefined);
 
   // Stabilize refs to avoid re-renders
   const roomIdRef = useRef(roomId);
@@ -117,7 +256,7 @@ export function Room({ roomId, onLeaveRoom }: RoomProps): React.ReactElement {
     );
   }, [peers]);
 
-  // Set the video stream
+  // Set the video stream; the main video is mounted again when leaving the grid layout
   useEffect(() => {
     if (!videoRef.current) return;
 
@@ -152,7 +291,7 @@ export function Room({ roomId, onLeaveRoom }: RoomProps): React.ReactElement {
     } else {
       videoRef.current.srcObject = null;
     }
-  }, [selectedStream, localStream, peerStreams, userId]);
+  }, [selectedStream, localStream, peerStreams, userId, layout]);
 
   // Handle sharing screen
   const handleShareScreen = useCallback(async () => {
@@ -195,13 +334,23 @@ export function Room({ roomId, onLeaveRoom }: RoomProps): React.ReactElement {
     // to all peers, which will update their UI automatically
   }, [stopSharing, userId, selectedStream, selectStream, peerStreamsWithData]);
 
-  // Copy room link to clipboard
-  const copyRoomLink = useCallback((): void => {
-    const url = `${window.location.origin}/room/${roomId}`;
-    navigator.clipboard.writeText(url);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
-  }, [roomId]);
+  const linkUrl = useCallback(
+    (link: 'room' | 'viewer'): string =>
+      link === 'viewer' && viewerRoomId
+        ? roomUrl(window.location.origin, viewerRoomId, true)
+        : roomUrl(window.location.origin, roomId),
+    [roomId, viewerRoomId]
+  );
+
+  // Copy the room link, or the viewer link, to clipboard
+  const copyRoomLink = useCallback(
+    (link: 'room' | 'viewer'): void => {
+      navigator.clipboard.writeText(linkUrl(link));
+      setCopied(link);
+      setTimeout(() => setCopied(null), 2000);
+    },
+    [linkUrl]
+  );
 
   // Find active streamers (peers with streams + local user if sharing)
   const activeStreamers = (() => {
@@ -217,11 +366,212 @@ export function Room({ roomId, onLeaveRoom }: RoomProps): React.ReactElement {
     return [...sharingPeers, ...(localStream ? [userId] : [])];
   })();
 
+  const streamFor = (id: string): MediaStream | null =>
+    id === userId ? localStream : (peerStreams[id] ?? null);
+
+  // Show a screen in the spotlight. Choosing another screen than the pinned one unpins it.
+  const spotlight = (id: string): void => {
+    setPinnedStream(prev => (prev === id ? prev : null));
+    selectStream(id);
+    setLayout('spotlight');
+  };
+
+  const togglePin = (id: string): void => {
+    if (pinnedStream === id) {
+      setPinnedStream(null);
+      return;
+    }
+    setPinnedStream(id);
+    selectStream(id);
+  };
+
+  // Keep the pinned screen in the spotlight, and unpin it when its share ends
+  const pinnedIsSharing = pinnedStream !== null && activeStreamers.includes(pinnedStream);
+  useEffect(() => {
+    if (!pinnedStream) return;
+    if (!pinnedIsSharing) {
+      setPinnedStream(null);
+    } else if (selectedStream !== pinnedStream) {
+      selectStream(pinnedStream);
+    }
+  }, [pinnedStream, pinnedIsSharing, selectedStream, selectStream]);
+
+  // Grid tiles, pinned screen first
+  const gridStreams = pinnedIsSharing
+    ? [pinnedStream as string, ...activeStreamers.filter(id => id !== pinnedStream)]
+    : activeStreamers;
+
+  // Everyone with their camera or microphone on, ourselves first
+  const cameraPeers = [userId, ...peers].filter(id => peerMedia[id]?.cameraStream);
+  const ownMedia = peerMedia[userId];
+
+  // Cameras share the grid with the screens, and fill it while nobody shares
+  const showGrid =
+    (layout === 'grid' && gridStreams.length > 0) ||
+    (activeStreamers.length === 0 && cameraPeers.length > 0);
+  const gridColumns = Math.ceil(Math.sqrt(gridStreams.length + cameraPeers.length));
+  const canSwitchLayout = activeStreamers.length > 0 && gridStreams.length + cameraPeers.length > 1;
+
+  // Why we are kept outside the room, if we are
+  const lobbyStatus = ((): LobbyStatus | null => {
+    if (removedByHost) return 'removed';
+    if (isConnected) {
+      if (admissionStatus === 'denied') return 'denied';
+      return admissionStatus === 'admitted' ? null : 'pending';
+    }
+    return isRoomLocked && !isConnecting && !isLoading ? 'locked' : null;
+  })();
+
   // Toggle participants panel
   const toggleParticipants = useCallback((): void => {
     setShowParticipants(prev => !prev);
   }, []);
 
+  const toggleChat = useCallback((): void => {
+    setShowChat(prev => !prev);
+  }, []);
+
+  // Messages from others count as read while the chat is open
+  const incomingCount = messages.filter(message => message.from !== userId).length;
+  useEffect(() => {
+    if (showChat) setReadCount(incomingCount);
+  }, [showChat, incomingCount]);
+  const unreadCount = showChat ? 0 : incomingCount - readCount;
+
+  // Whose screen the main video shows (see the effect that sets its stream above)
+  const viewedStreamId = selectedStream ?? (localStream ? userId : null);
+  const viewedStream =
+    viewedStreamId === userId ? localStream : viewedStreamId ? peerStreams[viewedStreamId] : null;
+
+  const volumeFor = (id: string): number => (mutedPeers.includes(id) ? 0 : (peerVolumes[id] ?? 1));
+  const toggleMutedPeer = (id: string): void =>
+    setMutedPeers(prev => (prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]));
+
+  // The main video plays the audio of the screen it shows
+  const viewedVolume = viewedStreamId ? volumeFor(viewedStreamId) : 1;
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.volume = viewedVolume;
+  }, [viewedVolume, viewedStream, layout]);
+
+  // Who is making a sound: share audio and microphones that are on
+  const audioLevels = useAudioLevels(
+    Object.fromEntries(
+      Object.entries(peerMedia).map(([id, media]) => [
+        id,
+        [media.screenAudio, media.microphone].filter(
+          (track): track is MediaStreamTrack => !!track && track.enabled
+        ),
+      ])
+    )
+  );
+  const isSpeaking = (id: string): boolean => (audioLevels[id] ?? 0) > SPEAKING_LEVEL;
+
+  // Only polled while something shows them
+  const connectionStats = useConnectionStats(
+    peers,
+    getConnectionStats,
+    showStats || showParticipants
+  );
+
+  // The presenter's camera floats over their screen; other cameras go in the filmstrip
+  const pipPeer =
+    !showGrid && viewedStreamId && cameraPeers.includes(viewedStreamId) ? viewedStreamId : null;
+  const filmstripCameras = showGrid ? [] : cameraPeers.filter(id => id !== pipPeer);
+  const cameraBubble = (id: string, className: string) => (
+    <CameraBubble
+      key={`camera-${id}`}
+      media={peerMedia[id]}
+      participant={participantFor(id)}
+      isSelf={id === userId}
+      volume={volumeFor(id)}
+      className={className}
+    />
+  );
+
+  // Recording follows the main video, so it keeps going when another share takes over
+  const {
+    isRecording,
+    elapsedMs: recordingElapsedMs,
+    bytes: recordingBytes,
+    error: recordingError,
+    startRecording,
+    stopRecording,
+  } = useStreamRecording({ roomId, stream: viewedStream ?? null, onRecordingChange: setRecording });
+
+  const { captures, addCapture, removeCapture } = useCaptureGallery();
+
+  useEffect(() => {
+    if (!captureNotice) return;
+    const timer = setTimeout(() => setCaptureNotice(null), 2000);
+    return () => clearTimeout(timer);
+  }, [captureNotice]);
+
+  const downloadCapture = useCallback(
+    (capture: FrameCapture) => downloadBlob(capture.blob, captureFileName(roomId, capture.takenAt)),
+    [roomId]
+  );
+
+  // Copy a capture to the clipboard, or download it where the browser won't allow that
+  const copyCapture = useCallback(
+    async (capture: FrameCapture) => {
+      if (await copyImageToClipboard(capture.blob)) {
+        setCaptureNotice('Copied to clipboard');
+      } else {
+        downloadCapture(capture);
+        setCaptureNotice('Downloaded');
+      }
+    },
+    [downloadCapture]
+  );
+
+  // Pointers of everyone else looking at the same screen
+  const visiblePointers: RemotePointer[] = Object.entries(pointers)
+    .filter(([peerId, position]) => peerId !== userId && position.streamId === viewedStreamId)
+    .map(([peerId, position]) => ({
+      userId: peerId,
+      participant: participantFor(peerId),
+      position,
+    }));
+
+  // Show our pointer to the others while the mouse is over the shared screen
+  const handleVideoPointerMove = (e: React.PointerEvent<HTMLVideoElement>): void => {
+    if (!viewedStreamId || viewOnly) return;
+    const point = getNormalizedVideoPoint(e.currentTarget, e.clientX, e.clientY);
+    sendPointer(point ? { streamId: viewedStreamId, ...point } : null);
+  };
+
+  // Everyone's drawings on the screen we look at
+  const visibleAnnotations = annotations.filter(
+    annotation => annotation.streamId === viewedStreamId
+  );
+  const canUndoAnnotation =
+    viewedStreamId !== null &&
+    findUndoableAnnotation(annotations, userId, viewedStreamId) !== undefined;
+
+  const downloadDiagnostics = (redactSdp: boolean): void => {
+    const bundle = getDiagnostics({ redactSdp });
+    downloadBlob(
+      new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }),
+      diagnosticsFileName(roomId, new Date(bundle.createdAt))
+    );
+  };
+
+  // Grab the current frame, drawings included, into the gallery and the clipboard
+  const handleCaptureFrame = async (): Promise<void> => {
+    const video = videoRef.current;
+    if (!video || !viewedStreamId) return;
+
+    try {
+      const blob = await captureVideoFrame(video, visibleAnnotations);
+      const capture = addCapture(blob, viewedStreamId);
+      setShowGallery(true);
+      await copyCapture(capture);
+    } catch (err) {
+      console.error('[Capture] Could not capture frame:', err);
+      setCaptureNotice(err instanceof Error ? err.message : 'Could not capture frame');
+    }
+  };
+
   // Connection status helper
   const getConnectionStatus = useCallback(() => {
     if (error) return 'error';
@@ -402,6 +752,18 @@ export function Room({ roomId, onLeaveRoom }: RoomProps): React.ReactElement {
           </button>
 
           <div className="flex items-center gap-3">
+            {isHost && (
+              <HostMenu
+                peers={[...peers, ...viewers]}
+                participants={participants}
+                sharingPeers={activeStreamers.filter(id => id !== userId)}
+                isRoomLocked={isRoomLocked}
+                onSetLocked={setRoomLocked}
+                onKick={kickUser}
+                onStopShare={forceStopSharing}
+              />
+            )}
+
             {/* Connection status indicator */}
             <div className="flex items-center gap-2">
               <div
@@ -434,7 +796,17 @@ export function Room({ roomId, onLeaveRoom }: RoomProps): React.ReactElement {
               className={`${showParticipants ? 'bg-primary-600 text-white' : 'bg-secondary-100 text-secondary-700'} hover:bg-primary-700 hover:text-white px-3 py-1 rounded-md flex items-center gap-1 transition-colors`}
             >
               <Users size={16} />
-              <span>Participants ({peers.length + 1})</span>
+              <span>Participants ({peers.length + (viewOnly ? 0 : 1)})</span>
+              {viewers.length + (viewOnly ? 1 : 0) > 0 && (
+                <span className="ml-1 bg-secondary-200 text-secondary-700 text-xs px-1.5 py-0.5 rounded-full">
+                  {viewers.length + (viewOnly ? 1 : 0)} watching
+                </span>
+              )}
+              {isHost && pendingUsers.length > 0 && (
+                <span className="ml-1 bg-yellow-200 text-yellow-800 text-xs px-1.5 py-0.5 rounded-full">
+                  {pendingUsers.length} waiting
+                </span>
+              )}
               {activeStreamers.length > 0 && (
                 <span className="ml-1 bg-primary-200 text-primary-800 text-xs px-1.5 py-0.5 rounded-full">
                   {activeStreamers.length} sharing
@@ -442,17 +814,46 @@ export function Room({ roomId, onLeaveRoom }: RoomProps): React.ReactElement {
               )}
             </button>
 
+            <button
+              type="button"
+              onClick={toggleChat}
+              className={`${showChat ? 'bg-primary-600 text-white' : 'bg-secondary-100 text-secondary-700'} hover:bg-primary-700 hover:text-white px-3 py-1 rounded-md flex items-center gap-1 transition-colors`}
+            >
+              <MessageSquare size={16} />
+              <span>Chat</span>
+              {unreadCount > 0 && (
+                <span
+                  className="ml-1 bg-red-500 text-white text-xs px-1.5 py-0.5 rounded-full"
+                  aria-label={`${unreadCount} unread`}
+                >
+                  {unreadCount}
+                </span>
+              )}
+            </button>
+
             <div className="flex items-center">
               <span className="bg-primary-100 text-primary-800 px-3 py-1 rounded-l-md">
-                Room ID: {roomId}
+                {viewOnly ? 'Watching' : `Room ID: ${roomId}`}
               </span>
-              <button
-                onClick={copyRoomLink}
-                className="bg-primary-600 hover:bg-primary-700 text-white px-3 py-1 rounded-r-md flex items-center gap-1"
-              >
-                <Copy size={14} />
-                <span>{copied ? 'Copied!' : 'Copy Link'}</span>
-              </button>
+              {!viewOnly && (
+                <button
+                  onClick={() => copyRoomLink('room')}
+                  className="bg-primary-600 hover:bg-primary-700 text-white px-3 py-1 border-r border-primary-500 flex items-center gap-1"
+                >
+                  <Copy size={14} />
+                  <span>{copied === 'room' ? 'Copied!' : 'Copy Link'}</span>
+                </button>
+              )}
+              {viewerRoomId && (
+                <button
+                  onClick={() => copyRoomLink('viewer')}
+                  className="bg-primary-600 hover:bg-primary-700 text-white px-3 py-1 rounded-r-md flex items-center gap-1"
+                  title="Copy a link for people who only watch"
+                >
+                  <Eye size={14} />
+                  <span>{copied === 'viewer' ? 'Copied!' : 'Viewer Link'}</span>
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -467,40 +868,104 @@ export function Room({ roomId, onLeaveRoom }: RoomProps): React.ReactElement {
               <p className="text-secondary-600">
                 {isConnecting ? 'Establishing connection...' : 'Loading room...'}
               </p>
-              <p className="text-xs text-secondary-400 mt-2">Room ID: {roomId}</p>
+              {!viewOnly && <p className="text-xs text-secondary-400 mt-2">Room ID: {roomId}</p>}
             </div>
           </div>
         )}
 
+        {/* Passcode prompt for protected rooms */}
+        {passcodeRequired && !isConnected && (
+          <PasscodePrompt
+            roomId={roomId}
+            error={connectionError}
+            onSubmit={submitPasscode}
+            onCancel={onLeaveRoom}
+          />
+        )}
+
+        {/* Waiting room - not admitted by the host (yet), removed, or locked out */}
+        {lobbyStatus && <WaitingRoom roomId={roomId} status={lobbyStatus} onLeave={onLeaveRoom} />}
+
         {/* Connected State - Always show this when connected, even if there are errors */}
-        {isConnected && (
+        {isConnected && admissionStatus === 'admitted' && (
           <div className="flex-1 flex gap-4 relative">
             {/* Main Content - Video */}
             <div
-              className={`flex-1 bg-white rounded-xl overflow-hidden shadow-md transition-all duration-300 ${showParticipants ? 'mr-80' : ''}`}
+              className={`flex-1 bg-white rounded-xl overflow-hidden shadow-md transition-all duration-300 ${
+                showParticipants && showChat
+                  ? 'mr-[40rem]'
+                  : showParticipants || showChat
+                    ? 'mr-80'
+                    : ''
+              }`}
             >
               <div className="bg-secondary-900 aspect-video flex items-center justify-center relative">
-                {(selectedStream !== null &&
-                  // Our own stream
-                  ((selectedStream === userId && localStream) ||
-                    // Peer's stream with actual media
-                    (selectedStream in peerStreamsWithData &&
-                      peerStreamsWithData[selectedStream]?.stream &&
-                      peerStreamsWithData[selectedStream]?.streamReady))) ||
-                localStream ? (
-                  <video
-                    ref={videoRef}
-                    autoPlay
-                    playsInline
-                    controls
-                    className="w-full h-full object-contain"
-                    onLoadedData={() => {
-                      console.log('Video loaded data successfully');
-                    }}
-                    onError={e => {
-                      console.error('Video error:', e);
-                    }}
-                  />
+                {showGrid ? (
+                  <div
+                    className="grid gap-2 p-2 w-full h-full"
+                    style={{ gridTemplateColumns: `repeat(${gridColumns}, minmax(0, 1fr))` }}
+                  >
+                    {gridStreams.map(id => (
+                      <VideoTile
+                        key={id}
+                        stream={streamFor(id)}
+                        participant={participantFor(id)}
+                        label={id === userId ? 'Your screen' : undefined}
+                        isPinned={pinnedStream === id}
+                        onSelect={() => spotlight(id)}
+                        onTogglePin={() => togglePin(id)}
+                      />
+                    ))}
+                    {cameraPeers.map(id => cameraBubble(id, 'w-full h-full'))}
+                  </div>
+                ) : (selectedStream !== null &&
+                    // Our own stream
+                    ((selectedStream === userId && localStream) ||
+                      // Peer's stream with actual media
+                      (selectedStream in peerStreamsWithData &&
+                        peerStreamsWithData[selectedStream]?.stream &&
+                        peerStreamsWithData[selectedStream]?.streamReady))) ||
+                  localStream ? (
+                  <>
+                    <video
+                      ref={videoRef}
+                      autoPlay
+                      playsInline
+                      controls
+                      className="w-full h-full object-contain"
+                      onPointerMove={handleVideoPointerMove}
+                      onPointerLeave={() => sendPointer(null)}
+                      onLoadedData={() => {
+                        console.log('Video loaded data successfully');
+                      }}
+                      onError={e => {
+                        console.error('Video error:', e);
+                      }}
+                    />
+                    {viewedStreamId && (
+                      <>
+                        <AnnotationCanvas
+                          video={videoRef.current}
+                          streamId={viewedStreamId}
+                          userId={userId}
+                          annotations={visibleAnnotations}
+                          tool={viewOnly ? null : annotationTool}
+                          color={participantFor(userId).avatar.color}
+                          onDraw={drawAnnotation}
+                        />
+                        {!viewOnly && (
+                          <AnnotationToolbar
+                            tool={annotationTool}
+                            onSelectTool={setAnnotationTool}
+                            canUndo={canUndoAnnotation}
+                            onUndo={() => undoAnnotation(viewedStreamId)}
+                            onClear={viewedStreamId === userId ? clearAnnotations : undefined}
+                          />
+                        )}
+                      </>
+                    )}
+                    <PointerOverlay video={videoRef.current} pointers={visiblePointers} />
+                  </>
                 ) : selectedStream !== null &&
                   selectedStream in peerStreamsWithData &&
                   peerStreamsWithData[selectedStream]?.isSharing &&
@@ -508,10 +973,13 @@ export function Room({ roomId, onLeaveRoom }: RoomProps): React.ReactElement {
                   // Peer is sharing but stream isn't ready yet
                   <div className="text-center text-secondary-400 p-8 flex flex-col items-center justify-center h-full">
                     <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto mb-4"></div>
-                    <p className="mb-2 text-lg font-medium">Connecting to peer's stream...</p>
+                    <p className="mb-2 text-lg font-medium">
+                      Connecting to {participantFor(selectedStream).name}&apos;s stream...
+                    </p>
                     <p className="text-sm text-secondary-500 mb-6 max-w-lg">
-                      <strong>Connection issue:</strong> The other user is sharing their screen, but
-                      you can't see it yet. This is a common issue with the first share attempt.
+                      <strong>Connection issue:</strong> {participantFor(selectedStream).name} is
+                      sharing their screen, but you can't see it yet. This is a common issue with
+                      the first share attempt.
                     </p>
 
                     <div className="grid grid-cols-1 gap-4 max-w-lg mx-auto">
@@ -538,50 +1006,54 @@ export function Room({ roomId, onLeaveRoom }: RoomProps): React.ReactElement {
                         Reconnect to Stream
                       </button>
 
-                      <div className="text-center text-sm text-secondary-500 my-2">
-                        Or try this trick that typically fixes the issue:
-                      </div>
-
-                      <button
-                        onClick={async () => {
-                          try {
-                            if (!localStream) {
-                              console.log('Starting temporary screen share to fix connection');
-
-                              // Remember the peer we were trying to view
-                              const peerToView = selectedStream;
-
-                              // Share our screen temporarily
-                              const stream = await shareScreen();
-                              if (stream) {
-                                setIsSharingScreen(true);
-
-                                // Schedule auto-stop after a few seconds
-                                setTimeout(() => {
-                                  console.log('Auto-stopping temporary screen share');
-                                  stopSharing();
-                                  setIsSharingScreen(false);
-
-                                  // Request peer stream again
-                                  if (peerToView) {
-                                    console.log('Requesting peer stream after temporary share');
-                                    requestStream(peerToView);
-
-                                    // Reselect peer stream after a delay
-                                    setTimeout(() => selectStream(peerToView), 1000);
+                      {!viewOnly && (
+                        <>
+                          <div className="text-center text-sm text-secondary-500 my-2">
+                            Or try this trick that typically fixes the issue:
+                          </div>
+
+                          <button
+                            onClick={async () => {
+                              try {
+                                if (!localStream) {
+                                  console.log('Starting temporary screen share to fix connection');
+
+                                  // Remember the peer we were trying to view
+                                  const peerToView = selectedStream;
+
+                                  // Share our screen temporarily
+                                  const stream = await shareScreen();
+                                  if (stream) {
+                                    setIsSharingScreen(true);
+
+                                    // Schedule auto-stop after a few seconds
+                                    setTimeout(() => {
+                                      console.log('Auto-stopping temporary screen share');
+                                      stopSharing();
+                                      setIsSharingScreen(false);
+
+                                      // Request peer stream again
+                                      if (peerToView) {
+                                        console.log('Requesting peer stream after temporary share');
+                                        requestStream(peerToView);
+
+                                        // Reselect peer stream after a delay
+                                        setTimeout(() => selectStream(peerToView), 1000);
+                                      }
+                                    }, 3000);
                                   }
-                                }, 3000);
+                                }
+                              } catch (err) {
+                                console.error('Error during share fix:', err);
                               }
-                            }
-                          } catch (err) {
-                            console.error('Error during share fix:', err);
-                          }
-                        }}
-                        className="px-4 py-3 bg-green-600 text-white rounded-md hover:bg-green-700 font-medium flex items-center justify-center"
-                      >
-                        <Monitor size={18} className="mr-2" />
-                        Share Your Screen Temporarily (Fixes Connection)
-                      </button>
+                            }}
+                            className="px-4 py-3 bg-green-600 text-white rounded-md hover:bg-green-700 font-medium flex items-center justify-center"
+                          >
+                            <Monitor size={18} className="mr-2" />
+                            Share Your Screen Temporarily (Fixes Connection)
+                          </button>
+                        </>
+                      )}
                     </div>
                   </div>
                 ) : (
@@ -589,17 +1061,65 @@ export function Room({ roomId, onLeaveRoom }: RoomProps): React.ReactElement {
                     <div>
                       <Monitor size={48} className="mx-auto mb-4 text-secondary-300" />
                       <p className="mb-4">No active screen shares</p>
-                      <button
-                        onClick={handleShareScreen}
-                        className="bg-primary-600 hover:bg-primary-700 text-white px-4 py-2 rounded-md"
-                      >
-                        Share Your Screen
-                      </button>
+                      {!viewOnly && (
+                        <button
+                          onClick={handleShareScreen}
+                          className="bg-primary-600 hover:bg-primary-700 text-white px-4 py-2 rounded-md"
+                        >
+                          Share Your Screen
+                        </button>
+                      )}
                     </div>
                   </div>
                 )}
+                {pipPeer &&
+                  cameraBubble(pipPeer, 'absolute bottom-12 right-3 w-40 aspect-video shadow-lg')}
+                {reconnectingPeers.length > 0 && (
+                  <div className="absolute top-3 left-1/2 -translate-x-1/2 z-20 flex flex-col items-center gap-1">
+                    {reconnectingPeers.map(peerId => (
+                      <div
+                        key={peerId}
+                        role="status"
+                        className="bg-yellow-100 text-yellow-800 text-sm px-3 py-1 rounded-full shadow flex items-center gap-2"
+                      >
+                        <RefreshCw size={14} className="animate-spin" />
+                        <span>Reconnecting to {participantFor(peerId).name}…</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {showStats && (
+                  <StatsOverlay
+                    peers={peers}
+                    stats={connectionStats}
+                    participantFor={participantFor}
+                    onDownloadDiagnostics={downloadDiagnostics}
+                    onClose={() => setShowStats(false)}
+                  />
+                )}
               </div>
 
+              {/* Other screens and cameras while one screen is in the spotlight */}
+              {!showGrid && (activeStreamers.length > 1 || filmstripCameras.length > 0) && (
+                <div className="flex gap-2 p-2 bg-secondary-800 overflow-x-auto">
+                  {filmstripCameras.map(id => cameraBubble(id, 'flex-shrink-0 w-40 aspect-video'))}
+                  {activeStreamers
+                    .filter(id => id !== viewedStreamId)
+                    .map(id => (
+                      <VideoTile
+                        key={id}
+                        stream={streamFor(id)}
+                        participant={participantFor(id)}
+                        label={id === userId ? 'Your screen' : undefined}
+                        isPinned={pinnedStream === id}
+                        className="flex-shrink-0 w-40 aspect-video"
+                        onSelect={() => spotlight(id)}
+                        onTogglePin={() => togglePin(id)}
+                      />
+                    ))}
+                </div>
+              )}
+
               {/* Status bar */}
               <div className="px-4 py-1 border-t border-secondary-100 flex justify-between items-center">
                 {/* Left side info */}
@@ -609,22 +1129,37 @@ export function Room({ roomId, onLeaveRoom }: RoomProps): React.ReactElement {
                   ></div>
                   <span className="text-secondary-700">
                     {selectedStream
-                      ? `Viewing: ${selectedStream === userId ? 'Your screen' : `Participant ${selectedStream.substring(0, 8)}`}`
+                      ? `Viewing: ${selectedStream === userId ? 'Your screen' : `${participantFor(selectedStream).name}'s screen`}`
                       : activeStreamers.length > 0
                         ? 'Select a participant to view their screen'
                         : 'No active screen shares'}
                   </span>
+                  {layout === 'spotlight' && selectedStream && activeStreamers.length > 1 && (
+                    <button
+                      onClick={() => togglePin(selectedStream)}
+                      className={`p-1 rounded ${
+                        pinnedStream === selectedStream
+                          ? 'text-primary-700 bg-primary-100'
+                          : 'text-secondary-500 hover:bg-secondary-100'
+                      }`}
+                      aria-label={pinnedStream === selectedStream ? 'Unpin' : 'Pin'}
+                      aria-pressed={pinnedStream === selectedStream}
+                      title={
+                        pinnedStream === selectedStream
+                          ? 'Unpin'
+                          : 'Keep this screen in the spotlight when others start sharing'
+                      }
+                    >
+                      {pinnedStream === selectedStream ? <PinOff size={14} /> : <Pin size={14} />}
+                    </button>
+                  )}
                 </div>
 
                 {/* Error display */}
                 {error && (
                   <div className="flex items-center gap-2 bg-red-50 px-2 py-1 rounded border border-red-200 mr-2">
                     <div className="flex-1">
-                      <p className="text-sm text-red-700">
-                        {error.startsWith('Cannot share screen - another user')
-                          ? 'Cannot share - another user is already sharing'
-                          : error}
-                      </p>
+                      <p className="text-sm text-red-700">{error}</p>
                     </div>
                     <button
                       onClick={() => {
@@ -639,25 +1174,208 @@ export function Room({ roomId, onLeaveRoom }: RoomProps): React.ReactElement {
                 )}
 
                 {/* Action buttons */}
-                <div className="space-x-2">
-                  {isSharingScreen ? (
+                <div className="flex items-center gap-2">
+                  {recordingError && <span className="text-xs text-red-600">{recordingError}</span>}
+                  {captureNotice && (
+                    <span className="text-xs text-secondary-600">{captureNotice}</span>
+                  )}
+                  {canSwitchLayout && (
+                    <div className="flex rounded-md overflow-hidden border border-secondary-200">
+                      {(
+                        [
+                          ['spotlight', 'Spotlight', <Presentation key="spotlight" size={14} />],
+                          ['grid', 'Grid', <LayoutGrid key="grid" size={14} />],
+                        ] as const
+                      ).map(([option, label, icon]) => (
+                        <button
+                          key={option}
+                          onClick={() => setLayout(option)}
+                          className={`px-2 py-1 ${
+                            layout === option
+                              ? 'bg-primary-600 text-white'
+                              : 'bg-white text-secondary-600 hover:bg-secondary-100'
+                          }`}
+                          aria-label={`${label} layout`}
+                          aria-pressed={layout === option}
+                          title={`${label} layout`}
+                        >
+                          {icon}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {topology === 'sfu' && (
+                    <span
+                      className="text-xs font-medium bg-primary-50 text-primary-700 border border-primary-200 px-2 py-0.5 rounded"
+                      title="Screen shares go through the SFU in a room this size"
+                    >
+                      SFU
+                    </span>
+                  )}
+                  <button
+                    onClick={() => setShowStats(prev => !prev)}
+                    className={`p-1.5 rounded-md ${
+                      showStats
+                        ? 'bg-primary-600 text-white'
+                        : 'bg-secondary-100 hover:bg-secondary-200 text-secondary-700'
+                    }`}
+                    aria-label="Connection stats"
+                    aria-pressed={showStats}
+                    title="Show connection stats"
+                  >
+                    <Activity size={14} />
+                  </button>
+                  {captures.length > 0 && !showGallery && (
+                    <button
+                      onClick={() => setShowGallery(true)}
+                      className="bg-secondary-100 hover:bg-secondary-200 text-secondary-700 px-3 py-1 rounded-md text-sm flex items-center gap-1"
+                      title="Show captured frames"
+                    >
+                      <Images size={14} />
+                      <span>{captures.length}</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={handleCaptureFrame}
+                    disabled={!viewedStream || layout === 'grid'}
+                    className="bg-secondary-100 hover:bg-secondary-200 text-secondary-700 px-3 py-1 rounded-md text-sm flex items-center gap-1 disabled:opacity-50"
+                    title="Capture the current frame to the clipboard"
+                  >
+                    <Camera size={14} />
+                    <span>Capture</span>
+                  </button>
+                  {isRecording ? (
                     <button
-                      onClick={handleStopSharing}
-                      className="bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded-md text-sm"
+                      onClick={stopRecording}
+                      className="bg-red-100 hover:bg-red-200 text-red-700 px-3 py-1 rounded-md text-sm flex items-center gap-1"
+                      title="Stop recording and download it"
                     >
-                      Stop Sharing
+                      <Square size={12} className="fill-current" />
+                      <span className="tabular-nums">
+                        {formatDuration(recordingElapsedMs)} · {formatBytes(recordingBytes)}
+                      </span>
                     </button>
                   ) : (
                     <button
-                      onClick={handleShareScreen}
-                      className="bg-primary-600 hover:bg-primary-700 text-white px-3 py-1 rounded-md text-sm"
+                      onClick={startRecording}
+                      disabled={!viewedStream}
+                      className="bg-secondary-100 hover:bg-secondary-200 text-secondary-700 px-3 py-1 rounded-md text-sm flex items-center gap-1 disabled:opacity-50"
+                      title="Record the screen you are viewing"
                     >
-                      Share Screen
+                      <Circle size={12} className="fill-red-600 text-red-600" />
+                      <span>Record</span>
                     </button>
                   )}
+                  {!viewOnly && (
+                    <>
+                      <MediaControls
+                        cameraOn={!!ownMedia?.camera}
+                        microphoneOn={!!ownMedia?.microphone}
+                        cameraDeviceId={cameraDeviceId}
+                        microphoneDeviceId={microphoneDeviceId}
+                        onToggleCamera={() => setCameraEnabled(!ownMedia?.camera)}
+                        onToggleMicrophone={() => setMicrophoneEnabled(!ownMedia?.microphone)}
+                        onSelectCamera={selectCamera}
+                        onSelectMicrophone={selectMicrophone}
+                      />
+                      <div className="flex rounded-md overflow-hidden border border-secondary-200">
+                        {(
+                          [
+                            ['detail', <Type key="detail" size={14} />],
+                            ['motion', <Film key="motion" size={14} />],
+                          ] as const
+                        ).map(([preset, icon]) => (
+                          <button
+                            key={preset}
+                            onClick={() => setSharePreset(preset)}
+                            className={`px-2 py-1 ${
+                              sharePreset === preset
+                                ? 'bg-primary-600 text-white'
+                                : 'bg-white text-secondary-600 hover:bg-secondary-100'
+                            }`}
+                            aria-label={`${SHARE_PRESETS[preset].label} quality`}
+                            aria-pressed={sharePreset === preset}
+                            title={`Tune your share for ${SHARE_PRESETS[preset].label.toLowerCase()}`}
+                          >
+                            {icon}
+                          </button>
+                        ))}
+                      </div>
+                      {isSharingScreen && localStream?.getAudioTracks().length ? (
+                        <button
+                          onClick={() => setShareAudioMuted(!isShareAudioMuted)}
+                          className={`px-2 py-1 rounded-md border ${
+                            isShareAudioMuted
+                              ? 'bg-red-50 border-red-200 text-red-600'
+                              : 'bg-white border-secondary-200 text-secondary-600 hover:bg-secondary-100'
+                          }`}
+                          aria-label={isShareAudioMuted ? 'Unmute share audio' : 'Mute share audio'}
+                          aria-pressed={isShareAudioMuted}
+                          title={
+                            isShareAudioMuted
+                              ? 'Send the audio of your share again'
+                              : 'Stop sending the audio of your share'
+                          }
+                        >
+                          {isShareAudioMuted ? <VolumeX size={14} /> : <Volume2 size={14} />}
+                        </button>
+                      ) : null}
+                      {isSharingScreen ? (
+                        <button
+                          onClick={handleStopSharing}
+                          className="bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded-md text-sm"
+                        >
+                          Stop Sharing
+                        </button>
+                      ) : (
+                        <button
+                          onClick={handleShareScreen}
+                          className="bg-primary-600 hover:bg-primary-700 text-white px-3 py-1 rounded-md text-sm"
+                        >
+                          Share Screen
+                        </button>
+                      )}
+                    </>
+                  )}
                 </div>
               </div>
 
+              {showGallery && (
+                <CaptureGallery
+                  captures={captures}
+                  sourceName={streamId =>
+                    streamId === userId ? 'You' : participantFor(streamId).name
+                  }
+                  onCopy={copyCapture}
+                  onDownload={downloadCapture}
+                  onRemove={removeCapture}
+                  onClose={() => setShowGallery(false)}
+                />
+              )}
+
+              {/* Offer to resume a share interrupted by a reload */}
+              {canResumeSharing && !isSharingScreen && (
+                <div className="px-4 py-2 bg-primary-50 border-t border-primary-100 flex items-center gap-2">
+                  <Monitor size={16} className="text-primary-600 flex-shrink-0" />
+                  <p className="flex-1 text-sm text-primary-800">
+                    You were sharing your screen before the page reloaded.
+                  </p>
+                  <button
+                    onClick={handleShareScreen}
+                    className="bg-primary-600 hover:bg-primary-700 text-white px-3 py-1 rounded-md text-sm"
+                  >
+                    Resume Sharing
+                  </button>
+                  <button
+                    onClick={dismissResumeSharing}
+                    className="text-primary-700 hover:text-primary-900 p-1"
+                    aria-label="Dismiss"
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              )}
+
               {/* Connection Error Bar */}
               {error && (
                 <div className="px-4 py-2 bg-red-50 border-t border-red-200 flex items-center gap-2">
@@ -672,7 +1390,7 @@ export function Room({ roomId, onLeaveRoom }: RoomProps): React.ReactElement {
                       // Try to reconnect using the WebRTC hook's functionality
                       if (roomId) {
                         // Force disconnect and reconnect
-                        window.location.href = `/room/${roomId}`;
+                        window.location.href = roomPath(roomId, viewOnly);
                       }
                     }}
                     className="bg-red-100 hover:bg-red-200 text-red-700 px-2 py-1 rounded text-xs flex items-center gap-1"
@@ -684,6 +1402,21 @@ export function Room({ roomId, onLeaveRoom }: RoomProps): React.ReactElement {
               )}
             </div>
 
+            {/* Chat Panel - Slides in next to the participants panel */}
+            <div
+              className={`fixed top-[73px] bottom-0 w-80 bg-white shadow-lg overflow-hidden flex flex-col transition-all duration-300 transform ${
+                showChat ? 'translate-x-0' : 'translate-x-full'
+              } ${showChat && showParticipants ? 'right-80 border-r border-secondary-100' : 'right-0'} z-10`}
+            >
+              <ChatPanel
+                messages={messages}
+                userId={userId}
+                participants={participants}
+                onSend={sendMessage}
+                onClose={toggleChat}
+              />
+            </div>
+
             {/* Participants Panel - Slide in from right */}
             <div
               className={`fixed top-[73px] right-0 bottom-0 w-80 bg-white shadow-lg overflow-hidden flex flex-col transition-all duration-300 transform ${
@@ -711,7 +1444,7 @@ export function Room({ roomId, onLeaveRoom }: RoomProps): React.ReactElement {
                   {/* Current user */}
                   <button
                     type="button"
-                    onClick={() => (localStream ? selectStream(userId) : null)}
+                    onClick={() => (localStream ? spotlight(userId) : null)}
                     disabled={!localStream}
                     className={`w-full text-left p-2 rounded-md 
                       ${
@@ -723,28 +1456,40 @@ export function Room({ roomId, onLeaveRoom }: RoomProps): React.ReactElement {
                       } 
                       flex items-center gap-3 transition-colors`}
                   >
-                    <div
-                      className={`${
-                        selectedStream === userId
-                          ? 'bg-primary-200 text-primary-700'
-                          : localStream
-                            ? 'bg-primary-100 text-primary-700'
-                            : 'bg-secondary-100 text-secondary-600'
-                      } 
-                      w-8 h-8 rounded-full flex items-center justify-center`}
-                    >
-                      <span>You</span>
-                    </div>
-                    <div className="flex-1">
+                    <Avatar
+                      participant={participantFor(userId)}
+                      highlighted={selectedStream === userId}
+                      speaking={isSpeaking(userId)}
+                    />
+                    <div className="flex-1 min-w-0">
                       <div className="flex items-center gap-2">
-                        <span className="font-medium text-secondary-800">You</span>
+                        <span className="font-medium text-secondary-800 truncate">
+                          {participantFor(userId).name} (You)
+                        </span>
+                        {isHost && (
+                          <span className="text-xs bg-yellow-100 text-yellow-700 px-2 py-0.5 rounded-full flex items-center gap-1">
+                            <Crown size={10} />
+                            <span>Host</span>
+                          </span>
+                        )}
+                        {viewOnly && (
+                          <span className="text-xs bg-secondary-100 text-secondary-700 px-2 py-0.5 rounded-full flex items-center gap-1">
+                            <Eye size={10} />
+                            <span>Viewer</span>
+                          </span>
+                        )}
                         {localStream && (
                           <span className="text-xs bg-primary-100 text-primary-700 px-2 py-0.5 rounded-full flex items-center gap-1">
                             <span>Sharing</span>
                           </span>
                         )}
+                        {isRecording && (
+                          <span className="text-xs bg-red-100 text-red-700 px-2 py-0.5 rounded-full flex items-center gap-1">
+                            <span className="w-1.5 h-1.5 rounded-full bg-red-600 animate-pulse" />
+                            <span>Recording</span>
+                          </span>
+                        )}
                       </div>
-                      <div className="text-xs text-secondary-500">{userId.substring(0, 8)}</div>
                     </div>
                     {localStream && selectedStream !== userId && (
                       <div className="text-xs text-primary-600">View</div>
@@ -753,16 +1498,18 @@ export function Room({ roomId, onLeaveRoom }: RoomProps): React.ReactElement {
 
                   {/* Other participants */}
                   {peers.map((peerId: string) => (
-                    <button
-                      key={peerId}
-                      type="button"
-                      onClick={() =>
-                        peerId in peerStreams && peerStreamsWithData[peerId]?.isSharing
-                          ? selectStream(peerId)
-                          : null
-                      }
-                      disabled={!(peerId in peerStreams && peerStreamsWithData[peerId]?.isSharing)}
-                      className={`w-full text-left p-2 rounded-md 
+                    <div key={peerId}>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          peerId in peerStreams && peerStreamsWithData[peerId]?.isSharing
+                            ? spotlight(peerId)
+                            : null
+                        }
+                        disabled={
+                          !(peerId in peerStreams && peerStreamsWithData[peerId]?.isSharing)
+                        }
+                        className={`w-full text-left p-2 rounded-md 
                         ${
                           selectedStream === peerId
                             ? 'bg-primary-100'
@@ -771,72 +1518,168 @@ export function Room({ roomId, onLeaveRoom }: RoomProps): React.ReactElement {
                               : 'hover:bg-secondary-50 cursor-default'
                         } 
                         flex items-center gap-3 transition-colors`}
-                    >
-                      <div
-                        className={`${
-                          selectedStream === peerId
-                            ? 'bg-primary-200 text-primary-700'
-                            : peerId in peerStreams && peerStreamsWithData[peerId]?.isSharing
-                              ? 'bg-primary-100 text-primary-700'
-                              : 'bg-secondary-100 text-secondary-600'
-                        } 
-                        w-8 h-8 rounded-full flex items-center justify-center`}
                       >
-                        <span>P</span>
-                      </div>
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2">
-                          <span className="font-medium text-secondary-800">Participant</span>
-                          {/* Update sharing label to check for both isSharing flag AND valid stream */}
-                          {peerId in peerStreams &&
-                            peerStreamsWithData[peerId]?.isSharing &&
-                            peerStreamsWithData[peerId]?.streamReady && (
-                              <span className="text-xs bg-primary-100 text-primary-700 px-2 py-0.5 rounded-full flex items-center gap-1">
-                                <span>
-                                  {peerStreams[peerId]
-                                    ? `Sharing${peerStreams[peerId]?.getVideoTracks().length ? '' : ' (no video)'}`
-                                    : 'Starting stream...'}
-                                </span>
+                        <Avatar
+                          participant={participantFor(peerId)}
+                          highlighted={selectedStream === peerId}
+                          speaking={isSpeaking(peerId)}
+                        />
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-secondary-800 truncate">
+                              {participantFor(peerId).name}
+                            </span>
+                            {peerId === hostId && (
+                              <span className="text-xs bg-yellow-100 text-yellow-700 px-2 py-0.5 rounded-full flex items-center gap-1">
+                                <Crown size={10} />
+                                <span>Host</span>
                               </span>
                             )}
-                          {/* Show different status for stalled sharing */}
-                          {peerId in peerStreamsWithData &&
-                            peerStreamsWithData[peerId]?.isSharing &&
-                            (!peerStreams[peerId] || !peerStreamsWithData[peerId]?.streamReady) && (
+                            {recordingPeers.includes(peerId) && (
+                              <span className="text-xs bg-red-100 text-red-700 px-2 py-0.5 rounded-full flex items-center gap-1">
+                                <span className="w-1.5 h-1.5 rounded-full bg-red-600 animate-pulse" />
+                                <span>Recording</span>
+                              </span>
+                            )}
+                            {/* Update sharing label to check for both isSharing flag AND valid stream */}
+                            {peerId in peerStreams &&
+                              peerStreamsWithData[peerId]?.isSharing &&
+                              peerStreamsWithData[peerId]?.streamReady && (
+                                <span className="text-xs bg-primary-100 text-primary-700 px-2 py-0.5 rounded-full flex items-center gap-1">
+                                  <span>
+                                    {peerStreams[peerId]
+                                      ? `Sharing${peerStreams[peerId]?.getVideoTracks().length ? '' : ' (no video)'}`
+                                      : 'Starting stream...'}
+                                  </span>
+                                </span>
+                              )}
+                            {reconnectingPeers.includes(peerId) && (
                               <span className="text-xs bg-yellow-100 text-yellow-700 px-2 py-0.5 rounded-full flex items-center gap-1">
                                 <RefreshCw size={10} className="animate-spin mr-1" />
-                                <span>Connecting...</span>
+                                <span>Reconnecting…</span>
                               </span>
                             )}
+                            {/* Show different status for stalled sharing */}
+                            {peerId in peerStreamsWithData &&
+                              peerStreamsWithData[peerId]?.isSharing &&
+                              (!peerStreams[peerId] ||
+                                !peerStreamsWithData[peerId]?.streamReady) && (
+                                <span className="text-xs bg-yellow-100 text-yellow-700 px-2 py-0.5 rounded-full flex items-center gap-1">
+                                  <RefreshCw size={10} className="animate-spin mr-1" />
+                                  <span>Connecting...</span>
+                                </span>
+                              )}
+                          </div>
                         </div>
-                        <div className="text-xs text-secondary-500">{peerId.substring(0, 8)}</div>
-                      </div>
-                      {peerId in peerStreams &&
-                        peerStreamsWithData[peerId]?.isSharing &&
-                        selectedStream !== peerId && (
-                          <div className="text-xs text-primary-600">View</div>
-                        )}
-                    </button>
+                        <SignalBadge stats={connectionStats[peerId]} />
+                        {peerId in peerStreams &&
+                          peerStreamsWithData[peerId]?.isSharing &&
+                          selectedStream !== peerId && (
+                            <div className="text-xs text-primary-600">View</div>
+                          )}
+                      </button>
+                      {(peerMedia[peerId]?.screenAudio || peerMedia[peerId]?.microphone) && (
+                        <VolumeControl
+                          name={participantFor(peerId).name}
+                          volume={peerVolumes[peerId] ?? 1}
+                          muted={mutedPeers.includes(peerId)}
+                          level={audioLevels[peerId] ?? 0}
+                          onVolumeChange={volume =>
+                            setPeerVolumes(prev => ({ ...prev, [peerId]: volume }))
+                          }
+                          onToggleMuted={() => toggleMutedPeer(peerId)}
+                        />
+                      )}
+                    </div>
                   ))}
                 </div>
+
+                {/* Viewers, who only watch */}
+                {viewers.length > 0 && (
+                  <div className="mt-4">
+                    <h3 className="px-2 mb-1 text-xs font-medium uppercase text-secondary-500">
+                      Viewers ({viewers.length})
+                    </h3>
+                    <div className="space-y-1">
+                      {viewers.map((viewerId: string) => (
+                        <div key={viewerId} className="p-2 rounded-md flex items-center gap-3">
+                          <Avatar participant={participantFor(viewerId)} />
+                          <span className="flex-1 min-w-0 font-medium text-secondary-800 truncate">
+                            {participantFor(viewerId).name}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Waiting room */}
+                {pendingUsers.length > 0 && (
+                  <div className="mt-4">
+                    <h3 className="px-2 mb-1 text-xs font-medium uppercase text-secondary-500">
+                      Waiting to join ({pendingUsers.length})
+                    </h3>
+                    <div className="space-y-1">
+                      {pendingUsers.map((pendingId: string) => (
+                        <div
+                          key={pendingId}
+                          className="p-2 rounded-md bg-secondary-50 flex items-center gap-3"
+                        >
+                          <Avatar participant={participantFor(pendingId)} />
+                          <div className="flex-1 min-w-0">
+                            <span className="font-medium text-secondary-800 truncate block">
+                              {participantFor(pendingId).name}
+                            </span>
+                          </div>
+                          {isHost && (
+                            <div className="flex items-center gap-1">
+                              <button
+                                type="button"
+                                onClick={() => admitUser(pendingId)}
+                                className="bg-primary-600 hover:bg-primary-700 text-white p-1 rounded"
+                                aria-label="Admit"
+                                title="Admit"
+                              >
+                                <Check size={14} />
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => denyUser(pendingId)}
+                                className="bg-secondary-200 hover:bg-red-100 text-secondary-700 hover:text-red-700 p-1 rounded"
+                                aria-label="Deny"
+                                title="Deny"
+                              >
+                                <X size={14} />
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
 
               <div className="p-4 border-t border-secondary-100 bg-secondary-50">
-                <div className="text-xs text-secondary-600">
-                  <p className="mb-1">Room link:</p>
-                  <div className="flex items-center gap-1">
-                    <span className="truncate font-mono bg-white p-1 rounded border border-secondary-200 flex-1">
-                      {window.location.origin}/room/{roomId}
-                    </span>
-                    <button
-                      type="button"
-                      onClick={copyRoomLink}
-                      className="text-primary-600 hover:text-primary-800"
-                      aria-label="Copy link"
-                    >
-                      <Copy size={14} />
-                    </button>
-                  </div>
+                <div className="text-xs text-secondary-600 space-y-2">
+                  {shareableLinks.map(link => (
+                    <div key={link}>
+                      <p className="mb-1">{link === 'room' ? 'Room link:' : 'Viewer link:'}</p>
+                      <div className="flex items-center gap-1">
+                        <span className="truncate font-mono bg-white p-1 rounded border border-secondary-200 flex-1">
+                          {linkUrl(link)}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => copyRoomLink(link)}
+                          className="text-primary-600 hover:text-primary-800"
+                          aria-label={link === 'room' ? 'Copy link' : 'Copy viewer link'}
+                        >
+                          <Copy size={14} />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
                 </div>
               </div>
             </div>
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+
+import { decodePeerData, encodePeerData } from '../datachannel';
+import {
+  fromNormalizedPoint,
+  getContentRect,
+  parseObjectPosition,
+  toNormalizedPoint,
+} from './geometry';
+
+const box = { width: 800, height: 600 };
+const wideVideo = { width: 1920, height: 1080 };
+
+describe('getContentRect', () => {
+  it('letterboxes a wider frame with object-fit: contain', () => {
+    expect(getContentRect(box, wideVideo, 'contain')).toEqual({
+      left: 0,
+      top: 75,
+      width: 800,
+      height: 450,
+    });
+  });
+
+  it('pillarboxes a taller frame and honors object-position', () => {
+    const portrait = { width: 600, height: 1200 };
+    expect(getContentRect(box, portrait, 'contain', { x: 0, y: 0.5 })).toEqual({
+      left: 0,
+      top: 0,
+      width: 300,
+      height: 600,
+    });
+    expect(getContentRect(box, portrait, 'contain').left).toBe(250);
+  });
+
+  it('handles the other object-fit values', () => {
+    expect(getContentRect(box, wideVideo, 'cover')).toEqual({
+      left: (800 - 1066.6666666666667) / 2,
+      top: 0,
+      width: 1066.6666666666667,
+      height: 600,
+    });
+    expect(getContentRect(box, wideVideo, 'fill')).toEqual({
+      left: 0,
+      top: 0,
+      width: 800,
+      height: 600,
+    });
+    expect(getContentRect(box, { width: 400, height: 300 }, 'none')).toEqual({
+      left: 200,
+      top: 150,
+      width: 400,
+      height: 300,
+    });
+    expect(getContentRect(box, { width: 400, height: 300 }, 'scale-down').width).toBe(400);
+    expect(getContentRect(box, wideVideo, 'scale-down').width).toBe(800);
+  });
+});
+
+describe('normalized points', () => {
+  it('maps the same frame position between differently letterboxed players', () => {
+    const viewer = getContentRect(box, wideVideo, 'contain');
+    const sharer = getContentRect({ width: 1000, height: 1000 }, wideVideo, 'contain');
+
+    const normalized = toNormalizedPoint({ x: 400, y: 300 }, viewer);
+    expect(normalized).toEqual({ x: 0.5, y: 0.5 });
+    expect(fromNormalizedPoint(normalized!, sharer)).toEqual({ x: 500, y: 500 });
+  });
+
+  it('ignores points over the letterbox bars', () => {
+    const rect = getContentRect(box, wideVideo, 'contain');
+    expect(toNormalizedPoint({ x: 400, y: 50 }, rect)).toBeNull();
+    expect(toNormalizedPoint({ x: 0, y: 75 }, rect)).toEqual({ x: 0, y: 0 });
+  });
+});
+
+describe('parseObjectPosition', () => {
+  it('reads keywords and percentages', () => {
+    expect(parseObjectPosition('50% 50%')).toEqual({ x: 0.5, y: 0.5 });
+    expect(parseObjectPosition('left bottom')).toEqual({ x: 0, y: 1 });
+    expect(parseObjectPosition('25% 100%')).toEqual({ x: 0.25, y: 1 });
+    expect(parseObjectPosition('top')).toEqual({ x: 0.5, y: 0 });
+    expect(parseObjectPosition('10px 20px')).toEqual({ x: 0.5, y: 0.5 });
+  });
+});
+
+describe('pointer messages', () => {
+  it('round-trips positions and rejects coordinates outside the frame', () => {
+    const pointer = { streamId: 'alice', x: 0.25, y: 1 };
+
+    expect(decodePeerData(encodePeerData({ type: 'pointer', pointer }))).toEqual({
+      type: 'pointer',
+      pointer,
+    });
+    expect(decodePeerData(encodePeerData({ type: 'pointer', pointer: null }))).toEqual({
+      type: 'pointer',
+      pointer: null,
+    });
+    expect(
+      decodePeerData(JSON.stringify({ type: 'pointer', pointer: { ...pointer, x: 1.5 } }))
+    ).toBeNull();
+  });
+});
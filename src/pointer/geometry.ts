@@ -0,0 +1,126 @@
+// Pointer positions travel as fractions of the shared video's own frame, so they land on the
+// same spot for everyone whatever the size of their player and however it letterboxes.
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+// Where the video frame is drawn, relative to the top left of the <video> element's box.
+// With object-fit: cover it is larger than the box and partly cut off.
+export interface ContentRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Alignment of the frame in the box as fractions (object-position); centered by default
+export type ObjectPosition = Point;
+
+const KEYWORD_POSITIONS: Record<string, number> = {
+  left: 0,
+  top: 0,
+  center: 0.5,
+  right: 1,
+  bottom: 1,
+};
+
+// Understands keywords and percentages, the forms browsers report as the computed value.
+// Lengths in pixels fall back to centered.
+export function parseObjectPosition(value: string): ObjectPosition {
+  const parts = value.trim().split(/\s+/).filter(Boolean);
+  const parse = (part: string | undefined): number => {
+    if (!part) return 0.5;
+    if (part in KEYWORD_POSITIONS) return KEYWORD_POSITIONS[part];
+    return part.endsWith('%') ? Number.parseFloat(part) / 100 || 0 : 0.5;
+  };
+
+  // A single vertical keyword, e.g. "top", positions the other axis in the center
+  if (parts.length === 1 && (parts[0] === 'top' || parts[0] === 'bottom')) {
+    return { x: 0.5, y: parse(parts[0]) };
+  }
+  return { x: parse(parts[0]), y: parse(parts[1]) };
+}
+
+// The rectangle the video frame occupies for a given object-fit, see
+// https://developer.mozilla.org/docs/Web/CSS/object-fit
+export function getContentRect(
+  box: Size,
+  video: Size,
+  objectFit = 'contain',
+  position: ObjectPosition = { x: 0.5, y: 0.5 }
+): ContentRect {
+  // Metadata not loaded yet: assume the frame fills the box
+  if (video.width <= 0 || video.height <= 0) {
+    return { left: 0, top: 0, width: box.width, height: box.height };
+  }
+
+  const containScale = Math.min(box.width / video.width, box.height / video.height);
+  const scale = {
+    contain: containScale,
+    cover: Math.max(box.width / video.width, box.height / video.height),
+    none: 1,
+    'scale-down': Math.min(containScale, 1),
+  }[objectFit];
+
+  if (scale === undefined) {
+    // fill stretches the frame over the whole box
+    return { left: 0, top: 0, width: box.width, height: box.height };
+  }
+
+  const width = video.width * scale;
+  const height = video.height * scale;
+  return {
+    left: (box.width - width) * position.x,
+    top: (box.height - height) * position.y,
+    width,
+    height,
+  };
+}
+
+// A point in the element's box as a fraction of the frame, or null over the letterbox bars
+export function toNormalizedPoint(point: Point, rect: ContentRect): Point | null {
+  if (rect.width <= 0 || rect.height <= 0) return null;
+
+  const x = (point.x - rect.left) / rect.width;
+  const y = (point.y - rect.top) / rect.height;
+  if (x < 0 || x > 1 || y < 0 || y > 1) return null;
+  return { x, y };
+}
+
+export function fromNormalizedPoint(point: Point, rect: ContentRect): Point {
+  return {
+    x: rect.left + point.x * rect.width,
+    y: rect.top + point.y * rect.height,
+  };
+}
+
+// Frame rectangle of a <video> element as currently laid out
+export function getVideoContentRect(video: HTMLVideoElement): ContentRect {
+  const style = window.getComputedStyle(video);
+  return getContentRect(
+    { width: video.clientWidth, height: video.clientHeight },
+    { width: video.videoWidth, height: video.videoHeight },
+    style.objectFit || 'contain',
+    parseObjectPosition(style.objectPosition || '50% 50%')
+  );
+}
+
+// The frame position under the mouse, or null over the letterbox bars
+export function getNormalizedVideoPoint(
+  video: HTMLVideoElement,
+  clientX: number,
+  clientY: number
+): Point | null {
+  const bounds = video.getBoundingClientRect();
+  return toNormalizedPoint(
+    { x: clientX - bounds.left, y: clientY - bounds.top },
+    getVideoContentRect(video)
+  );
+}
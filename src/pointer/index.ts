@@ -0,0 +1,11 @@
+export {
+  fromNormalizedPoint,
+  getContentRect,
+  getNormalizedVideoPoint,
+  getVideoContentRect,
+  parseObjectPosition,
+  toNormalizedPoint,
+} from './geometry';
+export type { ContentRect, ObjectPosition, Point, Size } from './geometry';
+export { isPointerPosition, POINTER_IDLE_MS, POINTER_SEND_INTERVAL_MS } from './pointer';
+export type { PointerPosition } from './pointer';
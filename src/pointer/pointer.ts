@@ -0,0 +1,20 @@
+// A participant's pointer over the shared screen of `streamId` (the sharer's user ID), in
+// normalized frame coordinates from 0 to 1
+export interface PointerPosition {
+  streamId: string;
+  x: number;
+  y: number;
+}
+
+// Pointer updates are sent at most this often; the latest position always goes out
+export const POINTER_SEND_INTERVAL_MS = 50;
+// A pointer that hasn't moved for this long is hidden
+export const POINTER_IDLE_MS = 5000;
+
+export function isPointerPosition(value: unknown): value is PointerPosition {
+  if (!value || typeof value !== 'object') return false;
+
+  const pointer = value as Record<string, unknown>;
+  const inRange = (n: unknown) => typeof n === 'number' && n >= 0 && n <= 1;
+  return typeof pointer.streamId === 'string' && inRange(pointer.x) && inRange(pointer.y);
+}
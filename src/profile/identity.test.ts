@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+
+import { createRoomIdentity } from './identity';
+
+describe('createRoomIdentity', () => {
+  it('keeps the same user ID per room across reloads', () => {
+    window.sessionStorage.clear();
+    const first = createRoomIdentity('room-a');
+
+    expect(createRoomIdentity('room-a').userId).toBe(first.userId);
+    expect(createRoomIdentity('room-b').userId).not.toBe(first.userId);
+  });
+
+  it('remembers whether we were sharing', () => {
+    window.sessionStorage.clear();
+    const identity = createRoomIdentity('room-a');
+    expect(identity.wasSharing).toBe(false);
+
+    identity.setSharing(true);
+    expect(createRoomIdentity('room-a').wasSharing).toBe(true);
+
+    identity.setSharing(false);
+    expect(createRoomIdentity('room-a').wasSharing).toBe(false);
+  });
+});
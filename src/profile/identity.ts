@@ -0,0 +1,52 @@
+import { v4 as uuidv4 } from 'uuid';
+
+// Who we are in a room across page reloads. Kept in sessionStorage so a reload (or the
+// hook remounting) rejoins as the same user, while a second tab gets its own identity
+// instead of fighting over one slot.
+export interface RoomIdentity {
+  readonly userId: string;
+  // We were sharing our screen when the page went away
+  readonly wasSharing: boolean;
+  // eslint-disable-next-line no-unused-vars
+  setSharing: (isSharing: boolean) => void;
+}
+
+interface StoredIdentity {
+  userId: string;
+  sharing?: boolean;
+}
+
+const storageKey = (roomId: string) => `screenshare:identity:${roomId}`;
+
+const readIdentity = (roomId: string): StoredIdentity | null => {
+  try {
+    const parsed = JSON.parse(window.sessionStorage.getItem(storageKey(roomId)) ?? 'null');
+    return typeof parsed?.userId === 'string' && parsed.userId ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeIdentity = (roomId: string, identity: StoredIdentity) => {
+  try {
+    window.sessionStorage.setItem(storageKey(roomId), JSON.stringify(identity));
+  } catch (err) {
+    // Storage unavailable: we simply get a new identity after a reload
+    console.warn('Could not save room identity:', err);
+  }
+};
+
+// Restore the identity this tab used in the room before, or start a new one
+export function createRoomIdentity(roomId: string): RoomIdentity {
+  const stored = readIdentity(roomId) ?? { userId: uuidv4() };
+  const wasSharing = stored.sharing === true;
+  writeIdentity(roomId, stored);
+
+  return {
+    userId: stored.userId,
+    wasSharing,
+    setSharing: isSharing => {
+      writeIdentity(roomId, { userId: stored.userId, sharing: isSharing });
+    },
+  };
+}
@@ -0,0 +1,14 @@
+export { createRoomIdentity } from './identity';
+export type { RoomIdentity } from './identity';
+export {
+  AVATAR_COLORS,
+  defaultAvatarColor,
+  getInitials,
+  getParticipant,
+  loadProfile,
+  MAX_NAME_LENGTH,
+  normalizeName,
+  saveProfile,
+  toRoomUserProfile,
+} from './profile';
+export type { Participant, UserProfile } from './profile';
@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { AVATAR_COLORS, getInitials, loadProfile, saveProfile, toRoomUserProfile } from './profile';
+
+describe('getInitials', () => {
+  it('takes the first letters of the first and last word', () => {
+    expect(getInitials('ada')).toBe('A');
+    expect(getInitials('Ada King Lovelace')).toBe('AL');
+    expect(getInitials('  émile   zola ')).toBe('ÉZ');
+    expect(getInitials('')).toBe('?');
+  });
+});
+
+describe('profile storage', () => {
+  it('remembers the saved profile', () => {
+    window.localStorage.clear();
+    expect(loadProfile()).toBeNull();
+
+    saveProfile({ name: 'Grace Hopper', color: '#7c3aed' });
+
+    expect(loadProfile()).toEqual({ name: 'Grace Hopper', color: '#7c3aed' });
+  });
+
+  it('ignores stored values without a usable name', () => {
+    window.localStorage.setItem('screenshare:profile', '{"name":"   "}');
+    expect(loadProfile()).toBeNull();
+
+    window.localStorage.setItem('screenshare:profile', 'not json');
+    expect(loadProfile()).toBeNull();
+  });
+
+  it('picks a palette color for profiles stored without one', () => {
+    window.localStorage.setItem('screenshare:profile', '{"name":"Linus"}');
+    expect(AVATAR_COLORS).toContain(loadProfile()?.color);
+  });
+
+  it('keeps working when storage is unavailable', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+
+    expect(() => saveProfile({ name: 'Ada', color: '#2563eb' })).not.toThrow();
+  });
+});
+
+describe('toRoomUserProfile', () => {
+  it('normalizes the name before storing it on the room user', () => {
+    expect(toRoomUserProfile({ name: ' Margaret   Hamilton ', color: '#16a34a' })).toEqual({
+      name: 'Margaret Hamilton',
+      avatar: { color: '#16a34a', initials: 'MH' },
+    });
+  });
+});
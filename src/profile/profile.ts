@@ -0,0 +1,93 @@
+import { ParticipantAvatar, RoomUser } from '../signaling';
+
+// Display name and avatar color chosen before joining, remembered per browser
+export interface UserProfile {
+  name: string;
+  color: string;
+}
+
+// How a user shows up for everyone else in the room
+export interface Participant {
+  name: string;
+  avatar: ParticipantAvatar;
+}
+
+export const MAX_NAME_LENGTH = 40;
+
+export const AVATAR_COLORS = [
+  '#2563eb',
+  '#7c3aed',
+  '#db2777',
+  '#dc2626',
+  '#ea580c',
+  '#ca8a04',
+  '#16a34a',
+  '#0891b2',
+];
+
+const STORAGE_KEY = 'screenshare:profile';
+
+// Up to two initials from the first and last word of a name
+export function getInitials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '?';
+
+  const first = Array.from(words[0])[0];
+  const last = words.length > 1 ? Array.from(words[words.length - 1])[0] : '';
+  return `${first}${last}`.toUpperCase();
+}
+
+// Stable color for users who didn't pick one
+export function defaultAvatarColor(seed: string): string {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    hash = (hash * 31 + seed.charCodeAt(i)) | 0;
+  }
+  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length];
+}
+
+export function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').slice(0, MAX_NAME_LENGTH);
+}
+
+export function loadProfile(): UserProfile | null {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+
+    const parsed = JSON.parse(stored);
+    const name = typeof parsed?.name === 'string' ? normalizeName(parsed.name) : '';
+    if (!name) return null;
+
+    return {
+      name,
+      color: typeof parsed.color === 'string' ? parsed.color : defaultAvatarColor(name),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function saveProfile(profile: UserProfile): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch (err) {
+    // Private browsing or a full quota; the name just won't be remembered
+    console.warn('Could not save profile:', err);
+  }
+}
+
+// Name and avatar stored on our room user record
+export function toRoomUserProfile(profile: UserProfile): Pick<RoomUser, 'name' | 'avatar'> {
+  const name = normalizeName(profile.name);
+  return { name, avatar: { color: profile.color, initials: getInitials(name) } };
+}
+
+// Records from users who joined without a name (older clients) get a generic label
+export function getParticipant(userId: string, user: RoomUser | undefined): Participant {
+  const name = user?.name || `Guest ${userId.substring(0, 4)}`;
+  return {
+    name,
+    avatar: user?.avatar ?? { color: defaultAvatarColor(userId), initials: getInitials(name) },
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+
+import { adaptEncoding, initialEncoding, readSenderStats, SenderStats } from './adaptive';
+import { SHARE_PRESETS } from './presets';
+
+const detail = SHARE_PRESETS.detail;
+const clear: SenderStats = { packetLoss: 0, limitedBy: 'none', availableBitrate: null };
+const lossy: SenderStats = { ...clear, packetLoss: 0.1 };
+
+describe('adaptEncoding', () => {
+  it('lowers the bitrate first, then the resolution, and recovers in reverse', () => {
+    let encoding = initialEncoding(detail);
+    expect(adaptEncoding(encoding, clear, detail)).toBe(encoding);
+
+    for (let step = 0; step < 20; step++) encoding = adaptEncoding(encoding, lossy, detail);
+    expect(encoding.maxBitrate).toBe(detail.minBitrate);
+    expect(encoding.scaleResolutionDownBy).toBe(detail.maxScaleDown);
+
+    const recovering = adaptEncoding(encoding, clear, detail);
+    expect(recovering.maxBitrate).toBe(detail.minBitrate);
+    expect(recovering.scaleResolutionDownBy).toBeLessThan(detail.maxScaleDown);
+
+    for (let step = 0; step < 40; step++) encoding = adaptEncoding(encoding, clear, detail);
+    expect(encoding).toEqual(initialEncoding(detail));
+  });
+
+  it('stays within the estimated available bandwidth', () => {
+    const start = initialEncoding(detail);
+    const limited = adaptEncoding(start, { ...clear, availableBitrate: 1_000_000 }, detail);
+    expect(limited.maxBitrate).toBe(900_000);
+
+    const capped = adaptEncoding(limited, { ...clear, availableBitrate: 950_000 }, detail);
+    expect(capped.maxBitrate).toBe(950_000);
+  });
+});
+
+describe('readSenderStats', () => {
+  it('reads loss, limitation and available bandwidth from a stats report', () => {
+    const report = new Map<string, Record<string, unknown>>([
+      ['out', { type: 'outbound-rtp', kind: 'video', qualityLimitationReason: 'bandwidth' }],
+      ['remote', { type: 'remote-inbound-rtp', kind: 'video', fractionLost: 0.08 }],
+      ['pair', { type: 'candidate-pair', nominated: true, availableOutgoingBitrate: 1_200_000 }],
+      ['audio', { type: 'remote-inbound-rtp', kind: 'audio', fractionLost: 0.5 }],
+    ]) as unknown as RTCStatsReport;
+
+    expect(readSenderStats(report)).toEqual({
+      packetLoss: 0.08,
+      limitedBy: 'bandwidth',
+      availableBitrate: 1_200_000,
+    });
+  });
+});
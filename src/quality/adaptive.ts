@@ -0,0 +1,112 @@
+import { SharePresetSettings } from './presets';
+
+// Encoding limits of one screen share sender, as set with RTCRtpSender.setParameters()
+export interface ScreenEncoding {
+  maxBitrate: number;
+  scaleResolutionDownBy: number;
+  maxFramerate: number;
+}
+
+// What the stats of a sender say about the path to the viewer
+export interface SenderStats {
+  // Fraction of packets the viewer reported lost, 0-1
+  packetLoss: number;
+  // Why the browser held the video back, if it did
+  limitedBy: 'none' | 'bandwidth' | 'cpu' | 'other';
+  // The browser's estimate of the bits per second that get through, if it has one
+  availableBitrate: number | null;
+}
+
+// How often senders look at their stats and adapt
+export const ADAPT_INTERVAL_MS = 3000;
+
+// Above this loss the share backs off; below the lower one it may recover
+const CONGESTED_LOSS = 0.05;
+const CLEAR_LOSS = 0.02;
+const BACK_OFF = 0.7;
+const RECOVER = 1.15;
+const SCALE_STEP = 1.5;
+
+export function initialEncoding(preset: SharePresetSettings): ScreenEncoding {
+  return {
+    maxBitrate: preset.maxBitrate,
+    scaleResolutionDownBy: 1,
+    maxFramerate: preset.maxFramerate,
+  };
+}
+
+export function readSenderStats(report: RTCStatsReport): SenderStats {
+  const stats: SenderStats = { packetLoss: 0, limitedBy: 'none', availableBitrate: null };
+
+  report.forEach(entry => {
+    if (entry.type === 'outbound-rtp' && entry.kind === 'video') {
+      const reason = entry.qualityLimitationReason;
+      stats.limitedBy =
+        reason === 'bandwidth' || reason === 'cpu' || reason === 'none' ? reason : 'other';
+    } else if (entry.type === 'remote-inbound-rtp' && entry.kind === 'video') {
+      stats.packetLoss = Math.max(stats.packetLoss, entry.fractionLost ?? 0);
+    } else if (
+      entry.type === 'candidate-pair' &&
+      entry.nominated &&
+      typeof entry.availableOutgoingBitrate === 'number'
+    ) {
+      stats.availableBitrate = entry.availableOutgoingBitrate;
+    }
+  });
+  return stats;
+}
+
+// The next encoding for a sender: lower the bitrate while the path is congested, and once it is
+// at the preset's floor scale the resolution down. Recovery goes the other way round. Returns
+// the current encoding itself when nothing changes.
+export function adaptEncoding(
+  current: ScreenEncoding,
+  stats: SenderStats,
+  preset: SharePresetSettings
+): ScreenEncoding {
+  const { maxBitrate, scaleResolutionDownBy } = current;
+  const overBudget = stats.availableBitrate !== null && stats.availableBitrate < maxBitrate;
+  const congested =
+    stats.packetLoss > CONGESTED_LOSS || stats.limitedBy === 'bandwidth' || overBudget;
+
+  if (congested) {
+    if (maxBitrate > preset.minBitrate) {
+      const target = Math.min(
+        maxBitrate * BACK_OFF,
+        stats.availableBitrate !== null ? stats.availableBitrate * 0.9 : Infinity
+      );
+      return { ...current, maxBitrate: Math.round(Math.max(preset.minBitrate, target)) };
+    }
+    if (scaleResolutionDownBy < preset.maxScaleDown) {
+      const scale = Math.min(preset.maxScaleDown, scaleResolutionDownBy * SCALE_STEP);
+      return { ...current, scaleResolutionDownBy: scale };
+    }
+    return current;
+  }
+
+  if (stats.packetLoss < CLEAR_LOSS && stats.limitedBy !== 'cpu') {
+    if (scaleResolutionDownBy > 1) {
+      return { ...current, scaleResolutionDownBy: Math.max(1, scaleResolutionDownBy / SCALE_STEP) };
+    }
+    // Never past what the path is estimated to carry
+    const target = Math.round(
+      Math.min(preset.maxBitrate, maxBitrate * RECOVER, stats.availableBitrate ?? Infinity)
+    );
+    if (target > maxBitrate) return { ...current, maxBitrate: target };
+  }
+  return current;
+}
+
+// Set the limits on a sender. Resolves to false while the sender has no encodings yet, which is
+// the case until its first negotiation in some browsers.
+export async function applyEncoding(
+  sender: RTCRtpSender,
+  encoding: ScreenEncoding
+): Promise<boolean> {
+  const parameters = sender.getParameters();
+  if (!parameters.encodings?.length) return false;
+
+  parameters.encodings[0] = { ...parameters.encodings[0], ...encoding };
+  await sender.setParameters(parameters);
+  return true;
+}
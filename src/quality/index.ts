@@ -0,0 +1,10 @@
+export {
+  ADAPT_INTERVAL_MS,
+  adaptEncoding,
+  applyEncoding,
+  initialEncoding,
+  readSenderStats,
+} from './adaptive';
+export type { ScreenEncoding, SenderStats } from './adaptive';
+export { DEFAULT_SHARE_PRESET, SHARE_PRESETS } from './presets';
+export type { SharePreset, SharePresetSettings } from './presets';
@@ -0,0 +1,47 @@
+// How a screen share is captured and encoded. Text and fine detail need full resolution but
+// hardly any frames; video and animations need frames more than sharpness.
+export type SharePreset = 'detail' | 'motion';
+
+export interface SharePresetSettings {
+  label: string;
+  // Tells the encoder what to preserve when it has to cut back
+  contentHint: 'text' | 'detail' | 'motion';
+  constraints: MediaTrackConstraints;
+  maxFramerate: number;
+  // Bits per second the share starts at and never exceeds, and the floor adaptation stops at
+  maxBitrate: number;
+  minBitrate: number;
+  // How far adaptation may scale the resolution down once the bitrate is at its floor
+  maxScaleDown: number;
+}
+
+export const DEFAULT_SHARE_PRESET: SharePreset = 'detail';
+
+export const SHARE_PRESETS: Record<SharePreset, SharePresetSettings> = {
+  detail: {
+    label: 'Text & detail',
+    contentHint: 'text',
+    constraints: {
+      width: { ideal: 2560 },
+      height: { ideal: 1440 },
+      frameRate: { ideal: 5, max: 15 },
+    },
+    maxFramerate: 15,
+    maxBitrate: 2_500_000,
+    minBitrate: 300_000,
+    maxScaleDown: 2,
+  },
+  motion: {
+    label: 'Motion & video',
+    contentHint: 'motion',
+    constraints: {
+      width: { ideal: 1920 },
+      height: { ideal: 1080 },
+      frameRate: { ideal: 30, max: 60 },
+    },
+    maxFramerate: 60,
+    maxBitrate: 4_000_000,
+    minBitrate: 500_000,
+    maxScaleDown: 4,
+  },
+};
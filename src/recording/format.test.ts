@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  formatBytes,
+  formatDuration,
+  pickRecordingMimeType,
+  RECORDING_MIME_TYPES,
+  recordingFileName,
+} from './format';
+
+describe('pickRecordingMimeType', () => {
+  it('picks the best format the browser supports', () => {
+    expect(pickRecordingMimeType(type => type !== RECORDING_MIME_TYPES[0])).toBe(
+      RECORDING_MIME_TYPES[1]
+    );
+    expect(pickRecordingMimeType(() => false)).toBeUndefined();
+  });
+});
+
+describe('formatting', () => {
+  it('formats elapsed time and sizes', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(65_400)).toBe('1:05');
+    expect(formatDuration(3_725_000)).toBe('1:02:05');
+
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(5 * 1024 * 1024)).toBe('5.0 MB');
+  });
+
+  it('names files after the room and start time', () => {
+    expect(recordingFileName('abc123', new Date(2024, 0, 2, 3, 4, 5))).toBe(
+      'screenshare-abc123-2024-01-02-03-04-05.webm'
+    );
+  });
+});
@@ -0,0 +1,56 @@
+// Container formats to record in, best first. All are WebM; browsers differ in the codecs they
+// can encode.
+export const RECORDING_MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+// The first format the browser can record, or undefined to let MediaRecorder pick
+export function pickRecordingMimeType(
+  // eslint-disable-next-line no-unused-vars
+  isTypeSupported: (mimeType: string) => boolean
+): string | undefined {
+  return RECORDING_MIME_TYPES.find(mimeType => isTypeSupported(mimeType));
+}
+
+// Elapsed time as m:ss, or h:mm:ss from an hour on
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+
+  if (hours === 0) return `${minutes}:${seconds}`;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`;
+}
+
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB'];
+
+export function formatBytes(bytes: number): string {
+  let value = Math.max(0, bytes);
+  let unit = 0;
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${BYTE_UNITS[unit]}`;
+}
+
+// e.g. 2024-01-01-10-30-00, in local time, for file names that sort by time
+export function fileTimestamp(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return [
+    date.getFullYear(),
+    pad(date.getMonth() + 1),
+    pad(date.getDate()),
+    pad(date.getHours()),
+    pad(date.getMinutes()),
+    pad(date.getSeconds()),
+  ].join('-');
+}
+
+// e.g. screenshare-abc123-2024-01-01-10-30-00.webm
+export function recordingFileName(roomId: string, startedAt: Date): string {
+  return `screenshare-${roomId}-${fileTimestamp(startedAt)}.webm`;
+}
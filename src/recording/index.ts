@@ -0,0 +1,11 @@
+export {
+  fileTimestamp,
+  formatBytes,
+  formatDuration,
+  pickRecordingMimeType,
+  RECORDING_MIME_TYPES,
+  recordingFileName,
+} from './format';
+export { downloadBlob } from './download';
+export { createStreamRecorder } from './recorder';
+export type { StreamRecorder, StreamRecorderOptions } from './recorder';
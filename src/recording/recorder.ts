@@ -0,0 +1,144 @@
+import { getContentRect, Size } from '../pointer';
+import { pickRecordingMimeType } from './format';
+
+// MediaRecorder stops with an error when the tracks of the stream it records change, and
+// separate recordings can't be stitched into one WebM file. So instead of the source stream we
+// record a canvas the source is painted onto, plus an audio mix of it, and switching sources
+// only changes what gets painted and mixed.
+
+const FRAME_RATE = 30;
+// Recorded data is collected this often, which is also how often the size is updated
+const TIMESLICE_MS = 1000;
+// Frame size when the first source doesn't report one
+const DEFAULT_FRAME_SIZE: Size = { width: 1280, height: 720 };
+
+export interface StreamRecorderOptions {
+  // Total bytes recorded so far
+  // eslint-disable-next-line no-unused-vars
+  onData?: (bytes: number) => void;
+  // eslint-disable-next-line no-unused-vars
+  onError?: (error: Error) => void;
+}
+
+export interface StreamRecorder {
+  // Record another stream from now on, or black frames and silence for null
+  // eslint-disable-next-line no-unused-vars
+  replaceStream: (stream: MediaStream | null) => void;
+  // Finish the recording and get the file
+  stop: () => Promise<Blob>;
+}
+
+const frameSizeOf = (stream: MediaStream | null): Size => {
+  const settings = stream?.getVideoTracks()[0]?.getSettings();
+  if (!settings?.width || !settings?.height) return DEFAULT_FRAME_SIZE;
+  return { width: settings.width, height: settings.height };
+};
+
+// Start recording a stream. Throws if the browser can't record.
+export function createStreamRecorder(
+  stream: MediaStream | null,
+  options: StreamRecorderOptions = {}
+): StreamRecorder {
+  if (typeof MediaRecorder === 'undefined') {
+    throw new Error('Recording is not supported in this browser');
+  }
+
+  // The frame size is fixed for the whole recording; later sources are letterboxed into it
+  const size = frameSizeOf(stream);
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Recording is not supported in this browser');
+
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+
+  // Audio is optional: without Web Audio we still record the picture
+  let audioContext: AudioContext | null = null;
+  let audioDestination: MediaStreamAudioDestinationNode | null = null;
+  let audioSource: MediaStreamAudioSourceNode | null = null;
+  try {
+    audioContext = new AudioContext();
+    audioDestination = audioContext.createMediaStreamDestination();
+  } catch (err) {
+    console.warn('[Recording] Recording without audio:', err);
+  }
+
+  const output = new MediaStream([
+    ...canvas.captureStream(FRAME_RATE).getVideoTracks(),
+    ...(audioDestination?.stream.getAudioTracks() ?? []),
+  ]);
+
+  // Paint on a timer rather than animation frames, which stop in background tabs
+  const paint = () => {
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, size.width, size.height);
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+
+    const rect = getContentRect(size, { width: video.videoWidth, height: video.videoHeight });
+    ctx.drawImage(video, rect.left, rect.top, rect.width, rect.height);
+  };
+  const paintTimer = setInterval(paint, 1000 / FRAME_RATE);
+
+  const replaceStream = (next: MediaStream | null) => {
+    if (video.srcObject !== next) {
+      video.srcObject = next;
+      if (next) {
+        video.play().catch(err => console.warn('[Recording] Error playing source:', err));
+      }
+    }
+
+    audioSource?.disconnect();
+    audioSource = null;
+    if (audioContext && audioDestination && next && next.getAudioTracks().length > 0) {
+      audioSource = audioContext.createMediaStreamSource(next);
+      audioSource.connect(audioDestination);
+    }
+  };
+  replaceStream(stream);
+
+  const mimeType = pickRecordingMimeType(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(output, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  let bytes = 0;
+
+  recorder.ondataavailable = event => {
+    if (event.data.size === 0) return;
+    chunks.push(event.data);
+    bytes += event.data.size;
+    options.onData?.(bytes);
+  };
+  recorder.onerror = event => {
+    const error = (event as Event & { error?: Error }).error;
+    options.onError?.(error ?? new Error('Recording failed'));
+  };
+
+  const cleanup = () => {
+    clearInterval(paintTimer);
+    replaceStream(null);
+    output.getTracks().forEach(track => track.stop());
+    audioContext?.close().catch(() => {});
+  };
+
+  const stop = () =>
+    new Promise<Blob>(resolve => {
+      const finish = () => {
+        cleanup();
+        resolve(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+      };
+
+      if (recorder.state === 'inactive') {
+        finish();
+        return;
+      }
+      recorder.onstop = finish;
+      recorder.stop();
+    });
+
+  recorder.start(TIMESLICE_MS);
+  console.log(`[Recording] Started (${recorder.mimeType || 'default format'})`);
+
+  return { replaceStream, stop };
+}
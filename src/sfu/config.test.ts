@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { chooseTopology, parseSfuConfig, SFU_MIN_PARTICIPANTS, sfuStreamUrl } from './config';
+
+const WHIP = 'http://localhost:8889/{stream}/whip';
+const WHEP = 'http://localhost:8889/{stream}/whep';
+
+describe('parseSfuConfig', () => {
+  it('needs both endpoints', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(parseSfuConfig({})).toBeNull();
+    expect(parseSfuConfig({ VITE_SFU_WHIP_URL: WHIP })).toBeNull();
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads the credentials endpoint and room size, falling back to the default size', () => {
+    const env = { VITE_SFU_WHIP_URL: WHIP, VITE_SFU_WHEP_URL: WHEP };
+    expect(
+      parseSfuConfig({
+        ...env,
+        VITE_SFU_CREDENTIALS_URL: '/sfu-credentials',
+        VITE_SFU_MIN_PARTICIPANTS: '8',
+      })
+    ).toEqual({
+      whipUrl: WHIP,
+      whepUrl: WHEP,
+      credentialsUrl: '/sfu-credentials',
+      minParticipants: 8,
+    });
+    expect(parseSfuConfig({ ...env, VITE_SFU_MIN_PARTICIPANTS: '1' })?.minParticipants).toBe(
+      SFU_MIN_PARTICIPANTS
+    );
+  });
+});
+
+describe('sfuStreamUrl', () => {
+  it('puts the stream name in the endpoint', () => {
+    expect(sfuStreamUrl(WHEP, 'my stream')).toBe('http://localhost:8889/my%20stream/whep');
+  });
+});
+
+describe('chooseTopology', () => {
+  const config = { whipUrl: WHIP, whepUrl: WHEP, minParticipants: 5 };
+
+  it('switches to the SFU at its size and back only when the room is two smaller', () => {
+    expect(chooseTopology(4, 'mesh', config)).toBe('mesh');
+    expect(chooseTopology(5, 'mesh', config)).toBe('sfu');
+    expect(chooseTopology(4, 'sfu', config)).toBe('sfu');
+    expect(chooseTopology(3, 'sfu', config)).toBe('mesh');
+  });
+
+  it('always uses a mesh without an SFU', () => {
+    expect(chooseTopology(50, 'mesh', null)).toBe('mesh');
+  });
+});
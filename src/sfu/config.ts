@@ -0,0 +1,75 @@
+// Every sharer in a mesh uploads their screen once per viewer, which stops working beyond a
+// handful of viewers. With an SFU configured, larger rooms have sharers publish their screen to
+// it once, and viewers pull it from there.
+
+export type Topology = 'mesh' | 'sfu';
+
+export interface SfuConfig {
+  // WHIP endpoint to publish a screen to, and WHEP endpoint to view it from. "{stream}" is
+  // replaced with the stream's name, e.g. http://localhost:8889/{stream}/whip for MediaMTX.
+  whipUrl: string;
+  whepUrl: string;
+  // Endpoint minting stream names and tokens (server.ts serves one at /sfu-credentials).
+  // Without it, stream names are random and no token is sent.
+  credentialsUrl?: string;
+  // Use the SFU once the room has this many participants
+  minParticipants: number;
+}
+
+export const SFU_MIN_PARTICIPANTS = 5;
+
+interface SfuEnv {
+  VITE_SFU_WHIP_URL?: string;
+  VITE_SFU_WHEP_URL?: string;
+  VITE_SFU_CREDENTIALS_URL?: string;
+  VITE_SFU_MIN_PARTICIPANTS?: string;
+}
+
+// The SFU configured by VITE_SFU_*, or null to always use a mesh
+export function parseSfuConfig(env: SfuEnv): SfuConfig | null {
+  const { VITE_SFU_WHIP_URL: whipUrl, VITE_SFU_WHEP_URL: whepUrl } = env;
+  if (!whipUrl || !whepUrl) {
+    if (whipUrl || whepUrl) {
+      console.warn('[SFU] Both VITE_SFU_WHIP_URL and VITE_SFU_WHEP_URL are needed to use an SFU');
+    }
+    return null;
+  }
+
+  const minParticipants = Number(env.VITE_SFU_MIN_PARTICIPANTS);
+  return {
+    whipUrl,
+    whepUrl,
+    credentialsUrl: env.VITE_SFU_CREDENTIALS_URL || undefined,
+    minParticipants:
+      Number.isInteger(minParticipants) && minParticipants > 1
+        ? minParticipants
+        : SFU_MIN_PARTICIPANTS,
+  };
+}
+
+export function readSfuConfig(): SfuConfig | null {
+  return parseSfuConfig({
+    VITE_SFU_WHIP_URL: import.meta.env.VITE_SFU_WHIP_URL,
+    VITE_SFU_WHEP_URL: import.meta.env.VITE_SFU_WHEP_URL,
+    VITE_SFU_CREDENTIALS_URL: import.meta.env.VITE_SFU_CREDENTIALS_URL,
+    VITE_SFU_MIN_PARTICIPANTS: import.meta.env.VITE_SFU_MIN_PARTICIPANTS,
+  });
+}
+
+// Each screen share is a stream of its own on the SFU, see requestSfuStream
+export function sfuStreamUrl(template: string, stream: string): string {
+  return template.split('{stream}').join(encodeURIComponent(stream));
+}
+
+// The SFU takes over once the room reaches its size, and hands back to the mesh only when the
+// room is two smaller, so someone coming and going right at the threshold doesn't flip it
+export function chooseTopology(
+  participants: number,
+  current: Topology,
+  config: SfuConfig | null
+): Topology {
+  if (!config) return 'mesh';
+  if (participants >= config.minParticipants) return 'sfu';
+  if (participants < config.minParticipants - 1) return 'mesh';
+  return current;
+}
@@ -0,0 +1,43 @@
+import { v4 as uuidv4 } from 'uuid';
+
+// SFU credentials, minted by server.ts the way TURN credentials are (see src/ice/turnRest.ts).
+// A sharer asks for a stream to publish to and gets a fresh name nobody can guess; viewers ask
+// to read the stream the sharer told them about. Tokens last a few minutes, and the SFU checks
+// them by calling the server's auth endpoint (e.g. MediaMTX's authHTTPAddress).
+
+export const SFU_CREDENTIALS_PATH = '/sfu-credentials';
+export const SFU_AUTH_PATH = '/sfu-auth';
+
+export type SfuAction = 'publish' | 'read';
+
+export interface SfuCredentialsResponse {
+  stream: string;
+  // Sent as a bearer token with the WHIP or WHEP request
+  token: string;
+  // Lifetime of the token in seconds
+  ttl: number;
+}
+
+export type SfuStreamRequest = { action: 'publish' } | { action: 'read'; stream: string };
+
+// The stream to publish our screen share to or view a peer's from, with the token to do it
+// with. Without a credentials endpoint, shares go to a random stream name and no token is sent.
+export async function requestSfuStream(
+  credentialsUrl: string | undefined,
+  request: SfuStreamRequest
+): Promise<{ stream: string; token?: string }> {
+  if (!credentialsUrl) {
+    return { stream: request.action === 'publish' ? uuidv4() : request.stream };
+  }
+
+  const url = new URL(credentialsUrl, window.location.href);
+  url.searchParams.set('action', request.action);
+  if (request.action === 'read') url.searchParams.set('stream', request.stream);
+
+  const response = await fetch(url.toString());
+  if (!response.ok) {
+    throw new Error(`SFU credentials request failed with HTTP ${response.status}`);
+  }
+  const { stream, token } = (await response.json()) as SfuCredentialsResponse;
+  return { stream, token };
+}
@@ -0,0 +1,12 @@
+export {
+  chooseTopology,
+  parseSfuConfig,
+  readSfuConfig,
+  SFU_MIN_PARTICIPANTS,
+  sfuStreamUrl,
+} from './config';
+export type { SfuConfig, Topology } from './config';
+export { requestSfuStream, SFU_AUTH_PATH, SFU_CREDENTIALS_PATH } from './credentials';
+export type { SfuAction, SfuCredentialsResponse, SfuStreamRequest } from './credentials';
+export { publishToSfu, subscribeFromSfu } from './whip';
+export type { SfuSession, SfuSessionOptions } from './whip';
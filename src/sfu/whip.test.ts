@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { FAKE_SFU_CONFIG, installFakeSfu } from '../test/fakeSfu';
+import { FakeMediaStream, FakeMediaStreamTrack } from '../test/fakeWebRTC';
+import { sfuStreamUrl } from './config';
+import { publishToSfu, subscribeFromSfu } from './whip';
+
+const urls = (stream: string) => ({
+  whip: sfuStreamUrl(FAKE_SFU_CONFIG.whipUrl, stream),
+  whep: sfuStreamUrl(FAKE_SFU_CONFIG.whepUrl, stream),
+});
+
+describe('publishToSfu and subscribeFromSfu', () => {
+  it('publishes a stream once and let anyone view it', async () => {
+    const sfu = installFakeSfu();
+    const screen = new FakeMediaStream([
+      new FakeMediaStreamTrack('video', undefined, 'screen'),
+      new FakeMediaStreamTrack('audio', undefined, 'system audio'),
+    ]) as unknown as MediaStream;
+
+    const publishing = publishToSfu(screen, { url: urls('alice').whip, iceServers: [] });
+    await vi.runAllTimersAsync();
+    const publication = await publishing;
+    expect(sfu.published.get('alice')?.getTracks()).toHaveLength(2);
+
+    const received: MediaStream[] = [];
+    const viewing = subscribeFromSfu({ url: urls('alice').whep, iceServers: [] }, stream =>
+      received.push(stream)
+    );
+    await vi.runAllTimersAsync();
+    const subscription = await viewing;
+    expect(received.at(-1)?.getVideoTracks()).toHaveLength(1);
+    expect(received.at(-1)?.getAudioTracks()).toHaveLength(1);
+
+    subscription.close();
+    publication.close();
+    expect(sfu.deleted).toEqual(['/sessions/2', '/sessions/1']);
+    expect(publication.pc.connectionState).toBe('closed');
+  });
+
+  it('fails and cleans up when the SFU has no such stream', async () => {
+    installFakeSfu();
+    const viewing = subscribeFromSfu({ url: urls('nobody').whep, iceServers: [] }, () => {});
+    const result = expect(viewing).rejects.toThrow('The SFU answered 404 Not Found');
+    await vi.runAllTimersAsync();
+    await result;
+  });
+
+  it('sends the token as a bearer token', async () => {
+    installFakeSfu();
+    const screen = new FakeMediaStream([
+      new FakeMediaStreamTrack('video'),
+    ]) as unknown as MediaStream;
+
+    const publishing = publishToSfu(screen, {
+      url: urls('alice').whip,
+      token: 'secret',
+      iceServers: [],
+    });
+    await vi.runAllTimersAsync();
+    await publishing;
+    expect(fetch).toHaveBeenCalledWith(
+      urls('alice').whip,
+      expect.objectContaining({
+        method: 'POST',
+        headers: { 'Content-Type': 'application/sdp', Authorization: 'Bearer secret' },
+      })
+    );
+  });
+});
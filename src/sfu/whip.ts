@@ -0,0 +1,111 @@
+// WHIP and WHEP: publishing to and viewing from a media server with a single HTTP request. The
+// offer is POSTed as application/sdp with its candidates in it, the answer comes back in the
+// response, and DELETE on the session resource it names ends the session.
+
+// How long to gather candidates before sending the offer without the rest
+const ICE_GATHERING_TIMEOUT_MS = 2000;
+
+export interface SfuSession {
+  pc: RTCPeerConnection;
+  close: () => void;
+}
+
+export interface SfuSessionOptions {
+  // WHIP or WHEP endpoint of the stream
+  url: string;
+  token?: string;
+  iceServers: RTCIceServer[];
+}
+
+const waitForIceGathering = (pc: RTCPeerConnection): Promise<void> =>
+  new Promise(resolve => {
+    if (pc.iceGatheringState === 'complete') {
+      resolve();
+      return;
+    }
+
+    const done = () => {
+      clearTimeout(timer);
+      pc.removeEventListener('icegatheringstatechange', check);
+      resolve();
+    };
+    const check = () => {
+      if (pc.iceGatheringState === 'complete') done();
+    };
+    const timer = setTimeout(done, ICE_GATHERING_TIMEOUT_MS);
+    pc.addEventListener('icegatheringstatechange', check);
+  });
+
+const authorization = (token: string | undefined): Record<string, string> =>
+  token ? { Authorization: `Bearer ${token}` } : {};
+
+// Offer, get the server's answer, and return the URL of the session it created
+async function exchangeDescriptions(
+  pc: RTCPeerConnection,
+  { url, token }: SfuSessionOptions
+): Promise<string | null> {
+  await pc.setLocalDescription(await pc.createOffer());
+  await waitForIceGathering(pc);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/sdp', ...authorization(token) },
+    body: pc.localDescription?.sdp,
+  });
+  if (!response.ok) {
+    throw new Error(`The SFU answered ${response.status} ${response.statusText}`.trim());
+  }
+
+  await pc.setRemoteDescription({ type: 'answer', sdp: await response.text() });
+  const location = response.headers.get('Location');
+  return location ? new URL(location, url).toString() : null;
+}
+
+async function startSession(
+  pc: RTCPeerConnection,
+  options: SfuSessionOptions
+): Promise<SfuSession> {
+  try {
+    const resource = await exchangeDescriptions(pc, options);
+    return {
+      pc,
+      close: () => {
+        pc.close();
+        if (!resource) return;
+        fetch(resource, { method: 'DELETE', headers: authorization(options.token) }).catch(err =>
+          console.warn('[SFU] Could not end the session:', err)
+        );
+      },
+    };
+  } catch (err) {
+    pc.close();
+    throw err;
+  }
+}
+
+// Send a stream to the SFU (WHIP)
+export function publishToSfu(stream: MediaStream, options: SfuSessionOptions): Promise<SfuSession> {
+  const pc = new RTCPeerConnection({ iceServers: options.iceServers });
+  stream.getTracks().forEach(track => {
+    pc.addTransceiver(track, { direction: 'sendonly', streams: [stream] });
+  });
+  return startSession(pc, options);
+}
+
+// Receive a stream from the SFU (WHEP). onStream is called as its tracks arrive, with the same
+// stream every time.
+export function subscribeFromSfu(
+  options: SfuSessionOptions,
+  // eslint-disable-next-line no-unused-vars
+  onStream: (stream: MediaStream) => void
+): Promise<SfuSession> {
+  const pc = new RTCPeerConnection({ iceServers: options.iceServers });
+  const stream = new MediaStream();
+  pc.addTransceiver('video', { direction: 'recvonly' });
+  pc.addTransceiver('audio', { direction: 'recvonly' });
+  pc.ontrack = event => {
+    stream.addTrack(event.track);
+    onStream(stream);
+  };
+  return startSession(pc, options);
+}
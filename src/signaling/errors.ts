@@ -0,0 +1,34 @@
+// Errors transports reject join() with, told apart by name so they survive any transport
+
+const PASSCODE_REJECTED = 'PasscodeRejected';
+const ROOM_LOCKED = 'RoomLocked';
+const VIEWER_LINK_REJECTED = 'ViewerLinkRejected';
+
+const namedError = (name: string, message: string): Error => {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+};
+
+// The room is protected and the passcode is missing or wrong
+export function passcodeRejectedError(): Error {
+  return namedError(PASSCODE_REJECTED, 'Incorrect room passcode');
+}
+
+export function isPasscodeRejected(err: unknown): boolean {
+  return err instanceof Error && err.name === PASSCODE_REJECTED;
+}
+
+// The host locked the room against new joins
+export function roomLockedError(): Error {
+  return namedError(ROOM_LOCKED, 'This room is locked');
+}
+
+export function isRoomLockedError(err: unknown): boolean {
+  return err instanceof Error && err.name === ROOM_LOCKED;
+}
+
+// The viewer link is forged, or from a room that has been closed since
+export function viewerLinkRejectedError(): Error {
+  return namedError(VIEWER_LINK_REJECTED, 'This viewer link is no longer valid');
+}
@@ -0,0 +1,373 @@
+import {
+  get,
+  onChildAdded,
+  onDisconnect,
+  onValue,
+  push,
+  ref,
+  remove,
+  runTransaction,
+  serverTimestamp,
+  set,
+  update,
+} from 'firebase/database';
+import { v4 as uuidv4 } from 'uuid';
+
+import { getFirebaseDatabase, signInToFirebase } from '../firebase';
+import { passcodeRejectedError, roomLockedError, viewerLinkRejectedError } from './errors';
+import { EXPIRING_MESSAGE_PATHS, isMessageExpired, lastActivity } from './presence';
+import {
+  ChatMessage,
+  RoomUser,
+  RoomUsers,
+  SignalingHandlers,
+  SignalingMessage,
+  SignalingTransport,
+  StreamingStatus,
+} from './types';
+
+// Signaling over the Firebase Realtime Database under rooms/${roomId}. Every client signs in
+// anonymously, and database.rules.json enforces the rest: user records carry the UID that may
+// write them, signaling messages are only accepted from the owner of their `from` user, and a
+// protected room is only readable by UIDs whose members/${uid} entry matches the unreadable
+// access/passcodeHash. Presence relies on onDisconnect() handlers, backed up by lastSeen
+// heartbeats for connections the server never sees close.
+//
+// With viewOnly, linkId comes from a viewer link: `${roomId}.${key}`, where key is an
+// unreadable viewerLinks entry an admitted participant made. Room IDs are database keys, so
+// they can't hold a dot themselves.
+export function createFirebaseTransport(linkId: string, viewOnly = false): SignalingTransport {
+  const [roomId, viewerKey] = viewOnly ? linkId.split('.') : [linkId];
+  const database = getFirebaseDatabase();
+  const roomPath = `rooms/${roomId}`;
+  let viewerLink: Promise<string> | null = null;
+
+  const removeRoomIfEmpty = async (): Promise<void> => {
+    const snapshot = await get(ref(database, `${roomPath}/users`));
+
+    // The database drops empty nodes, so a room without users has no users node at all
+    if (!snapshot.exists()) {
+      console.log(`[Signaling] Room ${roomId} has no users, removing it`);
+      await remove(ref(database, roomPath));
+    }
+  };
+
+  const pushMessage = async (path: string, message: SignalingMessage): Promise<void> => {
+    await push(ref(database, `${roomPath}/${path}`), message);
+  };
+
+  // Remove the user record, streaming status and host role, then the room if that was the last
+  // user. Membership belongs to the browser's UID rather than the user, so it stays.
+  const removeUser = async (userId: string): Promise<void> => {
+    await Promise.all([
+      remove(ref(database, `${roomPath}/users/${userId}`)),
+      remove(ref(database, `${roomPath}/streaming/${userId}`)),
+    ]);
+
+    // Hand the host role back so a remaining participant can pick it up
+    const hostSnapshot = await get(ref(database, `${roomPath}/host`));
+    if (hostSnapshot.val() === userId) {
+      await remove(ref(database, `${roomPath}/host`));
+    }
+
+    await removeRoomIfEmpty();
+  };
+
+  const isProtected = async (): Promise<boolean> => {
+    // Viewer links stand in for the passcode
+    if (viewOnly) return false;
+    const snapshot = await get(ref(database, `${roomPath}/access/protected`));
+    return snapshot.val() === true;
+  };
+
+  return {
+    roomId: linkId,
+
+    isProtected,
+
+    setPasscode: async (passcodeHash: string) => {
+      await signInToFirebase();
+      await update(ref(database, `${roomPath}/access`), { protected: true, passcodeHash });
+    },
+
+    join: async (userId: string, user: RoomUser, passcodeHash?: string) => {
+      if (viewOnly && !viewerKey) throw viewerLinkRejectedError();
+      const uid = await signInToFirebase();
+      try {
+        // The rules only let viewers in with a key from an existing viewer link
+        if (viewerKey) {
+          await set(ref(database, `${roomPath}/viewers/${uid}`), viewerKey);
+        }
+        // The rules only accept the member entry if the hash matches the room's
+        if (passcodeHash) {
+          await set(ref(database, `${roomPath}/members/${uid}`), passcodeHash);
+        }
+        // Browsers the host let in before skip the waiting room
+        const returning = (await get(ref(database, `${roomPath}/admitted/${uid}`))).val();
+        const userRef = ref(database, `${roomPath}/users/${userId}`);
+
+        // Leave on our behalf if the connection drops: crashed tabs, sleep, killed apps
+        await onDisconnect(userRef).remove();
+        await onDisconnect(ref(database, `${roomPath}/streaming/${userId}`)).remove();
+        // Only the viewer link decides who is a viewer, and the rules never let that change
+        const record: RoomUser = { ...user, uid };
+        if (viewOnly) {
+          record.role = 'viewer';
+        } else {
+          delete record.role;
+        }
+        await set(userRef, {
+          ...record,
+          ...((returning === true || viewOnly) && {
+            active: true,
+            status: 'admitted',
+          }),
+          lastSeen: serverTimestamp(),
+        });
+      } catch (err) {
+        const locked = await get(ref(database, `${roomPath}/locked`)).catch(() => null);
+        if (locked?.val() === true) throw roomLockedError();
+        if (viewOnly) throw viewerLinkRejectedError();
+        if (await isProtected().catch(() => false)) throw passcodeRejectedError();
+        throw err;
+      }
+    },
+
+    getSessionToken: () => null,
+
+    leave: async (userId: string) => {
+      // Nothing left to clean up on disconnect
+      await Promise.all(
+        [`users/${userId}`, `streaming/${userId}`, 'host'].map(path =>
+          onDisconnect(ref(database, `${roomPath}/${path}`)).cancel()
+        )
+      );
+      await removeUser(userId);
+    },
+
+    // The disconnect handlers above belong to our own connection, so evicting leaves them be
+    evict: removeUser,
+
+    getUsers: async () => {
+      const snapshot = await get(ref(database, `${roomPath}/users`));
+      return (snapshot.val() || {}) as RoomUsers;
+    },
+
+    subscribePresence: callback => {
+      return onValue(ref(database, `${roomPath}/users`), snapshot => {
+        callback((snapshot.val() || {}) as RoomUsers);
+      });
+    },
+
+    removeRoomIfEmpty,
+
+    heartbeat: async (userId: string) => {
+      // The rules reject this for a record that no longer exists instead of creating a stub
+      await update(ref(database, `${roomPath}/users/${userId}`), { lastSeen: serverTimestamp() });
+    },
+
+    purgeStale: async (before: number) => {
+      await signInToFirebase();
+      const [users, host, ...messages] = await Promise.all([
+        get(ref(database, `${roomPath}/users`)),
+        get(ref(database, `${roomPath}/host`)),
+        // Only users the host let in can read the chat, so purge what we get to see
+        ...EXPIRING_MESSAGE_PATHS.map(path =>
+          get(ref(database, `${roomPath}/${path}`)).catch(() => null)
+        ),
+      ]);
+      const updates: Record<string, null> = {};
+
+      users.forEach(snapshot => {
+        if (lastActivity(snapshot.val() as RoomUser) >= before) return;
+        console.log(`[Signaling] Purging stale user ${snapshot.key} from room ${roomId}`);
+        updates[`users/${snapshot.key}`] = null;
+        updates[`streaming/${snapshot.key}`] = null;
+        if (host.val() === snapshot.key) updates.host = null;
+      });
+
+      messages.forEach(list => {
+        list?.forEach(snapshot => {
+          if (isMessageExpired(snapshot.val(), before)) {
+            updates[`${list.key}/${snapshot.key}`] = null;
+          }
+        });
+      });
+
+      if (Object.keys(updates).length > 0) {
+        await update(ref(database, roomPath), updates);
+      }
+      await removeRoomIfEmpty();
+    },
+
+    claimHost: async (userId: string) => {
+      const hostRef = ref(database, `${roomPath}/host`);
+      const result = await runTransaction(hostRef, hostId => (hostId ? undefined : userId));
+      const claimed = result.snapshot.val() === userId;
+
+      // Free the role for the others if we vanish
+      if (claimed) await onDisconnect(hostRef).remove();
+      return claimed;
+    },
+
+    subscribeHost: callback => {
+      return onValue(ref(database, `${roomPath}/host`), snapshot => {
+        callback((snapshot.val() as string | null) ?? null);
+      });
+    },
+
+    setAdmission: async (userId: string, status: 'admitted' | 'denied') => {
+      // Don't recreate the record of someone who gave up waiting
+      const userRef = ref(database, `${roomPath}/users/${userId}`);
+      const snapshot = await get(userRef);
+      if (!snapshot.exists()) return;
+
+      // Remember which browser got in so it can rejoin after a reload. It needs the entry to
+      // read the chat, so it goes in before the user learns they were let in.
+      const { uid } = snapshot.val() as RoomUser;
+      const admittedRef = ref(database, `${roomPath}/admitted/${uid}`);
+      if (uid && status === 'admitted') await set(admittedRef, true);
+
+      await update(userRef, {
+        status,
+        active: status === 'admitted',
+      });
+
+      // Turning a viewer away takes back their key, so they are out until they open the link
+      // again
+      if (uid && status === 'denied') {
+        await Promise.all([
+          remove(admittedRef),
+          remove(ref(database, `${roomPath}/viewers/${uid}`)),
+        ]);
+      }
+    },
+
+    getViewerRoomId: () => {
+      // Our own viewer link is the one to pass on
+      if (viewOnly) return Promise.resolve(linkId);
+
+      // One key per participant, which the rules only accept from browsers the host let in
+      viewerLink ??= (async () => {
+        const key = uuidv4();
+        await set(ref(database, `${roomPath}/viewerLinks/${key}`), true);
+        return `${roomId}.${key}`;
+      })().catch(err => {
+        viewerLink = null;
+        throw err;
+      });
+      return viewerLink;
+    },
+
+    setLocked: async (locked: boolean) => {
+      await set(ref(database, `${roomPath}/locked`), locked);
+    },
+
+    subscribeLocked: callback => {
+      return onValue(ref(database, `${roomPath}/locked`), snapshot => {
+        callback(snapshot.val() === true);
+      });
+    },
+
+    sendOffer: message => pushMessage('offers', message),
+    sendAnswer: message => pushMessage('answers', message),
+    sendCandidate: message => pushMessage('candidates', message),
+    // Control messages share the offers path so older clients still receive them
+    sendControl: message => pushMessage('offers', message),
+
+    subscribeMessages: (userId: string, handlers: SignalingHandlers) => {
+      // Listen for offers and clean up processed ones
+      const unsubscribeOffers = onChildAdded(ref(database, `${roomPath}/offers`), snapshot => {
+        const message = snapshot.val() as SignalingMessage | null;
+        if (!message || message.target !== userId) return;
+
+        const messageId = snapshot.key || '';
+        if (message.type && !message.sdp) {
+          handlers.onControl(message, messageId);
+        } else {
+          handlers.onOffer(message, messageId);
+        }
+
+        // Clean up processed offers after a delay (to prevent race conditions)
+        setTimeout(() => {
+          if (snapshot.key) {
+            remove(ref(database, `${roomPath}/offers/${snapshot.key}`)).catch(err =>
+              console.error('[Signaling] Error removing processed offer:', err)
+            );
+          }
+        }, 5000);
+      });
+
+      // Listen for answers
+      const unsubscribeAnswers = onChildAdded(ref(database, `${roomPath}/answers`), snapshot => {
+        const message = snapshot.val() as SignalingMessage | null;
+        if (!message || message.target !== userId) return;
+
+        handlers.onAnswer(message, snapshot.key || '');
+
+        // Clean up after processing
+        if (snapshot.key) {
+          remove(ref(database, `${roomPath}/answers/${snapshot.key}`)).catch(err =>
+            console.error('[Signaling] Error removing processed answer:', err)
+          );
+        }
+      });
+
+      // Listen for ICE candidates
+      const unsubscribeCandidates = onChildAdded(
+        ref(database, `${roomPath}/candidates`),
+        snapshot => {
+          const message = snapshot.val() as SignalingMessage | null;
+          if (!message || message.target !== userId) return;
+
+          handlers.onCandidate(message, snapshot.key || '');
+
+          // Clean up after processing
+          if (snapshot.key) {
+            remove(ref(database, `${roomPath}/candidates/${snapshot.key}`)).catch(err =>
+              console.error('[Signaling] Error removing processed candidate:', err)
+            );
+          }
+        }
+      );
+
+      return () => {
+        unsubscribeOffers();
+        unsubscribeAnswers();
+        unsubscribeCandidates();
+      };
+    },
+
+    sendChat: async (message: ChatMessage) => {
+      // Keyed by message ID so a message sent twice is stored once
+      await set(ref(database, `${roomPath}/chat/${message.id}`), message);
+    },
+
+    subscribeChat: callback => {
+      return onChildAdded(ref(database, `${roomPath}/chat`), snapshot => {
+        const message = snapshot.val() as ChatMessage | null;
+        if (message) callback(message);
+      });
+    },
+
+    setStreaming: async (userId: string, isStreaming: boolean) => {
+      const streamingRef = ref(database, `${roomPath}/streaming/${userId}`);
+      if (isStreaming) {
+        await set(streamingRef, true);
+      } else {
+        await remove(streamingRef);
+      }
+    },
+
+    getStreaming: async (userId: string) => {
+      const snapshot = await get(ref(database, `${roomPath}/streaming/${userId}`));
+      return snapshot.val() === true;
+    },
+
+    subscribeStreaming: callback => {
+      return onValue(ref(database, `${roomPath}/streaming`), snapshot => {
+        callback((snapshot.val() || {}) as StreamingStatus);
+      });
+    },
+  };
+}
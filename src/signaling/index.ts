@@ -0,0 +1,55 @@
+import { createFirebaseTransport } from './firebaseTransport';
+import { SignalingTransport } from './types';
+import { createWebSocketTransport } from './websocketTransport';
+import { SIGNALING_PATH } from './wsProtocol';
+
+export {
+  isPasscodeRejected,
+  isRoomLockedError,
+  passcodeRejectedError,
+  roomLockedError,
+} from './errors';
+export { createFirebaseTransport } from './firebaseTransport';
+export { createMemorySignalingBus } from './memoryTransport';
+export type { MemorySignalingBus } from './memoryTransport';
+export { hashPasscode } from './passcode';
+export {
+  ABANDONED_AFTER_MS,
+  HEARTBEAT_INTERVAL_MS,
+  isMessageExpired,
+  lastActivity,
+  STALE_AFTER_MS,
+} from './presence';
+export { createWebSocketTransport } from './websocketTransport';
+export type {
+  AdmissionStatus,
+  ChatMessage,
+  ControlMessageType,
+  ParticipantAvatar,
+  RoomUser,
+  RoomUsers,
+  SignalingHandlers,
+  SignalingMessage,
+  SignalingTransport,
+  StreamingStatus,
+  Unsubscribe,
+} from './types';
+
+// Default WebSocket server URL: the signaling server on port 3001 of the current host
+const defaultSignalingUrl = (): string => {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.hostname}:3001${SIGNALING_PATH}`;
+};
+
+// Pick the signaling backend from VITE_SIGNALING_TRANSPORT ('firebase' or 'websocket'). With
+// viewOnly, roomId comes from a viewer link (see SignalingTransport.getViewerRoomId).
+export function createSignalingTransport(roomId: string, viewOnly = false): SignalingTransport {
+  if (import.meta.env.VITE_SIGNALING_TRANSPORT === 'websocket') {
+    return createWebSocketTransport(
+      roomId,
+      import.meta.env.VITE_SIGNALING_URL || defaultSignalingUrl(),
+      viewOnly
+    );
+  }
+  return createFirebaseTransport(roomId, viewOnly);
+}
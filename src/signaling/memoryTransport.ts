@@ -0,0 +1,331 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import { passcodeRejectedError, roomLockedError, viewerLinkRejectedError } from './errors';
+import { isMessageExpired, lastActivity } from './presence';
+import {
+  ChatMessage,
+  RoomUsers,
+  SignalingHandlers,
+  SignalingMessage,
+  SignalingTransport,
+  StreamingStatus,
+} from './types';
+
+type Listener<T> = (value: T) => void; // eslint-disable-line no-unused-vars
+
+interface MemoryRoom {
+  passcodeHash: string | null;
+  hostId: string | null;
+  locked: boolean;
+  users: RoomUsers;
+  // Users the host let in, remembered so they can rejoin
+  admitted: Set<string>;
+  // Keys of the viewer links handed out, see getViewerRoomId
+  viewerLinks: Set<string>;
+  streaming: StreamingStatus;
+  chat: ChatMessage[];
+  presenceListeners: Set<Listener<RoomUsers>>;
+  hostListeners: Set<Listener<string | null>>;
+  lockedListeners: Set<Listener<boolean>>;
+  streamingListeners: Set<Listener<StreamingStatus>>;
+  messageHandlers: Map<string, Set<SignalingHandlers>>;
+  chatListeners: Set<Listener<ChatMessage>>;
+}
+
+export interface MemorySignalingBus {
+  // With viewOnly, roomId is a viewer link's ID, as from SignalingTransport.getViewerRoomId
+  // eslint-disable-next-line no-unused-vars
+  createTransport: (roomId: string, viewOnly?: boolean) => SignalingTransport;
+  // Every message sent through the bus, in order, for assertions in tests
+  readonly sent: Array<{ channel: keyof SignalingHandlers; message: SignalingMessage }>;
+}
+
+// In-process signaling shared by every transport created from the same bus. Deliveries are
+// asynchronous (one microtask later) to mimic a network hop without relying on timers.
+export function createMemorySignalingBus(): MemorySignalingBus {
+  const rooms = new Map<string, MemoryRoom>();
+  const sent: MemorySignalingBus['sent'] = [];
+  let messageCounter = 0;
+
+  const getRoom = (roomId: string): MemoryRoom => {
+    let room = rooms.get(roomId);
+    if (!room) {
+      room = {
+        passcodeHash: null,
+        hostId: null,
+        locked: false,
+        users: {},
+        admitted: new Set(),
+        viewerLinks: new Set(),
+        streaming: {},
+        chat: [],
+        presenceListeners: new Set(),
+        hostListeners: new Set(),
+        lockedListeners: new Set(),
+        streamingListeners: new Set(),
+        messageHandlers: new Map(),
+        chatListeners: new Set(),
+      };
+      rooms.set(roomId, room);
+    }
+    return room;
+  };
+
+  const deliver = (callback: () => void) => {
+    Promise.resolve().then(callback);
+  };
+
+  const notifyPresence = (room: MemoryRoom) => {
+    const users = { ...room.users };
+    room.presenceListeners.forEach(listener => deliver(() => listener(users)));
+  };
+
+  const notifyHost = (room: MemoryRoom) => {
+    const { hostId } = room;
+    room.hostListeners.forEach(listener => deliver(() => listener(hostId)));
+  };
+
+  const notifyStreaming = (room: MemoryRoom) => {
+    const status = { ...room.streaming };
+    room.streamingListeners.forEach(listener => deliver(() => listener(status)));
+  };
+
+  const createTransport = (linkId: string, viewOnly = false): SignalingTransport => {
+    // Viewer links point at `${roomId}.${key}`, like the Firebase ones
+    const [roomId, viewerKey] = viewOnly ? linkId.split('.') : [linkId];
+    const room = getRoom(roomId);
+    let viewerLink: string | null = null;
+
+    const route = async (channel: keyof SignalingHandlers, message: SignalingMessage) => {
+      sent.push({ channel, message });
+      messageCounter += 1;
+      const messageId = `memory-${messageCounter}`;
+      const payload = structuredClone(message);
+
+      room.messageHandlers.get(message.target)?.forEach(handlers => {
+        deliver(() => handlers[channel](payload, messageId));
+      });
+    };
+
+    // Forget everything about a room nobody is in any more
+    const resetIfEmpty = () => {
+      if (Object.keys(room.users).length === 0) {
+        room.passcodeHash = null;
+        room.hostId = null;
+        room.locked = false;
+        room.admitted.clear();
+        room.viewerLinks.clear();
+        room.streaming = {};
+        room.chat = [];
+      }
+    };
+
+    const removeUser = (userId: string) => {
+      const hadStreaming = userId in room.streaming;
+      delete room.users[userId];
+      delete room.streaming[userId];
+      notifyPresence(room);
+      if (hadStreaming) notifyStreaming(room);
+      if (room.hostId === userId) {
+        room.hostId = null;
+        notifyHost(room);
+      }
+    };
+
+    return {
+      roomId: linkId,
+
+      // Viewer links stand in for the passcode
+      isProtected: async () => !viewOnly && room.passcodeHash !== null,
+
+      setPasscode: async passcodeHash => {
+        if (room.passcodeHash !== null || Object.keys(room.users).length > 0) {
+          throw new Error(`Room ${roomId} can no longer be protected`);
+        }
+        room.passcodeHash = passcodeHash;
+      },
+
+      join: async (userId, user, passcodeHash) => {
+        if (viewOnly) {
+          if (!viewerKey || !room.viewerLinks.has(viewerKey)) throw viewerLinkRejectedError();
+        } else if (room.passcodeHash !== null && passcodeHash !== room.passcodeHash) {
+          throw passcodeRejectedError();
+        }
+        const returning = room.admitted.has(userId);
+        if (room.locked && !(userId in room.users) && !returning) {
+          throw roomLockedError();
+        }
+
+        // Only the viewer link decides who is a viewer
+        const record = { ...user, lastSeen: Date.now() };
+        if (viewOnly) {
+          record.role = 'viewer';
+        } else {
+          delete record.role;
+        }
+        room.users[userId] =
+          returning || viewOnly ? { ...record, active: true, status: 'admitted' } : record;
+        notifyPresence(room);
+      },
+
+      getSessionToken: () => null,
+
+      leave: async userId => removeUser(userId),
+
+      evict: async userId => removeUser(userId),
+
+      getUsers: async () => ({ ...room.users }),
+
+      subscribePresence: callback => {
+        room.presenceListeners.add(callback);
+        const users = { ...room.users };
+        deliver(() => callback(users));
+        return () => {
+          room.presenceListeners.delete(callback);
+        };
+      },
+
+      removeRoomIfEmpty: async () => resetIfEmpty(),
+
+      heartbeat: async userId => {
+        const user = room.users[userId];
+        if (!user) return;
+
+        room.users[userId] = { ...user, lastSeen: Date.now() };
+        notifyPresence(room);
+      },
+
+      purgeStale: async before => {
+        const stale = Object.keys(room.users).filter(id => lastActivity(room.users[id]) < before);
+        stale.forEach(id => {
+          delete room.users[id];
+          delete room.streaming[id];
+        });
+        room.chat = room.chat.filter(message => !isMessageExpired(message, before));
+
+        if (stale.length > 0) {
+          notifyPresence(room);
+          notifyStreaming(room);
+        }
+        if (room.hostId !== null && stale.includes(room.hostId)) {
+          room.hostId = null;
+          notifyHost(room);
+        }
+        resetIfEmpty();
+      },
+
+      claimHost: async userId => {
+        if (room.hostId !== null) return room.hostId === userId;
+
+        // Only someone let in, or the first user of a new room, takes over
+        const user = room.users[userId];
+        if (!user || user.role === 'viewer') return false;
+        if (user.active !== true && room.admitted.size > 0) return false;
+        room.hostId = userId;
+        notifyHost(room);
+        return true;
+      },
+
+      subscribeHost: callback => {
+        room.hostListeners.add(callback);
+        const { hostId } = room;
+        deliver(() => callback(hostId));
+        return () => {
+          room.hostListeners.delete(callback);
+        };
+      },
+
+      setAdmission: async (userId, status) => {
+        const user = room.users[userId];
+        if (!user) return;
+
+        if (status === 'admitted') {
+          room.admitted.add(userId);
+        } else {
+          room.admitted.delete(userId);
+        }
+        room.users[userId] = { ...user, status, active: status === 'admitted' };
+        notifyPresence(room);
+      },
+
+      getViewerRoomId: async () => {
+        if (viewOnly) return linkId;
+        if (!viewerLink) {
+          viewerLink = uuidv4();
+          room.viewerLinks.add(viewerLink);
+        }
+        return `${roomId}.${viewerLink}`;
+      },
+
+      setLocked: async locked => {
+        room.locked = locked;
+        room.lockedListeners.forEach(listener => deliver(() => listener(locked)));
+      },
+
+      subscribeLocked: callback => {
+        room.lockedListeners.add(callback);
+        const { locked } = room;
+        deliver(() => callback(locked));
+        return () => {
+          room.lockedListeners.delete(callback);
+        };
+      },
+
+      sendOffer: message => route('onOffer', message),
+      sendAnswer: message => route('onAnswer', message),
+      sendCandidate: message => route('onCandidate', message),
+      sendControl: message => route('onControl', message),
+
+      subscribeMessages: (userId, handlers) => {
+        const handlerSet = room.messageHandlers.get(userId) ?? new Set<SignalingHandlers>();
+        handlerSet.add(handlers);
+        room.messageHandlers.set(userId, handlerSet);
+        return () => {
+          handlerSet.delete(handlers);
+        };
+      },
+
+      sendChat: async message => {
+        if (room.users[message.from]?.active !== true) {
+          throw new Error(`User ${message.from} is not admitted to room ${roomId}`);
+        }
+        const payload = structuredClone(message);
+        room.chat.push(payload);
+        room.chatListeners.forEach(listener => deliver(() => listener(payload)));
+      },
+
+      subscribeChat: callback => {
+        room.chatListeners.add(callback);
+        const history = [...room.chat];
+        deliver(() => history.forEach(message => callback(message)));
+        return () => {
+          room.chatListeners.delete(callback);
+        };
+      },
+
+      setStreaming: async (userId, isStreaming) => {
+        if (isStreaming) {
+          room.streaming[userId] = true;
+        } else if (userId in room.streaming) {
+          delete room.streaming[userId];
+        } else {
+          return;
+        }
+        notifyStreaming(room);
+      },
+
+      getStreaming: async userId => room.streaming[userId] === true,
+
+      subscribeStreaming: callback => {
+        room.streamingListeners.add(callback);
+        const status = { ...room.streaming };
+        deliver(() => callback(status));
+        return () => {
+          room.streamingListeners.delete(callback);
+        };
+      },
+    };
+  };
+
+  return { createTransport, sent };
+}
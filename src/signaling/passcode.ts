@@ -0,0 +1,11 @@
+// Room passcodes never leave the browser in clear text: transports only see a SHA-256 hash
+// salted with the room ID, so the same passcode hashes differently in every room.
+
+export async function hashPasscode(roomId: string, passcode: string): Promise<string> {
+  const data = new TextEncoder().encode(`${roomId}:${passcode}`);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
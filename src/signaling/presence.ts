@@ -0,0 +1,22 @@
+import { RoomUser } from './types';
+
+// How often joined users refresh their lastSeen
+export const HEARTBEAT_INTERVAL_MS = 15000;
+// Peers give up on a user whose heartbeat hasn't moved for this long (four missed beats)
+export const STALE_AFTER_MS = 60000;
+// Users and signaling messages older than this are purged when someone joins the room
+export const ABANDONED_AFTER_MS = 10 * 60 * 1000;
+
+// Room paths holding messages that expire by their timestamp: signaling and chat. Purged by
+// joining clients (purgeStale) and by scripts/purgeRooms.ts alike.
+export const EXPIRING_MESSAGE_PATHS = ['offers', 'answers', 'candidates', 'chat'];
+
+// When a user was last known to be around; records from older clients only have `joined`
+export function lastActivity(user: RoomUser): number {
+  return user.lastSeen ?? (Date.parse(user.joined) || 0);
+}
+
+// Signaling messages and chat messages all carry an ISO timestamp
+export function isMessageExpired(message: { timestamp: string }, before: number): boolean {
+  return (Date.parse(message.timestamp) || 0) < before;
+}
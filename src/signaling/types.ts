@@ -0,0 +1,141 @@
+// Shared types for the signaling layer used by useWebRTCFirebase
+
+export type Unsubscribe = () => void;
+
+// Control messages travel on the same channel as offers but carry no SDP. 'kick' and
+// 'force-stop-sharing' are moderation requests only honored when they come from the host.
+// 'sfu-share' tells viewers to pull the sender's screen share from the SFU instead.
+export type ControlMessageType =
+  | 'request-stream'
+  | 'stopped-sharing'
+  | 'pre-screen-share'
+  | 'kick'
+  | 'force-stop-sharing'
+  | 'sfu-share';
+
+export interface SignalingMessage {
+  from: string;
+  target: string;
+  timestamp: string;
+  type?: ControlMessageType;
+  sdp?: RTCSessionDescriptionInit;
+  candidate?: RTCIceCandidateInit;
+  hasScreen?: boolean;
+  // On offers and answers: the stream the sender's camera and microphone arrive in
+  cameraStreamId?: string;
+  // On 'sfu-share': the SFU stream to view the share from
+  sfuStream?: string;
+}
+
+// Where a user stands in the waiting room. Records written before hosts existed have no
+// status and count as admitted when active.
+export type AdmissionStatus = 'pending' | 'admitted' | 'denied';
+
+// Initials bubble shown next to a user's name
+export interface ParticipantAvatar {
+  color: string;
+  initials: string;
+}
+
+export interface RoomUser {
+  joined: string;
+  // Admitted users are active; only active users are connected to
+  active: boolean;
+  status?: AdmissionStatus;
+  // Display name and avatar; missing for users of older clients
+  name?: string;
+  avatar?: ParticipantAvatar;
+  // Viewers joined through a viewer link: they only receive the screens being shared, and
+  // connect to nobody but the sharers
+  role?: 'viewer';
+  // Last heartbeat, in milliseconds on the backend's clock. Backends that track liveness
+  // themselves (the WebSocket server pings its sockets) leave it out.
+  lastSeen?: number;
+  // Firebase Auth UID allowed to write the record, set by the Firebase backend
+  uid?: string;
+}
+
+export type RoomUsers = Record<string, RoomUser>;
+
+export type StreamingStatus = Record<string, boolean>;
+
+// A chat message. It goes straight to peers over the data channel and through the room's chat
+// path only when that isn't open, so receivers may see it twice and dedupe by id.
+export interface ChatMessage {
+  id: string;
+  from: string;
+  // Sender's name when it was sent, for messages from users who have left since
+  name?: string;
+  text: string;
+  timestamp: string;
+}
+
+/* eslint-disable no-unused-vars */
+export interface SignalingHandlers {
+  onOffer: (message: SignalingMessage, messageId: string) => void;
+  onAnswer: (message: SignalingMessage, messageId: string) => void;
+  onCandidate: (message: SignalingMessage, messageId: string) => void;
+  onControl: (message: SignalingMessage, messageId: string) => void;
+}
+
+// A signaling backend bound to a single room. Implementations deliver only the
+// messages targeted at the subscribed user and take care of their own cleanup.
+export interface SignalingTransport {
+  readonly roomId: string;
+
+  // Access control. Passcodes are passed around as hashes (see hashPasscode).
+  isProtected: () => Promise<boolean>;
+  // Protect a room nobody has joined yet; rejects if it has users or a passcode already
+  setPasscode: (passcodeHash: string) => Promise<void>;
+
+  // Presence. join rejects with passcodeRejectedError() when the room is protected and
+  // the passcode hash is missing or wrong, and with roomLockedError() when the room is locked.
+  // Users the host admitted before (e.g. rejoining after a reload) are let straight back in,
+  // even into a locked room. Viewers skip the waiting room.
+  join: (userId: string, user: RoomUser, passcodeHash?: string) => Promise<void>;
+  leave: (userId: string) => Promise<void>;
+  // Proof from the WebSocket server that userId joined, which its TURN credentials endpoint
+  // asks for. Null before joining and with backends that don't hand one out.
+  getSessionToken: (userId: string) => string | null;
+  // Remove someone else who stopped heartbeating. Unlike leave, it leaves our own user alone.
+  evict: (userId: string) => Promise<void>;
+  getUsers: () => Promise<RoomUsers>;
+  subscribePresence: (callback: (users: RoomUsers) => void) => Unsubscribe;
+  removeRoomIfEmpty: () => Promise<void>;
+  // Liveness. A joined user calls heartbeat every HEARTBEAT_INTERVAL_MS; a user whose
+  // connection drops is removed by the backend where it can tell (Firebase onDisconnect).
+  heartbeat: (userId: string) => Promise<void>;
+  // Remove users last seen before the given time (backend clock), signaling messages older
+  // than it, and the room itself once nobody is left
+  purgeStale: (before: number) => Promise<void>;
+
+  // Host and waiting room. claimHost resolves true if the room had no host and userId now is.
+  // Leaving as host gives up the role.
+  claimHost: (userId: string) => Promise<boolean>;
+  subscribeHost: (callback: (hostId: string | null) => void) => Unsubscribe;
+  setAdmission: (userId: string, status: 'admitted' | 'denied') => Promise<void>;
+  // The ID for viewer links, which lets whoever opens one in as a viewer and nothing else.
+  // Only users let into the room can make one; viewers get the link they came in with.
+  getViewerRoomId: () => Promise<string>;
+  // A locked room accepts no new users
+  setLocked: (locked: boolean) => Promise<void>;
+  subscribeLocked: (callback: (locked: boolean) => void) => Unsubscribe;
+
+  // Peer-to-peer messages
+  sendOffer: (message: SignalingMessage) => Promise<void>;
+  sendAnswer: (message: SignalingMessage) => Promise<void>;
+  sendCandidate: (message: SignalingMessage) => Promise<void>;
+  sendControl: (message: SignalingMessage) => Promise<void>;
+  subscribeMessages: (userId: string, handlers: SignalingHandlers) => Unsubscribe;
+
+  // Room chat for messages that can't go over the data channel. Subscribers get the
+  // messages already in the room as well as new ones; only admitted users may send.
+  sendChat: (message: ChatMessage) => Promise<void>;
+  subscribeChat: (callback: (message: ChatMessage) => void) => Unsubscribe;
+
+  // Screen share status
+  setStreaming: (userId: string, isStreaming: boolean) => Promise<void>;
+  getStreaming: (userId: string) => Promise<boolean>;
+  subscribeStreaming: (callback: (status: StreamingStatus) => void) => Unsubscribe;
+}
+/* eslint-enable no-unused-vars */
@@ -0,0 +1,199 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+
+import { startSignalingServer, TestSignalingServer } from '../test/signalingServer';
+import { isPasscodeRejected, isRoomLockedError } from './errors';
+import { RoomUser, RoomUsers, SignalingHandlers, SignalingTransport } from './types';
+import { createWebSocketTransport } from './websocketTransport';
+
+// The transport's sockets, so tests can drop a connection like a network blip would
+class TestWebSocket extends WebSocket {
+  static instances: TestWebSocket[] = [];
+
+  constructor(address: string) {
+    super(address);
+    TestWebSocket.instances.push(this);
+  }
+}
+
+const PASSCODE_HASH = 'a'.repeat(64);
+
+let server: TestSignalingServer;
+let roomCounter = 0;
+// Leaves and unsubscribes, so no transport is left reconnecting after its test
+let cleanups: Array<() => unknown> = [];
+
+const user = (): RoomUser => ({
+  joined: new Date().toISOString(),
+  active: false,
+  status: 'pending',
+});
+
+const handlers = (): SignalingHandlers => ({
+  onOffer: vi.fn(),
+  onAnswer: vi.fn(),
+  onCandidate: vi.fn(),
+  onControl: vi.fn(),
+});
+
+const offer = (from: string, target: string) => ({
+  from,
+  target,
+  timestamp: new Date().toISOString(),
+  sdp: { type: 'offer' as const, sdp: 'v=0' },
+});
+
+const transportFor = (roomId: string, viewOnly = false) =>
+  createWebSocketTransport(roomId, server.signalingUrl, viewOnly);
+
+const join = async (
+  transport: SignalingTransport,
+  userId: string,
+  passcodeHash?: string
+): Promise<void> => {
+  await transport.join(userId, user(), passcodeHash);
+  cleanups.push(() => transport.leave(userId));
+};
+
+// A room with alice as its host and bob let in
+const createRoom = async () => {
+  const roomId = `room-${++roomCounter}`;
+  const alice = transportFor(roomId);
+  await join(alice, 'alice');
+  expect(await alice.claimHost('alice')).toBe(true);
+
+  const bob = transportFor(roomId);
+  await join(bob, 'bob');
+  await alice.setAdmission('bob', 'admitted');
+  await waitForUsers(bob, users => users.bob?.active === true);
+  return { roomId, alice, bob };
+};
+
+const waitForUsers = async (
+  transport: SignalingTransport,
+  // eslint-disable-next-line no-unused-vars
+  condition: (users: RoomUsers) => boolean
+) => vi.waitFor(async () => expect(condition(await transport.getUsers())).toBe(true));
+
+beforeAll(async () => {
+  server = await startSignalingServer();
+});
+
+afterAll(async () => {
+  await server?.stop();
+});
+
+beforeEach(() => {
+  // Real sockets need real time
+  vi.useRealTimers();
+  vi.stubGlobal('WebSocket', TestWebSocket);
+  window.sessionStorage.clear();
+});
+
+afterEach(async () => {
+  await Promise.all(cleanups.reverse().map(cleanup => cleanup()));
+  cleanups = [];
+  TestWebSocket.instances = [];
+});
+
+describe('createWebSocketTransport', () => {
+  it('relays signals between users the host let in', async () => {
+    const { alice, bob } = await createRoom();
+    const bobHandlers = handlers();
+    cleanups.push(bob.subscribeMessages('bob', bobHandlers));
+
+    const message = offer('alice', 'bob');
+    await alice.sendOffer(message);
+
+    await vi.waitFor(() =>
+      expect(bobHandlers.onOffer).toHaveBeenCalledWith(message, expect.any(String))
+    );
+  });
+
+  it('rejects a wrong passcode and the locked room', async () => {
+    const roomId = `room-${++roomCounter}`;
+    const alice = transportFor(roomId);
+    expect(await alice.isProtected()).toBe(false);
+    await alice.setPasscode(PASSCODE_HASH);
+    await join(alice, 'alice', PASSCODE_HASH);
+    await alice.claimHost('alice');
+
+    const bob = transportFor(roomId);
+    expect(await bob.isProtected()).toBe(true);
+    const wrongPasscode = await bob.join('bob', user(), 'b'.repeat(64)).catch(err => err);
+    expect(isPasscodeRejected(wrongPasscode)).toBe(true);
+
+    const lockedSeen = new Promise<void>(resolve => {
+      cleanups.push(alice.subscribeLocked(locked => locked && resolve()));
+    });
+    await alice.setLocked(true);
+    await lockedSeen;
+    const carol = transportFor(roomId);
+    const locked = await carol.join('carol', user(), PASSCODE_HASH).catch(err => err);
+    expect(isRoomLockedError(locked)).toBe(true);
+  });
+
+  it('reconnects and rejoins as the same user without the room noticing', async () => {
+    const { alice, bob } = await createRoom();
+    await bob.setStreaming('bob', true);
+    await vi.waitFor(async () => expect(await alice.getStreaming('bob')).toBe(true));
+    const sessionToken = bob.getSessionToken('bob');
+    const bobHandlers = handlers();
+    cleanups.push(bob.subscribeMessages('bob', bobHandlers));
+    const presence: string[][] = [];
+    cleanups.push(alice.subscribePresence(users => presence.push(Object.keys(users))));
+
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // Drop bob's connection (alice's socket came first); the transport comes back on a new
+    // socket after a second
+    const [, bobSocket] = TestWebSocket.instances;
+    const socketCount = TestWebSocket.instances.length;
+    bobSocket.terminate();
+    await vi.waitFor(
+      () => expect(TestWebSocket.instances[socketCount]?.readyState).toBe(WebSocket.OPEN),
+      { timeout: 5000 }
+    );
+    // Offers reach bob again once the server has his new socket
+    await vi.waitFor(async () => {
+      await alice.sendOffer(offer('alice', 'bob'));
+      expect(bobHandlers.onOffer).toHaveBeenCalled();
+    });
+    expect(bob.getSessionToken('bob')).toBe(sessionToken);
+    expect(presence.every(userIds => userIds.includes('bob'))).toBe(true);
+    expect(await alice.getStreaming('bob')).toBe(true);
+    expect((await alice.getUsers()).bob).toMatchObject({ active: true, status: 'admitted' });
+  });
+
+  it('takes a user ID back only with its session token', async () => {
+    const { roomId, alice } = await createRoom();
+
+    // A reload keeps the token in session storage and gets bob's place back
+    const reloaded = transportFor(roomId);
+    await join(reloaded, 'bob');
+    expect((await reloaded.getUsers()).bob).toMatchObject({ active: true });
+
+    window.sessionStorage.clear();
+    const impostor = transportFor(roomId);
+    await expect(impostor.join('bob', user())).rejects.toThrow(
+      'Another session is using this user ID'
+    );
+    expect((await alice.getUsers()).bob).toMatchObject({ active: true });
+  });
+
+  it('lets viewers in through a viewer link, and nobody through a forged one', async () => {
+    const { roomId, alice } = await createRoom();
+    const viewerRoomId = await alice.getViewerRoomId();
+
+    const viewer = transportFor(viewerRoomId, true);
+    expect(await viewer.isProtected()).toBe(false);
+    await join(viewer, 'carol');
+    await waitForUsers(alice, users => users.carol?.role === 'viewer');
+    expect((await alice.getUsers()).carol).toMatchObject({ active: true, status: 'admitted' });
+    await expect(viewer.getViewerRoomId()).resolves.toBe(viewerRoomId);
+
+    const forged = transportFor(roomId, true);
+    await expect(forged.join('mallory', user())).rejects.toThrow(
+      'This viewer link is no longer valid'
+    );
+  });
+});
@@ -0,0 +1,409 @@
+import { passcodeRejectedError, roomLockedError, viewerLinkRejectedError } from './errors';
+import {
+  ChatMessage,
+  RoomUser,
+  RoomUsers,
+  SignalingHandlers,
+  SignalingTransport,
+  StreamingStatus,
+} from './types';
+import { ClientMessage, ServerMessage } from './wsProtocol';
+
+type Listener<T> = (value: T) => void; // eslint-disable-line no-unused-vars
+type ServerJoinResult = Extract<ServerMessage, { kind: 'join-result' }>;
+
+// Reconnect delays after the connection drops: 1s, 2s, 4s... up to 15s
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+
+// The server hands each user a session token on their first join and asks for it whenever
+// someone joins as that user again. It is kept next to the room identity (see
+// src/profile/identity.ts) so a reload can take its slot back.
+const sessionKey = (roomId: string, userId: string) => `screenshare:session:${roomId}:${userId}`;
+
+const readSessionToken = (roomId: string, userId: string): string | undefined => {
+  try {
+    return window.sessionStorage.getItem(sessionKey(roomId, userId)) ?? undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const writeSessionToken = (roomId: string, userId: string, sessionToken: string) => {
+  try {
+    window.sessionStorage.setItem(sessionKey(roomId, userId), sessionToken);
+  } catch (err) {
+    // Storage unavailable: a reload comes back as a new user
+    console.warn('[Signaling] Could not save session token:', err);
+  }
+};
+
+// Signaling over the self-hosted WebSocket server in server.ts. Presence and streaming
+// status are pushed by the server and cached here so reads resolve immediately. With viewOnly,
+// roomId is the ID from a viewer link, which the server resolves to the room.
+export function createWebSocketTransport(
+  roomId: string,
+  url: string,
+  viewOnly = false
+): SignalingTransport {
+  let socket: WebSocket | null = null;
+  let pending: ClientMessage[] = [];
+  let joined: {
+    userId: string;
+    user: RoomUser;
+    passcodeHash?: string;
+    sessionToken?: string;
+  } | null = null;
+  // Whether the joined user is sharing, re-announced with the join after a reconnect
+  let joinedIsStreaming = false;
+  let isProtected: boolean | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectAttempts = 0;
+
+  let users: RoomUsers = {};
+  let hostId: string | null = null;
+  let hasHost = false;
+  let locked = false;
+  let hasLocked = false;
+  let streaming: StreamingStatus = {};
+  let hasPresence = false;
+  let hasStreaming = false;
+  // Chat messages seen so far, replayed to new subscribers
+  const chat = new Map<string, ChatMessage>();
+
+  const presenceListeners = new Set<Listener<RoomUsers>>();
+  const hostListeners = new Set<Listener<string | null>>();
+  const hostWaiters = new Map<string, Listener<boolean>>();
+  const lockedListeners = new Set<Listener<boolean>>();
+  const streamingListeners = new Set<Listener<StreamingStatus>>();
+  const messageHandlers = new Map<string, SignalingHandlers>();
+  const chatListeners = new Set<Listener<ChatMessage>>();
+  const accessWaiters = new Set<Listener<boolean>>();
+  const joinWaiters = new Map<string, Listener<ServerJoinResult>>();
+  const passcodeWaiters = new Set<Listener<boolean>>();
+  const viewerLinkWaiters = new Set<Listener<string | null>>();
+
+  const handleServerMessage = (message: ServerMessage) => {
+    switch (message.kind) {
+      case 'access':
+        isProtected = message.isProtected;
+        accessWaiters.forEach(waiter => waiter(message.isProtected));
+        accessWaiters.clear();
+        break;
+      case 'join-result':
+        joinWaiters.get(message.userId)?.(message);
+        joinWaiters.delete(message.userId);
+        break;
+      case 'locked':
+        locked = message.locked;
+        hasLocked = true;
+        lockedListeners.forEach(listener => listener(locked));
+        break;
+      case 'passcode-result':
+        passcodeWaiters.forEach(waiter => waiter(message.accepted));
+        passcodeWaiters.clear();
+        break;
+      case 'host':
+        hostId = message.hostId;
+        hasHost = true;
+        hostListeners.forEach(listener => listener(hostId));
+        break;
+      case 'host-result':
+        hostWaiters.get(message.userId)?.(message.accepted);
+        hostWaiters.delete(message.userId);
+        break;
+      case 'presence':
+        users = message.users;
+        hasPresence = true;
+        presenceListeners.forEach(listener => listener(users));
+        break;
+      case 'streaming':
+        streaming = message.status;
+        hasStreaming = true;
+        streamingListeners.forEach(listener => listener(streaming));
+        break;
+      case 'signal': {
+        const handlers = messageHandlers.get(message.message.target);
+        if (!handlers) return;
+
+        if (message.channel === 'offer') handlers.onOffer(message.message, message.messageId);
+        if (message.channel === 'answer') handlers.onAnswer(message.message, message.messageId);
+        if (message.channel === 'candidate') {
+          handlers.onCandidate(message.message, message.messageId);
+        }
+        if (message.channel === 'control') {
+          handlers.onControl(message.message, message.messageId);
+        }
+        break;
+      }
+      case 'chat':
+        // The server repeats the history whenever it admits us again, e.g. after a reconnect
+        if (chat.has(message.message.id)) return;
+        chat.set(message.message.id, message.message);
+        chatListeners.forEach(listener => listener(message.message));
+        break;
+      case 'viewer-link':
+        viewerLinkWaiters.forEach(waiter => waiter(message.viewerRoomId));
+        viewerLinkWaiters.clear();
+        break;
+      case 'error':
+        console.error('[Signaling] Server error:', message.message);
+        break;
+    }
+  };
+
+  const hasListeners = () =>
+    joinWaiters.size > 0 ||
+    presenceListeners.size > 0 ||
+    hostListeners.size > 0 ||
+    lockedListeners.size > 0 ||
+    streamingListeners.size > 0 ||
+    messageHandlers.size > 0 ||
+    chatListeners.size > 0;
+
+  const connect = (): WebSocket => {
+    if (socket && socket.readyState <= WebSocket.OPEN) return socket;
+
+    const ws = new WebSocket(
+      `${url}?${viewOnly ? 'viewer' : 'room'}=${encodeURIComponent(roomId)}`
+    );
+
+    ws.onopen = () => {
+      reconnectAttempts = 0;
+
+      // Re-announce ourselves after a reconnect so the server restores our presence
+      const rejoin: ClientMessage[] = joined ? [{ kind: 'join', ...joined }] : [];
+      if (joined && joinedIsStreaming) {
+        rejoin.push({ kind: 'set-streaming', userId: joined.userId, isStreaming: true });
+      }
+      const queued = [...rejoin, ...pending];
+      pending = [];
+      queued.forEach(message => ws.send(JSON.stringify(message)));
+    };
+
+    ws.onmessage = event => {
+      try {
+        handleServerMessage(JSON.parse(event.data) as ServerMessage);
+      } catch (err) {
+        console.error('[Signaling] Error handling server message:', err);
+      }
+    };
+
+    ws.onerror = event => {
+      console.error('[Signaling] WebSocket error:', event);
+    };
+
+    ws.onclose = () => {
+      // The next connection re-sends the room's access state
+      isProtected = null;
+
+      // Closed on purpose by releaseIfIdle
+      if (socket !== ws) return;
+      socket = null;
+
+      // The connection dropped: come back as the same user while anyone still needs it
+      if (!joined && !hasListeners()) return;
+      const delay = Math.min(
+        RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts,
+        RECONNECT_MAX_DELAY_MS
+      );
+      reconnectAttempts += 1;
+      console.warn(`[Signaling] Connection lost, reconnecting in ${delay}ms`);
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        if (!socket) connect();
+      }, delay);
+    };
+
+    socket = ws;
+    return ws;
+  };
+
+  const send = async (message: ClientMessage): Promise<void> => {
+    const ws = connect();
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    } else {
+      pending.push(message);
+    }
+  };
+
+  // Close the socket once nobody is joined or listening any more
+  const releaseIfIdle = () => {
+    if (joined || hasListeners()) return;
+
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    if (socket) {
+      const ws = socket;
+      socket = null;
+      ws.close();
+    }
+  };
+
+  return {
+    roomId,
+
+    isProtected: () => {
+      connect();
+      if (isProtected !== null) return Promise.resolve(isProtected);
+      return new Promise(resolve => accessWaiters.add(resolve));
+    },
+
+    setPasscode: async passcodeHash => {
+      const accepted = new Promise<boolean>(resolve => passcodeWaiters.add(resolve));
+      await send({ kind: 'set-passcode', passcodeHash });
+      if (!(await accepted)) {
+        throw new Error(`Room ${roomId} can no longer be protected`);
+      }
+    },
+
+    join: async (userId, user, passcodeHash) => {
+      const pendingResult = new Promise<ServerJoinResult>(resolve =>
+        joinWaiters.set(userId, resolve)
+      );
+      const sessionToken = readSessionToken(roomId, userId);
+      await send({ kind: 'join', userId, user, passcodeHash, sessionToken });
+      const result = await pendingResult;
+      if (!result.accepted) {
+        releaseIfIdle();
+        if (result.reason === 'session') {
+          throw new Error('Another session is using this user ID');
+        }
+        if (result.reason === 'viewer-link') throw viewerLinkRejectedError();
+        throw result.reason === 'locked' ? roomLockedError() : passcodeRejectedError();
+      }
+      if (result.sessionToken) writeSessionToken(roomId, userId, result.sessionToken);
+      joined = { userId, user, passcodeHash, sessionToken: result.sessionToken };
+    },
+
+    getSessionToken: userId => (joined?.userId === userId ? (joined.sessionToken ?? null) : null),
+
+    leave: async userId => {
+      if (joined?.userId === userId) {
+        joined = null;
+        joinedIsStreaming = false;
+      }
+      await send({ kind: 'leave', userId });
+      releaseIfIdle();
+    },
+
+    getViewerRoomId: async () => {
+      // Our own viewer link is the one to pass on
+      if (viewOnly) return roomId;
+
+      const pendingLink = new Promise<string | null>(resolve => viewerLinkWaiters.add(resolve));
+      await send({ kind: 'create-viewer-link' });
+      const viewerRoomId = await pendingLink;
+      if (!viewerRoomId) throw new Error('Only participants let into the room can invite viewers');
+      return viewerRoomId;
+    },
+
+    // The server drops sockets that stop answering its pings and won't take orders about
+    // users a socket didn't join as
+    evict: async () => {},
+
+    getUsers: async () => users,
+
+    subscribePresence: callback => {
+      connect();
+      presenceListeners.add(callback);
+      if (hasPresence) callback(users);
+
+      return () => {
+        presenceListeners.delete(callback);
+        releaseIfIdle();
+      };
+    },
+
+    claimHost: async userId => {
+      const accepted = new Promise<boolean>(resolve => hostWaiters.set(userId, resolve));
+      await send({ kind: 'claim-host', userId });
+      return accepted;
+    },
+
+    subscribeHost: callback => {
+      connect();
+      hostListeners.add(callback);
+      if (hasHost) callback(hostId);
+
+      return () => {
+        hostListeners.delete(callback);
+        releaseIfIdle();
+      };
+    },
+
+    setAdmission: (userId, status) => send({ kind: 'set-admission', userId, status }),
+
+    setLocked: value => send({ kind: 'set-locked', locked: value }),
+
+    subscribeLocked: callback => {
+      connect();
+      lockedListeners.add(callback);
+      if (hasLocked) callback(locked);
+
+      return () => {
+        lockedListeners.delete(callback);
+        releaseIfIdle();
+      };
+    },
+
+    // The server drops rooms as soon as their last socket disconnects
+    removeRoomIfEmpty: async () => {},
+
+    // The server pings every socket and removes the users of those that stop answering
+    heartbeat: async () => {},
+    purgeStale: async () => {},
+
+    sendOffer: message => send({ kind: 'signal', channel: 'offer', message }),
+    sendAnswer: message => send({ kind: 'signal', channel: 'answer', message }),
+    sendCandidate: message => send({ kind: 'signal', channel: 'candidate', message }),
+    sendControl: message => send({ kind: 'signal', channel: 'control', message }),
+
+    subscribeMessages: (userId, handlers) => {
+      connect();
+      messageHandlers.set(userId, handlers);
+
+      return () => {
+        if (messageHandlers.get(userId) === handlers) {
+          messageHandlers.delete(userId);
+        }
+        releaseIfIdle();
+      };
+    },
+
+    sendChat: message => send({ kind: 'chat', message }),
+
+    // The server sends the room's chat history when it admits us
+    subscribeChat: callback => {
+      connect();
+      chatListeners.add(callback);
+      chat.forEach(message => callback(message));
+
+      return () => {
+        chatListeners.delete(callback);
+        releaseIfIdle();
+      };
+    },
+
+    setStreaming: (userId, isStreaming) => {
+      if (joined?.userId === userId) joinedIsStreaming = isStreaming;
+      return send({ kind: 'set-streaming', userId, isStreaming });
+    },
+
+    getStreaming: async userId => streaming[userId] === true,
+
+    subscribeStreaming: callback => {
+      connect();
+      streamingListeners.add(callback);
+      if (hasStreaming) callback(streaming);
+
+      return () => {
+        streamingListeners.delete(callback);
+        releaseIfIdle();
+      };
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+
+import { isClientMessage } from './wsProtocol';
+
+const signal = {
+  from: 'alice',
+  target: 'bob',
+  timestamp: '2024-01-01T10:00:00.000Z',
+  sdp: { type: 'offer', sdp: 'v=0' },
+};
+
+describe('isClientMessage', () => {
+  it('accepts well-formed messages', () => {
+    expect(
+      isClientMessage({
+        kind: 'join',
+        userId: 'alice',
+        user: { joined: '2024-01-01T10:00:00.000Z', active: true, name: 'Alice' },
+      })
+    ).toBe(true);
+    expect(isClientMessage({ kind: 'signal', channel: 'offer', message: signal })).toBe(true);
+    expect(isClientMessage({ kind: 'set-streaming', userId: 'alice', isStreaming: true })).toBe(
+      true
+    );
+  });
+
+  it('rejects messages with missing or mistyped fields', () => {
+    expect(isClientMessage(null)).toBe(false);
+    expect(isClientMessage('join')).toBe(false);
+    expect(isClientMessage({ kind: 'signal', channel: 'offer' })).toBe(false);
+    expect(isClientMessage({ kind: 'signal', channel: 'gossip', message: signal })).toBe(false);
+    expect(
+      isClientMessage({ kind: 'signal', channel: 'offer', message: { ...signal, from: 42 } })
+    ).toBe(false);
+    expect(isClientMessage({ kind: 'join', userId: 'alice' })).toBe(false);
+    expect(isClientMessage({ kind: 'set-admission', userId: 'bob', status: 'banned' })).toBe(false);
+    expect(isClientMessage({ kind: 'chat', message: { id: 'x' } })).toBe(false);
+    expect(isClientMessage({ kind: 'take-over' })).toBe(false);
+  });
+});
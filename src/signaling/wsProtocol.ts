@@ -0,0 +1,112 @@
+// Wire protocol between the WebSocket transport and the signaling server in server.ts
+import { isChatMessage } from '../chat/chat';
+import type { ChatMessage, RoomUser, RoomUsers, SignalingMessage, StreamingStatus } from './types';
+
+export type SignalChannel = 'offer' | 'answer' | 'candidate' | 'control';
+
+export const SIGNAL_CHANNELS: SignalChannel[] = ['offer', 'answer', 'candidate', 'control'];
+
+// Path the signaling server listens on; the room is passed as the `room` query parameter, or
+// for viewers as the `viewer` parameter holding the ID from their viewer link
+export const SIGNALING_PATH = '/signaling';
+
+export type ClientMessage =
+  | { kind: 'join'; userId: string; user: RoomUser; passcodeHash?: string; sessionToken?: string }
+  | { kind: 'set-passcode'; passcodeHash: string }
+  | { kind: 'leave'; userId: string }
+  | { kind: 'claim-host'; userId: string }
+  | { kind: 'set-admission'; userId: string; status: 'admitted' | 'denied' }
+  | { kind: 'set-locked'; locked: boolean }
+  | { kind: 'signal'; channel: SignalChannel; message: SignalingMessage }
+  | { kind: 'chat'; message: ChatMessage }
+  | { kind: 'set-streaming'; userId: string; isStreaming: boolean }
+  | { kind: 'create-viewer-link' };
+
+export type ServerMessage =
+  | { kind: 'access'; isProtected: boolean }
+  | {
+      kind: 'join-result';
+      userId: string;
+      accepted: boolean;
+      reason?: 'passcode' | 'locked' | 'session' | 'viewer-link';
+      // Secret for joining as this user again, e.g. after a reconnect or a reload
+      sessionToken?: string;
+    }
+  | { kind: 'locked'; locked: boolean }
+  | { kind: 'passcode-result'; accepted: boolean }
+  | { kind: 'presence'; users: RoomUsers }
+  | { kind: 'host'; hostId: string | null }
+  | { kind: 'host-result'; userId: string; accepted: boolean }
+  | { kind: 'streaming'; status: StreamingStatus }
+  | { kind: 'signal'; channel: SignalChannel; message: SignalingMessage; messageId: string }
+  | { kind: 'chat'; message: ChatMessage }
+  // The ID for viewer links to this room, or null if we may not hand them out
+  | { kind: 'viewer-link'; viewerRoomId: string | null }
+  | { kind: 'error'; message: string };
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields => !!value && typeof value === 'object';
+
+// User ids end up in log lines, map keys and TURN usernames
+const isUserId = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= 64;
+
+const isOptionalString = (value: unknown): boolean =>
+  value === undefined || typeof value === 'string';
+
+const isRoomUser = (value: unknown): value is RoomUser =>
+  isObject(value) &&
+  typeof value.joined === 'string' &&
+  isOptionalString(value.name) &&
+  (value.avatar === undefined ||
+    (isObject(value.avatar) &&
+      typeof value.avatar.color === 'string' &&
+      typeof value.avatar.initials === 'string')) &&
+  (value.role === undefined || value.role === 'viewer');
+
+const isSignalingMessage = (value: unknown): value is SignalingMessage =>
+  isObject(value) &&
+  isUserId(value.from) &&
+  isUserId(value.target) &&
+  typeof value.timestamp === 'string' &&
+  isOptionalString(value.type) &&
+  (value.sdp === undefined || isObject(value.sdp)) &&
+  (value.candidate === undefined || isObject(value.candidate));
+
+// Messages come straight off the socket, so check their shape before the server acts on them
+export function isClientMessage(value: unknown): value is ClientMessage {
+  if (!isObject(value)) return false;
+
+  switch (value.kind) {
+    case 'join':
+      return (
+        isUserId(value.userId) &&
+        isRoomUser(value.user) &&
+        isOptionalString(value.passcodeHash) &&
+        isOptionalString(value.sessionToken)
+      );
+    case 'set-passcode':
+      return typeof value.passcodeHash === 'string';
+    case 'leave':
+    case 'claim-host':
+      return isUserId(value.userId);
+    case 'set-admission':
+      return isUserId(value.userId) && (value.status === 'admitted' || value.status === 'denied');
+    case 'set-locked':
+      return typeof value.locked === 'boolean';
+    case 'signal':
+      return (
+        SIGNAL_CHANNELS.includes(value.channel as SignalChannel) &&
+        isSignalingMessage(value.message)
+      );
+    case 'chat':
+      return isChatMessage(value.message);
+    case 'set-streaming':
+      return isUserId(value.userId) && typeof value.isStreaming === 'boolean';
+    case 'create-viewer-link':
+      return true;
+    default:
+      return false;
+  }
+}
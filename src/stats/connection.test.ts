@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+
+import { ConnectionStats, signalQuality, summarizeConnectionStats } from './connection';
+
+const statsReport = (entries: Record<string, unknown>[]) =>
+  new Map(entries.map(entry => [entry.id as string, entry])) as unknown as RTCStatsReport;
+
+const report = (timestamp: number, bytes: number, lost: number, received: number) =>
+  statsReport([
+    { id: 'transport', type: 'transport', selectedCandidatePairId: 'pair' },
+    {
+      id: 'pair',
+      type: 'candidate-pair',
+      localCandidateId: 'local',
+      remoteCandidateId: 'remote',
+      currentRoundTripTime: 0.045,
+      timestamp,
+    },
+    { id: 'local', type: 'local-candidate', candidateType: 'srflx' },
+    { id: 'remote', type: 'remote-candidate', candidateType: 'relay' },
+    { id: 'codec', type: 'codec', mimeType: 'video/VP8' },
+    {
+      id: 'in',
+      type: 'inbound-rtp',
+      kind: 'video',
+      codecId: 'codec',
+      bytesReceived: bytes,
+      packetsLost: lost,
+      packetsReceived: received,
+      framesPerSecond: 24,
+      frameWidth: 1920,
+      frameHeight: 1080,
+      jitter: 0.012,
+      timestamp,
+    },
+    { id: 'audio', type: 'inbound-rtp', kind: 'audio', bytesReceived: 999, timestamp },
+  ]);
+
+describe('summarizeConnectionStats', () => {
+  it('reads the path and the video received from a stats report', () => {
+    const { stats } = summarizeConnectionStats(report(1000, 50_000, 10, 990));
+
+    expect(stats.rtt).toBe(45);
+    expect(stats.connectionType).toBe('relay');
+    expect(stats.outbound).toBeNull();
+    expect(stats.inbound).toEqual({
+      bitrate: null,
+      framesPerSecond: 24,
+      width: 1920,
+      height: 1080,
+      codec: 'VP8',
+      jitter: 12,
+      packetLoss: 0.01,
+    });
+  });
+
+  it('works out bitrate and loss since the previous report', () => {
+    const first = summarizeConnectionStats(report(1000, 50_000, 10, 990));
+    const { stats } = summarizeConnectionStats(report(3000, 300_000, 30, 1170), first.counters);
+
+    expect(stats.inbound?.bitrate).toBe(1_000_000);
+    expect(stats.inbound?.packetLoss).toBe(0.1);
+  });
+
+  it('falls back to the nominated pair and leaves out what the report does not have', () => {
+    const { stats } = summarizeConnectionStats(
+      statsReport([
+        {
+          id: 'pair',
+          type: 'candidate-pair',
+          nominated: true,
+          state: 'succeeded',
+          localCandidateId: 'local',
+        },
+        { id: 'local', type: 'local-candidate', candidateType: 'host' },
+      ])
+    );
+
+    expect(stats).toMatchObject({
+      rtt: null,
+      connectionType: 'host',
+      inbound: null,
+      outbound: null,
+    });
+  });
+});
+
+describe('signalQuality', () => {
+  const stats = (rtt: number | null, packetLoss: number | null): ConnectionStats => ({
+    rtt,
+    connectionType: 'host',
+    inbound: packetLoss === null ? null : ({ packetLoss } as ConnectionStats['inbound']),
+    outbound: null,
+    timestamp: 0,
+  });
+
+  it('grades the connection by round trip time and loss', () => {
+    expect(signalQuality(stats(40, 0))).toBe('good');
+    expect(signalQuality(stats(250, 0))).toBe('fair');
+    expect(signalQuality(stats(40, 0.02))).toBe('fair');
+    expect(signalQuality(stats(40, 0.2))).toBe('poor');
+    expect(signalQuality(stats(null, null))).toBe('unknown');
+    expect(signalQuality(undefined)).toBe('unknown');
+  });
+});
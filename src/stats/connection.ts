@@ -0,0 +1,154 @@
+// A readable summary of a peer connection's getStats() report: the path it takes, and how the
+// video we receive from and send to the peer is doing
+
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+
+export interface VideoStats {
+  // Bits per second since the previous report, null for the first one
+  bitrate: number | null;
+  framesPerSecond: number | null;
+  width: number | null;
+  height: number | null;
+  // e.g. "VP8"
+  codec: string | null;
+  // Only known for video we receive: jitter in ms, and the fraction of packets lost
+  jitter: number | null;
+  packetLoss: number | null;
+}
+
+export interface ConnectionStats {
+  // Round trip time of the selected ICE pair in ms
+  rtt: number | null;
+  // How we reach the peer: directly on the network, through a NAT, or relayed by a TURN server
+  connectionType: CandidateType | null;
+  inbound: VideoStats | null;
+  outbound: VideoStats | null;
+  // When the report was taken, in ms; for bitrates against the next one
+  timestamp: number;
+}
+
+export type SignalQuality = 'good' | 'fair' | 'poor' | 'unknown';
+
+// Running totals of a report, kept to work out bitrates and loss over the time to the next one
+export interface StatsCounters {
+  bytesReceived: number | null;
+  bytesSent: number | null;
+  packetsReceived: number | null;
+  packetsLost: number | null;
+  timestamp: number;
+}
+
+type StatsEntry = Record<string, unknown> & { type: string; id: string };
+
+const numberOr = (value: unknown): number | null => (typeof value === 'number' ? value : null);
+
+const entries = (report: RTCStatsReport): StatsEntry[] => {
+  const list: StatsEntry[] = [];
+  report.forEach(entry => list.push(entry as StatsEntry));
+  return list;
+};
+
+const bitrateSince = (
+  current: StatsCounters,
+  previous: StatsCounters | undefined,
+  counter: 'bytesReceived' | 'bytesSent'
+): number | null => {
+  const bytes = current[counter];
+  const previousBytes = previous?.[counter];
+  if (bytes === null || previousBytes == null) return null;
+
+  const seconds = (current.timestamp - previous!.timestamp) / 1000;
+  return seconds > 0 && bytes >= previousBytes ? ((bytes - previousBytes) * 8) / seconds : null;
+};
+
+// Loss over the time since the previous report, or since the start for the first one
+const lossSince = (current: StatsCounters, previous: StatsCounters | undefined): number | null => {
+  if (current.packetsLost === null || current.packetsReceived === null) return null;
+
+  const lost = current.packetsLost - (previous?.packetsLost ?? 0);
+  const received = current.packetsReceived - (previous?.packetsReceived ?? 0);
+  return lost >= 0 && received >= 0 && lost + received > 0 ? lost / (lost + received) : null;
+};
+
+export function summarizeConnectionStats(
+  report: RTCStatsReport,
+  previous?: StatsCounters
+): { stats: ConnectionStats; counters: StatsCounters } {
+  const all = entries(report);
+  const byId = new Map(all.map(entry => [entry.id, entry]));
+  const codecOf = (entry: StatsEntry): string | null => {
+    const mimeType = byId.get(entry.codecId as string)?.mimeType;
+    return typeof mimeType === 'string' ? mimeType.replace(/^video\//, '') : null;
+  };
+
+  // The pair in use: the transport names it, otherwise the nominated one that works
+  const selectedPairId = all.find(entry => entry.type === 'transport')?.selectedCandidatePairId;
+  const pair =
+    (selectedPairId ? byId.get(selectedPairId as string) : undefined) ??
+    all.find(
+      entry => entry.type === 'candidate-pair' && entry.nominated && entry.state === 'succeeded'
+    );
+  const candidateTypes = [pair?.localCandidateId, pair?.remoteCandidateId].map(
+    id => byId.get(id as string)?.candidateType as CandidateType | undefined
+  );
+  const connectionType = candidateTypes.includes('relay') ? 'relay' : (candidateTypes[0] ?? null);
+
+  const received = all.find(entry => entry.type === 'inbound-rtp' && entry.kind === 'video');
+  const sent = all.find(entry => entry.type === 'outbound-rtp' && entry.kind === 'video');
+  const timestamp =
+    numberOr(received?.timestamp) ?? numberOr(sent?.timestamp) ?? numberOr(pair?.timestamp) ?? 0;
+  const counters: StatsCounters = {
+    bytesReceived: numberOr(received?.bytesReceived),
+    bytesSent: numberOr(sent?.bytesSent),
+    packetsReceived: numberOr(received?.packetsReceived),
+    packetsLost: numberOr(received?.packetsLost),
+    timestamp,
+  };
+
+  const inbound: VideoStats | null = received
+    ? {
+        bitrate: bitrateSince(counters, previous, 'bytesReceived'),
+        framesPerSecond: numberOr(received.framesPerSecond),
+        width: numberOr(received.frameWidth),
+        height: numberOr(received.frameHeight),
+        codec: codecOf(received),
+        jitter: numberOr(received.jitter) !== null ? (received.jitter as number) * 1000 : null,
+        packetLoss: lossSince(counters, previous),
+      }
+    : null;
+
+  const outbound: VideoStats | null = sent
+    ? {
+        bitrate: bitrateSince(counters, previous, 'bytesSent'),
+        framesPerSecond: numberOr(sent.framesPerSecond),
+        width: numberOr(sent.frameWidth),
+        height: numberOr(sent.frameHeight),
+        codec: codecOf(sent),
+        jitter: null,
+        packetLoss: null,
+      }
+    : null;
+
+  const rtt = numberOr(pair?.currentRoundTripTime);
+  return {
+    stats: {
+      rtt: rtt !== null ? rtt * 1000 : null,
+      connectionType,
+      inbound,
+      outbound,
+      timestamp,
+    },
+    counters,
+  };
+}
+
+// How the connection feels, from its round trip time and the loss on the video we receive
+export function signalQuality(stats: ConnectionStats | undefined): SignalQuality {
+  const rtt = stats?.rtt ?? null;
+  const loss = stats?.inbound?.packetLoss ?? null;
+  if (rtt === null && loss === null) return 'unknown';
+
+  if ((loss ?? 0) > 0.05 || (rtt ?? 0) > 400) return 'poor';
+  if ((loss ?? 0) > 0.01 || (rtt ?? 0) > 200) return 'fair';
+  return 'good';
+}
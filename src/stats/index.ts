@@ -0,0 +1,8 @@
+export { signalQuality, summarizeConnectionStats } from './connection';
+export type {
+  CandidateType,
+  ConnectionStats,
+  SignalQuality,
+  StatsCounters,
+  VideoStats,
+} from './connection';
@@ -0,0 +1,96 @@
+import { vi } from 'vitest';
+
+import { SFU_CREDENTIALS_PATH, SfuConfig } from '../sfu';
+import { FakeMediaStream, FakeRTCPeerConnection } from './fakeWebRTC';
+
+export const FAKE_SFU_CONFIG: SfuConfig = {
+  whipUrl: 'https://sfu.test/{stream}/whip',
+  whepUrl: 'https://sfu.test/{stream}/whep',
+  minParticipants: 3,
+};
+
+export interface FakeSfu {
+  // Streams published over WHIP, by stream name
+  published: Map<string, FakeMediaStream>;
+  // WHEP sessions started, by stream name
+  subscribers: Map<string, number>;
+  // Session resources ended with DELETE
+  deleted: string[];
+  // Authorization headers sent with WHIP and WHEP requests
+  authorizations: string[];
+}
+
+// FAKE_SFU_CONFIG with the credentials endpoint of installFakeSfu, which names published
+// streams minted-1, minted-2... and hands out "<action>-<stream>" as tokens
+export const FAKE_SFU_CREDENTIALS_CONFIG: SfuConfig = {
+  ...FAKE_SFU_CONFIG,
+  credentialsUrl: `https://sfu.test${SFU_CREDENTIALS_PATH}`,
+};
+
+const respond = (status: number, sdp = '', location?: string) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: status === 404 ? 'Not Found' : '',
+  text: async () => sdp,
+  json: async () => JSON.parse(sdp),
+  headers: new Headers(location ? { Location: location } : {}),
+});
+
+// A media server speaking WHIP and WHEP on top of the fake WebRTC, stubbed in as fetch: what is
+// published to a stream's WHIP URL is sent to everyone who views it from its WHEP URL
+export function installFakeSfu(): FakeSfu {
+  const sfu: FakeSfu = {
+    published: new Map(),
+    subscribers: new Map(),
+    deleted: [],
+    authorizations: [],
+  };
+  let sessions = 0;
+  let minted = 0;
+
+  const answer = async (pc: FakeRTCPeerConnection, offer: string) => {
+    await pc.setRemoteDescription({ type: 'offer', sdp: offer });
+    const description = await pc.createAnswer();
+    await pc.setLocalDescription(description);
+    sessions += 1;
+    return respond(201, description.sdp, `/sessions/${sessions}`);
+  };
+
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(
+      async (
+        input: string,
+        init: { method?: string; body?: unknown; headers?: Record<string, string> } = {}
+      ) => {
+        const url = new URL(input);
+        if (url.pathname === SFU_CREDENTIALS_PATH) {
+          const action = url.searchParams.get('action');
+          if (action === 'publish') minted += 1;
+          const stream = action === 'publish' ? `minted-${minted}` : url.searchParams.get('stream');
+          return respond(200, JSON.stringify({ stream, token: `${action}-${stream}`, ttl: 60 }));
+        }
+        if (init.method === 'DELETE') {
+          sfu.deleted.push(url.pathname);
+          return respond(200);
+        }
+
+        const [, name, endpoint] = url.pathname.split('/').map(decodeURIComponent);
+        if (init.headers?.Authorization) sfu.authorizations.push(init.headers.Authorization);
+        const pc = new FakeRTCPeerConnection();
+        if (endpoint === 'whip') {
+          pc.ontrack = (event: { streams: FakeMediaStream[] }) =>
+            sfu.published.set(name, event.streams[0]);
+          return answer(pc, String(init.body));
+        }
+
+        const stream = sfu.published.get(name);
+        if (endpoint !== 'whep' || !stream) return respond(404);
+        stream.getTracks().forEach(track => pc.addTrack(track, stream));
+        sfu.subscribers.set(name, (sfu.subscribers.get(name) ?? 0) + 1);
+        return answer(pc, String(init.body));
+      }
+    )
+  );
+  return sfu;
+}
@@ -0,0 +1,669 @@
+// Minimal in-process stand-ins for the browser WebRTC and media APIs used by
+// useWebRTCFirebase. SDP is a JSON description of the sender's tracks, so two fake
+// connections that exchange offers/answers through signaling deliver tracks to each other.
+
+const ICE_GATHERING_DELAY_MS = 20;
+
+let idCounter = 0;
+const nextId = (prefix: string): string => `${prefix}-${++idCounter}`;
+
+const invalidState = (message: string): DOMException =>
+  new DOMException(message, 'InvalidStateError');
+
+interface FakeSdp {
+  connectionId: string;
+  // One entry per sending transceiver. The sender ID outlives replaceTrack(), so the remote
+  // keeps receiving on the same track like it would in a browser.
+  tracks: Array<{ senderId: string; kind: string; streamId: string }>;
+}
+
+export class FakeMediaStreamTrack extends EventTarget {
+  readonly id: string;
+  readonly kind: 'audio' | 'video';
+  readonly label: string;
+  readyState: MediaStreamTrackState = 'live';
+  enabled = true;
+  muted = false;
+  contentHint = '';
+
+  constructor(kind: 'audio' | 'video', id: string = nextId(kind), label = `fake ${kind}`) {
+    super();
+    this.kind = kind;
+    this.id = id;
+    this.label = label;
+  }
+
+  stop(): void {
+    this.readyState = 'ended';
+  }
+
+  // Simulates the browser ending the track, e.g. the user clicking "Stop sharing"
+  end(): void {
+    this.stop();
+    this.dispatchEvent(new Event('ended'));
+  }
+
+  clone(): FakeMediaStreamTrack {
+    return new FakeMediaStreamTrack(this.kind, nextId(this.kind), this.label);
+  }
+
+  getSettings(): MediaTrackSettings {
+    return this.kind === 'video' ? { width: 1920, height: 1080, frameRate: 30 } : {};
+  }
+
+  getConstraints(): MediaTrackConstraints {
+    return {};
+  }
+
+  async applyConstraints(): Promise<void> {}
+}
+
+export class FakeMediaStream extends EventTarget {
+  readonly id: string;
+  private tracks: FakeMediaStreamTrack[];
+
+  constructor(
+    tracks: FakeMediaStreamTrack[] | FakeMediaStream = [],
+    id: string = nextId('stream')
+  ) {
+    super();
+    this.id = id;
+    this.tracks = Array.isArray(tracks) ? [...tracks] : tracks.getTracks();
+  }
+
+  get active(): boolean {
+    return this.tracks.some(track => track.readyState === 'live');
+  }
+
+  getTracks(): FakeMediaStreamTrack[] {
+    return [...this.tracks];
+  }
+
+  getVideoTracks(): FakeMediaStreamTrack[] {
+    return this.tracks.filter(track => track.kind === 'video');
+  }
+
+  getAudioTracks(): FakeMediaStreamTrack[] {
+    return this.tracks.filter(track => track.kind === 'audio');
+  }
+
+  getTrackById(id: string): FakeMediaStreamTrack | null {
+    return this.tracks.find(track => track.id === id) ?? null;
+  }
+
+  addTrack(track: FakeMediaStreamTrack): void {
+    if (!this.tracks.includes(track)) this.tracks.push(track);
+  }
+
+  removeTrack(track: FakeMediaStreamTrack): void {
+    this.tracks = this.tracks.filter(existing => existing !== track);
+  }
+
+  clone(): FakeMediaStream {
+    return new FakeMediaStream(this.tracks.map(track => track.clone()));
+  }
+}
+
+export class FakeRTCRtpSender {
+  readonly id = nextId('sender');
+  track: FakeMediaStreamTrack | null;
+  readonly streamId: string | null;
+  private parameters: RTCRtpSendParameters = {
+    transactionId: nextId('tx'),
+    encodings: [{}],
+    codecs: [],
+    headerExtensions: [],
+    rtcp: {},
+  };
+
+  constructor(track: FakeMediaStreamTrack | null, streamId: string | null) {
+    this.track = track;
+    this.streamId = streamId;
+  }
+
+  async replaceTrack(track: FakeMediaStreamTrack | null): Promise<void> {
+    this.track = track;
+  }
+
+  getParameters(): RTCRtpSendParameters {
+    return structuredClone(this.parameters);
+  }
+
+  async setParameters(parameters: RTCRtpSendParameters): Promise<void> {
+    this.parameters = structuredClone(parameters);
+  }
+
+  async getStats(): Promise<RTCStatsReport> {
+    return new Map() as unknown as RTCStatsReport;
+  }
+}
+
+export class FakeRTCRtpTransceiver {
+  readonly sender: FakeRTCRtpSender;
+  readonly receiver: { track: FakeMediaStreamTrack };
+  private currentDirection: RTCRtpTransceiverDirection;
+  private readonly onDirectionChange: () => void;
+
+  constructor(
+    kind: 'audio' | 'video',
+    sender: FakeRTCRtpSender,
+    direction: RTCRtpTransceiverDirection,
+    onDirectionChange: () => void
+  ) {
+    this.sender = sender;
+    this.receiver = { track: new FakeMediaStreamTrack(kind) };
+    this.currentDirection = direction;
+    this.onDirectionChange = onDirectionChange;
+  }
+
+  get direction(): RTCRtpTransceiverDirection {
+    return this.currentDirection;
+  }
+
+  set direction(direction: RTCRtpTransceiverDirection) {
+    if (direction === this.currentDirection) return;
+    this.currentDirection = direction;
+    this.onDirectionChange();
+  }
+
+  get isSending(): boolean {
+    return this.sender.track !== null && ['sendrecv', 'sendonly'].includes(this.direction);
+  }
+
+  stop(): void {}
+}
+
+export class FakeRTCSessionDescription {
+  readonly type: RTCSdpType;
+  readonly sdp: string;
+
+  constructor(init: RTCSessionDescriptionInit) {
+    this.type = init.type;
+    this.sdp = init.sdp ?? '';
+  }
+
+  toJSON(): RTCSessionDescriptionInit {
+    return { type: this.type, sdp: this.sdp };
+  }
+}
+
+export class FakeRTCIceCandidate {
+  readonly candidate: string;
+  readonly sdpMid: string | null;
+  readonly sdpMLineIndex: number | null;
+
+  constructor(init: RTCIceCandidateInit = {}) {
+    this.candidate = init.candidate ?? '';
+    this.sdpMid = init.sdpMid ?? null;
+    this.sdpMLineIndex = init.sdpMLineIndex ?? null;
+  }
+
+  toJSON(): RTCIceCandidateInit {
+    return { candidate: this.candidate, sdpMid: this.sdpMid, sdpMLineIndex: this.sdpMLineIndex };
+  }
+}
+
+type Handler = ((event: any) => void) | null; // eslint-disable-line no-unused-vars
+
+// Only negotiated channels are supported: both connections create a channel with the same ID
+// and the two open together once both sides are connected.
+export class FakeRTCDataChannel extends EventTarget {
+  readonly label: string;
+  readonly id: number | null;
+  readonly negotiated: boolean;
+  readyState: RTCDataChannelState = 'connecting';
+  // Everything sent on this channel, for assertions in tests
+  readonly sent: string[] = [];
+
+  onopen: Handler = null;
+  onmessage: Handler = null;
+  onclose: Handler = null;
+  onerror: Handler = null;
+
+  private remote: FakeRTCDataChannel | null = null;
+
+  constructor(label: string, init: RTCDataChannelInit) {
+    super();
+    this.label = label;
+    this.id = init.id ?? null;
+    this.negotiated = init.negotiated ?? false;
+  }
+
+  send(data: string): void {
+    if (this.readyState !== 'open') {
+      throw invalidState(`RTCDataChannel.readyState is not 'open'`);
+    }
+    this.sent.push(data);
+
+    const remote = this.remote;
+    Promise.resolve().then(() => {
+      if (remote?.readyState !== 'open') return;
+      remote.emit('message', Object.assign(new Event('message'), { data }));
+    });
+  }
+
+  close(): void {
+    if (this.readyState === 'closed') return;
+    this.readyState = 'closed';
+    this.emit('close');
+    this.remote?.close();
+  }
+
+  // Called by FakeRTCPeerConnection when both ends of the channel exist and are connected
+  pair(remote: FakeRTCDataChannel): void {
+    this.remote = remote;
+    remote.remote = this;
+    this.open();
+    remote.open();
+  }
+
+  get isPaired(): boolean {
+    return this.remote !== null;
+  }
+
+  private open(): void {
+    if (this.readyState !== 'connecting') return;
+    this.readyState = 'open';
+    this.emit('open');
+  }
+
+  private emit(type: string, event: Event = new Event(type)): void {
+    const handler = (this as unknown as Record<string, Handler>)[`on${type}`];
+    handler?.call(this, event);
+    this.dispatchEvent(event);
+  }
+}
+
+export class FakeRTCPeerConnection extends EventTarget {
+  // Every connection created since the last resetFakeWebRTC(), for assertions in tests
+  static instances: FakeRTCPeerConnection[] = [];
+
+  readonly connectionId = nextId('pc');
+  readonly configuration: RTCConfiguration;
+
+  connectionState: RTCPeerConnectionState = 'new';
+  iceConnectionState: RTCIceConnectionState = 'new';
+  iceGatheringState: RTCIceGatheringState = 'new';
+  signalingState: RTCSignalingState = 'stable';
+  localDescription: FakeRTCSessionDescription | null = null;
+  remoteDescription: FakeRTCSessionDescription | null = null;
+  restartIceCount = 0;
+  readonly addedCandidates: RTCIceCandidateInit[] = [];
+
+  onicecandidate: Handler = null;
+  ontrack: Handler = null;
+  onconnectionstatechange: Handler = null;
+  oniceconnectionstatechange: Handler = null;
+  onsignalingstatechange: Handler = null;
+  onicegatheringstatechange: Handler = null;
+  onnegotiationneeded: Handler = null;
+  ondatachannel: Handler = null;
+
+  private transceivers: FakeRTCRtpTransceiver[] = [];
+  readonly dataChannels: FakeRTCDataChannel[] = [];
+  private stableLocalDescription: FakeRTCSessionDescription | null = null;
+  // Tracks received from the remote side by its sender ID, and the ones currently sent
+  private remoteTracks = new Map<string, FakeMediaStreamTrack>();
+  private activeRemoteTracks = new Set<string>();
+  private remoteStreams = new Map<string, FakeMediaStream>();
+
+  constructor(configuration: RTCConfiguration = {}) {
+    super();
+    this.configuration = configuration;
+    FakeRTCPeerConnection.instances.push(this);
+  }
+
+  getConfiguration(): RTCConfiguration {
+    return this.configuration;
+  }
+
+  setConfiguration(configuration: RTCConfiguration): void {
+    Object.assign(this.configuration, configuration);
+  }
+
+  addTrack(track: FakeMediaStreamTrack, ...streams: FakeMediaStream[]): FakeRTCRtpSender {
+    this.assertOpen();
+    if (this.transceivers.some(({ sender }) => sender.track === track)) {
+      throw new DOMException('A sender already exists for the track', 'InvalidAccessError');
+    }
+
+    return this.addTransceiver(track, { direction: 'sendrecv', streams }).sender;
+  }
+
+  addTransceiver(
+    trackOrKind: FakeMediaStreamTrack | 'audio' | 'video',
+    init: { direction?: RTCRtpTransceiverDirection; streams?: FakeMediaStream[] } = {}
+  ): FakeRTCRtpTransceiver {
+    this.assertOpen();
+    const track = typeof trackOrKind === 'string' ? null : trackOrKind;
+    const kind = typeof trackOrKind === 'string' ? trackOrKind : trackOrKind.kind;
+
+    const sender = new FakeRTCRtpSender(track, init.streams?.[0]?.id ?? null);
+    const transceiver = new FakeRTCRtpTransceiver(kind, sender, init.direction ?? 'sendrecv', () =>
+      this.updateNegotiationNeeded()
+    );
+    this.transceivers.push(transceiver);
+    this.updateNegotiationNeeded();
+    return transceiver;
+  }
+
+  removeTrack(sender: FakeRTCRtpSender): void {
+    this.assertOpen();
+    const transceiver = this.transceivers.find(existing => existing.sender === sender);
+    sender.track = null;
+    if (transceiver?.direction === 'sendrecv') transceiver.direction = 'recvonly';
+    else if (transceiver?.direction === 'sendonly') transceiver.direction = 'inactive';
+  }
+
+  getSenders(): FakeRTCRtpSender[] {
+    return this.transceivers.map(({ sender }) => sender);
+  }
+
+  getReceivers(): Array<{ track: FakeMediaStreamTrack }> {
+    return [...this.activeRemoteTracks].map(senderId => ({
+      track: this.remoteTracks.get(senderId)!,
+    }));
+  }
+
+  getTransceivers(): FakeRTCRtpTransceiver[] {
+    return [...this.transceivers];
+  }
+
+  createDataChannel(label: string, init: RTCDataChannelInit = {}): FakeRTCDataChannel {
+    this.assertOpen();
+    if (!init.negotiated) {
+      throw new DOMException('Only negotiated data channels are faked', 'NotSupportedError');
+    }
+
+    const channel = new FakeRTCDataChannel(label, init);
+    this.dataChannels.push(channel);
+    this.pairDataChannels();
+    return channel;
+  }
+
+  async createOffer(): Promise<RTCSessionDescriptionInit> {
+    this.assertOpen();
+    return { type: 'offer', sdp: this.describe() };
+  }
+
+  async createAnswer(): Promise<RTCSessionDescriptionInit> {
+    this.assertOpen();
+    if (this.signalingState !== 'have-remote-offer') {
+      throw invalidState(`Cannot create answer in state ${this.signalingState}`);
+    }
+    return { type: 'answer', sdp: this.describe() };
+  }
+
+  async setLocalDescription(description: RTCSessionDescriptionInit): Promise<void> {
+    this.assertOpen();
+
+    if (description.type === 'rollback') {
+      if (this.signalingState !== 'have-local-offer') {
+        throw invalidState(`Cannot rollback in state ${this.signalingState}`);
+      }
+      this.localDescription = this.stableLocalDescription;
+      this.setSignalingState('stable');
+      return;
+    }
+
+    if (description.type === 'offer') {
+      if (this.signalingState !== 'stable' && this.signalingState !== 'have-local-offer') {
+        throw invalidState(`Cannot set local offer in state ${this.signalingState}`);
+      }
+      this.localDescription = new FakeRTCSessionDescription(description);
+      this.setSignalingState('have-local-offer');
+    } else if (description.type === 'answer') {
+      if (this.signalingState !== 'have-remote-offer') {
+        throw invalidState(`Cannot set local answer in state ${this.signalingState}`);
+      }
+      this.localDescription = new FakeRTCSessionDescription(description);
+      this.stableLocalDescription = this.localDescription;
+      this.setSignalingState('stable');
+      this.connectIfReady();
+    }
+
+    this.gatherCandidates();
+  }
+
+  async setRemoteDescription(description: RTCSessionDescriptionInit): Promise<void> {
+    this.assertOpen();
+
+    if (description.type === 'offer') {
+      if (this.signalingState !== 'stable' && this.signalingState !== 'have-remote-offer') {
+        throw invalidState(`Cannot set remote offer in state ${this.signalingState}`);
+      }
+      this.remoteDescription = new FakeRTCSessionDescription(description);
+      this.setSignalingState('have-remote-offer');
+    } else if (description.type === 'answer') {
+      if (this.signalingState !== 'have-local-offer') {
+        throw invalidState(`Cannot set remote answer in state ${this.signalingState}`);
+      }
+      this.remoteDescription = new FakeRTCSessionDescription(description);
+      this.stableLocalDescription = this.localDescription;
+      this.setSignalingState('stable');
+      this.connectIfReady();
+    }
+
+    this.applyRemoteTracks(JSON.parse(description.sdp ?? '{}') as FakeSdp);
+  }
+
+  async addIceCandidate(candidate?: RTCIceCandidateInit): Promise<void> {
+    this.assertOpen();
+    if (!this.remoteDescription) {
+      throw invalidState('The remote description was null');
+    }
+    if (candidate) this.addedCandidates.push(candidate);
+  }
+
+  restartIce(): void {
+    this.restartIceCount += 1;
+  }
+
+  async getStats(): Promise<RTCStatsReport> {
+    return new Map() as unknown as RTCStatsReport;
+  }
+
+  close(): void {
+    // Like browsers, closing does not fire state change events
+    this.signalingState = 'closed';
+    this.connectionState = 'closed';
+    this.iceConnectionState = 'closed';
+    this.dataChannels.forEach(channel => channel.close());
+  }
+
+  // Test helper: drive the connection into a given state, e.g. 'failed' or 'disconnected'
+  simulateConnectionState(state: RTCPeerConnectionState): void {
+    this.iceConnectionState =
+      state === 'connecting' ? 'checking' : (state as RTCIceConnectionState);
+    this.emit('iceconnectionstatechange');
+    this.connectionState = state;
+    this.emit('connectionstatechange');
+    if (state === 'connected') this.pairDataChannels();
+  }
+
+  private emit(type: string, event: Event = new Event(type)): void {
+    const handler = (this as unknown as Record<string, Handler>)[`on${type}`];
+    handler?.call(this, event);
+    this.dispatchEvent(event);
+  }
+
+  private assertOpen(): void {
+    if (this.signalingState === 'closed') {
+      throw invalidState('The RTCPeerConnection is closed');
+    }
+  }
+
+  private setSignalingState(state: RTCSignalingState): void {
+    const previous = this.signalingState;
+    this.signalingState = state;
+    this.emit('signalingstatechange');
+    // Changes made during an exchange are negotiated once it is over
+    if (state === 'stable' && previous !== 'stable') this.updateNegotiationNeeded();
+  }
+
+  // Like browsers, fire negotiationneeded from a task, and only while stable, when what we send
+  // differs from what was last agreed on
+  private updateNegotiationNeeded(): void {
+    Promise.resolve().then(() => {
+      if (this.signalingState !== 'stable') return;
+
+      const sending = (sdp: string | undefined) =>
+        ((JSON.parse(sdp || '{}') as FakeSdp).tracks ?? [])
+          .map(({ senderId }) => senderId)
+          .sort()
+          .join();
+      if (sending(this.describe()) !== sending(this.stableLocalDescription?.sdp)) {
+        this.emit('negotiationneeded');
+      }
+    });
+  }
+
+  private describe(): string {
+    const sdp: FakeSdp = {
+      connectionId: this.connectionId,
+      tracks: this.transceivers
+        .filter(transceiver => transceiver.isSending)
+        .map(({ sender }) => ({
+          senderId: sender.id,
+          kind: sender.track!.kind,
+          streamId: sender.streamId ?? `${this.connectionId}-default`,
+        })),
+    };
+    return JSON.stringify(sdp);
+  }
+
+  private applyRemoteTracks(sdp: FakeSdp): void {
+    const sentSenderIds = new Set((sdp.tracks ?? []).map(track => track.senderId));
+
+    // Tracks the remote side stopped sending
+    this.activeRemoteTracks.forEach(senderId => {
+      if (sentSenderIds.has(senderId)) return;
+      this.activeRemoteTracks.delete(senderId);
+      const track = this.remoteTracks.get(senderId)!;
+      track.muted = true;
+      this.remoteStreams.forEach(stream => {
+        if (!stream.getTrackById(track.id)) return;
+        stream.removeTrack(track);
+        stream.dispatchEvent(Object.assign(new Event('removetrack'), { track }));
+      });
+    });
+
+    // Tracks that are new or sent again in this description
+    (sdp.tracks ?? []).forEach(({ senderId, kind, streamId }) => {
+      if (this.activeRemoteTracks.has(senderId)) return;
+
+      let track = this.remoteTracks.get(senderId);
+      if (!track) {
+        track = new FakeMediaStreamTrack(kind as 'audio' | 'video');
+        this.remoteTracks.set(senderId, track);
+      }
+      track.muted = false;
+      this.activeRemoteTracks.add(senderId);
+
+      let stream = this.remoteStreams.get(streamId);
+      if (!stream) {
+        stream = new FakeMediaStream([], streamId);
+        this.remoteStreams.set(streamId, stream);
+      }
+      stream.addTrack(track);
+      stream.dispatchEvent(Object.assign(new Event('addtrack'), { track }));
+
+      const event = Object.assign(new Event('track'), {
+        track,
+        streams: [stream],
+        receiver: { track },
+      });
+      this.emit('track', event);
+    });
+  }
+
+  private gatherCandidates(): void {
+    if (this.iceGatheringState !== 'new') return;
+
+    this.iceGatheringState = 'gathering';
+    this.emit('icegatheringstatechange');
+
+    // Gathering takes a few milliseconds in browsers, so descriptions usually arrive first
+    setTimeout(() => {
+      if (this.signalingState === 'closed') return;
+
+      const candidate = new FakeRTCIceCandidate({
+        candidate: `candidate:1 1 udp 2122260223 192.0.2.1 5000 typ host ${this.connectionId}`,
+        sdpMid: '0',
+        sdpMLineIndex: 0,
+      });
+      this.emit('icecandidate', Object.assign(new Event('icecandidate'), { candidate }));
+      this.emit('icecandidate', Object.assign(new Event('icecandidate'), { candidate: null }));
+
+      this.iceGatheringState = 'complete';
+      this.emit('icegatheringstatechange');
+    }, ICE_GATHERING_DELAY_MS);
+  }
+
+  // Open negotiated channels once both connections of a pair are connected
+  private pairDataChannels(): void {
+    if (this.connectionState !== 'connected' || !this.remoteDescription) return;
+
+    const { connectionId } = JSON.parse(this.remoteDescription.sdp || '{}') as FakeSdp;
+    const remote = FakeRTCPeerConnection.instances.find(pc => pc.connectionId === connectionId);
+    if (!remote || remote.connectionState !== 'connected') return;
+
+    this.dataChannels.forEach(channel => {
+      if (channel.isPaired || channel.readyState !== 'connecting') return;
+      const match = remote.dataChannels.find(
+        other => other.id === channel.id && !other.isPaired && other.readyState === 'connecting'
+      );
+      if (match) channel.pair(match);
+    });
+  }
+
+  private connectIfReady(): void {
+    if (this.connectionState !== 'new' || !this.remoteDescription) return;
+
+    Promise.resolve().then(() => {
+      if (this.signalingState === 'closed' || this.connectionState !== 'new') return;
+      this.simulateConnectionState('connecting');
+      this.simulateConnectionState('connected');
+    });
+  }
+}
+
+interface FakeDisplayMediaOptions {
+  audio?: boolean;
+}
+
+// Replace the browser globals with the fakes above
+export function installFakeWebRTC(): void {
+  const globals = globalThis as Record<string, unknown>;
+  globals.RTCPeerConnection = FakeRTCPeerConnection;
+  globals.RTCSessionDescription = FakeRTCSessionDescription;
+  globals.RTCIceCandidate = FakeRTCIceCandidate;
+  globals.RTCRtpSender = FakeRTCRtpSender;
+  globals.RTCRtpTransceiver = FakeRTCRtpTransceiver;
+  globals.RTCDataChannel = FakeRTCDataChannel;
+  globals.MediaStream = FakeMediaStream;
+  globals.MediaStreamTrack = FakeMediaStreamTrack;
+
+  Object.defineProperty(globalThis.navigator, 'mediaDevices', {
+    configurable: true,
+    value: {
+      getDisplayMedia: async (options: FakeDisplayMediaOptions = {}) =>
+        new FakeMediaStream([
+          new FakeMediaStreamTrack('video', undefined, 'screen:0'),
+          ...(options.audio ? [new FakeMediaStreamTrack('audio', undefined, 'system audio')] : []),
+        ]),
+      getUserMedia: async () =>
+        new FakeMediaStream([
+          new FakeMediaStreamTrack('video', undefined, 'camera'),
+          new FakeMediaStreamTrack('audio', undefined, 'microphone'),
+        ]),
+      enumerateDevices: async () => [],
+      addEventListener: () => {},
+      removeEventListener: () => {},
+    },
+  });
+}
+
+export function resetFakeWebRTC(): void {
+  FakeRTCPeerConnection.instances = [];
+}
@@ -0,0 +1,204 @@
+import { act, renderHook, RenderHookResult } from '@testing-library/react';
+import { vi } from 'vitest';
+
+import { useWebRTCFirebase } from '../hooks/useWebRTCFirebase';
+import { createMemorySignalingBus, MemorySignalingBus } from '../signaling';
+import { FakeMediaStreamTrack, FakeRTCPeerConnection } from './fakeWebRTC';
+
+type HookResult = ReturnType<typeof useWebRTCFirebase>;
+type HookProps = Parameters<typeof useWebRTCFirebase>[0];
+// Extra hook props for a participant; the room and transport come from the test room
+export type ParticipantOptions = Omit<HookProps, 'roomId' | 'transport'> & {
+  // Have the host let the participant in straight away (default true)
+  admit?: boolean;
+};
+
+export interface TestParticipant {
+  name: string;
+  readonly userId: string;
+  // Latest value returned by the hook
+  readonly state: HookResult;
+  share: () => Promise<MediaStream | null>;
+  stopSharing: () => Promise<void>;
+  // Ends the shared tracks as if the browser's "Stop sharing" bar was used
+  endShareFromBrowser: () => Promise<void>;
+  // eslint-disable-next-line no-unused-vars
+  submitPasscode: (passcode: string) => Promise<void>;
+  // eslint-disable-next-line no-unused-vars
+  admit: (peer: TestParticipant) => Promise<void>;
+  // eslint-disable-next-line no-unused-vars
+  deny: (peer: TestParticipant) => Promise<void>;
+  // Runs a hook action (e.g. a host control) inside act() and lets the room settle
+  // eslint-disable-next-line no-unused-vars
+  act: (action: (state: HookResult) => void) => Promise<void>;
+  // eslint-disable-next-line no-unused-vars
+  connectionTo: (peer: TestParticipant) => FakeRTCPeerConnection | undefined;
+  leave: () => Promise<void>;
+  // Goes away without telling the room, like a crashed tab or a lost network
+  crash: () => Promise<void>;
+}
+
+export interface TestRoom {
+  roomId: string;
+  bus: MemorySignalingBus;
+  participants: TestParticipant[];
+  // eslint-disable-next-line no-unused-vars
+  join: (name: string, options?: ParticipantOptions) => Promise<TestParticipant>;
+  // eslint-disable-next-line no-unused-vars
+  settle: (ms?: number) => Promise<void>;
+}
+
+// Connection ownership is recovered from the signaling traffic: the fake SDP of every offer
+// and answer names the connection that produced it.
+const findConnection = (
+  bus: MemorySignalingBus,
+  from: string,
+  target: string
+): FakeRTCPeerConnection | undefined => {
+  const connectionIds = bus.sent
+    .filter(({ message }) => message.from === from && message.target === target && message.sdp)
+    .map(({ message }) => JSON.parse(message.sdp?.sdp ?? '{}').connectionId as string);
+  const latest = connectionIds[connectionIds.length - 1];
+
+  return FakeRTCPeerConnection.instances.find(pc => pc.connectionId === latest);
+};
+
+// React can't handle overlapping act() scopes, which concurrent helpers (e.g. two participants
+// sharing at the same time) would otherwise open; run them one after another instead
+let actQueue: Promise<void> = Promise.resolve();
+const serialAct = (callback: () => Promise<void>): Promise<void> => {
+  const run = actQueue.then(() => act(callback));
+  actQueue = run.catch(() => {});
+  return run;
+};
+
+// Advance fake timers and flush the resulting promise chains inside act()
+const advance = (ms: number): Promise<void> =>
+  serialAct(async () => {
+    await vi.advanceTimersByTimeAsync(ms);
+  });
+
+// Passcode hashing uses WebCrypto, which runs on the real clock; poll until the hook is done
+// joining instead of trusting a fixed amount of fake time. Every poll gets its own act() scope:
+// React only renders the hook's updates once a scope ends.
+const realSetTimeout = globalThis.setTimeout;
+const waitForJoinAttempt = async (hook: RenderHookResult<HookResult, HookProps>) => {
+  let polls = 0;
+  do {
+    if (polls++ >= 500) throw new Error('Still joining');
+    await serialAct(async () => {
+      await new Promise(resolve => realSetTimeout(resolve, 10));
+      await vi.advanceTimersByTimeAsync(10);
+    });
+  } while (hook.result.current.isLoading);
+};
+
+// A room of simulated participants, each running its own copy of useWebRTCFirebase against a
+// shared in-memory signaling bus. Requires vi.useFakeTimers() and installFakeWebRTC().
+export function createTestRoom(roomId = 'test-room'): TestRoom {
+  const bus = createMemorySignalingBus();
+  const participants: TestParticipant[] = [];
+
+  const settle = (ms = 15000) => advance(ms);
+
+  const join = async (
+    name: string,
+    { admit = true, ...options }: ParticipantOptions = {}
+  ): Promise<TestParticipant> => {
+    // Viewers come in through a viewer link, which any transport of the room can make
+    const linkId = options.viewOnly ? await bus.createTransport(roomId).getViewerRoomId() : roomId;
+    const transport = bus.createTransport(linkId, options.viewOnly);
+    let crashed = false;
+    const { leave } = transport;
+    transport.leave = userId => (crashed ? Promise.resolve() : leave(userId));
+    const initialProps: HookProps = { ...options, roomId: linkId, transport };
+    const hook: RenderHookResult<HookResult, HookProps> = renderHook(
+      props => useWebRTCFirebase(props),
+      { initialProps }
+    );
+
+    const participant: TestParticipant = {
+      name,
+      get userId() {
+        return hook.result.current.userId;
+      },
+      get state() {
+        return hook.result.current;
+      },
+      share: async () => {
+        let stream: MediaStream | null = null;
+        let done = false;
+        await serialAct(async () => {
+          hook.result.current.shareScreen().then(result => {
+            stream = result;
+            done = true;
+          });
+        });
+        await advance(15000);
+        while (!done) await advance(1000);
+        return stream;
+      },
+      stopSharing: async () => {
+        await act(async () => {
+          hook.result.current.stopSharing();
+        });
+      },
+      endShareFromBrowser: async () => {
+        await act(async () => {
+          hook.result.current.localStream?.getTracks().forEach(track => {
+            (track as unknown as FakeMediaStreamTrack).end();
+          });
+        });
+      },
+      submitPasscode: async passcode => {
+        await act(async () => {
+          hook.result.current.submitPasscode(passcode);
+        });
+        await waitForJoinAttempt(hook);
+        await settle();
+      },
+      admit: async peer => {
+        await act(async () => {
+          hook.result.current.admitUser(peer.userId);
+        });
+        await settle();
+      },
+      deny: async peer => {
+        await act(async () => {
+          hook.result.current.denyUser(peer.userId);
+        });
+        await settle();
+      },
+      act: async action => {
+        await act(async () => {
+          action(hook.result.current);
+        });
+        await settle();
+      },
+      connectionTo: peer => findConnection(bus, participant.userId, peer.userId),
+      leave: async () => {
+        await act(async () => {
+          hook.unmount();
+        });
+        participants.splice(participants.indexOf(participant), 1);
+      },
+      crash: async () => {
+        crashed = true;
+        await participant.leave();
+      },
+    };
+
+    participants.push(participant);
+    await settle();
+    await waitForJoinAttempt(hook);
+    await settle();
+
+    const host = participants.find(other => other.state.isHost);
+    if (admit && host && participant.state.admissionStatus === 'pending') {
+      await host.admit(participant);
+    }
+    return participant;
+  };
+
+  return { roomId, bus, participants, join, settle };
+}
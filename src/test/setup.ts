@@ -0,0 +1,22 @@
+import { cleanup } from '@testing-library/react';
+import { afterEach, beforeEach, vi } from 'vitest';
+
+import { installFakeWebRTC, resetFakeWebRTC } from './fakeWebRTC';
+
+installFakeWebRTC();
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // The hook logs every signaling step; keep test output readable
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'dir').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  cleanup();
+  resetFakeWebRTC();
+  vi.clearAllTimers();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
@@ -0,0 +1,74 @@
+import { ChildProcess, spawn } from 'child_process';
+import { createServer } from 'net';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+import { SIGNALING_PATH } from '../signaling/wsProtocol';
+
+export interface TestSignalingServer {
+  // e.g. http://localhost:40123, for the HTTP endpoints
+  httpUrl: string;
+  // e.g. ws://localhost:40123/signaling, for sockets and the WebSocket transport
+  signalingUrl: string;
+  stop: () => Promise<void>;
+}
+
+const STARTUP_TIMEOUT_MS = 20000;
+
+const findFreePort = (): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', reject);
+    probe.listen(0, () => {
+      const address = probe.address();
+      probe.close(() => resolve(typeof address === 'object' && address ? address.port : 0));
+    });
+  });
+
+// Runs the real server.ts in a child process, the way `npm run server` does, so tests talk to
+// it over actual sockets. env adds to (or overrides) the server's environment.
+export async function startSignalingServer(
+  env: Record<string, string> = {}
+): Promise<TestSignalingServer> {
+  const port = await findFreePort();
+  const child: ChildProcess = spawn(process.execPath, ['--import', 'tsx', 'server.ts'], {
+    cwd: path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../..'),
+    env: { ...process.env, NODE_ENV: 'test', ...env, PORT: String(port) },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  let output = '';
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`Signaling server did not start:\n${output}`));
+    }, STARTUP_TIMEOUT_MS);
+    const onOutput = (chunk: Buffer) => {
+      output += chunk.toString();
+      if (output.includes('Signaling server running')) {
+        clearTimeout(timer);
+        resolve();
+      }
+    };
+    child.stdout?.on('data', onOutput);
+    child.stderr?.on('data', onOutput);
+    child.once('exit', code => {
+      clearTimeout(timer);
+      reject(new Error(`Signaling server exited with ${code}:\n${output}`));
+    });
+  });
+
+  return {
+    httpUrl: `http://localhost:${port}`,
+    signalingUrl: `ws://localhost:${port}${SIGNALING_PATH}`,
+    stop: () =>
+      new Promise(resolve => {
+        if (child.exitCode !== null) {
+          resolve();
+          return;
+        }
+        child.once('exit', () => resolve());
+        child.kill();
+      }),
+  };
+}